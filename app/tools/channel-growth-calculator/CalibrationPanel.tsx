@@ -0,0 +1,243 @@
+// app/tools/channel-growth-calculator/CalibrationPanel.tsx
+// Client component — calibrate the growth model against a channel's real follower history (Tool #4)
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  parseFollowerHistory,
+  calibrateGrowthModel,
+  formatFollowerCount,
+  formatCommaNumber,
+  FOLLOWER_HISTORY_EXAMPLE,
+  MIN_POINTS_FOR_CAPACITY,
+  type GrowthInputs,
+} from '@/lib/utils/growth-model';
+
+interface CalibrationPanelProps {
+  /** Calculator inputs — niche, posts and engagement drive the uncalibrated comparison */
+  inputs: GrowthInputs;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const COLORS = {
+  actual: '#0f172a',       // slate-900
+  calibrated: '#3b82f6',   // blue-500
+  band: '#93c5fd',         // blue-300
+  nicheDefault: '#94a3b8', // slate-400
+};
+
+const MAX_ERRORS_SHOWN = 3;
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+/** Chart x values are months from the last data point: history is negative, the forecast positive */
+const formatMonth = (month: number) => (month === 0 ? 'Now' : month > 0 ? `M${month}` : `${Math.round(month)}m`);
+
+// ============================================================
+// Component
+// ============================================================
+
+export default function CalibrationPanel({ inputs }: CalibrationPanelProps) {
+  const [historyText, setHistoryText] = useState('');
+
+  const history = useMemo(() => parseFollowerHistory(historyText), [historyText]);
+  const result = useMemo(
+    () => (history.points.length > 0 ? calibrateGrowthModel(history.points, inputs) : null),
+    [history, inputs]
+  );
+  const calibration = result?.ok ? result.calibration : null;
+
+  // History and forecast share one line; the band and niche curve start at the last actual count
+  const chartData = useMemo(() => {
+    if (!calibration) return [];
+    const last = calibration.history[calibration.history.length - 1];
+    return [
+      ...calibration.history.map((p) => ({ month: p.month, actual: p.followers, calibrated: p.fitted })),
+      { month: 0, band: [last.fitted, last.fitted], nicheDefault: last.followers },
+      ...calibration.projection.map((m) => ({
+        month: m.month,
+        calibrated: m.expected,
+        band: [m.lower, m.upper],
+        nicheDefault: m.nicheDefault,
+      })),
+    ];
+  }, [calibration]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setHistoryText(await file.text());
+  };
+
+  const final = calibration?.projection[calibration.projection.length - 1];
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h3 className="mb-1 text-lg font-semibold text-gray-900">Calibrate with Your History</h3>
+      <p className="mb-4 text-sm text-gray-500">
+        Paste past follower counts to fit the model to your channel&apos;s real trajectory.
+      </p>
+
+      <div className="mb-1 flex items-center justify-between">
+        <label htmlFor="follower-history" className="block text-sm font-medium text-gray-700">
+          Follower history <span className="font-normal text-gray-400">(date, followers)</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => setHistoryText(FOLLOWER_HISTORY_EXAMPLE)}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline"
+        >
+          Load example
+        </button>
+      </div>
+      <textarea
+        id="follower-history"
+        value={historyText}
+        onChange={(e) => setHistoryText(e.target.value)}
+        placeholder={'date,followers\n2025-01-01,1200\n2025-02-01,1410'}
+        rows={5}
+        className="w-full resize-y rounded-lg border border-gray-300 px-4 py-2.5 font-mono text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      />
+      <div className="mt-1 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+        <span>
+          One row per date (YYYY-MM-DD). Monthly counts work best; {MIN_POINTS_FOR_CAPACITY}+ rows also fit
+          your channel&apos;s capacity.
+        </span>
+        <label className="cursor-pointer text-blue-600 hover:underline">
+          Upload .csv
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="sr-only"
+            aria-label="Upload follower history CSV"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+
+      {/* Problems */}
+      {history.errors.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-xs text-red-500">
+          {history.errors.slice(0, MAX_ERRORS_SHOWN).map((e) => (
+            <li key={e.line}>
+              Line {e.line}: {e.message}
+            </li>
+          ))}
+          {history.errors.length > MAX_ERRORS_SHOWN && (
+            <li>…and {history.errors.length - MAX_ERRORS_SHOWN} more</li>
+          )}
+        </ul>
+      )}
+      {result && !result.ok && <p className="mt-3 text-sm text-amber-600">{result.error}</p>}
+
+      {/* Fit */}
+      {calibration && final && (
+        <div className="mt-6">
+          <div className="mb-4 grid gap-3 sm:grid-cols-4">
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Your growth now</p>
+              <p className="text-lg font-semibold text-gray-900">{formatRate(calibration.currentRate)}/mo</p>
+              <p className="text-xs text-gray-500">Niche model: {formatRate(calibration.nicheCurrentRate)}/mo</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Capacity</p>
+              <p className="text-lg font-semibold text-gray-900">{formatFollowerCount(calibration.capacity)}</p>
+              <p className="text-xs text-gray-500">{calibration.capacityFitted ? 'Fitted to your history' : 'Niche default'}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Goodness of fit (R²)</p>
+              <p className="text-lg font-semibold text-gray-900">{calibration.fit.rSquared.toFixed(3)}</p>
+              <p className="text-xs text-gray-500">Avg error {calibration.fit.mape.toFixed(1)}%</p>
+            </div>
+            <div className="rounded-lg bg-blue-50 px-4 py-3">
+              <p className="text-xs text-gray-500">In 12 months</p>
+              <p className="text-lg font-semibold text-blue-600">{formatCommaNumber(final.expected)}</p>
+              <p className="text-xs text-gray-500">
+                95%: {formatFollowerCount(final.lower)}–{formatFollowerCount(final.upper)}
+              </p>
+            </div>
+          </div>
+
+          <div className="h-[300px] w-full sm:h-[350px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                <XAxis
+                  dataKey="month"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatMonth}
+                  tick={{ fontSize: 12 }}
+                  stroke="#94a3b8"
+                />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  stroke="#94a3b8"
+                  tickFormatter={(val: number) => formatFollowerCount(val)}
+                />
+                <Tooltip
+                  labelFormatter={(month: number) => formatMonth(month)}
+                  formatter={(value: number | number[]) =>
+                    Array.isArray(value) ? value.map(formatCommaNumber).join(' – ') : formatCommaNumber(value)
+                  }
+                />
+                <Legend />
+                <Area
+                  dataKey="band"
+                  name="95% range"
+                  stroke="none"
+                  fill={COLORS.band}
+                  fillOpacity={0.35}
+                  connectNulls
+                />
+                <Line
+                  dataKey="nicheDefault"
+                  name="Niche default"
+                  stroke={COLORS.nicheDefault}
+                  strokeDasharray="5 4"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+                <Line
+                  dataKey="calibrated"
+                  name="Calibrated"
+                  stroke={COLORS.calibrated}
+                  strokeWidth={2.5}
+                  dot={false}
+                  connectNulls
+                />
+                <Line
+                  dataKey="actual"
+                  name="Actual"
+                  stroke="none"
+                  dot={{ r: 3, fill: COLORS.actual }}
+                  legendType="circle"
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {formatCommaNumber(final.expected)} followers in 12 months on your trend, vs{' '}
+            {formatCommaNumber(final.nicheDefault)} with the niche defaults. The shaded range is a 95% band.
+            It widens with fewer or noisier data points.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+// app/tools/channel-growth-calculator/CampaignEvents.tsx
+// Client component — dated shoutouts, promos and schedule changes for the growth projection (Tool #4)
+
+'use client';
+
+import {
+  GROWTH_EVENT_TYPES,
+  GROWTH_EVENT_LABELS,
+  MAX_GROWTH_EVENTS,
+  type GrowthEvent,
+  type GrowthEventType,
+} from '@/lib/utils/growth-model';
+
+interface CampaignEventsProps {
+  events: GrowthEvent[];
+  onChange: (events: GrowthEvent[]) => void;
+  /** Events after the last projected month are kept but not applied */
+  horizonMonths: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const TYPE_HINTS: Record<GrowthEventType, string> = {
+  injection: 'One-off followers, e.g. a cross-promotion or giveaway',
+  boost: 'Extra growth that fades, e.g. an ad burst or a viral post',
+  frequency: 'New posts per week from this month on',
+};
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20';
+
+/** A fresh event of the given type, keeping the month and label of the one it replaces */
+function defaultEvent(type: GrowthEventType, month: number, label?: string): GrowthEvent {
+  switch (type) {
+    case 'injection':
+      return { type, month, followers: 1000, label };
+    case 'boost':
+      return { type, month, percent: 100, halfLifeMonths: 1, label };
+    case 'frequency':
+      return { type, month, postsPerWeek: 7, label };
+  }
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export default function CampaignEvents({ events, onChange, horizonMonths }: CampaignEventsProps) {
+  const update = (index: number, event: GrowthEvent) =>
+    onChange(events.map((e, i) => (i === index ? event : e)));
+
+  const remove = (index: number) => onChange(events.filter((_, i) => i !== index));
+
+  const add = () => onChange([...events, defaultEvent('injection', Math.min(3, horizonMonths))]);
+
+  return (
+    <div className="mt-6 border-t border-gray-100 pt-6">
+      <div className="mb-1 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Campaigns &amp; Events</h3>
+        <button
+          type="button"
+          onClick={add}
+          disabled={events.length >= MAX_GROWTH_EVENTS}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline disabled:cursor-not-allowed disabled:text-gray-400 disabled:no-underline"
+        >
+          + Add event
+        </button>
+      </div>
+      <p className="mb-3 text-xs text-gray-500">
+        Plan shoutouts, paid promos or a new posting schedule and compare the result against your baseline.
+      </p>
+
+      {events.length > 0 && (
+        <ul className="space-y-3">
+          {events.map((event, i) => (
+            <li key={i} className="rounded-lg bg-gray-50 p-3">
+              <div className="grid gap-3 sm:grid-cols-[1.4fr_0.6fr_1fr_1fr_auto] sm:items-end">
+                <div>
+                  <label htmlFor={`event-type-${i}`} className="mb-1 block text-xs text-gray-500">
+                    Type
+                  </label>
+                  <select
+                    id={`event-type-${i}`}
+                    value={event.type}
+                    onChange={(e) => update(i, defaultEvent(e.target.value as GrowthEventType, event.month, event.label))}
+                    title={TYPE_HINTS[event.type]}
+                    className={INPUT_CLASS}
+                  >
+                    {GROWTH_EVENT_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {GROWTH_EVENT_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor={`event-month-${i}`} className="mb-1 block text-xs text-gray-500">
+                    Month
+                  </label>
+                  <input
+                    id={`event-month-${i}`}
+                    type="number"
+                    min={1}
+                    max={horizonMonths}
+                    value={event.month}
+                    onChange={(e) => update(i, { ...event, month: Math.round(Number(e.target.value)) })}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+
+                {event.type === 'injection' && (
+                  <div className="sm:col-span-2">
+                    <label htmlFor={`event-followers-${i}`} className="mb-1 block text-xs text-gray-500">
+                      Followers gained
+                    </label>
+                    <input
+                      id={`event-followers-${i}`}
+                      type="number"
+                      min={1}
+                      value={event.followers}
+                      onChange={(e) => update(i, { ...event, followers: Math.round(Number(e.target.value)) })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+                {event.type === 'boost' && (
+                  <>
+                    <div>
+                      <label htmlFor={`event-percent-${i}`} className="mb-1 block text-xs text-gray-500">
+                        Extra growth %
+                      </label>
+                      <input
+                        id={`event-percent-${i}`}
+                        type="number"
+                        min={1}
+                        value={event.percent}
+                        onChange={(e) => update(i, { ...event, percent: Number(e.target.value) })}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`event-half-life-${i}`} className="mb-1 block text-xs text-gray-500">
+                        Halves every (months)
+                      </label>
+                      <input
+                        id={`event-half-life-${i}`}
+                        type="number"
+                        min={0.25}
+                        step={0.25}
+                        value={event.halfLifeMonths}
+                        onChange={(e) => update(i, { ...event, halfLifeMonths: Number(e.target.value) })}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  </>
+                )}
+                {event.type === 'frequency' && (
+                  <div className="sm:col-span-2">
+                    <label htmlFor={`event-posts-${i}`} className="mb-1 block text-xs text-gray-500">
+                      Posts per week from then on
+                    </label>
+                    <input
+                      id={`event-posts-${i}`}
+                      type="number"
+                      min={0}
+                      max={50}
+                      value={event.postsPerWeek}
+                      onChange={(e) => update(i, { ...event, postsPerWeek: Number(e.target.value) })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  aria-label={`Remove event ${i + 1}`}
+                  className="rounded-lg px-2 py-2 text-sm text-gray-400 hover:bg-gray-100 hover:text-red-500"
+                >
+                  ✕
+                </button>
+              </div>
+              <input
+                type="text"
+                value={event.label ?? ''}
+                onChange={(e) => update(i, { ...event, label: e.target.value || undefined })}
+                placeholder="Label (optional), e.g. Podcast shoutout"
+                maxLength={40}
+                aria-label={`Event ${i + 1} label`}
+                className={`${INPUT_CLASS} mt-2`}
+              />
+              {event.month > horizonMonths && (
+                <p className="mt-1 text-xs text-amber-600">
+                  After month {horizonMonths}, so it isn&apos;t applied. Pick a longer horizon to include it.
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
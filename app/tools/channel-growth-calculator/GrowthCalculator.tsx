@@ -4,9 +4,11 @@
 'use client';
 
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { useRouter, useSearchParams } from 'next/navigation';
+import { useRouter } from 'next/navigation';
 import {
   LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -14,23 +16,41 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from 'recharts';
 import { useAuth } from '@/lib/AuthContext';
+import { useUrlState } from '@/lib/useUrlState';
+import { numberParam, enumParam } from '@/lib/utils/url-state';
 import { getNicheById, NICHE_OPTIONS, NICHE_DATA } from '@/lib/data/niche-data';
 import {
   calculateProjections,
   calculateMilestones,
   calculateMonetization,
   calculateBenchmark,
+  calculateChurnRate,
+  simulateGrowth,
+  eventPoint,
+  describeGrowthEvent,
+  GROWTH_EVENT_LABELS,
+  formatProjectionStep,
+  formatProjectionTime,
+  DEFAULT_HORIZON_MONTHS,
+  HEALTHY_POSTS_PER_WEEK,
+  HORIZON_OPTIONS,
+  PROJECTION_STEPS,
   formatFollowerCount,
   formatCurrency,
   formatCommaNumber,
   type GrowthInputs,
+  type GrowthEvent,
+  type ProjectionStep,
 } from '@/lib/utils/growth-model';
 import SEOContent from '@/components/tools/SEOContent';
 import ToolCTA from '@/components/tools/ToolCTA';
 import RelatedTools from '@/components/tools/RelatedTools';
 import PrivacyBadge from '@/components/tools/PrivacyBadge';
+import CalibrationPanel from './CalibrationPanel';
+import CampaignEvents from './CampaignEvents';
 
 // ============================================================
 // Constants
@@ -40,8 +60,31 @@ const CHART_COLORS = {
   conservative: '#94a3b8', // slate-400 — colorblind-safe
   expected: '#3b82f6',     // blue-500
   optimistic: '#22c55e',   // green-500
+  band: '#93c5fd',         // blue-300
+  baseline: '#64748b',     // slate-500
+  event: '#f59e0b',        // amber-500
 };
 
+type ForecastMode = 'scenarios' | 'simulation';
+
+const FORECAST_MODES: { id: ForecastMode; label: string; hint: string }[] = [
+  { id: 'scenarios', label: 'Scenarios', hint: 'Conservative, expected and optimistic curves' },
+  { id: 'simulation', label: 'Simulation', hint: '1,000 simulated runs with P10-P90 bands' },
+];
+
+// Shareable inputs: ?followers=5000&posts=5&engagement=7.5&niche=tech&horizon=24&step=week&forecast=simulation
+const URL_SCHEMA = {
+  followers: numberParam(0, { min: 0, max: 10_000_000, integer: true }),
+  posts: numberParam(3, { min: 1, max: 30, integer: true }),
+  engagement: numberParam(5, { min: 0.1, max: 50 }),
+  niche: enumParam('general', NICHE_DATA.map((nd) => nd.id)),
+  horizon: numberParam(DEFAULT_HORIZON_MONTHS, { min: 12, max: 36, integer: true }),
+  step: enumParam<ProjectionStep>('month', PROJECTION_STEPS),
+  forecast: enumParam<ForecastMode>('scenarios', FORECAST_MODES.map((f) => f.id)),
+};
+
+const STEP_LABELS: Record<ProjectionStep, string> = { month: 'Monthly', week: 'Weekly' };
+
 const RELATED_TOOLS = [
   {
     name: 'WhatsApp vs Telegram',
@@ -87,7 +130,7 @@ const SEO_SECTIONS = [
   {
     heading: 'How the Growth Calculator Works',
     content:
-      "This calculator uses a logistic growth model with dampening. The base monthly growth rate (5%) is modified by two multipliers: engagement (how your rate compares to the niche average, capped at 2.5x) and frequency (based on posts per week, capped at 1.5x). As your follower count approaches the estimated niche capacity, a dampening factor reduces the growth rate — mimicking real-world saturation where large channels grow proportionally slower. Three scenarios are projected: conservative (0.6x), expected (1.0x), and optimistic (1.5x). All projections are estimates based on modeled assumptions, not guaranteed outcomes.",
+      "This calculator uses a logistic growth model with dampening. The base monthly growth rate (5%) is modified by two multipliers: engagement (how your rate compares to the niche average, capped at 2.5x) and frequency (based on posts per week, capped at 1.5x). As your follower count approaches the estimated niche capacity, a dampening factor reduces the growth rate — mimicking real-world saturation where large channels grow proportionally slower. Unfollows are subtracted every month: each niche has a base churn rate at 3-7 posts per week, and posting less (followers forget you) or more (notification fatigue) raises it, so a channel near capacity or posting rarely can shrink. Three scenarios are projected: conservative (0.6x), expected (1.0x), and optimistic (1.5x), over 12, 24 or 36 months in monthly or weekly steps. Weekly steps spread each month's rate across its weeks, and milestones past the horizon are estimated by running the model on. Planned campaigns can be added as dated events: a shoutout adds followers in its month, a growth boost raises the rate and fades by half over a set time, and a schedule change sets a new posting frequency from that month on. The chart marks each event and keeps a dashed baseline without them. If you paste your channel's follower history, the calculator fits the growth rate and capacity to your real counts with least squares, then shows that calibrated curve next to the niche default with a 95% confidence band. All projections are estimates based on modeled assumptions, not guaranteed outcomes.",
   },
 ];
 
@@ -112,6 +155,26 @@ const SEO_FAQS = [
     answer:
       'Share your channel link everywhere, post 3-5 times per week, create reaction-driving content, cross-post from other platforms with automation, and promote in WhatsApp groups.',
   },
+  {
+    question: 'Can I base the projection on my own follower history?',
+    answer:
+      'Yes. Paste or upload dated follower counts (one "date, followers" row each) under Calibrate with Your History. The calculator fits your growth rate to them, and with 6 or more points your capacity too, then projects 12 months ahead with a 95% range and shows how closely the fit matches (R² and average error). Your data never leaves your browser.',
+  },
+  {
+    question: 'How often should I post to keep followers?',
+    answer:
+      'Between 3 and 7 posts per week keeps unfollows at your niche baseline, about 1-2% of followers a month. Going quiet raises churn because followers forget why they joined, and posting more than once a day raises it through notification fatigue. The Follower Flow card shows how many followers you are projected to gain and lose at your current pace.',
+  },
+  {
+    question: 'Can I model a shoutout or paid promotion?',
+    answer:
+      'Yes. Under Campaigns & Events, add a one-off follower gain (a cross-promotion or giveaway), a temporary growth boost that fades over time (an ad burst or a viral post), or a change to how often you post from a given month. The projection applies them, marks them on the chart, and compares the result with your baseline without the events.',
+  },
+  {
+    question: 'What does the Simulation forecast show?',
+    answer:
+      'Instead of three fixed scenarios, the calculator runs 1,000 simulated futures for your channel, each with its own growth rate, audience ceiling and good or bad months. The shaded band covers the middle 80% of outcomes (P10 to P90), the line is the median, and each milestone shows the share of runs that reach it within your horizon.',
+  },
   {
     question: 'Can you automate WhatsApp Channel posting?',
     answer:
@@ -123,6 +186,13 @@ const SEO_FAQS = [
 // Custom Tooltip
 // ============================================================
 
+/** "72%", with "<1%" / ">99%" so a rare outcome never reads as impossible or certain */
+function formatChance(p: number): string {
+  if (p > 0 && p < 0.01) return '<1%';
+  if (p < 1 && p > 0.99) return '>99%';
+  return `${Math.round(p * 100)}%`;
+}
+
 function ChartTooltip({ active, payload, label }: any) {
   if (!active || !payload?.length) return null;
   return (
@@ -130,7 +200,10 @@ function ChartTooltip({ active, payload, label }: any) {
       <p className="mb-1 text-sm font-medium text-gray-700">{label}</p>
       {payload.map((entry: any) => (
         <p key={entry.name} className="text-sm" style={{ color: entry.color }}>
-          {entry.name}: {formatCommaNumber(entry.value)}
+          {entry.name}:{' '}
+          {Array.isArray(entry.value)
+            ? entry.value.map(formatCommaNumber).join(' – ')
+            : formatCommaNumber(entry.value)}
         </p>
       ))}
     </div>
@@ -143,7 +216,6 @@ function ChartTooltip({ active, payload, label }: any) {
 
 export default function GrowthCalculator() {
   const router = useRouter();
-  const searchParams = useSearchParams();
   const { user, loading: authLoading } = useAuth();
   const chartRef = useRef<HTMLDivElement>(null);
 
@@ -153,35 +225,32 @@ export default function GrowthCalculator() {
   const [postsPerWeek, setPostsPerWeek] = useState(3);
   const [engagementRate, setEngagementRate] = useState(5);
   const [nicheId, setNicheId] = useState('general');
+  const [horizonMonths, setHorizonMonths] = useState(DEFAULT_HORIZON_MONTHS);
+  const [step, setStep] = useState<ProjectionStep>('month');
+  const [forecast, setForecast] = useState<ForecastMode>('scenarios');
+  const [events, setEvents] = useState<GrowthEvent[]>([]);
 
   // ----- State -----
   const [pdfLoading, setPdfLoading] = useState(false);
   const [autoDownloadPDF, setAutoDownloadPDF] = useState(false);
 
-  // ----- URL params on mount -----
-  useEffect(() => {
-    const f = searchParams.get('followers');
-    const p = searchParams.get('posts');
-    const e = searchParams.get('engagement');
-    const n = searchParams.get('niche');
-
-    if (f) {
-      const num = parseInt(f, 10);
-      if (!isNaN(num) && num >= 0 && num <= 10_000_000) {
-        setFollowers(num);
-        setFollowersDisplay(num.toLocaleString('en-US'));
+  // ----- URL params (read on mount, kept in sync) -----
+  useUrlState(
+    URL_SCHEMA,
+    { followers, posts: postsPerWeek, engagement: engagementRate, niche: nicheId, horizon: horizonMonths, step, forecast },
+    ({ followers: f, posts, engagement, niche: n, horizon, step: s, forecast: fc }) => {
+      if (f !== undefined) {
+        setFollowers(f);
+        setFollowersDisplay(f.toLocaleString('en-US'));
       }
+      if (posts !== undefined) setPostsPerWeek(posts);
+      if (engagement !== undefined) setEngagementRate(engagement);
+      if (n !== undefined) setNicheId(n);
+      if (horizon !== undefined) setHorizonMonths(horizon);
+      if (s !== undefined) setStep(s);
+      if (fc !== undefined) setForecast(fc);
     }
-    if (p) {
-      const num = parseInt(p, 10);
-      if (!isNaN(num) && num >= 1 && num <= 30) setPostsPerWeek(num);
-    }
-    if (e) {
-      const num = parseFloat(e);
-      if (!isNaN(num) && num >= 0.1 && num <= 50) setEngagementRate(num);
-    }
-    if (n && NICHE_DATA.some((nd) => nd.id === n)) setNicheId(n);
-  }, [searchParams]);
+  );
 
   // ----- Restore from localStorage after signup redirect -----
   useEffect(() => {
@@ -197,6 +266,9 @@ export default function GrowthCalculator() {
         if (parsed.postsPerWeek) setPostsPerWeek(parsed.postsPerWeek);
         if (parsed.engagementRate) setEngagementRate(parsed.engagementRate);
         if (parsed.nicheId) setNicheId(parsed.nicheId);
+        if (parsed.horizonMonths) setHorizonMonths(parsed.horizonMonths);
+        if (parsed.step) setStep(parsed.step);
+        if (Array.isArray(parsed.events)) setEvents(parsed.events);
         localStorage.removeItem('growth-calc-inputs');
 
         // Flag to auto-trigger PDF after restored values propagate
@@ -215,34 +287,88 @@ export default function GrowthCalculator() {
       handlePDFDownload(true);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoDownloadPDF, followers, postsPerWeek, engagementRate, nicheId]);
+  }, [autoDownloadPDF, followers, postsPerWeek, engagementRate, nicheId, horizonMonths, step, events]);
 
   // ----- Derived data -----
   const niche = useMemo(() => getNicheById(nicheId), [nicheId]);
 
   const inputs: GrowthInputs = useMemo(
-    () => ({ followers, postsPerWeek, engagementRate, niche }),
-    [followers, postsPerWeek, engagementRate, niche]
+    () => ({ followers, postsPerWeek, engagementRate, niche, horizonMonths, step, events }),
+    [followers, postsPerWeek, engagementRate, niche, horizonMonths, step, events]
   );
 
   const projections = useMemo(() => calculateProjections(inputs), [inputs]);
   const milestones = useMemo(() => calculateMilestones(inputs, projections), [inputs, projections]);
   const benchmark = useMemo(() => calculateBenchmark(inputs), [inputs]);
+  // Fixed default seed: the same inputs always show the same bands
+  const simulation = useMemo(
+    () => (forecast === 'simulation' ? simulateGrowth(inputs) : null),
+    [forecast, inputs]
+  );
 
   // Chart data
   const chartData = useMemo(() => {
     const start = followers === 0 ? 50 : followers;
     return [
-      { month: 'Now', conservative: start, expected: start, optimistic: start },
+      { month: 'Now', conservative: start, expected: start, optimistic: start, baseline: start },
       ...projections.monthly.map((m) => ({
-        month: `M${m.month}`,
+        month: formatProjectionStep(m),
         conservative: m.conservative,
         expected: m.expected,
         optimistic: m.optimistic,
+        baseline: m.baseline,
       })),
     ];
   }, [projections, followers]);
 
+  // One dashed marker per applied event, at the step it first affects
+  const eventMarkers = projections.events.map((e, i) => ({
+    key: `${i}-${e.type}-${e.month}`,
+    x: formatProjectionStep(eventPoint(e, projections.step)),
+    label: e.label || GROWTH_EVENT_LABELS[e.type],
+  }));
+  const hasBaseline = projections.summary.baseline !== undefined;
+
+  // Expected-scenario follower flow over the whole horizon
+  const flow = useMemo(
+    () =>
+      projections.monthly.reduce(
+        (total, m) => ({
+          gained: total.gained + m.grossAdds,
+          churned: total.churned + m.churned,
+          net: total.net + m.netGrowth,
+        }),
+        { gained: 0, churned: 0, net: 0 }
+      ),
+    [projections]
+  );
+  const churnRate = calculateChurnRate(postsPerWeek, niche);
+
+  const simulationData = useMemo(() => {
+    if (!simulation) return [];
+    const start = followers === 0 ? 50 : followers;
+    return [
+      { month: 'Now', band: [start, start], p50: start },
+      ...simulation.periods.map((p) => ({
+        month: formatProjectionStep(p),
+        band: [p.p10, p.p90],
+        p50: p.p50,
+      })),
+    ];
+  }, [simulation, followers]);
+
+  const summaryCards = simulation
+    ? [
+        { label: 'P10', value: simulation.summary.p10 },
+        { label: 'Median (P50)', value: simulation.summary.p50 },
+        { label: 'P90', value: simulation.summary.p90 },
+      ]
+    : [
+        { label: 'Conservative', value: projections.summary.conservative },
+        { label: 'Expected', value: projections.summary.expected },
+        { label: 'Optimistic', value: projections.summary.optimistic },
+      ];
+
   // ----- Handlers -----
   const handleFollowersChange = (val: string) => {
     const raw = val.replace(/[^0-9]/g, '');
@@ -256,22 +382,6 @@ export default function GrowthCalculator() {
     setEngagementRate(niche.avgEngagement);
   };
 
-  // ----- URL param sync -----
-  useEffect(() => {
-    const params = new URLSearchParams();
-    if (followers > 0) params.set('followers', String(followers));
-    if (postsPerWeek !== 3) params.set('posts', String(postsPerWeek));
-    if (engagementRate !== 5) params.set('engagement', String(engagementRate));
-    if (nicheId !== 'general') params.set('niche', nicheId);
-
-    const paramString = params.toString();
-    if (paramString) {
-      window.history.replaceState(null, '', `?${paramString}`);
-    } else {
-      window.history.replaceState(null, '', window.location.pathname);
-    }
-  }, [followers, postsPerWeek, engagementRate, nicheId]);
-
   // ----- PDF Download -----
   const handlePDFDownload = useCallback(
     async (autoTriggered = false) => {
@@ -279,7 +389,7 @@ export default function GrowthCalculator() {
         // Save inputs to localStorage
         localStorage.setItem(
           'growth-calc-inputs',
-          JSON.stringify({ followers, postsPerWeek, engagementRate, nicheId })
+          JSON.stringify({ followers, postsPerWeek, engagementRate, nicheId, horizonMonths, step, events })
         );
         // Redirect to signup
         router.push(
@@ -304,7 +414,7 @@ export default function GrowthCalculator() {
         setPdfLoading(false);
       }
     },
-    [user, followers, postsPerWeek, engagementRate, nicheId, inputs, projections, milestones, benchmark, router]
+    [user, followers, postsPerWeek, engagementRate, nicheId, horizonMonths, step, events, inputs, projections, milestones, benchmark, router]
   );
 
   // ============================================================
@@ -318,7 +428,7 @@ export default function GrowthCalculator() {
         WhatsApp Channel Growth Calculator
       </h1>
       <p className="mb-8 text-lg text-gray-600">
-        Free 12-month follower projections with monetization estimates and niche benchmarks.
+        Free 12- to 36-month follower projections with monetization estimates and niche benchmarks.
       </p>
 
       <PrivacyBadge />
@@ -455,7 +565,53 @@ export default function GrowthCalculator() {
               </p>
             )}
           </div>
+
+          {/* Projection Horizon + Step */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3 sm:col-span-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Horizon</span>
+              <div className="flex gap-2" role="radiogroup" aria-label="Projection horizon">
+                {HORIZON_OPTIONS.map((months) => (
+                  <button
+                    key={months}
+                    role="radio"
+                    aria-checked={horizonMonths === months}
+                    onClick={() => setHorizonMonths(months)}
+                    className={`rounded-full border px-3 py-1.5 text-sm transition ${
+                      horizonMonths === months
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : 'border-gray-200 bg-white text-gray-600 hover:border-blue-500'
+                    }`}
+                  >
+                    {months} months
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Steps</span>
+              <div className="flex gap-2" role="radiogroup" aria-label="Projection steps">
+                {PROJECTION_STEPS.map((s) => (
+                  <button
+                    key={s}
+                    role="radio"
+                    aria-checked={step === s}
+                    onClick={() => setStep(s)}
+                    className={`rounded-full border px-3 py-1.5 text-sm transition ${
+                      step === s
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : 'border-gray-200 bg-white text-gray-600 hover:border-blue-500'
+                    }`}
+                  >
+                    {STEP_LABELS[s]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
         </div>
+
+        <CampaignEvents events={events} onChange={setEvents} horizonMonths={horizonMonths} />
       </section>
 
       {/* ============================================================ */}
@@ -464,7 +620,9 @@ export default function GrowthCalculator() {
       <section className="mb-8 space-y-6">
         {/* Growth Chart */}
         <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
-          <h2 className="mb-1 text-xl font-semibold text-gray-900">12-Month Growth Projection</h2>
+          <h2 className="mb-1 text-xl font-semibold text-gray-900">
+            {projections.horizonMonths}-Month Growth Projection
+          </h2>
           {followers === 0 && (
             <p className="mb-4 text-sm text-amber-600">
               Assuming 50 initial followers from launch.
@@ -473,9 +631,66 @@ export default function GrowthCalculator() {
           <p className="mb-4 text-sm text-gray-500">
             All estimates in USD. Projections are modeled, not guaranteed.
           </p>
+          <div className="mb-4 flex gap-2" role="radiogroup" aria-label="Forecast type">
+            {FORECAST_MODES.map((f) => (
+              <button
+                key={f.id}
+                role="radio"
+                aria-checked={forecast === f.id}
+                onClick={() => setForecast(f.id)}
+                title={f.hint}
+                className={`rounded-full border px-3 py-1.5 text-sm transition ${
+                  forecast === f.id
+                    ? 'border-blue-600 bg-blue-600 text-white'
+                    : 'border-gray-200 bg-white text-gray-600 hover:border-blue-500'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
 
           <div ref={chartRef} className="h-[350px] w-full sm:h-[400px]">
             <ResponsiveContainer width="100%" height="100%">
+              {simulation ? (
+                <ComposedChart data={simulationData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+                  <XAxis dataKey="month" tick={{ fontSize: 12 }} stroke="#94a3b8" />
+                  <YAxis
+                    tick={{ fontSize: 12 }}
+                    stroke="#94a3b8"
+                    tickFormatter={(val: number) => formatFollowerCount(val)}
+                  />
+                  <Tooltip content={<ChartTooltip />} />
+                  <Legend />
+                  <Area
+                    type="monotone"
+                    dataKey="band"
+                    name="P10–P90"
+                    stroke="none"
+                    fill={CHART_COLORS.band}
+                    fillOpacity={0.45}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="p50"
+                    name="Median"
+                    stroke={CHART_COLORS.expected}
+                    strokeWidth={2.5}
+                    dot={false}
+                    activeDot={{ r: 5 }}
+                  />
+                  {eventMarkers.map((m) => (
+                    <ReferenceLine
+                      key={m.key}
+                      x={m.x}
+                      stroke={CHART_COLORS.event}
+                      strokeDasharray="4 4"
+                      label={{ value: m.label, position: 'insideTopLeft', fontSize: 11, fill: CHART_COLORS.event }}
+                    />
+                  ))}
+                </ComposedChart>
+              ) : (
               <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
                 <XAxis dataKey="month" tick={{ fontSize: 12 }} stroke="#94a3b8" />
@@ -513,41 +728,66 @@ export default function GrowthCalculator() {
                   dot={false}
                   activeDot={{ r: 4 }}
                 />
+                {hasBaseline && (
+                  <Line
+                    type="monotone"
+                    dataKey="baseline"
+                    name="Baseline (no events)"
+                    stroke={CHART_COLORS.baseline}
+                    strokeDasharray="5 4"
+                    strokeWidth={1.5}
+                    dot={false}
+                  />
+                )}
+                {eventMarkers.map((m) => (
+                  <ReferenceLine
+                    key={m.key}
+                    x={m.x}
+                    stroke={CHART_COLORS.event}
+                    strokeDasharray="4 4"
+                    label={{ value: m.label, position: 'insideTopLeft', fontSize: 11, fill: CHART_COLORS.event }}
+                  />
+                ))}
               </LineChart>
+              )}
             </ResponsiveContainer>
           </div>
+          {projections.summary.baseline !== undefined && (
+            <p className="mt-2 text-sm text-gray-600">
+              With your {projections.events.length === 1 ? 'event' : `${projections.events.length} events`}:{' '}
+              <span className="font-semibold text-blue-600">{formatCommaNumber(projections.summary.expected)}</span>{' '}
+              followers in {projections.horizonMonths} months vs {formatCommaNumber(projections.summary.baseline)}{' '}
+              baseline ({projections.summary.expected >= projections.summary.baseline ? '+' : ''}
+              {formatCommaNumber(projections.summary.expected - projections.summary.baseline)}, expected scenario).{' '}
+              <span className="text-gray-500">
+                {projections.events.map((e) => `${formatProjectionTime(e.month, 'month')}: ${describeGrowthEvent(e)}`).join(' · ')}
+              </span>
+            </p>
+          )}
+          {simulation && (
+            <p className="mt-2 text-xs text-gray-500">
+              {formatCommaNumber(simulation.runs)} simulated runs, each with its own growth rate, niche
+              capacity and month-to-month swings. 8 in 10 runs end between{' '}
+              {formatCommaNumber(simulation.summary.p10)} and {formatCommaNumber(simulation.summary.p90)}{' '}
+              followers; revenue {formatCurrency(simulation.revenue.p10)}–{formatCurrency(simulation.revenue.p90)}/mo.
+            </p>
+          )}
         </div>
 
         {/* Projection Summary Cards */}
         <div className="grid gap-4 sm:grid-cols-3">
           {[
-            {
-              label: 'Conservative',
-              value: projections.summary.conservative,
-              color: 'text-slate-600',
-              bg: 'bg-slate-50',
-              border: 'border-slate-200',
-            },
-            {
-              label: 'Expected',
-              value: projections.summary.expected,
-              color: 'text-blue-600',
-              bg: 'bg-blue-50',
-              border: 'border-blue-200',
-            },
-            {
-              label: 'Optimistic',
-              value: projections.summary.optimistic,
-              color: 'text-green-600',
-              bg: 'bg-green-50',
-              border: 'border-green-200',
-            },
-          ].map((scenario) => (
+            { color: 'text-slate-600', bg: 'bg-slate-50', border: 'border-slate-200' },
+            { color: 'text-blue-600', bg: 'bg-blue-50', border: 'border-blue-200' },
+            { color: 'text-green-600', bg: 'bg-green-50', border: 'border-green-200' },
+          ].map((style, i) => ({ ...style, ...summaryCards[i] })).map((scenario) => (
             <div
               key={scenario.label}
               className={`rounded-xl border ${scenario.border} ${scenario.bg} p-5`}
             >
-              <p className="text-sm font-medium text-gray-600">{scenario.label} (12 months)</p>
+              <p className="text-sm font-medium text-gray-600">
+                {scenario.label} ({projections.horizonMonths} months)
+              </p>
               <p className={`mt-1 text-2xl font-bold ${scenario.color}`}>
                 {formatCommaNumber(scenario.value)}
               </p>
@@ -558,6 +798,45 @@ export default function GrowthCalculator() {
           ))}
         </div>
 
+        {/* Follower Flow */}
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h3 className="mb-1 text-lg font-semibold text-gray-900">Follower Flow (Expected)</h3>
+          <p className="mb-4 text-sm text-gray-500">
+            New followers, unfollows and net change over {projections.horizonMonths} months.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-lg bg-green-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Gained</p>
+              <p className="text-lg font-semibold text-green-600">+{formatCommaNumber(flow.gained)}</p>
+            </div>
+            <div className="rounded-lg bg-red-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Unfollowed</p>
+              <p className="text-lg font-semibold text-red-500">−{formatCommaNumber(flow.churned)}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs text-gray-500">Net growth</p>
+              <p className={`text-lg font-semibold ${flow.net < 0 ? 'text-red-500' : 'text-gray-900'}`}>
+                {flow.net >= 0 ? '+' : '−'}
+                {formatCommaNumber(Math.abs(flow.net))}
+              </p>
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-gray-500">
+            Churn: about {(churnRate * 100).toFixed(1)}% of followers a month at {postsPerWeek} posts/week
+            {churnRate > niche.churnRate / 100 &&
+              ` (${niche.churnRate}% at ${HEALTHY_POSTS_PER_WEEK.min}-${HEALTHY_POSTS_PER_WEEK.max} posts/week in ${niche.label})`}
+            .
+          </p>
+          {flow.net < 0 && (
+            <p className="mt-1 text-sm text-amber-600">
+              Unfollows outpace new followers, so your channel is projected to shrink. See the tips below.
+            </p>
+          )}
+        </div>
+
+        {/* Calibration */}
+        <CalibrationPanel inputs={inputs} />
+
         {/* Benchmark Gauge */}
         <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
           <h3 className="mb-4 text-lg font-semibold text-gray-900">
@@ -615,13 +894,24 @@ export default function GrowthCalculator() {
                   </div>
                   <div className="text-right text-sm">
                     {m.monthExpected ? (
-                      <p className="font-medium text-blue-600">Month {m.monthExpected}</p>
+                      <p className="font-medium text-blue-600">
+                        {formatProjectionTime(m.monthExpected, projections.step)}
+                        {m.monthExpected > projections.horizonMonths && (
+                          <span className="font-normal text-gray-500"> (est.)</span>
+                        )}
+                      </p>
                     ) : (
-                      <p className="text-gray-400">12+ months</p>
+                      <p className="text-gray-400">10+ years</p>
                     )}
                     {m.monthOptimistic && m.monthOptimistic !== m.monthExpected && (
                       <p className="text-xs text-green-600">
-                        Optimistic: M{m.monthOptimistic}
+                        Optimistic: {formatProjectionTime(m.monthOptimistic, projections.step)}
+                      </p>
+                    )}
+                    {simulation && (
+                      <p className="text-xs text-gray-500">
+                        {formatChance(simulation.milestones.find((c) => c.target === m.target)?.probability ?? 0)}{' '}
+                        chance within {simulation.horizonMonths} months
                       </p>
                     )}
                   </div>
@@ -635,7 +925,7 @@ export default function GrowthCalculator() {
         <div className="rounded-xl border-2 border-dashed border-blue-300 bg-blue-50/50 p-6 text-center">
           <h3 className="mb-2 text-lg font-semibold text-gray-900">Get Your Full Growth Report</h3>
           <p className="mb-4 text-sm text-gray-600">
-            Month-by-month data table, detailed monetization breakdown, niche comparison,
+            Month-by-month (or week-by-week) data table, detailed monetization breakdown, niche comparison,
             personalized tips, and 30/60/90 day action plan.
           </p>
           <button
@@ -25,12 +25,15 @@ jest.mock('@/lib/AuthContext', () => ({
 jest.mock('recharts', () => ({
   ResponsiveContainer: ({ children }: any) => <div data-testid="responsive-container">{children}</div>,
   LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
+  ComposedChart: ({ children }: any) => <div data-testid="composed-chart">{children}</div>,
+  Area: () => <div data-testid="chart-area" />,
   Line: () => <div data-testid="chart-line" />,
   XAxis: () => null,
   YAxis: () => null,
   CartesianGrid: () => null,
   Tooltip: () => null,
   Legend: () => null,
+  ReferenceLine: ({ label }: any) => <div data-testid="reference-line">{label?.value}</div>,
 }));
 
 // Mock localStorage
@@ -219,3 +222,90 @@ describe('GrowthCalculator', () => {
     render(<GrowthCalculator />);
     expect(screen.queryByText(/free whatsscale account required/i)).not.toBeInTheDocument();
   });
+
+  // Test 39: Pasted follower history is fitted and charted against the niche default
+  it('calibrates the projection from follower history', () => {
+    mockUseAuth.mockReturnValue({ user: null, loading: false });
+    render(<GrowthCalculator />);
+    expect(screen.queryByTestId('composed-chart')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /load example/i }));
+
+    expect(screen.getByTestId('composed-chart')).toBeInTheDocument();
+    expect(screen.getByText(/goodness of fit/i)).toBeInTheDocument();
+    expect(screen.getByText(/fitted to your history/i)).toBeInTheDocument();
+    expect(screen.getByText(/with the niche defaults/i)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('textbox', { name: /follower history/i }), {
+      target: { value: '2025-01-01,1200\nlast week,1300' },
+    });
+    expect(screen.getByText(/line 2: "last week" is not a date/i)).toBeInTheDocument();
+    expect(screen.getByText(/add at least 3 dated follower counts/i)).toBeInTheDocument();
+    expect(screen.queryByTestId('composed-chart')).not.toBeInTheDocument();
+  });
+
+  // Test 46: Horizon and step pickers re-project the chart and cards
+  it('switches the projection horizon and step', () => {
+    mockUseAuth.mockReturnValue({ user: null, loading: false });
+    render(<GrowthCalculator />);
+    expect(screen.getByText('12-Month Growth Projection')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('radio', { name: '24 months' }));
+    fireEvent.click(screen.getByRole('radio', { name: 'Weekly' }));
+
+    expect(screen.getByText('24-Month Growth Projection')).toBeInTheDocument();
+    expect(screen.getByText(/expected \(24 months\)/i)).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: 'Weekly' })).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getByRole('radio', { name: 'Monthly' })).toHaveAttribute('aria-checked', 'false');
+  });
+
+  // Test 50: Simulation forecast swaps the scenario lines for a P10-P90 fan chart
+  it('shows simulated percentile bands and milestone chances', () => {
+    mockUseAuth.mockReturnValue({ user: null, loading: false });
+    render(<GrowthCalculator />);
+    expect(screen.getByTestId('line-chart')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Simulation' }));
+
+    expect(screen.getByTestId('composed-chart')).toBeInTheDocument();
+    expect(screen.queryByTestId('line-chart')).not.toBeInTheDocument();
+    expect(screen.getByText(/median \(p50\) \(12 months\)/i)).toBeInTheDocument();
+    expect(screen.getByText(/1,000 simulated runs/i)).toBeInTheDocument();
+    expect(screen.getAllByText(/chance within 12 months/i).length).toBeGreaterThan(0);
+  });
+
+  // Test 55: A planned shoutout is marked on the chart and compared against the baseline
+  it('adds a campaign event and compares it with the baseline', () => {
+    mockUseAuth.mockReturnValue({ user: null, loading: false });
+    render(<GrowthCalculator />);
+    expect(screen.queryByTestId('reference-line')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /add event/i }));
+    fireEvent.change(screen.getByLabelText(/followers gained/i), { target: { value: '2500' } });
+    fireEvent.change(screen.getByLabelText(/event 1 label/i), { target: { value: 'Podcast shoutout' } });
+
+    expect(screen.getByTestId('reference-line')).toHaveTextContent('Podcast shoutout');
+    expect(screen.getByText(/baseline \(\+/i)).toBeInTheDocument();
+    expect(screen.getByText(/month 3: \+2,500 followers/i)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/^month$/i), { target: { value: '20' } });
+    expect(screen.getByText(/after month 12, so it isn't applied/i)).toBeInTheDocument();
+    expect(screen.queryByTestId('reference-line')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /remove event 1/i }));
+    expect(screen.queryByText(/after month 12/i)).not.toBeInTheDocument();
+  });
+
+  // Test 61: Follower flow shows gains against unfollows and warns when the channel shrinks
+  it('shows the follower flow and a shrinking warning', () => {
+    mockUseAuth.mockReturnValue({ user: null, loading: false });
+    render(<GrowthCalculator />);
+    expect(screen.getByText('Follower Flow (Expected)')).toBeInTheDocument();
+    expect(screen.getByText('Unfollowed')).toBeInTheDocument();
+    expect(screen.queryByText(/projected to shrink/i)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/current follower count/i), { target: { value: '250000' } });
+    fireEvent.change(screen.getByLabelText(/average engagement rate/i), { target: { value: '2' } });
+
+    expect(screen.getByText(/unfollows outpace new followers, so your channel is projected to shrink/i)).toBeInTheDocument();
+  });
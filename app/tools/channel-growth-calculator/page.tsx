@@ -8,11 +8,11 @@ import GrowthCalculator from './GrowthCalculator';
 
 export const metadata: Metadata = {
   title: 'WhatsApp Channel Growth Calculator | Predict Followers & Revenue (Free)',
-  description: 'How fast can your WhatsApp Channel grow? Enter your followers, posting frequency, and engagement rate. Get 12-month projections, monetization estimates, and niche benchmarks. Free tool, no signup required.',
+  description: 'How fast can your WhatsApp Channel grow? Enter your followers, posting frequency, and engagement rate. Get 12- to 36-month projections, monetization estimates, and niche benchmarks. Free tool, no signup required.',
   keywords: 'whatsapp channel growth calculator, how to grow whatsapp channel, whatsapp channel monetization, whatsapp channel engagement rate, whatsapp channel benchmarks',
   openGraph: {
     title: 'WhatsApp Channel Growth Calculator | Predict Followers & Revenue (Free)',
-    description: 'How fast can your WhatsApp Channel grow? Enter your followers, posting frequency, and engagement rate. Get 12-month projections, monetization estimates, and niche benchmarks.',
+    description: 'How fast can your WhatsApp Channel grow? Enter your followers, posting frequency, and engagement rate. Get 12- to 36-month projections, monetization estimates, and niche benchmarks.',
     url: 'https://www.whatsscale.com/tools/channel-growth-calculator',
   },
   alternates: {
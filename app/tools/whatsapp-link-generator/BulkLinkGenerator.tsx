@@ -0,0 +1,185 @@
+// app/tools/whatsapp-link-generator/BulkLinkGenerator.tsx
+// Client component — bulk CSV mode for the Link Generator
+'use client';
+
+import { useState, useMemo } from 'react';
+import QRCode from 'qrcode';
+import { parseBulkCSV, bulkRowsToCSV, qrFileNames, BULK_EXAMPLE, MAX_BULK_ROWS, type BulkRow } from '@/lib/utils/bulk-links';
+import { createZip, dataUrlToBytes } from '@/lib/utils/zip';
+
+interface BulkLinkGeneratorProps {
+  /** Dial code for rows with an empty country column */
+  defaultDial: string;
+  qrSize?: number;
+  qrColor?: string;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkLinkGenerator({ defaultDial, qrSize = 600, qrColor = '#000000' }: BulkLinkGeneratorProps) {
+  const [csvText, setCsvText] = useState('');
+  const [rows, setRows] = useState<BulkRow[] | null>(null);
+  const [zipLoading, setZipLoading] = useState(false);
+
+  const validRows = useMemo(() => (rows ?? []).filter((r) => r.link), [rows]);
+  const errorCount = (rows?.length ?? 0) - validRows.length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    setRows(parseBulkCSV(text, defaultDial));
+  };
+
+  const handleGenerate = () => {
+    setRows(parseBulkCSV(csvText, defaultDial));
+  };
+
+  const handleDownloadCSV = () => {
+    if (!rows) return;
+    // BOM so Excel opens non-Latin names correctly
+    downloadBlob(new Blob(['\uFEFF' + bulkRowsToCSV(rows)], { type: 'text/csv;charset=utf-8' }), 'whatsapp-links.csv');
+  };
+
+  const handleDownloadZip = async () => {
+    if (validRows.length === 0) return;
+    setZipLoading(true);
+    try {
+      const names = qrFileNames(validRows);
+      const entries = [];
+      for (let i = 0; i < validRows.length; i++) {
+        const dataUrl = await QRCode.toDataURL(validRows[i].link, {
+          width: qrSize,
+          margin: 2,
+          color: { dark: qrColor, light: '#FFFFFF' },
+        });
+        entries.push({ name: names[i], data: dataUrlToBytes(dataUrl) });
+      }
+      const zip = createZip(entries);
+      downloadBlob(new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' }), 'whatsapp-qr-codes.zip');
+    } catch {
+      console.error('QR ZIP generation failed');
+    }
+    setZipLoading(false);
+  };
+
+  return (
+    <div>
+      <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="bulk-csv" className="block text-sm font-medium text-gray-700">
+            Paste CSV <span className="text-gray-400 font-normal">(name, country, phone, message)</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => { setCsvText(BULK_EXAMPLE); setRows(null); }}
+            className="text-xs text-primary hover:underline"
+          >
+            Load example
+          </button>
+        </div>
+        <textarea
+          id="bulk-csv"
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          placeholder={'name,country,phone,message\nPriya,IN,9876543210,Hi Priya!'}
+          rows={6}
+          className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:border-primary resize-y"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400 mt-1 mb-4">
+          <span>
+            Country accepts ISO code (IN), dial code (+91) or name. Blank uses +{defaultDial}. Up to {MAX_BULK_ROWS} rows.
+          </span>
+          <label className="text-primary cursor-pointer hover:underline">
+            Upload .csv
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              aria-label="Upload CSV file"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={!csvText.trim()}
+          className="w-full bg-primary text-white py-3 rounded-lg font-semibold hover:bg-primary-dark transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create Bulk Links
+        </button>
+      </div>
+
+      {/* Results */}
+      {rows && (
+        <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{validRows.length}</span> {validRows.length === 1 ? 'link' : 'links'} ready
+              {errorCount > 0 && (
+                <span className="text-red-500">
+                  {' '}· {errorCount} {errorCount === 1 ? 'row has' : 'rows have'} errors
+                </span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDownloadCSV}
+                disabled={rows.length === 0}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Download CSV
+              </button>
+              <button
+                onClick={handleDownloadZip}
+                disabled={validRows.length === 0 || zipLoading}
+                className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {zipLoading ? 'Zipping...' : 'Download QR Codes (ZIP)'}
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 pr-3 font-medium">Line</th>
+                  <th className="py-2 pr-3 font-medium">Name</th>
+                  <th className="py-2 font-medium">Link</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.line} className="border-t border-gray-200 align-top">
+                    <td className="py-2 pr-3 text-gray-400">{row.line}</td>
+                    <td className="py-2 pr-3 text-gray-900">{row.name || '—'}</td>
+                    <td className="py-2 break-all">
+                      {row.error ? (
+                        <span className="text-red-500 text-xs">{row.error}</span>
+                      ) : (
+                        <a href={row.link} target="_blank" rel="noopener noreferrer" className="text-primary font-mono text-xs hover:underline">
+                          {row.link}
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// app/tools/whatsapp-link-generator/CampaignManager.tsx
+// Client component — saved campaign links with ref codes, QR download and CSV export
+'use client';
+
+import { useState, useMemo } from 'react';
+import CopyButton from '@/components/tools/CopyButton';
+import { campaignsToCSV, parseCampaignTag, type CampaignEntry } from '@/lib/utils/campaign';
+import { slugify } from '@/lib/utils/bulk-links';
+import { qrToPNG, type QRStyle } from '@/lib/utils/qr-export';
+
+interface CampaignManagerProps {
+  entries: CampaignEntry[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  qrStyle: QRStyle;
+  qrSize: number;
+}
+
+function downloadHref(href: string, filename: string) {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+function campaignLabel(entry: CampaignEntry): string {
+  return [entry.source, entry.medium, entry.name].filter(Boolean).join(' / ') || '—';
+}
+
+export default function CampaignManager({ entries, onRemove, onClear, qrStyle, qrSize }: CampaignManagerProps) {
+  const [query, setQuery] = useState('');
+
+  // A pasted chat message matches by its ref tag; anything else is a plain search
+  const visible = useMemo(() => {
+    const q = query.trim();
+    if (!q) return entries;
+    const tag = parseCampaignTag(q);
+    if (tag) return entries.filter((e) => e.ref === tag.ref);
+    const lower = q.toLowerCase();
+    return entries.filter((e) =>
+      [e.ref, e.source, e.medium, e.name, e.phone].some((v) => v.toLowerCase().includes(lower))
+    );
+  }, [entries, query]);
+
+  const handleExport = () => {
+    // BOM so Excel opens non-Latin text correctly
+    const blob = new Blob(['\uFEFF' + campaignsToCSV(entries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    downloadHref(url, 'whatsapp-campaigns.csv');
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadQR = async (entry: CampaignEntry) => {
+    try {
+      const dataUrl = await qrToPNG(entry.link, qrStyle, qrSize);
+      downloadHref(dataUrl, `whatsapp-qr-${slugify(entry.ref) || entry.id}.png`);
+    } catch {
+      console.error('QR generation failed');
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-1">
+        <h2 className="text-lg font-semibold text-gray-900">Campaign Links</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => window.confirm('Delete all saved campaign links?') && onClear()}
+            className="px-4 py-2 text-sm text-gray-500 hover:text-red-500 transition"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Saved in this browser only. Match the ref code at the end of an incoming chat to see which campaign it came from.
+      </p>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search, or paste a chat message to find its campaign"
+        aria-label="Search campaigns"
+        className="w-full px-3 py-2 mb-3 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="py-2 pr-3 font-medium">Ref</th>
+              <th className="py-2 pr-3 font-medium">Source / Medium / Campaign</th>
+              <th className="py-2 pr-3 font-medium">Created</th>
+              <th className="py-2 font-medium">Link</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((entry) => (
+              <tr key={entry.id} className="border-t border-gray-200 align-top">
+                <td className="py-2 pr-3 font-mono text-xs font-semibold text-gray-900">{entry.ref}</td>
+                <td className="py-2 pr-3 text-gray-700">{campaignLabel(entry)}</td>
+                <td className="py-2 pr-3 text-gray-400 text-xs whitespace-nowrap">
+                  {new Date(entry.createdAt).toLocaleDateString()}
+                </td>
+                <td className="py-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <a
+                      href={entry.link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary font-mono text-xs hover:underline break-all"
+                    >
+                      {entry.link.length > 48 ? `${entry.link.slice(0, 48)}...` : entry.link}
+                    </a>
+                    <CopyButton text={entry.link} label="Copy" />
+                    <button
+                      onClick={() => handleDownloadQR(entry)}
+                      aria-label={`Download QR for ${entry.ref}`}
+                      className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:border-primary transition"
+                    >
+                      QR
+                    </button>
+                    <button
+                      onClick={() => onRemove(entry.id)}
+                      aria-label={`Delete ${entry.ref}`}
+                      className="px-2 text-gray-400 hover:text-red-500"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-4 text-center text-xs text-gray-400">No matching campaigns</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -3,23 +3,71 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
-import QRCode from 'qrcode';
 import CopyButton from '@/components/tools/CopyButton';
+import CharacterCounter from '@/components/tools/CharacterCounter';
 import SEOContent from '@/components/tools/SEOContent';
 import ToolCTA from '@/components/tools/ToolCTA';
 import RelatedTools from '@/components/tools/RelatedTools';
 import PrivacyBadge from '@/components/tools/PrivacyBadge';
+import WhatsAppPreview from '@/components/tools/WhatsAppPreview';
 import countryCodes from '@/lib/data/country-codes.json';
+import { cleanPhone, findCountry, type CountryCode } from '@/lib/utils/wa-link';
+import { parsePhone, matchDialCode } from '@/lib/utils/phone';
+import {
+  qrToPNG,
+  qrToSVG,
+  checkQRContrast,
+  normalizeHex,
+  QR_ERROR_LEVELS,
+  type QRErrorLevel,
+  type QRLogo,
+  type QRStyle,
+} from '@/lib/utils/qr-export';
+import { verifyQRImage, type QRVerification, type QRVerifyStatus } from '@/lib/utils/qr-verify';
+import {
+  buildContactPayload,
+  buildVCardFile,
+  validateContact,
+  vcfFileName,
+  CONTACT_FORMATS,
+  type ContactCard,
+  type ContactFormat,
+} from '@/lib/utils/contact-card';
+import {
+  appendCampaignTag,
+  generateRefCode,
+  normalizeRefCode,
+  loadCampaigns,
+  saveCampaigns,
+  addCampaign,
+  removeCampaign,
+  EMPTY_CAMPAIGN_TAG,
+  type CampaignEntry,
+  type CampaignTag,
+} from '@/lib/utils/campaign';
+import { loadHistory, saveHistory, addHistory, createHistoryId, type HistoryEntry } from '@/lib/utils/link-history';
+import {
+  buildLink,
+  validateChannelId,
+  validateGroupCode,
+  LINK_TYPES,
+  type LinkParts,
+  type LinkType,
+} from '@/lib/utils/link-types';
+import { useUrlState } from '@/lib/useUrlState';
+import { numberParam, stringParam, enumParam } from '@/lib/utils/url-state';
+import BulkLinkGenerator from './BulkLinkGenerator';
+import CampaignManager from './CampaignManager';
+import LinkHistory from './LinkHistory';
+import LinkParser from './LinkParser';
+import WidgetBuilder from './WidgetBuilder';
 
 // ============================================================
 // Types
 // ============================================================
-interface CountryCode {
-  code: string;
-  name: string;
-  dial: string;
-  flag: string;
-}
+type Mode = 'single' | 'contact' | 'bulk';
+
+type ContactFields = Pick<ContactCard, 'name' | 'org' | 'email' | 'website'>;
 
 // ============================================================
 // Constants
@@ -37,6 +85,57 @@ const QR_COLORS = [
   { label: 'WhatsApp Green', value: '#25D366' },
 ];
 
+const MODES: [Mode, string][] = [
+  ['single', 'Single Link'],
+  ['contact', 'Contact Card'],
+  ['bulk', 'Bulk (CSV)'],
+];
+
+const CONTACT_FIELDS: { key: keyof ContactFields; label: string; placeholder: string; type: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'Priya Sharma', type: 'text' },
+  { key: 'org', label: 'Organization', placeholder: 'Sharma Bakery', type: 'text' },
+  { key: 'email', label: 'Email', placeholder: 'priya@example.com', type: 'email' },
+  { key: 'website', label: 'Website', placeholder: 'example.com', type: 'url' },
+];
+
+const CAMPAIGN_FIELDS: { key: 'source' | 'medium' | 'name'; label: string; placeholder: string }[] = [
+  { key: 'source', label: 'Source', placeholder: 'flyer' },
+  { key: 'medium', label: 'Medium', placeholder: 'print' },
+  { key: 'name', label: 'Campaign', placeholder: 'summer-sale' },
+];
+
+const QR_LOGOS: { label: string; logo: QRLogo }[] = [
+  { label: 'None', logo: { type: 'none' } },
+  { label: 'WhatsApp icon', logo: { type: 'whatsapp' } },
+];
+
+// Shareable form state: ?country=IN&phone=9876543210&message=Hi&size=600&color=128C7E
+// Colors go without "#" to keep the URL readable; channel/group links use ?type=channel&invite=<id>
+const URL_SCHEMA = {
+  type: enumParam<LinkType>('chat', LINK_TYPES.map((t) => t.value)),
+  invite: stringParam('', { maxLength: 32, pattern: /^[A-Za-z0-9]+$/ }),
+  country: enumParam('', (countryCodes as CountryCode[]).map((c) => c.code)),
+  phone: stringParam('', { maxLength: 20, pattern: /^\d+$/ }),
+  message: stringParam('', { maxLength: 2000 }),
+  size: numberParam(300, { min: 100, max: 1000, integer: true }),
+  color: stringParam('000000', { pattern: /^[0-9A-Fa-f]{3}([0-9A-Fa-f]{3})?$/ }),
+  background: stringParam('FFFFFF', { pattern: /^[0-9A-Fa-f]{3}([0-9A-Fa-f]{3})?$/ }),
+  ecc: enumParam<QRErrorLevel>('M', QR_ERROR_LEVELS.map((l) => l.value)),
+  logo: enumParam<'none' | 'whatsapp'>('none', ['none', 'whatsapp']),
+};
+
+const CONTRAST_COLORS = {
+  good: 'text-green-600',
+  low: 'text-amber-600',
+  fail: 'text-red-500',
+};
+
+const SCAN_BADGES: Record<QRVerifyStatus, { label: string; className: string }> = {
+  pass: { label: '✓ Scans', className: 'bg-green-50 border-green-200 text-green-700' },
+  warn: { label: '⚠ Scans, with risk', className: 'bg-amber-50 border-amber-200 text-amber-700' },
+  fail: { label: '✕ Won\'t scan', className: 'bg-red-50 border-red-200 text-red-600' },
+};
+
 // ============================================================
 // Smart sort: user locale first, then top markets, then alpha
 // ============================================================
@@ -91,7 +190,7 @@ const seoSections = [
   },
   {
     heading: 'How to Add a WhatsApp Button to Your Website',
-    content: 'Once you have your wa.me link, create an HTML anchor tag or button that links to it. For example: <a href="https://wa.me/919876543210">Chat on WhatsApp</a>. You can style this as a floating button, a CTA in your header, or an inline link. The link works on both mobile (opens WhatsApp app) and desktop (opens WhatsApp Web).',
+    content: 'Generate your link, then scroll to the Website Chat Widget. Pick the button position and color, add a greeting bubble, set business hours with an offline message, and add more agents to share incoming chats round-robin. Copy the HTML snippet (or the React component or WordPress shortcode) and paste it before the closing </body> tag. The live preview shows exactly what visitors will see. The button opens the WhatsApp app on mobile and WhatsApp Web on desktop.',
   },
 ];
 
@@ -116,9 +215,29 @@ const seoFaqs = [
     question: 'What is the best QR code size for print?',
     answer: '600px works well for standard print materials like business cards and flyers. For large banners or posters, use 1000px. For digital use on websites or apps, 300px is sufficient.',
   },
+  {
+    question: 'Can I download the QR code as SVG or PDF?',
+    answer: 'Yes. Besides PNG, you can download a vector SVG or a print-ready PDF. Vector files stay sharp at any size, which is what print shops ask for.',
+  },
   {
     question: 'Can I customize the QR code color?',
-    answer: 'Yes. Choose between black (classic) and WhatsApp green (#25D366). The preview updates in real-time so you can see the result before downloading.',
+    answer: 'Yes. Pick black, WhatsApp green (#25D366) or any hex color for the code and background. The tool checks contrast and warns you if the code may not scan. You can also add the WhatsApp icon or your own logo in the center.',
+  },
+  {
+    question: 'Can one QR code save my contact and open WhatsApp?',
+    answer: 'Yes. Switch to Contact Card mode and enter your name, company, email and website. The QR code holds a vCard (3.0 or 4.0) or MeCard with your number and wa.me link, so scanning saves you as a contact with a one-tap WhatsApp chat. You can also download a .vcf file and a print-ready 85 × 55 mm business card PDF.',
+  },
+  {
+    question: 'How do I know my QR code will scan?',
+    answer: 'Every code is decoded in your browser right after it is rendered. The badge under the QR shows whether it decoded back to your exact link, and if not, why: low contrast, a light-on-dark code, a logo covering too much, or a payload that is too dense because the message is long.',
+  },
+  {
+    question: 'Does the tool remember my links?',
+    answer: 'Only in your own browser. Each link you generate is kept under "Your Links" with its number, message, QR size and colors, so you can re-open, rename, pin or duplicate it later. Nothing is uploaded. Export the list as JSON to back it up or move it to another device, or clear it at any time.',
+  },
+  {
+    question: 'Can I make a QR code for my WhatsApp Channel or group?',
+    answer: 'Yes. Pick Channel or Group invite as the link type and paste your channel link (whatsapp.com/channel/…) or group invite link (chat.whatsapp.com/…). Catalog links (wa.me/c/…) open your WhatsApp Business catalog, and API fallback links (api.whatsapp.com/send) suit email clients and apps that block wa.me. Already have a link? Paste it into "Parse an existing link" to see its number, message or ID.',
   },
 ];
 
@@ -149,6 +268,39 @@ const relatedTools = [
   },
 ];
 
+// ============================================================
+// Hex color field: native picker + free-text hex
+// ============================================================
+function HexColorField({ label, value, onChange }: { label: string; value: string; onChange: (hex: string) => void }) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        aria-label={`${label} picker`}
+        className="w-7 h-7 rounded border border-gray-200 bg-white cursor-pointer"
+      />
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const hex = normalizeHex(e.target.value);
+          if (hex) onChange(hex);
+        }}
+        aria-label={label}
+        maxLength={7}
+        className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-xs font-mono focus:outline-none focus:border-primary"
+      />
+    </div>
+  );
+}
+
 // ============================================================
 // Component
 // ============================================================
@@ -160,12 +312,58 @@ export default function LinkGenerator() {
   const [qrDataUrl, setQrDataUrl] = useState('');
   const [qrSize, setQrSize] = useState(300);
   const [qrColor, setQrColor] = useState('#000000');
+  const [qrBackground, setQrBackground] = useState('#FFFFFF');
+  const [qrErrorLevel, setQrErrorLevel] = useState<QRErrorLevel>('M');
+  const [qrLogo, setQrLogo] = useState<QRLogo>({ type: 'none' });
   const [qrLoading, setQrLoading] = useState(false);
+  const [qrCheck, setQrCheck] = useState<QRVerification | null>(null);
   const [showDropdown, setShowDropdown] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [phoneError, setPhoneError] = useState('');
+  const [mode, setMode] = useState<Mode>('single');
+  const [contact, setContact] = useState<ContactFields>({ name: '', org: '', email: '', website: '' });
+  const [contactFormat, setContactFormat] = useState<ContactFormat>('vcard3');
+  const [contactCard, setContactCard] = useState<ContactCard | null>(null);
+  const [contactError, setContactError] = useState('');
+  const [trackCampaign, setTrackCampaign] = useState(false);
+  const [campaignTag, setCampaignTag] = useState<CampaignTag>(EMPTY_CAMPAIGN_TAG);
+  const [campaigns, setCampaigns] = useState<CampaignEntry[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
+  const [linkType, setLinkType] = useState<LinkType>('chat');
+  const [inviteInput, setInviteInput] = useState('');
+  const [inviteError, setInviteError] = useState('');
 
   const sortedCountries = useMemo(() => getSortedCountries(), []);
+  const selectedCountry = findCountry(countryCode);
+
+  const qrStyle: QRStyle = useMemo(
+    () => ({ color: qrColor, background: qrBackground, errorLevel: qrErrorLevel, logo: qrLogo }),
+    [qrColor, qrBackground, qrErrorLevel, qrLogo]
+  );
+  const qrContrast = useMemo(() => checkQRContrast(qrColor, qrBackground), [qrColor, qrBackground]);
+
+  // Contact cards always carry a chat link
+  const linkTypeInfo = LINK_TYPES.find((t) => t.value === (mode === 'single' ? linkType : 'chat')) ?? LINK_TYPES[0];
+  const invite = useMemo(
+    () => (linkType === 'channel' ? validateChannelId(inviteInput) : validateGroupCode(inviteInput)),
+    [linkType, inviteInput]
+  );
+
+  // Campaign ref: typed, or the next free code for this campaign
+  const campaignRef = useMemo(
+    () => normalizeRefCode(campaignTag.ref) || generateRefCode(campaignTag, campaigns.map((c) => c.ref)),
+    [campaignTag, campaigns]
+  );
+  const activeTag: CampaignTag | null =
+    trackCampaign && linkTypeInfo.usesMessage ? { ...campaignTag, ref: campaignRef } : null;
+  const taggedMessage = activeTag ? appendCampaignTag(message, activeTag) : message;
+
+  // Contact mode encodes the vCard/MeCard; otherwise the QR is the wa.me link
+  const qrPayload = useMemo(
+    () => (mode === 'contact' && contactCard ? buildContactPayload(contactCard, contactFormat) : generatedLink),
+    [mode, contactCard, contactFormat, generatedLink]
+  );
 
   // Set default country code from locale
   useEffect(() => {
@@ -181,6 +379,72 @@ export default function LinkGenerator() {
     }
   }, []);
 
+  // Load saved campaign links and link history
+  useEffect(() => {
+    setCampaigns(loadCampaigns(localStorage));
+    setHistory(loadHistory(localStorage));
+  }, []);
+
+  const updateCampaigns = (next: CampaignEntry[]) => {
+    setCampaigns(next);
+    saveCampaigns(localStorage, next);
+  };
+
+  const updateLinkHistory = (next: HistoryEntry[]) => {
+    setHistory(next);
+    saveHistory(localStorage, next);
+  };
+
+  const openHistoryEntry = history.find((e) => e.id === openHistoryId);
+
+  // Show the link for saved, shared or parsed parts without going through Generate
+  const restoreLink = (parts: LinkParts) => {
+    if (parts.type === 'channel' || parts.type === 'group') {
+      const check = parts.type === 'channel' ? validateChannelId(parts.id) : validateGroupCode(parts.code);
+      setGeneratedLink(check.ok ? buildLink(parts) : '');
+      return;
+    }
+    const result = parsePhone(parts.national, findCountry(parts.dial));
+    setGeneratedLink(result.ok ? buildLink({ ...parts, dial: result.dial, national: result.national }) : '');
+  };
+
+  // Shareable URL; country is only written once there is a number to go with it
+  useUrlState(
+    URL_SCHEMA,
+    {
+      type: linkType,
+      invite: !linkTypeInfo.usesPhone && invite.ok ? invite.value : '',
+      country: phone && linkTypeInfo.usesPhone ? selectedCountry?.code ?? '' : '',
+      phone: linkTypeInfo.usesPhone ? cleanPhone(phone) : '',
+      message: linkTypeInfo.usesMessage ? message : '',
+      size: qrSize,
+      color: qrColor.slice(1),
+      background: qrBackground.slice(1),
+      ecc: qrErrorLevel,
+      logo: qrLogo.type === 'whatsapp' ? 'whatsapp' : 'none',
+    },
+    (values) => {
+      const type = values.type ?? 'chat';
+      const dial = values.country ? findCountry(values.country)?.dial : undefined;
+      if (values.type) setLinkType(values.type);
+      if (values.invite) setInviteInput(values.invite);
+      if (dial) setCountryCode(dial);
+      if (values.phone !== undefined) setPhone(values.phone);
+      if (values.message !== undefined) setMessage(values.message);
+      if (values.size !== undefined) setQrSize(values.size);
+      if (values.color) setQrColor(normalizeHex(values.color) ?? qrColor);
+      if (values.background) setQrBackground(normalizeHex(values.background) ?? qrBackground);
+      if (values.ecc) setQrErrorLevel(values.ecc);
+      if (values.logo) setQrLogo({ type: values.logo });
+      if (type === 'channel' && values.invite) restoreLink({ type, id: values.invite });
+      if (type === 'group' && values.invite) restoreLink({ type, code: values.invite });
+      if (type === 'catalog' && dial && values.phone) restoreLink({ type, dial, national: values.phone });
+      if ((type === 'chat' || type === 'api') && dial && values.phone) {
+        restoreLink({ type, dial, national: values.phone, message: values.message ?? '' });
+      }
+    }
+  );
+
   // Filter countries for dropdown search
   const filteredCountries = useMemo(() => {
     if (!searchQuery) return sortedCountries;
@@ -193,83 +457,110 @@ export default function LinkGenerator() {
     );
   }, [searchQuery, sortedCountries]);
 
-  // Clean phone input
-  const cleanPhone = (raw: string): string => {
-    return raw.replace(/[^0-9]/g, '').replace(/^0+/, '');
-  };
-
-  // Validate phone
-  const validatePhone = (cleaned: string): string => {
-    if (!cleaned) return 'Please enter a phone number';
-    if (cleaned.length < 7) return 'Phone number too short (minimum 7 digits)';
-    if (cleaned.length > 15) return 'Phone number too long (maximum 15 digits)';
-    return '';
-  };
-
   // Auto-detect pasted number with country code
   const handlePhoneChange = (value: string) => {
     // Detect if user pastes full number with +
     if (value.startsWith('+')) {
-      const digits = value.replace(/[^0-9]/g, '');
-      // Try to match a country code from the start
-      for (const c of countryCodes as CountryCode[]) {
-        if (digits.startsWith(c.dial)) {
-          setCountryCode(c.dial);
-          setPhone(digits.slice(c.dial.length));
-          setPhoneError('');
-          return;
-        }
+      // Longest dial code wins: +1264 is Anguilla, not +1
+      const match = matchDialCode(value.replace(/[^0-9]/g, ''));
+      if (match) {
+        setCountryCode(match.country.dial);
+        setPhone(match.national);
+        setPhoneError('');
+        return;
       }
     }
     setPhone(value.replace(/[^0-9\s\-]/g, ''));
     setPhoneError('');
   };
 
+  const renderQR = async (payload: string) => {
+    setQrLoading(true);
+    try {
+      const dataUrl = await qrToPNG(payload, qrStyle, qrSize);
+      setQrDataUrl(dataUrl);
+    } catch {
+      console.error('QR generation failed');
+    }
+    setQrLoading(false);
+  };
+
   // Generate link + QR
   const handleGenerate = async () => {
-    const cleaned = cleanPhone(phone);
-    const error = validatePhone(cleaned);
-    if (error) {
-      setPhoneError(error);
+    if (mode === 'contact') {
+      const error = validateContact(contact);
+      setContactError(error ?? '');
+      if (error) return;
+    }
+
+    // Channel and group links have no number to validate
+    if (!linkTypeInfo.usesPhone) {
+      if (!invite.ok) {
+        setInviteError(invite.message);
+        return;
+      }
+      const link = buildLink(linkType === 'channel' ? { type: 'channel', id: invite.value } : { type: 'group', code: invite.value });
+      setGeneratedLink(link);
+      setContactCard(null);
+      setInviteError('');
+      await renderQR(link);
+      return;
+    }
+
+    const result = parsePhone(phone, selectedCountry);
+    if (!result.ok) {
+      setPhoneError(result.message);
       return;
     }
 
-    const link = message
-      ? `https://wa.me/${countryCode}${cleaned}?text=${encodeURIComponent(message)}`
-      : `https://wa.me/${countryCode}${cleaned}`;
+    const link = linkTypeInfo.value === 'catalog'
+      ? buildLink({ type: 'catalog', dial: result.dial, national: result.national })
+      : buildLink({ type: linkTypeInfo.value === 'api' ? 'api' : 'chat', dial: result.dial, national: result.national, message: taggedMessage });
+    const card: ContactCard = { ...contact, phone: result.e164, waLink: link };
 
     setGeneratedLink(link);
+    setContactCard(mode === 'contact' ? card : null);
     setPhoneError('');
 
-    // Generate QR
-    setQrLoading(true);
-    try {
-      const dataUrl = await QRCode.toDataURL(link, {
-        width: qrSize,
-        margin: 2,
-        color: {
-          dark: qrColor,
-          light: '#FFFFFF',
-        },
-      });
-      setQrDataUrl(dataUrl);
-    } catch {
-      console.error('QR generation failed');
+    // Log campaign links; keep the ref so regenerating reuses it
+    if (activeTag) {
+      setCampaignTag(activeTag);
+      updateCampaigns(addCampaign(campaigns, {
+        ...activeTag,
+        id: `${Date.now()}`,
+        createdAt: new Date().toISOString(),
+        phone: result.e164,
+        message,
+        link,
+      }));
     }
-    setQrLoading(false);
+
+    // Save to history; a re-opened entry is updated in place. History holds chat links only.
+    if (mode === 'single' && linkType === 'chat') {
+      updateLinkHistory(addHistory(history, {
+        id: openHistoryId ?? createHistoryId(),
+        label: '',
+        pinned: false,
+        createdAt: new Date().toISOString(),
+        dial: result.dial,
+        phone: result.national,
+        message: taggedMessage,
+        qrSize,
+        qrColor,
+        qrBackground,
+      }));
+    }
+
+    await renderQR(mode === 'contact' ? buildContactPayload(card, contactFormat) : link);
   };
 
-  // Regenerate QR when size or color changes (if link exists)
+  // Regenerate QR when size, style or payload changes (if link exists)
   useEffect(() => {
-    if (!generatedLink) return;
+    if (!qrPayload) return;
     let cancelled = false;
     setQrLoading(true);
 
-    QRCode.toDataURL(generatedLink, {
-      width: qrSize,
-      margin: 2,
-      color: { dark: qrColor, light: '#FFFFFF' },
-    }).then((dataUrl) => {
+    qrToPNG(qrPayload, qrStyle, qrSize).then((dataUrl) => {
       if (!cancelled) {
         setQrDataUrl(dataUrl);
         setQrLoading(false);
@@ -279,21 +570,129 @@ export default function LinkGenerator() {
     });
 
     return () => { cancelled = true; };
-  }, [qrSize, qrColor, generatedLink]);
+  }, [qrSize, qrStyle, qrPayload]);
+
+  // Decode the rendered PNG and check it round-trips to the payload
+  useEffect(() => {
+    setQrCheck(null);
+    if (!qrDataUrl || !qrPayload) return;
+    let cancelled = false;
+
+    verifyQRImage(qrDataUrl, qrPayload, qrStyle, qrSize).then((result) => {
+      if (!cancelled) setQrCheck(result);
+    }).catch(() => {
+      // No canvas (old browser) — skip the check rather than show a false failure
+    });
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [qrDataUrl]);
+
+  // Load a saved link back into the form; the QR effect re-renders it
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    setMode('single');
+    setLinkType('chat');
+    setCountryCode(entry.dial);
+    setPhone(entry.phone);
+    setMessage(entry.message);
+    // The saved message already carries any campaign tag
+    setTrackCampaign(false);
+    setQrSize(entry.qrSize);
+    setQrColor(entry.qrColor);
+    setQrBackground(entry.qrBackground);
+    setPhoneError('');
+    setContactCard(null);
+    setOpenHistoryId(entry.id);
+    restoreLink({ type: 'chat', dial: entry.dial, national: entry.phone, message: entry.message });
+  };
+
+  // Load a pasted link's parts into the form
+  const handleUseParsed = (parts: LinkParts) => {
+    setLinkType(parts.type);
+    if (parts.type === 'channel') setInviteInput(parts.id);
+    if (parts.type === 'group') setInviteInput(parts.code);
+    if ('dial' in parts) {
+      setCountryCode(parts.dial);
+      setPhone(parts.national);
+    }
+    // A pasted message keeps any ref tag it already has
+    if ('message' in parts) {
+      setMessage(parts.message);
+      setTrackCampaign(false);
+    }
+    setPhoneError('');
+    setInviteError('');
+    setContactCard(null);
+    setOpenHistoryId(null);
+    restoreLink(parts);
+  };
 
   // Download QR
-  const handleDownloadQR = () => {
-    if (!qrDataUrl) return;
+  const qrFileBase = linkTypeInfo.usesPhone ? `whatsapp-qr-${countryCode}${cleanPhone(phone)}` : `whatsapp-qr-${linkType}`;
+
+  const downloadHref = (href: string, filename: string) => {
     const a = document.createElement('a');
-    a.href = qrDataUrl;
-    a.download = `whatsapp-qr-${countryCode}${cleanPhone(phone)}.png`;
+    a.href = href;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
   };
 
-  // Selected country display
-  const selectedCountry = (countryCodes as CountryCode[]).find((c) => c.dial === countryCode);
+  const handleDownloadQR = () => {
+    if (!qrDataUrl) return;
+    downloadHref(qrDataUrl, `${qrFileBase}.png`);
+  };
+
+  const handleDownloadSVG = () => {
+    if (!qrPayload) return;
+    const svg = qrToSVG(qrPayload, qrStyle);
+    downloadHref(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, `${qrFileBase}.svg`);
+  };
+
+  const handleDownloadPDF = async () => {
+    if (!qrPayload) return;
+    try {
+      const { generateQRPDF } = await import('@/lib/utils/qr-pdf');
+      const caption = contactCard && mode === 'contact' ? contactCard.name : generatedLink;
+      const blob = generateQRPDF(qrPayload, qrStyle, { caption });
+      const url = URL.createObjectURL(blob);
+      downloadHref(url, `${qrFileBase}.pdf`);
+      URL.revokeObjectURL(url);
+    } catch {
+      console.error('QR PDF generation failed');
+    }
+  };
+
+  // Contact card downloads
+  const handleDownloadVCF = () => {
+    if (!contactCard) return;
+    const blob = new Blob([buildVCardFile(contactCard, contactFormat)], { type: 'text/vcard;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    downloadHref(url, vcfFileName(contactCard.name));
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadCardPDF = async () => {
+    if (!contactCard) return;
+    try {
+      const { generateContactCardPDF } = await import('@/lib/utils/qr-pdf');
+      const blob = generateContactCardPDF(contactCard, qrPayload, qrStyle);
+      const url = URL.createObjectURL(blob);
+      downloadHref(url, vcfFileName(contactCard.name).replace(/\.vcf$/, '-card.pdf'));
+      URL.revokeObjectURL(url);
+    } catch {
+      console.error('Business card PDF generation failed');
+    }
+  };
+
+  // Logo upload → data URL
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setQrLogo({ type: 'image', dataUrl: String(reader.result) });
+    reader.readAsDataURL(file);
+  };
 
   return (
     <div className="bg-white">
@@ -312,217 +711,572 @@ export default function LinkGenerator() {
 
       {/* Tool */}
       <section className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
-          {/* Country Code + Phone */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Phone Number
-            </label>
-            <div className="flex gap-2">
-              {/* Country dropdown */}
-              <div className="relative">
-                <button
-                  type="button"
-                  onClick={() => { setShowDropdown(!showDropdown); setSearchQuery(''); }}
-                  className="flex items-center gap-1 px-3 py-2.5 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 text-sm min-w-[120px]"
-                >
-                  <span>{selectedCountry?.flag || '🌍'}</span>
-                  <span>+{countryCode}</span>
-                  <svg className="w-4 h-4 text-gray-400 ml-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </button>
-
-                {showDropdown && (
-                  <div className="absolute z-20 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-hidden">
-                    <div className="p-2 border-b">
-                      <input
-                        type="text"
-                        placeholder="Search country..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded focus:outline-none focus:border-primary"
-                        autoFocus
-                      />
-                    </div>
-                    <div className="overflow-y-auto max-h-48">
-                      {filteredCountries.map((c) => (
+        {/* Mode Toggle */}
+        <div className="flex gap-1 mb-4" role="tablist" aria-label="Mode">
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={mode === value}
+              onClick={() => setMode(value)}
+              className={`px-4 py-2 text-sm rounded-lg border transition ${
+                mode === value
+                  ? 'bg-primary text-white border-primary'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'bulk' ? (
+          <BulkLinkGenerator defaultDial={countryCode} qrSize={qrSize} qrColor={qrColor} />
+        ) : (
+          <>
+            <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+              {/* Link Type */}
+              {mode === 'single' && (
+                <>
+                  <LinkParser onUse={handleUseParsed} />
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Link type</label>
+                    <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Link type">
+                      {LINK_TYPES.map((t) => (
                         <button
-                          key={`${c.code}-${c.dial}`}
-                          onClick={() => {
-                            setCountryCode(c.dial);
-                            setShowDropdown(false);
-                            setSearchQuery('');
-                          }}
-                          className={`w-full text-left px-3 py-2 text-sm hover:bg-primary-light/10 flex items-center gap-2 ${
-                            c.dial === countryCode ? 'bg-primary-light/10 font-medium' : ''
+                          key={t.value}
+                          type="button"
+                          role="radio"
+                          aria-checked={linkType === t.value}
+                          onClick={() => { setLinkType(t.value); setInviteError(''); }}
+                          className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                            linkType === t.value
+                              ? 'bg-primary text-white border-primary'
+                              : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
                           }`}
                         >
-                          <span>{c.flag}</span>
-                          <span className="flex-1">{c.name}</span>
-                          <span className="text-gray-400">+{c.dial}</span>
+                          {t.label}
                         </button>
                       ))}
                     </div>
+                    <p className="text-xs text-gray-400 mt-1">{linkTypeInfo.hint}</p>
                   </div>
-                )}
-              </div>
+                </>
+              )}
 
-              {/* Phone input */}
-              <input
-                type="tel"
-                value={phone}
-                onChange={(e) => handlePhoneChange(e.target.value)}
-                placeholder="9876543210"
-                className={`flex-1 px-3 py-2.5 border rounded-lg text-sm focus:outline-none focus:border-primary ${
-                  phoneError ? 'border-red-400' : 'border-gray-300'
-                }`}
-                onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
-              />
-            </div>
-            {phoneError && (
-              <p className="text-red-500 text-xs mt-1">{phoneError}</p>
-            )}
-          </div>
-
-          {/* Pre-filled Message */}
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Pre-filled Message <span className="text-gray-400 font-normal">(optional)</span>
-            </label>
-            <textarea
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Hi! I saw your product and I'm interested..."
-              rows={3}
-              className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary resize-none"
-            />
-            <div className="flex justify-between text-xs text-gray-400 mt-1">
-              <span>{message.length} characters</span>
-              {message.length > 500 && (
-                <span className="text-amber-500">Some phones truncate long pre-filled messages</span>
+              {/* Contact Details */}
+              {mode === 'contact' && (
+                <div className="mb-4">
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    {CONTACT_FIELDS.map((field) => (
+                      <div key={field.key}>
+                        <label htmlFor={`contact-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                          {field.label}
+                          {field.key !== 'name' && <span className="text-gray-400 font-normal"> (optional)</span>}
+                        </label>
+                        <input
+                          id={`contact-${field.key}`}
+                          type={field.type}
+                          value={contact[field.key]}
+                          onChange={(e) => { setContact({ ...contact, [field.key]: e.target.value }); setContactError(''); }}
+                          placeholder={field.placeholder}
+                          className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {contactError && (
+                    <p className="text-red-500 text-xs mt-1">{contactError}</p>
+                  )}
+
+                  <label className="block text-xs font-medium text-gray-500 mt-4 mb-1">Card format</label>
+                  <div className="flex flex-wrap gap-1">
+                    {CONTACT_FORMATS.map((f) => (
+                      <button
+                        key={f.value}
+                        type="button"
+                        onClick={() => setContactFormat(f.value)}
+                        title={f.hint}
+                        className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                          contactFormat === f.value
+                            ? 'bg-primary text-white border-primary'
+                            : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                        }`}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {CONTACT_FORMATS.find((f) => f.value === contactFormat)?.hint}. The card includes your wa.me link.
+                  </p>
+                </div>
               )}
-            </div>
-          </div>
-
-          {/* Generate Button */}
-          <button
-            onClick={handleGenerate}
-            className="w-full bg-primary text-white py-3 rounded-lg font-semibold hover:bg-primary-dark transition"
-          >
-            Generate Link & QR Code
-          </button>
-        </div>
 
-        {/* Output */}
-        {generatedLink && (
-          <div className="mt-6 space-y-6">
-            {/* Generated Link */}
-            <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
-              <h2 className="text-sm font-semibold text-gray-700 mb-3">Your WhatsApp Link</h2>
-              <div className="flex items-center gap-2">
-                <input
-                  type="text"
-                  readOnly
-                  value={generatedLink}
-                  className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 font-mono"
-                />
-                <CopyButton text={generatedLink} label="Copy" />
-              </div>
-              <div className="mt-3">
-                <a
-                  href={generatedLink}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary text-sm hover:underline"
-                >
-                  Test Link {'\u2192'}
-                </a>
-              </div>
+              {/* Channel ID / Group Invite Code */}
+              {!linkTypeInfo.usesPhone && (
+                <div className="mb-4">
+                  <label htmlFor="invite-link" className="block text-sm font-medium text-gray-700 mb-1">
+                    {linkType === 'channel' ? 'Channel link or ID' : 'Group invite link or code'}
+                  </label>
+                  <input
+                    id="invite-link"
+                    type="text"
+                    value={inviteInput}
+                    onChange={(e) => { setInviteInput(e.target.value); setInviteError(''); }}
+                    placeholder={linkType === 'channel' ? 'https://whatsapp.com/channel/0029Va…' : 'https://chat.whatsapp.com/…'}
+                    className={`w-full px-3 py-2.5 border rounded-lg text-sm font-mono focus:outline-none focus:border-primary ${
+                      inviteError ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                    onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
+                  />
+                  {inviteError && (
+                    <p className="text-red-500 text-xs mt-1">{inviteError}</p>
+                  )}
+                </div>
+              )}
 
+              {/* Country Code + Phone */}
+              {linkTypeInfo.usesPhone && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone Number
+                  </label>
+                  <div className="flex gap-2">
+                    {/* Country dropdown */}
+                    <div className="relative">
+                      <button
+                        type="button"
+                        onClick={() => { setShowDropdown(!showDropdown); setSearchQuery(''); }}
+                        className="flex items-center gap-1 px-3 py-2.5 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 text-sm min-w-[120px]"
+                      >
+                        <span>{selectedCountry?.flag || '🌍'}</span>
+                        <span>+{countryCode}</span>
+                        <svg className="w-4 h-4 text-gray-400 ml-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </button>
 
+                      {showDropdown && (
+                        <div className="absolute z-20 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-hidden">
+                          <div className="p-2 border-b">
+                            <input
+                              type="text"
+                              placeholder="Search country..."
+                              value={searchQuery}
+                              onChange={(e) => setSearchQuery(e.target.value)}
+                              className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded focus:outline-none focus:border-primary"
+                              autoFocus
+                            />
+                          </div>
+                          <div className="overflow-y-auto max-h-48">
+                            {filteredCountries.map((c) => (
+                              <button
+                                key={`${c.code}-${c.dial}`}
+                                onClick={() => {
+                                  setCountryCode(c.dial);
+                                  setShowDropdown(false);
+                                  setSearchQuery('');
+                                }}
+                                className={`w-full text-left px-3 py-2 text-sm hover:bg-primary-light/10 flex items-center gap-2 ${
+                                  c.dial === countryCode ? 'bg-primary-light/10 font-medium' : ''
+                                }`}
+                              >
+                                <span>{c.flag}</span>
+                                <span className="flex-1">{c.name}</span>
+                                <span className="text-gray-400">+{c.dial}</span>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
 
+                    {/* Phone input */}
+                    <input
+                      type="tel"
+                      value={phone}
+                      onChange={(e) => handlePhoneChange(e.target.value)}
+                      placeholder="9876543210"
+                      className={`flex-1 px-3 py-2.5 border rounded-lg text-sm focus:outline-none focus:border-primary ${
+                        phoneError ? 'border-red-400' : 'border-gray-300'
+                      }`}
+                      onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
+                    />
+                  </div>
+                  {phoneError && (
+                    <p className="text-red-500 text-xs mt-1">{phoneError}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Pre-filled Message */}
+              {linkTypeInfo.usesMessage && (
+                <>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Pre-filled Message <span className="text-gray-400 font-normal">(optional)</span>
+                    </label>
+                    <textarea
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      placeholder="Hi! I saw your product and I'm interested..."
+                      rows={3}
+                      className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary resize-none"
+                    />
+                    <div className="flex justify-between gap-3 text-xs text-gray-400 mt-1">
+                      <CharacterCounter
+                        text={taggedMessage}
+                        limits={taggedMessage ? ['waLinkText'] : []}
+                        showDetails={!!taggedMessage}
+                        className="flex-1"
+                      />
+                      {taggedMessage.length > 500 && (
+                        <span className="text-amber-500">Some phones truncate long pre-filled messages</span>
+                      )}
+                    </div>
+                    {taggedMessage && (
+                      <WhatsAppPreview text={taggedMessage} status="sent" className="mt-3" />
+                    )}
+                  </div>
+
+                  {/* Campaign Tracking */}
+                  <div className="mb-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="checkbox" checked={trackCampaign} onChange={(e) => setTrackCampaign(e.target.checked)} />
+                      Track as a campaign <span className="text-gray-400 font-normal">(adds a ref code to the message)</span>
+                    </label>
+                    {trackCampaign && (
+                      <div className="mt-2 grid sm:grid-cols-2 gap-3">
+                        {CAMPAIGN_FIELDS.map((field) => (
+                          <div key={field.key}>
+                            <label htmlFor={`campaign-${field.key}`} className="block text-xs font-medium text-gray-500 mb-1">
+                              {field.label}
+                            </label>
+                            <input
+                              id={`campaign-${field.key}`}
+                              type="text"
+                              value={campaignTag[field.key]}
+                              onChange={(e) => setCampaignTag({ ...campaignTag, [field.key]: e.target.value })}
+                              placeholder={field.placeholder}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+                            />
+                          </div>
+                        ))}
+                        <div>
+                          <label htmlFor="campaign-ref" className="block text-xs font-medium text-gray-500 mb-1">
+                            Ref code
+                          </label>
+                          <div className="flex gap-2">
+                            <input
+                              id="campaign-ref"
+                              type="text"
+                              value={campaignTag.ref}
+                              onChange={(e) => setCampaignTag({ ...campaignTag, ref: e.target.value.toUpperCase() })}
+                              placeholder={campaignRef}
+                              maxLength={16}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:border-primary"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setCampaignTag({ ...campaignTag, ref: '' })}
+                              className="px-3 text-xs text-primary whitespace-nowrap hover:underline"
+                            >
+                              New code
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
 
+              {/* Generate Button */}
+              <button
+                onClick={handleGenerate}
+                className="w-full bg-primary text-white py-3 rounded-lg font-semibold hover:bg-primary-dark transition"
+              >
+                {mode === 'contact' ? 'Generate Contact QR' : 'Generate Link & QR Code'}
+              </button>
+              {mode === 'single' && openHistoryEntry && (
+                <p className="mt-2 text-xs text-gray-500 text-center">
+                  Generating updates your saved link &ldquo;{openHistoryEntry.label || `+${openHistoryEntry.dial} ${openHistoryEntry.phone}`}&rdquo;.{' '}
+                  <button onClick={() => setOpenHistoryId(null)} className="text-primary hover:underline">
+                    Save as a new link instead
+                  </button>
+                </p>
+              )}
+            </div>
 
+            {/* Output */}
+            {generatedLink && (
+              <div className="mt-6 space-y-6">
+                {/* Generated Link */}
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
+                  <h2 className="text-sm font-semibold text-gray-700 mb-3">Your WhatsApp Link</h2>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={generatedLink}
+                      className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 font-mono"
+                    />
+                    <CopyButton text={generatedLink} label="Copy" />
+                  </div>
+                  <div className="mt-3">
+                    <a
+                      href={generatedLink}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary text-sm hover:underline"
+                    >
+                      Test Link {'\u2192'}
+                    </a>
+                  </div>
 
 
 
 
 
-            </div>
 
-            {/* QR Code */}
-            <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">WhatsApp QR Code Generator</h2>
 
-              {/* QR Options */}
-              <div className="flex flex-wrap gap-4 mb-4">
-                <div>
-                  <label className="block text-xs font-medium text-gray-500 mb-1">Size</label>
-                  <div className="flex gap-1">
-                    {QR_SIZES.map((s) => (
+
+
+
+                </div>
+
+                {/* Contact Card */}
+                {mode === 'contact' && contactCard && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
+                    <div className="flex items-center justify-between mb-3">
+                      <h2 className="text-sm font-semibold text-gray-700">Your Contact Card</h2>
+                      <CopyButton text={qrPayload} label="Copy" />
+                    </div>
+                    <pre
+                      data-testid="contact-payload"
+                      className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto"
+                    >
+                      {qrPayload}
+                    </pre>
+                    <div className="mt-3 flex flex-wrap gap-2">
                       <button
-                        key={s.value}
-                        onClick={() => setQrSize(s.value)}
-                        className={`px-3 py-1.5 text-xs rounded-lg border transition ${
-                          qrSize === s.value
-                            ? 'bg-primary text-white border-primary'
-                            : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
-                        }`}
+                        onClick={handleDownloadVCF}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
                       >
-                        {s.label}
+                        Download .vcf
                       </button>
-                    ))}
+                      <button
+                        onClick={handleDownloadCardPDF}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+                      >
+                        Download Business Card PDF
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-2">
+                      Scanning saves the contact; the WhatsApp link in the card opens a chat.
+                    </p>
                   </div>
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-gray-500 mb-1">Color</label>
-                  <div className="flex gap-1">
-                    {QR_COLORS.map((c) => (
+                )}
+
+                {/* QR Code */}
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">WhatsApp QR Code Generator</h2>
+
+                  {/* QR Options */}
+                  <div className="flex flex-wrap gap-4 mb-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Size</label>
+                      <div className="flex gap-1">
+                        {QR_SIZES.map((s) => (
+                          <button
+                            key={s.value}
+                            onClick={() => setQrSize(s.value)}
+                            className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                              qrSize === s.value
+                                ? 'bg-primary text-white border-primary'
+                                : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                            }`}
+                          >
+                            {s.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Color</label>
+                      <div className="flex gap-1">
+                        {QR_COLORS.map((c) => (
+                          <button
+                            key={c.value}
+                            onClick={() => setQrColor(c.value)}
+                            className={`px-3 py-1.5 text-xs rounded-lg border transition flex items-center gap-1.5 ${
+                              qrColor === c.value
+                                ? 'bg-primary text-white border-primary'
+                                : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                            }`}
+                          >
+                            <span
+                              className="w-3 h-3 rounded-full border border-gray-300"
+                              style={{ backgroundColor: c.value }}
+                            />
+                            {c.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Custom colors</label>
+                      <div className="flex gap-3">
+                        <HexColorField label="QR color" value={qrColor} onChange={setQrColor} />
+                        <HexColorField label="Background color" value={qrBackground} onChange={setQrBackground} />
+                      </div>
+                    </div>
+                  </div>
+
+                  <p className={`text-xs mb-4 ${CONTRAST_COLORS[qrContrast.level]}`} data-testid="qr-contrast">
+                    {qrContrast.message}
+                  </p>
+
+                  <div className="flex flex-wrap gap-4 mb-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Error correction</label>
+                      <div className="flex gap-1">
+                        {QR_ERROR_LEVELS.map((level) => {
+                          const active = (qrLogo.type === 'none' ? qrErrorLevel : 'H') === level.value;
+                          return (
+                            <button
+                              key={level.value}
+                              onClick={() => setQrErrorLevel(level.value)}
+                              disabled={qrLogo.type !== 'none'}
+                              title={`${level.label} — recovers ${level.recovery} damage`}
+                              className={`px-3 py-1.5 text-xs rounded-lg border transition disabled:cursor-not-allowed ${
+                                active
+                                  ? 'bg-primary text-white border-primary'
+                                  : 'bg-white text-gray-600 border-gray-200 hover:border-primary disabled:opacity-50'
+                              }`}
+                            >
+                              {level.value}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {qrLogo.type !== 'none' && (
+                        <p className="text-xs text-gray-400 mt-1">Logo overlay uses High (H) so the code still scans</p>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-500 mb-1">Center logo</label>
+                      <div className="flex gap-1">
+                        {QR_LOGOS.map((option) => (
+                          <button
+                            key={option.logo.type}
+                            onClick={() => setQrLogo(option.logo)}
+                            className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                              qrLogo.type === option.logo.type
+                                ? 'bg-primary text-white border-primary'
+                                : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                        <label
+                          className={`px-3 py-1.5 text-xs rounded-lg border transition cursor-pointer ${
+                            qrLogo.type === 'image'
+                              ? 'bg-primary text-white border-primary'
+                              : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                          }`}
+                        >
+                          Your logo
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            className="sr-only"
+                            aria-label="Upload logo"
+                            onChange={(e) => handleLogoUpload(e.target.files?.[0])}
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* QR Preview */}
+                  <div className="flex flex-col items-center">
+                    {qrLoading ? (
+                      <div className="w-[200px] h-[200px] flex items-center justify-center bg-white rounded-lg border">
+                        <span className="text-gray-400 text-sm">Generating...</span>
+                      </div>
+                    ) : qrDataUrl ? (
+                      <img
+                        src={qrDataUrl}
+                        alt="WhatsApp QR Code"
+                        className="max-w-[200px] rounded-lg border border-gray-200"
+                      />
+                    ) : null}
+
+                    {qrCheck && !qrLoading && (
+                      <div
+                        data-testid="qr-scan-check"
+                        data-status={qrCheck.status}
+                        className={`mt-3 max-w-sm px-3 py-2 rounded-lg border text-xs text-center ${SCAN_BADGES[qrCheck.status].className}`}
+                      >
+                        <span className="font-semibold">{SCAN_BADGES[qrCheck.status].label}</span>
+                        {' — '}
+                        {qrCheck.message}
+                      </div>
+                    )}
+
+                    <div className="mt-3 flex flex-wrap justify-center gap-2">
                       <button
-                        key={c.value}
-                        onClick={() => setQrColor(c.value)}
-                        className={`px-3 py-1.5 text-xs rounded-lg border transition flex items-center gap-1.5 ${
-                          qrColor === c.value
-                            ? 'bg-primary text-white border-primary'
-                            : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
-                        }`}
+                        onClick={handleDownloadQR}
+                        disabled={!qrDataUrl || qrLoading}
+                        className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        <span
-                          className="w-3 h-3 rounded-full border border-gray-300"
-                          style={{ backgroundColor: c.value }}
-                        />
-                        {c.label}
+                        Download QR as PNG
                       </button>
-                    ))}
+                      <button
+                        onClick={handleDownloadSVG}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+                      >
+                        Download SVG
+                      </button>
+                      <button
+                        onClick={handleDownloadPDF}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+                      >
+                        Download PDF
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* QR Preview */}
-              <div className="flex flex-col items-center">
-                {qrLoading ? (
-                  <div className="w-[200px] h-[200px] flex items-center justify-center bg-white rounded-lg border">
-                    <span className="text-gray-400 text-sm">Generating...</span>
-                  </div>
-                ) : qrDataUrl ? (
-                  <img
-                    src={qrDataUrl}
-                    alt="WhatsApp QR Code"
-                    className="max-w-[200px] rounded-lg border border-gray-200"
-                  />
-                ) : null}
-
-                <button
-                  onClick={handleDownloadQR}
-                  disabled={!qrDataUrl || qrLoading}
-                  className="mt-3 px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Download QR as PNG
-                </button>
+                {/* Website Widget */}
+                {mode === 'single' && linkType === 'chat' && (
+                  <WidgetBuilder link={generatedLink} defaultCountry={selectedCountry} />
+                )}
               </div>
-            </div>
-          </div>
+            )}
+
+            {/* Campaign Links */}
+            {campaigns.length > 0 && (
+              <CampaignManager
+                entries={campaigns}
+                onRemove={(id) => updateCampaigns(removeCampaign(campaigns, id))}
+                onClear={() => updateCampaigns([])}
+                qrStyle={qrStyle}
+                qrSize={qrSize}
+              />
+            )}
+
+            {/* Link History */}
+            <LinkHistory
+              entries={history}
+              onChange={updateLinkHistory}
+              onOpen={handleOpenHistory}
+              activeId={openHistoryId}
+            />
+          </>
         )}
       </section>
 
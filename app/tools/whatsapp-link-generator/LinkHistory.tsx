@@ -0,0 +1,201 @@
+// app/tools/whatsapp-link-generator/LinkHistory.tsx
+// Client component — saved link history: pin, rename, re-open, duplicate, JSON import/export
+'use client';
+
+import { useState } from 'react';
+import {
+  sortHistory,
+  updateHistory,
+  duplicateHistory,
+  removeHistory,
+  exportHistory,
+  importHistory,
+  type HistoryEntry,
+} from '@/lib/utils/link-history';
+
+interface LinkHistoryProps {
+  entries: HistoryEntry[];
+  onChange: (entries: HistoryEntry[]) => void;
+  onOpen: (entry: HistoryEntry) => void;
+  /** Entry currently loaded in the form */
+  activeId?: string | null;
+}
+
+function displayName(entry: HistoryEntry): string {
+  return entry.label || `+${entry.dial} ${entry.phone}`;
+}
+
+export default function LinkHistory({ entries, onChange, onOpen, activeId }: LinkHistoryProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const startRename = (entry: HistoryEntry) => {
+    setRenamingId(entry.id);
+    setDraftName(entry.label);
+  };
+
+  const commitRename = () => {
+    if (renamingId) onChange(updateHistory(entries, renamingId, { label: draftName.trim() }));
+    setRenamingId(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportHistory(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'whatsapp-link-history.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const result = importHistory(await file.text(), entries);
+    if (!result.ok) {
+      setImportStatus({ ok: false, text: result.error });
+      return;
+    }
+    onChange(result.entries);
+    setImportStatus({ ok: true, text: `Imported ${result.added} link${result.added === 1 ? '' : 's'}` });
+  };
+
+  return (
+    <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-1">
+        <h2 className="text-lg font-semibold text-gray-900">Your Links</h2>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export JSON
+          </button>
+          <label className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition cursor-pointer">
+            Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="sr-only"
+              aria-label="Import history file"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {entries.length > 0 && (
+            <button
+              onClick={() => window.confirm('Delete all saved links?') && onChange([])}
+              className="px-4 py-2 text-sm text-gray-500 hover:text-red-500 transition"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Saved in this browser only — nothing is uploaded. Export to move your links to another device.
+      </p>
+
+      {importStatus && (
+        <p role="status" className={`text-sm mb-3 ${importStatus.ok ? 'text-primary' : 'text-red-500'}`}>
+          {importStatus.text}
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">Links you generate will appear here.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sortHistory(entries).map((entry) => {
+            const name = displayName(entry);
+            return (
+              <li key={entry.id} className={`py-3 flex items-start gap-3 ${entry.id === activeId ? 'bg-primary/5 -mx-2 px-2 rounded-lg' : ''}`}>
+                <span
+                  className="mt-1 w-6 h-6 rounded border border-gray-300 shrink-0 flex items-center justify-center"
+                  style={{ background: entry.qrBackground }}
+                  aria-hidden="true"
+                >
+                  <span className="w-3 h-3 rounded-sm" style={{ background: entry.qrColor }} />
+                </span>
+
+                <div className="flex-1 min-w-0">
+                  {renamingId === entry.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      placeholder={`+${entry.dial} ${entry.phone}`}
+                      aria-label={`Name for ${name}`}
+                      maxLength={60}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:border-primary"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {entry.pinned && <span className="text-primary mr-1" aria-label="Pinned">📌</span>}
+                      {name}
+                    </p>
+                  )}
+                  {entry.label && <p className="text-xs text-gray-500 font-mono">+{entry.dial} {entry.phone}</p>}
+                  {entry.message && <p className="text-xs text-gray-500 truncate">{entry.message}</p>}
+                  <p className="text-xs text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.qrSize}px
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-1 text-xs">
+                  <button
+                    onClick={() => onOpen(entry)}
+                    aria-label={`Open ${name}`}
+                    className="px-2 py-1 bg-white border border-gray-300 rounded hover:border-primary transition"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => onChange(updateHistory(entries, entry.id, { pinned: !entry.pinned }))}
+                    aria-label={`${entry.pinned ? 'Unpin' : 'Pin'} ${name}`}
+                    aria-pressed={entry.pinned}
+                    className="px-2 py-1 text-gray-500 hover:text-primary"
+                  >
+                    {entry.pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                  <button
+                    onClick={() => startRename(entry)}
+                    aria-label={`Rename ${name}`}
+                    className="px-2 py-1 text-gray-500 hover:text-primary"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => onChange(duplicateHistory(entries, entry.id))}
+                    aria-label={`Duplicate ${name}`}
+                    className="px-2 py-1 text-gray-500 hover:text-primary"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => onChange(removeHistory(entries, entry.id))}
+                    aria-label={`Delete ${name}`}
+                    className="px-2 text-gray-400 hover:text-red-500"
+                  >
+                    &times;
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+// app/tools/whatsapp-link-generator/LinkParser.tsx
+// Client component — paste any WhatsApp link and split it back into its parts
+'use client';
+
+import { useState, useMemo } from 'react';
+import { findCountry } from '@/lib/utils/wa-link';
+import { parseWhatsAppLink, LINK_TYPES, type LinkParts } from '@/lib/utils/link-types';
+
+interface LinkParserProps {
+  /** Load the parts into the generator form */
+  onUse: (parts: LinkParts) => void;
+}
+
+function partRows(parts: LinkParts): [string, string][] {
+  const rows: [string, string][] = [['Type', LINK_TYPES.find((t) => t.value === parts.type)?.label ?? parts.type]];
+  if (parts.type === 'channel') return [...rows, ['Channel ID', parts.id]];
+  if (parts.type === 'group') return [...rows, ['Invite code', parts.code]];
+
+  const country = findCountry(parts.dial);
+  rows.push(['Country', country ? `${country.flag} ${country.name} (+${parts.dial})` : `+${parts.dial}`]);
+  rows.push(['Number', parts.national]);
+  if (parts.type !== 'catalog') rows.push(['Message', parts.message || '—']);
+  return rows;
+}
+
+export default function LinkParser({ onUse }: LinkParserProps) {
+  const [input, setInput] = useState('');
+
+  const result = useMemo(() => (input.trim() ? parseWhatsAppLink(input) : null), [input]);
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <label htmlFor="parse-link" className="block text-sm font-medium text-gray-700 mb-1">
+        Parse an existing link <span className="text-gray-400 font-normal">(optional)</span>
+      </label>
+      <input
+        id="parse-link"
+        type="url"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder="https://wa.me/919876543210?text=Hi"
+        className={`w-full px-3 py-2 border rounded-lg text-sm font-mono focus:outline-none focus:border-primary ${
+          result && !result.ok ? 'border-red-400' : 'border-gray-300'
+        }`}
+      />
+
+      {result && !result.ok && (
+        <p className="text-red-500 text-xs mt-1">{result.message}</p>
+      )}
+
+      {result?.ok && (
+        <div className="mt-3" data-testid="parsed-link">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            {partRows(result.parts).map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-900 break-all whitespace-pre-wrap">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <button
+            type="button"
+            onClick={() => { onUse(result.parts); setInput(''); }}
+            className="mt-3 px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+          >
+            Use these details
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
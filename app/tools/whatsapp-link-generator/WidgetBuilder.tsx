@@ -0,0 +1,354 @@
+// app/tools/whatsapp-link-generator/WidgetBuilder.tsx
+// Client component — floating click-to-chat widget code for the generated link
+'use client';
+
+import { useState, useMemo } from 'react';
+import CopyButton from '@/components/tools/CopyButton';
+import { parsePhone } from '@/lib/utils/phone';
+import { isValidHex } from '@/lib/utils/qr-export';
+import type { CountryCode } from '@/lib/utils/wa-link';
+import {
+  agentFromLink,
+  buildWidgetCode,
+  buildPreviewDocument,
+  isWithinHours,
+  DEFAULT_BUSINESS_HOURS,
+  DEFAULT_WIDGET_CONFIG,
+  WEEKDAYS,
+  WIDGET_VARIANTS,
+  type BusinessHours,
+  type WidgetAgent,
+  type WidgetConfig,
+  type WidgetPosition,
+  type WidgetVariant,
+} from '@/lib/utils/chat-widget';
+
+interface WidgetBuilderProps {
+  /** Generated wa.me link — its number is the first agent */
+  link: string;
+  /** Country for extra agents entered without + */
+  defaultCountry?: CountryCode;
+}
+
+interface ExtraAgent {
+  name: string;
+  phone: string;
+}
+
+const TIMEZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Jakarta',
+  'Asia/Singapore',
+  'Australia/Sydney',
+];
+
+const POSITIONS: { value: WidgetPosition; label: string }[] = [
+  { value: 'right', label: 'Bottom right' },
+  { value: 'left', label: 'Bottom left' },
+];
+
+function localTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export default function WidgetBuilder({ link, defaultCountry }: WidgetBuilderProps) {
+  const [position, setPosition] = useState<WidgetPosition>(DEFAULT_WIDGET_CONFIG.position);
+  const [color, setColor] = useState(DEFAULT_WIDGET_CONFIG.color);
+  const [greeting, setGreeting] = useState(DEFAULT_WIDGET_CONFIG.greeting);
+  const [useHours, setUseHours] = useState(false);
+  const [hours, setHours] = useState<BusinessHours>(() => ({ ...DEFAULT_BUSINESS_HOURS, timezone: localTimezone() }));
+  const [offlineMessage, setOfflineMessage] = useState(DEFAULT_WIDGET_CONFIG.offlineMessage);
+  const [primaryName, setPrimaryName] = useState('');
+  const [extraAgents, setExtraAgents] = useState<ExtraAgent[]>([]);
+  const [variant, setVariant] = useState<WidgetVariant>('html');
+
+  const primary = useMemo(() => agentFromLink(link), [link]);
+
+  // Extra agents are validated like the main phone field; invalid ones are left out
+  const parsedExtras = useMemo(
+    () => extraAgents.map((a) => (a.phone.trim() ? parsePhone(a.phone, defaultCountry) : null)),
+    [extraAgents, defaultCountry]
+  );
+
+  const config: WidgetConfig = useMemo(() => {
+    const agents: WidgetAgent[] = [];
+    if (primary) agents.push({ name: primaryName.trim(), phone: primary.phone });
+    parsedExtras.forEach((result, i) => {
+      if (result?.ok) agents.push({ name: extraAgents[i].name.trim(), phone: `${result.dial}${result.national}` });
+    });
+    return {
+      agents,
+      message: primary?.message ?? '',
+      position,
+      color: isValidHex(color) ? color : DEFAULT_WIDGET_CONFIG.color,
+      greeting,
+      hours: useHours ? hours : null,
+      offlineMessage,
+    };
+  }, [primary, primaryName, parsedExtras, extraAgents, position, color, greeting, useHours, hours, offlineMessage]);
+
+  const code = useMemo(() => buildWidgetCode(config, variant), [config, variant]);
+  const previewDoc = useMemo(() => buildPreviewDocument(config), [config]);
+  const onlineNow = useHours ? isWithinHours(hours) : true;
+
+  const updateExtra = (index: number, patch: Partial<ExtraAgent>) => {
+    setExtraAgents(extraAgents.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  };
+
+  const toggleDay = (day: number) => {
+    const days = hours.days.includes(day) ? hours.days.filter((d) => d !== day) : [...hours.days, day].sort((a, b) => a - b);
+    setHours({ ...hours, days });
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Website Chat Widget</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        A floating WhatsApp button for your site, using the link above. Paste the code before <code>&lt;/body&gt;</code>.
+      </p>
+
+      {/* Appearance */}
+      <div className="flex flex-wrap gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Position</label>
+          <div className="flex gap-1">
+            {POSITIONS.map((p) => (
+              <button
+                key={p.value}
+                type="button"
+                onClick={() => setPosition(p.value)}
+                className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                  position === p.value
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label htmlFor="widget-color" className="block text-xs font-medium text-gray-500 mb-1">Button color</label>
+          <div className="flex items-center gap-1">
+            <input
+              type="color"
+              value={isValidHex(color) ? color : DEFAULT_WIDGET_CONFIG.color}
+              onChange={(e) => setColor(e.target.value)}
+              aria-label="Button color picker"
+              className="w-8 h-8 rounded border border-gray-200 cursor-pointer"
+            />
+            <input
+              id="widget-color"
+              type="text"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              maxLength={7}
+              className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-xs font-mono focus:outline-none focus:border-primary"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="widget-greeting" className="block text-xs font-medium text-gray-500 mb-1">
+          Greeting bubble <span className="font-normal text-gray-400">(leave empty to hide)</span>
+        </label>
+        <input
+          id="widget-greeting"
+          type="text"
+          value={greeting}
+          onChange={(e) => setGreeting(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+        />
+      </div>
+
+      {/* Business Hours */}
+      <div className="mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={useHours} onChange={(e) => setUseHours(e.target.checked)} />
+          Business hours
+        </label>
+        {useHours && (
+          <div className="mt-2 pl-6 space-y-2">
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Open days">
+              {WEEKDAYS.map((day, i) => (
+                <button
+                  key={day}
+                  type="button"
+                  aria-pressed={hours.days.includes(i)}
+                  onClick={() => toggleDay(i)}
+                  className={`px-2 py-1 text-xs rounded border transition ${
+                    hours.days.includes(i)
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                  }`}
+                >
+                  {day}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              <input
+                type="time"
+                aria-label="Opens at"
+                value={hours.open}
+                onChange={(e) => setHours({ ...hours, open: e.target.value })}
+                className="px-2 py-1 border border-gray-200 rounded"
+              />
+              <span>to</span>
+              <input
+                type="time"
+                aria-label="Closes at"
+                value={hours.close}
+                onChange={(e) => setHours({ ...hours, close: e.target.value })}
+                className="px-2 py-1 border border-gray-200 rounded"
+              />
+              <select
+                aria-label="Time zone"
+                value={hours.timezone}
+                onChange={(e) => setHours({ ...hours, timezone: e.target.value })}
+                className="px-2 py-1 border border-gray-200 rounded bg-white"
+              >
+                {Array.from(new Set([localTimezone(), ...TIMEZONES])).map((tz) => (
+                  <option key={tz} value={tz}>{tz}</option>
+                ))}
+              </select>
+              <span className={onlineNow ? 'text-green-600' : 'text-gray-400'}>
+                {onlineNow ? '● Online now' : '○ Offline now'}
+              </span>
+            </div>
+            <div>
+              <label htmlFor="widget-offline" className="block text-xs font-medium text-gray-500 mb-1">Offline message</label>
+              <input
+                id="widget-offline"
+                type="text"
+                value={offlineMessage}
+                onChange={(e) => setOfflineMessage(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Agents */}
+      <div className="mb-4">
+        <label className="block text-xs font-medium text-gray-500 mb-1">
+          Agents <span className="font-normal text-gray-400">(each visitor is routed round-robin)</span>
+        </label>
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={primaryName}
+              onChange={(e) => setPrimaryName(e.target.value)}
+              placeholder="Agent name"
+              aria-label="Agent 1 name"
+              className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+            />
+            <input
+              type="text"
+              value={primary ? `+${primary.phone}` : ''}
+              readOnly
+              aria-label="Agent 1 phone"
+              className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-500 font-mono"
+            />
+          </div>
+          {extraAgents.map((agent, i) => {
+            const result = parsedExtras[i];
+            return (
+              <div key={i}>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={agent.name}
+                    onChange={(e) => updateExtra(i, { name: e.target.value })}
+                    placeholder="Agent name"
+                    aria-label={`Agent ${i + 2} name`}
+                    className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+                  />
+                  <input
+                    type="tel"
+                    value={agent.phone}
+                    onChange={(e) => updateExtra(i, { phone: e.target.value })}
+                    placeholder="+44 7700 900123"
+                    aria-label={`Agent ${i + 2} phone`}
+                    className={`flex-1 px-3 py-2 border rounded-lg text-sm focus:outline-none focus:border-primary ${
+                      result && !result.ok ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setExtraAgents(extraAgents.filter((_, j) => j !== i))}
+                    aria-label={`Remove agent ${i + 2}`}
+                    className="px-3 text-gray-400 hover:text-red-500"
+                  >
+                    &times;
+                  </button>
+                </div>
+                {result && !result.ok && <p className="text-red-500 text-xs mt-1">{result.message}</p>}
+              </div>
+            );
+          })}
+        </div>
+        <button
+          type="button"
+          onClick={() => setExtraAgents([...extraAgents, { name: '', phone: '' }])}
+          className="mt-2 text-xs text-primary hover:underline"
+        >
+          + Add agent
+        </button>
+      </div>
+
+      {/* Code */}
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1" role="tablist" aria-label="Code format">
+          {WIDGET_VARIANTS.map((v) => (
+            <button
+              key={v.value}
+              role="tab"
+              aria-selected={variant === v.value}
+              onClick={() => setVariant(v.value)}
+              className={`px-3 py-1.5 text-xs rounded-lg border transition ${
+                variant === v.value
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-gray-400'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        <CopyButton text={code} label="Copy Code" />
+      </div>
+      <pre
+        data-testid="widget-code"
+        className="p-3 bg-gray-900 text-gray-100 rounded-lg text-xs font-mono overflow-auto max-h-64 whitespace-pre"
+      >
+        {code}
+      </pre>
+
+      {/* Preview */}
+      <p className="text-xs font-medium text-gray-500 mt-4 mb-1">Live preview</p>
+      <iframe
+        title="Widget preview"
+        sandbox="allow-scripts allow-popups"
+        srcDoc={previewDoc}
+        className="w-full h-72 rounded-lg border border-gray-200 bg-white"
+      />
+    </div>
+  );
+}
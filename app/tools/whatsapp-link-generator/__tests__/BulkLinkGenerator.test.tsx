@@ -0,0 +1,81 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for BulkLinkGenerator
+import React from 'react';
+import { TextEncoder } from 'util';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import QRCode from 'qrcode';
+import BulkLinkGenerator from '../BulkLinkGenerator';
+
+// Mock QRCode
+jest.mock('qrcode', () => ({
+  toDataURL: jest.fn().mockResolvedValue('data:image/png;base64,AQID'),
+}));
+
+// jsdom lacks TextEncoder (used for ZIP file names)
+Object.assign(global, { TextEncoder });
+
+// Mock object URLs for downloads
+const mockCreateObjectURL = jest.fn().mockReturnValue('blob:mock');
+Object.assign(URL, { createObjectURL: mockCreateObjectURL, revokeObjectURL: jest.fn() });
+
+function pasteCSV(value: string) {
+  fireEvent.change(screen.getByLabelText(/paste csv/i), { target: { value } });
+  fireEvent.click(screen.getByRole('button', { name: /create bulk links/i }));
+}
+
+describe('BulkLinkGenerator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Test 1: Generates links from pasted CSV
+  it('generates a link per valid row', () => {
+    render(<BulkLinkGenerator defaultDial="91" />);
+    pasteCSV('name,phone\nPriya,9876543210\nSam,9876543211');
+    expect(screen.getByText('https://wa.me/919876543210')).toBeInTheDocument();
+    expect(screen.getByText('https://wa.me/919876543211')).toBeInTheDocument();
+    expect(screen.getByText(/links ready/)).toBeInTheDocument();
+  });
+
+  // Test 2: Shows per-row errors
+  it('shows per-row errors', () => {
+    render(<BulkLinkGenerator defaultDial="91" />);
+    pasteCSV('name,phone\nPriya,9876543210\nBad,123');
+    expect(screen.getByText(/too short/i)).toBeInTheDocument();
+    expect(screen.getByText(/1 row has errors/)).toBeInTheDocument();
+  });
+
+  // Test 3: Load example fills the textarea
+  it('loads the example CSV', () => {
+    render(<BulkLinkGenerator defaultDial="91" />);
+    fireEvent.click(screen.getByRole('button', { name: /load example/i }));
+    expect((screen.getByLabelText(/paste csv/i) as HTMLTextAreaElement).value).toContain('Priya Sharma');
+  });
+
+  // Test 4: Downloads CSV
+  it('downloads the links CSV', async () => {
+    render(<BulkLinkGenerator defaultDial="91" />);
+    pasteCSV('name,phone\nPriya,9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /download csv/i }));
+    const blob = mockCreateObjectURL.mock.calls[0][0] as Blob;
+    expect(blob.type).toContain('text/csv');
+  });
+
+  // Test 5: ZIP renders one QR per valid row
+  it('builds a ZIP with one QR per valid row', async () => {
+    render(<BulkLinkGenerator defaultDial="91" qrColor="#25D366" />);
+    pasteCSV('name,phone\nPriya,9876543210\nBad,1\nSam,9876543211');
+    fireEvent.click(screen.getByRole('button', { name: /download qr codes/i }));
+
+    await waitFor(() => expect(mockCreateObjectURL).toHaveBeenCalled());
+    expect(QRCode.toDataURL).toHaveBeenCalledTimes(2);
+    expect(QRCode.toDataURL).toHaveBeenCalledWith(
+      'https://wa.me/919876543210',
+      expect.objectContaining({ color: { dark: '#25D366', light: '#FFFFFF' } })
+    );
+    const blob = mockCreateObjectURL.mock.calls[0][0] as Blob;
+    expect(blob.type).toBe('application/zip');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for CampaignManager
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CampaignManager from '../CampaignManager';
+import { DEFAULT_QR_STYLE } from '@/lib/utils/qr-export';
+import type { CampaignEntry } from '@/lib/utils/campaign';
+
+function entry(ref: string, source: string, id = ref): CampaignEntry {
+  return {
+    id,
+    ref,
+    source,
+    medium: 'print',
+    name: 'summer-sale',
+    createdAt: '2024-06-01T10:00:00.000Z',
+    phone: '+919876543210',
+    message: 'Hi!',
+    link: `https://wa.me/919876543210?text=Hi!%0A%0ARef%3A%20${ref}`,
+  };
+}
+
+const ENTRIES = [entry('FLYER-01', 'flyer'), entry('BUS-01', 'bus-stop')];
+
+function renderManager(overrides: Partial<React.ComponentProps<typeof CampaignManager>> = {}) {
+  const props = {
+    entries: ENTRIES,
+    onRemove: jest.fn(),
+    onClear: jest.fn(),
+    qrStyle: DEFAULT_QR_STYLE,
+    qrSize: 256,
+    ...overrides,
+  };
+  render(<CampaignManager {...props} />);
+  return props;
+}
+
+describe('CampaignManager', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  // Test 1: Pasting a chat message finds its campaign
+  it('filters by search text and by a pasted chat message', () => {
+    renderManager();
+    expect(screen.getByText('FLYER-01')).toBeInTheDocument();
+    expect(screen.getByText('BUS-01')).toBeInTheDocument();
+
+    const search = screen.getByLabelText('Search campaigns');
+    fireEvent.change(search, { target: { value: 'bus' } });
+    expect(screen.queryByText('FLYER-01')).not.toBeInTheDocument();
+
+    fireEvent.change(search, { target: { value: 'Hi, is this still available?\n\nRef: FLYER-01 · flyer / print / summer-sale' } });
+    expect(screen.getByText('FLYER-01')).toBeInTheDocument();
+    expect(screen.queryByText('BUS-01')).not.toBeInTheDocument();
+
+    fireEvent.change(search, { target: { value: 'nothing here' } });
+    expect(screen.getByText('No matching campaigns')).toBeInTheDocument();
+  });
+
+  // Test 2: CSV export
+  it('exports all campaigns as a CSV download', () => {
+    const createObjectURL = jest.fn(() => 'blob:campaigns');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('whatsapp-campaigns.csv');
+    });
+
+    renderManager();
+    fireEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+    expect(click).toHaveBeenCalledTimes(1);
+    const blob = (createObjectURL.mock.calls[0] as unknown[])[0] as Blob;
+    expect(blob.type).toBe('text/csv;charset=utf-8');
+  });
+
+  // Test 3: Delete one, clear all with confirmation
+  it('deletes a row and clears all after confirming', () => {
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const props = renderManager();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete BUS-01' }));
+    expect(props.onRemove).toHaveBeenCalledWith('BUS-01');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear all' }));
+    expect(props.onClear).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Clear all' }));
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(props.onClear).toHaveBeenCalledTimes(1);
+  });
+});
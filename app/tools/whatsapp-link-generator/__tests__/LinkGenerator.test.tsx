@@ -5,13 +5,21 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { TextEncoder } from 'util';
 import LinkGenerator from '../LinkGenerator';
 
 // Mock QRCode
 jest.mock('qrcode', () => ({
   toDataURL: jest.fn().mockResolvedValue('data:image/png;base64,mockQR'),
+  create: jest.requireActual('qrcode').create,
 }));
 
+// Mock QR decoder — each test decides what the scan returns
+jest.mock('jsqr', () => jest.fn());
+
+// jsdom lacks TextEncoder (used by qrcode for SVG export)
+Object.assign(global, { TextEncoder });
+
 // Mock clipboard
 const mockWriteText = jest.fn().mockResolvedValue(undefined);
 Object.assign(navigator, {
@@ -21,6 +29,8 @@ Object.assign(navigator, {
 describe('LinkGenerator', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    // Form state is mirrored to the URL — start each test from a clean address
+    window.history.replaceState(null, '', '/');
   });
 
   // Test 1: Renders phone input and generate button
@@ -169,4 +179,286 @@ describe('LinkGenerator', () => {
       expect((input as HTMLInputElement).value).toBe('9876543210');
     });
   });
+
+  // Test 18: Pasted number uses the longest matching dial code
+  it('matches the longest dial code for pasted numbers', async () => {
+    render(<LinkGenerator />);
+    const input = screen.getByPlaceholderText('9876543210');
+    fireEvent.change(input, { target: { value: '+1 264 555 1234' } });
+    await waitFor(() => {
+      expect((input as HTMLInputElement).value).toBe('5551234');
+    });
+    expect(screen.getByText('+1264')).toBeInTheDocument();
+  });
+
+  // Test 19: Strips the UK trunk prefix
+  it('strips the national trunk prefix', async () => {
+    render(<LinkGenerator />);
+    const input = screen.getByPlaceholderText('9876543210');
+    fireEvent.change(input, { target: { value: '+44 07700 900123' } });
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    await waitFor(() => {
+      expect(screen.getByDisplayValue('https://wa.me/447700900123')).toBeInTheDocument();
+    });
+  });
+
+  // Test 20: Custom colors pass through to the QR and show a contrast check
+  it('applies custom hex colors with a contrast warning', async () => {
+    const QRCode = require('qrcode');
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    await screen.findByText(/download qr/i);
+
+    fireEvent.change(screen.getByLabelText('QR color'), { target: { value: '#cccccc' } });
+    expect(screen.getByTestId('qr-contrast')).toHaveTextContent(/too low/i);
+    await waitFor(() => {
+      expect(QRCode.toDataURL).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ color: { dark: '#CCCCCC', light: '#FFFFFF' } })
+      );
+    });
+  });
+
+  // Test 21: Error-correction level is selectable; a logo forces H
+  it('lets users pick error correction and forces H with a logo', async () => {
+    const QRCode = require('qrcode');
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    await screen.findByText(/download qr/i);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Q' }));
+    await waitFor(() => {
+      expect(QRCode.toDataURL).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ errorCorrectionLevel: 'Q' })
+      );
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /whatsapp icon/i }));
+    expect(screen.getByRole('button', { name: 'L' })).toBeDisabled();
+    expect(screen.getByText(/uses high \(h\)/i)).toBeInTheDocument();
+  });
+
+  // Test 22: SVG download
+  it('downloads a vector SVG', async () => {
+    const clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    fireEvent.click(await screen.findByRole('button', { name: /download svg/i }));
+
+    const anchor = clickSpy.mock.instances[0] as unknown as HTMLAnchorElement;
+    expect(anchor.download).toMatch(/\.svg$/);
+    expect(decodeURIComponent(anchor.href)).toContain('<svg');
+    clickSpy.mockRestore();
+  });
+
+  // Test 23: Contact card mode encodes a vCard with the wa.me link
+  it('builds a contact card QR with vCard and MeCard formats', async () => {
+    const QRCode = require('qrcode');
+    render(<LinkGenerator />);
+    fireEvent.click(screen.getByRole('tab', { name: /contact card/i }));
+    await userEvent.type(screen.getByLabelText(/^name/i), 'Priya Sharma');
+    await userEvent.type(screen.getByLabelText(/^organization/i), 'Sharma Bakery');
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /generate contact qr/i }));
+
+    const payload = await screen.findByTestId('contact-payload');
+    expect(payload).toHaveTextContent('BEGIN:VCARD');
+    expect(payload).toHaveTextContent('FN:Priya Sharma');
+    expect(payload).toHaveTextContent('ORG:Sharma Bakery');
+    expect(payload).toHaveTextContent(/URL;TYPE=WhatsApp:https:\/\/wa\.me\/\d+9876543210/);
+    await waitFor(() => {
+      expect(QRCode.toDataURL).toHaveBeenLastCalledWith(expect.stringContaining('BEGIN:VCARD'), expect.any(Object));
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'MeCard' }));
+    expect(screen.getByTestId('contact-payload')).toHaveTextContent(/^MECARD:N:Sharma,Priya;/);
+    expect(screen.getByRole('button', { name: /download \.vcf/i })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /business card pdf/i })).toBeInTheDocument();
+  });
+
+  // Test 24: Contact card requires a name
+  it('requires a name in contact card mode', async () => {
+    render(<LinkGenerator />);
+    fireEvent.click(screen.getByRole('tab', { name: /contact card/i }));
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.click(screen.getByRole('button', { name: /generate contact qr/i }));
+    expect(screen.getByText('Please enter a name')).toBeInTheDocument();
+    expect(screen.queryByTestId('contact-payload')).not.toBeInTheDocument();
+  });
+
+  // Test 25: Campaign tracking tags the message and logs the link
+  it('adds a campaign ref to the message and saves it to the campaign log', async () => {
+    localStorage.clear();
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Hi!' } });
+    fireEvent.click(screen.getByLabelText(/track as a campaign/i));
+    fireEvent.change(screen.getByLabelText('Source'), { target: { value: 'flyer' } });
+    fireEvent.change(screen.getByLabelText('Campaign'), { target: { value: 'Summer Sale' } });
+    expect(screen.getByLabelText('Ref code')).toHaveAttribute('placeholder', 'SUMMER-01');
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+
+    const link = (await screen.findByDisplayValue(/wa\.me/) as HTMLInputElement).value;
+    expect(decodeURIComponent(link)).toMatch(/text=Hi!\n\nRef: SUMMER-01 · flyer \/ - \/ Summer Sale$/);
+    expect(screen.getByRole('heading', { name: 'Campaign Links' })).toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('wa-link-campaigns')!)[0]).toMatchObject({ ref: 'SUMMER-01', message: 'Hi!', link });
+  });
+
+  // Test 26: Generated links are saved to history and can be re-opened
+  it('saves generated links to history and re-opens them', async () => {
+    localStorage.clear();
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Hi!' } });
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    const link = (await screen.findByDisplayValue(/wa\.me/) as HTMLInputElement).value;
+
+    // Regenerating the same link at a new size updates its entry
+    fireEvent.click(screen.getByRole('button', { name: /print \(600px\)/i }));
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    const saved = JSON.parse(localStorage.getItem('wa-link-history')!);
+    expect(saved.version).toBe(1);
+    expect(saved.entries).toHaveLength(1);
+    expect(saved.entries[0]).toMatchObject({ phone: '9876543210', message: 'Hi!', qrSize: 600 });
+
+    // Change the form, then re-open the saved link
+    fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Something else' } });
+    fireEvent.click(screen.getByRole('button', { name: /^open \+\d+ 9876543210$/i }));
+    expect(screen.getByPlaceholderText(/interested/i)).toHaveValue('Hi!');
+    expect(screen.getByDisplayValue(/wa\.me/)).toHaveValue(link);
+    expect(screen.getByText(/generating updates your saved link/i)).toBeInTheDocument();
+  });
+
+  // Test 27: Shared URL opens the link; form changes are written back
+  it('opens a shared URL with the link ready and keeps the URL in sync', async () => {
+    window.history.replaceState(null, '', '/?country=GB&phone=7700900123&message=Hello%20there&color=128c7e&size=5000');
+    render(<LinkGenerator />);
+
+    expect(await screen.findByDisplayValue('https://wa.me/447700900123?text=Hello%20there')).toBeInTheDocument();
+    expect(screen.getByLabelText('QR color')).toHaveValue('#128C7E');
+    // Out-of-range size is clamped to the largest preset
+    expect(screen.getByRole('button', { name: /banner \(1000px\)/i })).toHaveClass('bg-primary');
+
+    fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Hi' } });
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get('message')).toBe('Hi');
+    expect(params.get('country')).toBe('GB');
+    expect(params.get('size')).toBe('1000');
+  });
+
+  // Test 28: API fallback and catalog links reuse the phone field
+  it('builds api.whatsapp.com and catalog links with a QR for each', async () => {
+    const QRCode = require('qrcode');
+    render(<LinkGenerator />);
+    await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+    fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Hi' } });
+
+    fireEvent.click(screen.getByRole('radio', { name: 'API fallback' }));
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    expect(await screen.findByDisplayValue('https://api.whatsapp.com/send?phone=19876543210&text=Hi')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(QRCode.toDataURL).toHaveBeenLastCalledWith('https://api.whatsapp.com/send?phone=19876543210&text=Hi', expect.anything());
+    });
+
+    // Catalogs take no message
+    fireEvent.click(screen.getByRole('radio', { name: 'Catalog' }));
+    expect(screen.queryByPlaceholderText(/interested/i)).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    expect(await screen.findByDisplayValue('https://wa.me/c/19876543210')).toBeInTheDocument();
+  });
+
+  // Test 29: Group invites are validated and shared via the URL
+  it('validates group invite codes and writes them to the URL', async () => {
+    render(<LinkGenerator />);
+    fireEvent.click(screen.getByRole('radio', { name: 'Group invite' }));
+    expect(screen.queryByPlaceholderText('9876543210')).not.toBeInTheDocument();
+
+    const input = screen.getByLabelText('Group invite link or code');
+    fireEvent.change(input, { target: { value: 'https://chat.whatsapp.com/nope' } });
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    expect(screen.getByText(/group invite links look like/i)).toBeInTheDocument();
+
+    // A bare code works as well as the full link
+    fireEvent.change(input, { target: { value: 'HKkYB6QDhKv9wY0u1VN3XA' } });
+    fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+    expect(await screen.findByDisplayValue('https://chat.whatsapp.com/HKkYB6QDhKv9wY0u1VN3XA')).toBeInTheDocument();
+    expect(window.location.search).toBe('?type=group&invite=HKkYB6QDhKv9wY0u1VN3XA');
+  });
+
+  // Test 30: Parsing an existing link fills the form
+  it('splits a pasted link into parts and loads them into the form', async () => {
+    render(<LinkGenerator />);
+    const paste = screen.getByLabelText(/parse an existing link/i);
+
+    fireEvent.change(paste, { target: { value: 'https://t.me/somechannel' } });
+    expect(screen.getByText(/doesn't look like a whatsapp link/i)).toBeInTheDocument();
+
+    fireEvent.change(paste, { target: { value: 'api.whatsapp.com/send?phone=447700900123&text=Hello%20there' } });
+    expect(screen.getByTestId('parsed-link')).toHaveTextContent(/United Kingdom \(\+44\)/);
+    expect(screen.getByTestId('parsed-link')).toHaveTextContent('7700900123');
+    fireEvent.click(screen.getByRole('button', { name: /use these details/i }));
+
+    expect(screen.getByRole('radio', { name: 'API fallback' })).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getByPlaceholderText('9876543210')).toHaveValue('7700900123');
+    expect(screen.getByPlaceholderText(/interested/i)).toHaveValue('Hello there');
+    expect(await screen.findByDisplayValue('https://api.whatsapp.com/send?phone=447700900123&text=Hello%20there')).toBeInTheDocument();
+  });
+
+  describe('scannability check', () => {
+    const originalImage = global.Image;
+    let getContext: jest.SpyInstance;
+
+    beforeEach(() => {
+      // jsdom doesn't load images or implement canvas
+      global.Image = class {
+        onload: (() => void) | null = null;
+        set src(_value: string) {
+          setTimeout(() => this.onload?.());
+        }
+      } as unknown as typeof Image;
+      getContext = jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: jest.fn(),
+        getImageData: (_x: number, _y: number, w: number, h: number) => ({ data: new Uint8ClampedArray(w * h * 4) }),
+      } as unknown as CanvasRenderingContext2D);
+    });
+
+    afterEach(() => {
+      global.Image = originalImage;
+      getContext.mockRestore();
+    });
+
+    // Test 31: Decoded payload matches the link
+    it('shows a pass badge when the QR decodes to the link', async () => {
+      const jsQR = require('jsqr') as jest.Mock;
+      // Decode to whatever link is on the page (default country follows the locale)
+      jsQR.mockImplementation(() => ({
+        data: (screen.getByDisplayValue(/wa\.me/) as HTMLInputElement).value,
+      }));
+      render(<LinkGenerator />);
+      await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+      fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+
+      const badge = await screen.findByTestId('qr-scan-check');
+      expect(badge).toHaveAttribute('data-status', 'pass');
+      expect(badge).toHaveTextContent(/matches your link/i);
+    });
+
+    // Test 32: Long message fails with a density reason
+    it('fails with a density reason when a long message does not decode', async () => {
+      const jsQR = require('jsqr') as jest.Mock;
+      jsQR.mockReturnValue(null);
+      render(<LinkGenerator />);
+      await userEvent.type(screen.getByPlaceholderText('9876543210'), '9876543210');
+      fireEvent.change(screen.getByPlaceholderText(/interested/i), { target: { value: 'Hello there! '.repeat(60) } });
+      fireEvent.click(screen.getByRole('button', { name: /generate/i }));
+
+      const badge = await screen.findByTestId('qr-scan-check');
+      expect(badge).toHaveAttribute('data-status', 'fail');
+      expect(badge).toHaveTextContent(/too dense/i);
+    });
+  });
 });
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for LinkHistory
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import LinkHistory from '../LinkHistory';
+import { exportHistory, type HistoryEntry } from '@/lib/utils/link-history';
+
+function entry(id: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    label: '',
+    pinned: false,
+    createdAt: '2024-06-01T10:00:00.000Z',
+    dial: '91',
+    phone: '9876543210',
+    message: 'Hi!',
+    qrSize: 300,
+    qrColor: '#000000',
+    qrBackground: '#FFFFFF',
+    ...overrides,
+  };
+}
+
+const ENTRIES = [
+  entry('a', { label: 'Shop counter' }),
+  entry('b', { phone: '9123456789', createdAt: '2024-05-01T10:00:00.000Z' }),
+];
+
+/** jsdom's File has no text() */
+function jsonFile(contents: string): File {
+  return Object.assign(new File([contents], 'history.json', { type: 'application/json' }), {
+    text: () => Promise.resolve(contents),
+  });
+}
+
+function renderHistory(entries = ENTRIES) {
+  const onChange = jest.fn();
+  const onOpen = jest.fn();
+  render(<LinkHistory entries={entries} onChange={onChange} onOpen={onOpen} />);
+  return { onChange, onOpen };
+}
+
+describe('LinkHistory', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  // Test 1: Empty state still offers import
+  it('shows an empty state with import available', () => {
+    renderHistory([]);
+    expect(screen.getByText(/links you generate will appear here/i)).toBeInTheDocument();
+    expect(screen.getByLabelText('Import history file')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export JSON' })).toBeDisabled();
+  });
+
+  // Test 2: Open, pin, duplicate, delete
+  it('opens, pins, duplicates and deletes entries', () => {
+    const { onChange, onOpen } = renderHistory();
+    fireEvent.click(screen.getByRole('button', { name: 'Open Shop counter' }));
+    expect(onOpen).toHaveBeenCalledWith(ENTRIES[0]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pin +91 9123456789' }));
+    expect(onChange).toHaveBeenLastCalledWith([ENTRIES[0], { ...ENTRIES[1], pinned: true }]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate Shop counter' }));
+    expect(onChange.mock.lastCall[0].map((e: HistoryEntry) => e.label)).toEqual(['Shop counter', 'Shop counter (copy)', '']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Shop counter' }));
+    expect(onChange).toHaveBeenLastCalledWith([ENTRIES[1]]);
+  });
+
+  // Test 3: Inline rename
+  it('renames an entry inline', () => {
+    const { onChange } = renderHistory();
+    fireEvent.click(screen.getByRole('button', { name: 'Rename +91 9123456789' }));
+    const input = screen.getByLabelText('Name for +91 9123456789');
+    fireEvent.change(input, { target: { value: '  Flyer number  ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onChange).toHaveBeenLastCalledWith([ENTRIES[0], { ...ENTRIES[1], label: 'Flyer number' }]);
+  });
+
+  // Test 4: Import merges a file and reports errors
+  it('imports an exported file and reports invalid files', async () => {
+    const { onChange } = renderHistory();
+    const upload = screen.getByLabelText('Import history file');
+
+    fireEvent.change(upload, { target: { files: [jsonFile(exportHistory([entry('c', { label: 'From laptop' })]))] } });
+    expect(await screen.findByText('Imported 1 link')).toBeInTheDocument();
+    expect(onChange.mock.lastCall[0].map((e: HistoryEntry) => e.id)).toEqual(['a', 'c', 'b']);
+
+    fireEvent.change(upload, { target: { files: [jsonFile('nope')] } });
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent("This file isn't valid JSON"));
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for WidgetBuilder
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import WidgetBuilder from '../WidgetBuilder';
+import { findCountry } from '@/lib/utils/wa-link';
+
+const LINK = 'https://wa.me/919876543210?text=Hello';
+
+function code() {
+  return screen.getByTestId('widget-code').textContent ?? '';
+}
+
+describe('WidgetBuilder', () => {
+  // Test 1: Snippet uses the generated link
+  it('builds an HTML snippet from the generated link', () => {
+    render(<WidgetBuilder link={LINK} />);
+    expect(code()).toContain('<div id="wa-widget"');
+    expect(code()).toContain('"phone": "919876543210"');
+    expect(code()).toContain('"message": "Hello"');
+    expect(screen.getByLabelText('Agent 1 phone')).toHaveValue('+919876543210');
+  });
+
+  // Test 2: Position, color and greeting flow into the code
+  it('applies position, color and greeting', () => {
+    render(<WidgetBuilder link={LINK} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Bottom left' }));
+    fireEvent.change(screen.getByLabelText('Button color'), { target: { value: '#128C7E' } });
+    fireEvent.change(screen.getByLabelText(/greeting bubble/i), { target: { value: 'Need help?' } });
+    expect(code()).toContain('left: 20px;');
+    expect(code()).toContain('background: #128C7E;');
+    expect(code()).toContain('"greeting": "Need help?"');
+  });
+
+  // Test 3: Extra agents are validated and added
+  it('adds valid agents and flags invalid numbers', () => {
+    render(<WidgetBuilder link={LINK} defaultCountry={findCountry('IN')} />);
+    fireEvent.click(screen.getByRole('button', { name: /add agent/i }));
+    fireEvent.change(screen.getByLabelText('Agent 2 phone'), { target: { value: '12' } });
+    expect(screen.getByText(/too short/i)).toBeInTheDocument();
+    expect(code()).not.toContain('"phone": "9112"');
+
+    fireEvent.change(screen.getByLabelText('Agent 2 phone'), { target: { value: '+44 7700 900123' } });
+    fireEvent.change(screen.getByLabelText('Agent 2 name'), { target: { value: 'Tom' } });
+    expect(code()).toContain('"phone": "447700900123"');
+    expect(code()).toContain('"name": "Tom"');
+  });
+
+  // Test 4: Business hours + offline message
+  it('adds business hours with an offline message', () => {
+    render(<WidgetBuilder link={LINK} />);
+    expect(code()).toContain('"hours": null');
+    fireEvent.click(screen.getByLabelText(/business hours/i));
+    fireEvent.change(screen.getByLabelText('Time zone'), { target: { value: 'Asia/Kolkata' } });
+    fireEvent.change(screen.getByLabelText(/offline message/i), { target: { value: 'Back at 9am' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Sat' }));
+    expect(code()).toContain('"timezone": "Asia/Kolkata"');
+    expect(code()).toContain('"offlineMessage": "Back at 9am"');
+    expect(code()).toMatch(/"days": \[\s*1,\s*2,\s*3,\s*4,\s*5,\s*6\s*\]/);
+  });
+
+  // Test 5: Variants and sandboxed preview
+  it('switches code variants and renders a sandboxed preview', () => {
+    render(<WidgetBuilder link={LINK} />);
+    fireEvent.click(screen.getByRole('tab', { name: 'React' }));
+    expect(code()).toContain('export default function WhatsAppWidget()');
+    fireEvent.click(screen.getByRole('tab', { name: 'WordPress' }));
+    expect(code()).toContain("add_shortcode('whatsapp_widget'");
+
+    const iframe = screen.getByTitle('Widget preview');
+    expect(iframe).toHaveAttribute('sandbox', 'allow-scripts allow-popups');
+    expect(iframe.getAttribute('srcdoc')).toContain('<div id="wa-widget"');
+  });
+});
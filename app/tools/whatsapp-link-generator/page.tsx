@@ -3,6 +3,7 @@
 // URL: whatsscale.com/tools/whatsapp-link-generator
 
 import { Metadata } from 'next';
+import { Suspense } from 'react';
 import LinkGenerator from './LinkGenerator';
 
 export const metadata: Metadata = {
@@ -17,5 +18,13 @@ export const metadata: Metadata = {
 };
 
 export default function WhatsAppLinkGeneratorPage() {
-  return <LinkGenerator />;
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <LinkGenerator />
+    </Suspense>
+  );
 }
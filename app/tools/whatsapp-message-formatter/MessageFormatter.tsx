@@ -0,0 +1,311 @@
+// app/tools/whatsapp-message-formatter/MessageFormatter.tsx
+// Client component — WhatsApp Message Formatter (Tool #2)
+'use client';
+
+import { useState, useMemo, useRef, useCallback } from 'react';
+import CopyButton from '@/components/tools/CopyButton';
+import CharacterCounter from '@/components/tools/CharacterCounter';
+import SEOContent from '@/components/tools/SEOContent';
+import ToolCTA from '@/components/tools/ToolCTA';
+import RelatedTools from '@/components/tools/RelatedTools';
+import PrivacyBadge from '@/components/tools/PrivacyBadge';
+import WhatsAppPreview, { type PreviewTheme } from '@/components/tools/WhatsAppPreview';
+import {
+  stripWaMarkup,
+  toggleInlineStyle,
+  toggleLineStyle,
+  type FormatStyle,
+  type LineStyle,
+  type TextSelection,
+} from '@/lib/utils/wa-markup';
+
+// ============================================================
+// Types
+// ============================================================
+type ToolbarAction =
+  | { kind: 'inline'; style: FormatStyle }
+  | { kind: 'line'; style: LineStyle };
+
+interface ToolbarButton {
+  label: string;
+  icon: React.ReactNode;
+  action: ToolbarAction;
+  shortcut?: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+const TOOLBAR: ToolbarButton[] = [
+  { label: 'Bold', icon: <strong>B</strong>, action: { kind: 'inline', style: 'bold' }, shortcut: 'b' },
+  { label: 'Italic', icon: <em>I</em>, action: { kind: 'inline', style: 'italic' }, shortcut: 'i' },
+  { label: 'Strikethrough', icon: <s>S</s>, action: { kind: 'inline', style: 'strike' } },
+  { label: 'Monospace', icon: <span className="font-mono">{'{ }'}</span>, action: { kind: 'inline', style: 'mono' } },
+  { label: 'Inline code', icon: <span className="font-mono">{'`'}</span>, action: { kind: 'inline', style: 'code' } },
+  { label: 'Quote', icon: <span>{'❝'}</span>, action: { kind: 'line', style: 'quote' } },
+  { label: 'Bulleted list', icon: <span>{'•'}</span>, action: { kind: 'line', style: 'bulletList' } },
+  { label: 'Numbered list', icon: <span>1.</span>, action: { kind: 'line', style: 'orderedList' } },
+];
+
+const SYNTAX_REFERENCE = [
+  { format: 'Bold', syntax: '*text*' },
+  { format: 'Italic', syntax: '_text_' },
+  { format: 'Strikethrough', syntax: '~text~' },
+  { format: 'Monospace', syntax: '```text```' },
+  { format: 'Inline code', syntax: '`text`' },
+  { format: 'Quote', syntax: '> text' },
+  { format: 'Bulleted list', syntax: '- text or * text' },
+  { format: 'Numbered list', syntax: '1. text' },
+];
+
+const DEFAULT_MESSAGE =
+  '*Weekend Sale* 🎉\n_Up to 50% off_ on all items — ~₹999~ now ₹499!\n\n> Offer valid till Sunday\n\n- Free delivery\n- Easy returns';
+
+// ============================================================
+// SEO Content
+// ============================================================
+const seoSections = [
+  {
+    heading: 'How to Write Bold, Italic and Strikethrough Text on WhatsApp',
+    content: 'WhatsApp supports simple text formatting using symbols around your words. Wrap text in asterisks for *bold*, underscores for _italic_, tildes for ~strikethrough~, and three backticks for ```monospace```. The symbols must touch the text — a space after the opening symbol breaks the formatting. This formatter applies the symbols for you and shows a live preview exactly as your recipient will see it.',
+  },
+  {
+    heading: 'Lists, Quotes and Inline Code on WhatsApp',
+    content: 'Newer versions of WhatsApp also format bulleted lists (start a line with - or * followed by a space), numbered lists (1. followed by a space), block quotes (start a line with > ) and inline code (wrap text in single backticks). Use the toolbar above to apply these to one or many lines at once — select the lines and click the list or quote button.',
+  },
+  {
+    heading: 'Why Format Your WhatsApp Messages?',
+    content: 'Formatted messages are easier to scan. Bold the offer, italicize the fine print, strike through the old price, and put order numbers in monospace so they are easy to copy. Businesses that format broadcast messages and catalog updates see higher read-through because the key information stands out in a busy chat list.',
+  },
+  {
+    heading: 'Does WhatsApp Formatting Work Everywhere?',
+    content: 'Formatting works in chats, groups, Channels, Status text and WhatsApp Business messages on Android, iPhone, WhatsApp Web and Desktop. If the recipient is on a very old version of WhatsApp, lists, quotes and inline code may show as plain text with the symbols visible — bold, italic, strikethrough and monospace are supported everywhere.',
+  },
+];
+
+const seoFaqs = [
+  {
+    question: 'How do I make text bold on WhatsApp?',
+    answer: 'Put an asterisk on both sides of the text, like *this*. There must be no space between the asterisk and the first or last letter. You can also select the text in WhatsApp and choose Bold from the menu.',
+  },
+  {
+    question: 'How do I write italic text on WhatsApp?',
+    answer: 'Put an underscore on both sides of the text, like _this_. Combine styles by nesting them: *_bold italic_*.',
+  },
+  {
+    question: 'How do I strike through text on WhatsApp?',
+    answer: 'Put a tilde on both sides of the text, like ~this~. Strikethrough is popular for showing old prices next to a discount.',
+  },
+  {
+    question: 'What is monospace on WhatsApp?',
+    answer: 'Monospace uses a fixed-width font. Wrap text in three backticks, like ```this```. It is useful for codes, order numbers and aligned text.',
+  },
+  {
+    question: 'Why is my WhatsApp formatting not working?',
+    answer: 'The most common cause is a space between the symbol and the text, or a symbol in the middle of a word (like 2*3*4). The symbols must sit at the start and end of the text you want to format.',
+  },
+  {
+    question: 'Is this formatter free?',
+    answer: 'Yes, completely free with no signup. Everything runs in your browser — your messages are never sent to a server.',
+  },
+];
+
+const relatedTools = [
+  {
+    name: 'WhatsApp Link Generator & QR Code',
+    href: '/tools/whatsapp-link-generator',
+    emoji: '🔗',
+    description: 'Create click-to-chat links and downloadable QR codes.',
+  },
+  {
+    name: 'WhatsApp Greeting Generator',
+    href: '/tools/whatsapp-greeting-generator',
+    emoji: '👋',
+    description: 'Generate ready-to-send greetings for every occasion.',
+  },
+  {
+    name: 'Channel Growth Calculator',
+    href: '/tools/channel-growth-calculator',
+    emoji: '📈',
+    description: 'Project your WhatsApp Channel growth and revenue.',
+  },
+  {
+    name: 'WhatsApp vs Telegram',
+    href: '/tools/whatsapp-vs-telegram',
+    emoji: '⚔️',
+    description: 'Interactive comparison for creators and business.',
+  },
+];
+
+// ============================================================
+// Component
+// ============================================================
+export default function MessageFormatter() {
+  const [message, setMessage] = useState(DEFAULT_MESSAGE);
+  const [previewTheme, setPreviewTheme] = useState<PreviewTheme>('light');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const plainText = useMemo(() => stripWaMarkup(message), [message]);
+
+  // Apply a toolbar action to the current selection, then restore selection
+  const applyAction = useCallback((action: ToolbarAction) => {
+    const el = textareaRef.current;
+    const start = el ? el.selectionStart : message.length;
+    const end = el ? el.selectionEnd : message.length;
+
+    const result: TextSelection =
+      action.kind === 'inline'
+        ? toggleInlineStyle(message, start, end, action.style)
+        : toggleLineStyle(message, start, end, action.style);
+
+    setMessage(result.text);
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.focus();
+      textareaRef.current.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  }, [message]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const button = TOOLBAR.find((b) => b.shortcut === e.key.toLowerCase());
+    if (button) {
+      e.preventDefault();
+      applyAction(button.action);
+    }
+  }, [applyAction]);
+
+  const handleClearFormatting = useCallback(() => {
+    setMessage(plainText);
+  }, [plainText]);
+
+  return (
+    <div className="bg-white">
+      {/* Hero */}
+      <section className="bg-gradient-to-br from-primary-light/10 via-white to-primary/5 py-12">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-3">
+            Free WhatsApp Message Formatter
+          </h1>
+          <p className="text-lg text-gray-600">
+            Bold, italic, strikethrough, monospace, lists & quotes — with live preview
+          </p>
+          <PrivacyBadge />
+        </div>
+      </section>
+
+      {/* Tool */}
+      <section className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+          {/* Toolbar */}
+          <div className="flex flex-wrap gap-1 mb-2" role="toolbar" aria-label="Formatting">
+            {TOOLBAR.map((b) => (
+              <button
+                key={b.label}
+                type="button"
+                onClick={() => applyAction(b.action)}
+                className="min-w-[36px] px-2.5 py-1.5 text-sm rounded-lg border border-gray-200 bg-white text-gray-700 hover:border-primary transition"
+                aria-label={b.label}
+                title={b.shortcut ? `${b.label} (Ctrl+${b.shortcut.toUpperCase()})` : b.label}
+              >
+                {b.icon}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={handleClearFormatting}
+              className="ml-auto px-3 py-1.5 text-xs rounded-lg border border-gray-200 bg-white text-gray-500 hover:border-primary transition"
+            >
+              Clear formatting
+            </button>
+          </div>
+
+          {/* Editor */}
+          <label htmlFor="wa-message" className="block text-sm font-medium text-gray-700 mb-1">
+            Your Message
+          </label>
+          <textarea
+            id="wa-message"
+            ref={textareaRef}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type your message, select text and use the toolbar..."
+            rows={8}
+            className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:border-primary resize-y"
+          />
+          <CharacterCounter
+            text={message}
+            limits={['status', 'channelPost', 'businessAbout', 'waLinkText']}
+            showDetails
+            className="mt-1"
+          />
+        </div>
+
+        {/* Preview + Output */}
+        <div className="mt-6 space-y-6">
+          <div className="border border-gray-200 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-gray-700">Preview</h2>
+              <button
+                type="button"
+                onClick={() => setPreviewTheme((t) => (t === 'light' ? 'dark' : 'light'))}
+                className="px-3 py-1 text-xs rounded-lg border border-gray-200 bg-white text-gray-500 hover:border-primary transition"
+              >
+                {previewTheme === 'light' ? 'Dark mode' : 'Light mode'}
+              </button>
+            </div>
+            <WhatsAppPreview text={message} theme={previewTheme} />
+          </div>
+
+          <div className="bg-gray-50 border border-gray-200 rounded-xl p-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">Copy & Send</h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <CopyButton text={message} label="Copy Formatted" />
+              <CopyButton
+                text={plainText}
+                label="Copy Plain Text"
+                className="!bg-white !text-gray-700 border border-gray-300"
+              />
+              <a
+                href={`https://wa.me/?text=${encodeURIComponent(message)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-4 py-2 rounded-lg font-medium text-sm bg-[#25D366] text-white hover:bg-[#1DA851] transition"
+              >
+                Send via WhatsApp
+              </a>
+            </div>
+          </div>
+
+          {/* Syntax Reference */}
+          <div className="border border-gray-200 rounded-xl p-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">WhatsApp Formatting Cheat Sheet</h2>
+            <table className="w-full text-sm">
+              <tbody>
+                {SYNTAX_REFERENCE.map((row) => (
+                  <tr key={row.format} className="border-t border-gray-100 first:border-t-0">
+                    <td className="py-1.5 text-gray-600">{row.format}</td>
+                    <td className="py-1.5 font-mono text-gray-900">{row.syntax}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      {/* CTA */}
+      <ToolCTA
+        heading="Send formatted messages at scale?"
+        description="WhatsScale schedules formatted broadcasts, Channel posts and auto-replies from one dashboard. Integrates with Make.com and Zapier."
+      />
+
+      {/* Related Tools */}
+      <RelatedTools tools={relatedTools} />
+
+      {/* SEO Content */}
+      <SEOContent sections={seoSections} faqs={seoFaqs} />
+    </div>
+  );
+}
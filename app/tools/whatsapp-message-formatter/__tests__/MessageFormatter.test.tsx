@@ -0,0 +1,103 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for MessageFormatter
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import MessageFormatter from '../MessageFormatter';
+
+// Mock clipboard
+const mockWriteText = jest.fn().mockResolvedValue(undefined);
+Object.assign(navigator, {
+  clipboard: { writeText: mockWriteText },
+});
+
+function getEditor(): HTMLTextAreaElement {
+  return screen.getByLabelText('Your Message') as HTMLTextAreaElement;
+}
+
+function typeMessage(value: string) {
+  fireEvent.change(getEditor(), { target: { value } });
+}
+
+function select(start: number, end: number) {
+  getEditor().setSelectionRange(start, end);
+}
+
+describe('MessageFormatter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Test 1: Renders editor, toolbar and preview
+  it('renders editor, toolbar and preview', () => {
+    render(<MessageFormatter />);
+    expect(getEditor()).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Bold' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Numbered list' })).toBeInTheDocument();
+    expect(screen.getByTestId('whatsapp-preview-bubble')).toBeInTheDocument();
+  });
+
+  // Test 2: Bold button wraps the selection
+  it('bold button wraps the selected text', () => {
+    render(<MessageFormatter />);
+    typeMessage('hello world');
+    select(6, 11);
+    fireEvent.click(screen.getByRole('button', { name: 'Bold' }));
+    expect(getEditor().value).toBe('hello *world*');
+  });
+
+  // Test 3: Ctrl+I applies italic
+  it('Ctrl+I applies italic', () => {
+    render(<MessageFormatter />);
+    typeMessage('hello world');
+    select(0, 5);
+    fireEvent.keyDown(getEditor(), { key: 'i', ctrlKey: true });
+    expect(getEditor().value).toBe('_hello_ world');
+  });
+
+  // Test 4: List button prefixes selected lines
+  it('bulleted list button prefixes every selected line', () => {
+    render(<MessageFormatter />);
+    typeMessage('milk\neggs');
+    select(0, 9);
+    fireEvent.click(screen.getByRole('button', { name: 'Bulleted list' }));
+    expect(getEditor().value).toBe('- milk\n- eggs');
+  });
+
+  // Test 5: Preview renders formatting as HTML
+  it('preview renders bold, strike and lists', () => {
+    render(<MessageFormatter />);
+    typeMessage('*Sale* ~old~\n- one\n- two');
+    const preview = screen.getByTestId('whatsapp-preview-bubble');
+    expect(preview.querySelector('strong')).toHaveTextContent('Sale');
+    expect(preview.querySelector('s')).toHaveTextContent('old');
+    expect(preview.querySelectorAll('li')).toHaveLength(2);
+  });
+
+  // Test 6: Clear formatting strips markers
+  it('clear formatting strips inline markers', () => {
+    render(<MessageFormatter />);
+    typeMessage('*Hi* _there_');
+    fireEvent.click(screen.getByRole('button', { name: /clear formatting/i }));
+    expect(getEditor().value).toBe('Hi there');
+  });
+
+  // Test 7: Copy buttons copy formatted and plain text
+  it('copies formatted and plain text', async () => {
+    render(<MessageFormatter />);
+    typeMessage('*Hi*');
+    fireEvent.click(screen.getByRole('button', { name: /copy formatted/i }));
+    await waitFor(() => expect(mockWriteText).toHaveBeenCalledWith('*Hi*'));
+    fireEvent.click(screen.getByRole('button', { name: /copy plain text/i }));
+    await waitFor(() => expect(mockWriteText).toHaveBeenCalledWith('Hi'));
+  });
+
+  // Test 8: Send link carries the encoded message
+  it('send link encodes the message', () => {
+    render(<MessageFormatter />);
+    typeMessage('*Hi* there');
+    const link = screen.getByRole('link', { name: /send via whatsapp/i });
+    expect(link).toHaveAttribute('href', `https://wa.me/?text=${encodeURIComponent('*Hi* there')}`);
+  });
+});
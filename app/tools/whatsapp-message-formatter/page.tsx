@@ -0,0 +1,21 @@
+// app/tools/whatsapp-message-formatter/page.tsx
+// Server component for SEO metadata
+// URL: whatsscale.com/tools/whatsapp-message-formatter
+
+import { Metadata } from 'next';
+import MessageFormatter from './MessageFormatter';
+
+export const metadata: Metadata = {
+  title: 'WhatsApp Text Formatter — Bold, Italic, Strikethrough & Monospace | WhatsScale',
+  description: 'Format WhatsApp messages with bold, italic, strikethrough, monospace, lists and quotes. Live chat-bubble preview, one-click copy. Free, no signup.',
+  keywords: 'whatsapp bold italic text, whatsapp text formatter, whatsapp strikethrough, whatsapp monospace, whatsapp font generator, whatsapp formatting',
+  openGraph: {
+    title: 'WhatsApp Text Formatter — Bold, Italic, Strikethrough & Monospace | WhatsScale',
+    description: 'Format WhatsApp messages with a live preview. Free, no signup.',
+    url: 'https://www.whatsscale.com/tools/whatsapp-message-formatter',
+  },
+};
+
+export default function WhatsAppMessageFormatterPage() {
+  return <MessageFormatter />;
+}
@@ -9,6 +9,8 @@ import SEOContent from '@/components/tools/SEOContent';
 import ToolCTA from '@/components/tools/ToolCTA';
 import RelatedTools from '@/components/tools/RelatedTools';
 import PrivacyBadge from '@/components/tools/PrivacyBadge';
+import { useUrlState } from '@/lib/useUrlState';
+import { enumParam, listParam } from '@/lib/utils/url-state';
 
 // ─── Types ───
 type UseCase = 'creator' | 'business' | 'personal';
@@ -46,6 +48,12 @@ const CATEGORY_ORDER = [
 
 const categories = comparisonData.categories as Record<string, string>;
 
+// Shareable view: ?use=business&expanded=3,7 — row ids must exist, so they're an enum
+const URL_SCHEMA = {
+  use: enumParam<UseCase>('creator', USE_CASES.map((uc) => uc.key)),
+  expanded: listParam(enumParam('', (comparisonData.features as Feature[]).map((f) => String(f.id)))),
+};
+
 // ─── Stars Component ───
 function Stars({ score, color }: { score: number; color: 'green' | 'blue' }) {
   const fillColor = color === 'green' ? '#22c55e' : '#3b82f6';
@@ -257,6 +265,15 @@ export default function ComparisonTool() {
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
   const tablistRef = useRef<HTMLDivElement>(null);
 
+  useUrlState(
+    URL_SCHEMA,
+    { use: useCase, expanded: Array.from(expandedRows).sort((a, b) => a - b).map(String) },
+    ({ use, expanded }) => {
+      if (use) setUseCase(use);
+      if (expanded) setExpandedRows(new Set(expanded.map(Number)));
+    }
+  );
+
   // Filter features by current use case
   const filteredFeatures = useMemo(() => {
     const key = RELEVANCE_MAP[useCase];
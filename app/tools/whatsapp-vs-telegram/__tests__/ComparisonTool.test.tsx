@@ -16,6 +16,11 @@ jest.mock('next/link', () => {
 // All feature names appear twice. Use getAllByText and check first/length.
 
 describe('ComparisonTool', () => {
+  beforeEach(() => {
+    // The view is mirrored to the URL — start each test from a clean address
+    window.history.replaceState(null, '', '/');
+  });
+
   // Test 15
   it('renders 3 toggle buttons with Creators selected by default', () => {
     render(<ComparisonTool />);
@@ -199,4 +204,21 @@ describe('ComparisonTool', () => {
     const labels = screen.getAllByLabelText(/\d out of 5/);
     expect(labels.length).toBeGreaterThan(10);
   });
+
+  // Test 33
+  it('opens the use case and expanded rows from the URL', () => {
+    window.history.replaceState(null, '', '/?use=business&expanded=2,999');
+    render(<ComparisonTool />);
+    expect(screen.getByRole('tab', { name: 'For Business' })).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getAllByText(/Users open WhatsApp 23/).length).toBeGreaterThanOrEqual(1);
+  });
+
+  // Test 34
+  it('writes the current view back to the URL', () => {
+    render(<ComparisonTool />);
+    fireEvent.click(screen.getByRole('tab', { name: 'For Personal' }));
+    expect(window.location.search).toBe('?use=personal');
+    fireEvent.click(screen.getByRole('tab', { name: 'For Creators' }));
+    expect(window.location.search).toBe('');
+  });
 });
@@ -1,6 +1,7 @@
 // app/tools/whatsapp-vs-telegram/page.tsx
 // Server component: SEO metadata + FAQ schema + renders client component
 import type { Metadata } from 'next';
+import { Suspense } from 'react';
 import ComparisonTool from './ComparisonTool';
 
 export const metadata: Metadata = {
@@ -39,7 +40,13 @@ export default function WhatsAppVsTelegramPage() {
           }),
         }}
       />
-      <ComparisonTool />
+      <Suspense fallback={
+        <div className="flex items-center justify-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      }>
+        <ComparisonTool />
+      </Suspense>
     </>
   );
 }
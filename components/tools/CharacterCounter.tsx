@@ -1,16 +1,89 @@
 // components/tools/CharacterCounter.tsx
-// Shared character counter display for micro-tools
+// Shared character counter for micro-tools — graphemes, words, bytes and WhatsApp limit bars
 'use client';
 
+import { useMemo } from 'react';
+import {
+  getTextStats,
+  getLimitUsage,
+  WHATSAPP_LIMITS,
+  type WhatsAppLimitId,
+  type LimitLevel,
+} from '@/lib/utils/text-stats';
+
 interface CharacterCounterProps {
-  count: number;
+  text: string;
+  /** Field cap, shown as "12/50 characters" */
+  max?: number;
+  /** WhatsApp limits to show as color-coded bars */
+  limits?: WhatsAppLimitId[];
+  /** Show word and byte counts next to the character count */
+  showDetails?: boolean;
   className?: string;
 }
 
-export default function CharacterCounter({ count, className = '' }: CharacterCounterProps) {
+const LEVEL_COLORS: Record<LimitLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-green-500', text: 'text-gray-500' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-600' },
+  over: { bar: 'bg-red-500', text: 'text-red-600' },
+};
+
+export default function CharacterCounter({
+  text,
+  max,
+  limits = [],
+  showDetails = false,
+  className = '',
+}: CharacterCounterProps) {
+  const stats = useMemo(() => getTextStats(text), [text]);
+  const count = stats.graphemes;
+
   return (
     <div className={`text-xs text-gray-400 ${className}`}>
-      {count.toLocaleString()} {count === 1 ? 'character' : 'characters'}
+      <div className="flex flex-wrap gap-x-3">
+        <span>
+          {count.toLocaleString()}{max !== undefined && `/${max.toLocaleString()}`} {count === 1 && max === undefined ? 'character' : 'characters'}
+        </span>
+        {showDetails && (
+          <>
+            <span>{stats.words.toLocaleString()} {stats.words === 1 ? 'word' : 'words'}</span>
+            <span>{stats.utf8Bytes.toLocaleString()} bytes (UTF-8)</span>
+            <span>{stats.utf16Units.toLocaleString()} units (UTF-16)</span>
+          </>
+        )}
+      </div>
+
+      {limits.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {limits.map((id) => {
+            const usage = getLimitUsage(stats, WHATSAPP_LIMITS[id]);
+            const colors = LEVEL_COLORS[usage.level];
+            return (
+              <div key={id} data-level={usage.level}>
+                <div className={`flex justify-between ${colors.text}`}>
+                  <span>{usage.limit.label}</span>
+                  <span>
+                    {usage.used.toLocaleString()}/{usage.limit.max.toLocaleString()}
+                  </span>
+                </div>
+                <div
+                  className="h-1 bg-gray-100 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-label={usage.limit.label}
+                  aria-valuenow={usage.used}
+                  aria-valuemin={0}
+                  aria-valuemax={usage.limit.max}
+                >
+                  <div
+                    className={`h-full ${colors.bar} transition-all`}
+                    style={{ width: `${Math.min(usage.ratio, 1) * 100}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,200 @@
+// components/tools/WhatsAppPreview.tsx
+// Shared WhatsApp chat-bubble preview — renders formatted text as the recipient sees it
+'use client';
+
+import { useState, useEffect, useMemo, Fragment } from 'react';
+import { parseWaMarkup, splitLinks, type InlineNode, type BlockNode } from '@/lib/utils/wa-markup';
+
+export type PreviewDirection = 'outgoing' | 'incoming';
+export type PreviewStatus = 'sent' | 'delivered' | 'read';
+export type PreviewTheme = 'light' | 'dark';
+
+interface WhatsAppPreviewProps {
+  text: string;
+  direction?: PreviewDirection;
+  /** Shown under the text, e.g. "10:42". Defaults to the current time. */
+  time?: string;
+  /** Tick state — outgoing bubbles only */
+  status?: PreviewStatus;
+  theme?: PreviewTheme;
+  placeholder?: string;
+  /** Text direction and language of the message, e.g. "rtl" + "ar" for Arabic */
+  dir?: 'ltr' | 'rtl' | 'auto';
+  lang?: string;
+  className?: string;
+}
+
+const THEMES = {
+  light: {
+    wallpaper: 'bg-[#ECE5DD]',
+    outgoing: 'bg-[#DCF8C6]',
+    incoming: 'bg-white',
+    text: 'text-gray-900',
+    meta: 'text-gray-500',
+    link: 'text-[#027EB5]',
+    code: 'bg-black/5',
+    quote: 'border-gray-400/60 text-gray-700',
+    readTick: 'text-[#34B7F1]',
+  },
+  dark: {
+    wallpaper: 'bg-[#0B141A]',
+    outgoing: 'bg-[#005C4B]',
+    incoming: 'bg-[#202C33]',
+    text: 'text-[#E9EDEF]',
+    meta: 'text-[#8696A0]',
+    link: 'text-[#53BDEB]',
+    code: 'bg-white/10',
+    quote: 'border-white/30 text-[#D1D7DB]',
+    readTick: 'text-[#53BDEB]',
+  },
+} as const;
+
+type ThemeClasses = (typeof THEMES)[PreviewTheme];
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+function renderText(value: string, colors: ThemeClasses): React.ReactNode {
+  return splitLinks(value).map((segment, i) =>
+    segment.type === 'link' ? (
+      <a
+        key={i}
+        href={segment.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`${colors.link} underline break-all`}
+      >
+        {segment.value}
+      </a>
+    ) : (
+      <Fragment key={i}>{segment.value}</Fragment>
+    )
+  );
+}
+
+function renderInline(nodes: InlineNode[], colors: ThemeClasses): React.ReactNode {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{renderText(node.value, colors)}</Fragment>;
+      case 'bold':
+        return <strong key={i}>{renderInline(node.children, colors)}</strong>;
+      case 'italic':
+        return <em key={i}>{renderInline(node.children, colors)}</em>;
+      case 'strike':
+        return <s key={i}>{renderInline(node.children, colors)}</s>;
+      case 'mono':
+        return <span key={i} className="font-mono">{node.value}</span>;
+      case 'code':
+        return <code key={i} className={`font-mono text-[0.9em] ${colors.code} rounded px-1`}>{node.value}</code>;
+    }
+  });
+}
+
+function renderBlock(block: BlockNode, key: number, colors: ThemeClasses): React.ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="min-h-[1.25em]">{renderInline(block.children, colors)}</p>;
+    case 'quote':
+      return (
+        <blockquote key={key} className={`border-l-4 pl-2 ${colors.quote}`}>
+          {block.lines.map((line, i) => <p key={i}>{renderInline(line, colors)}</p>)}
+        </blockquote>
+      );
+    case 'bulletList':
+      return (
+        <ul key={key} className="list-disc pl-5">
+          {block.items.map((item, i) => <li key={i}>{renderInline(item, colors)}</li>)}
+        </ul>
+      );
+    case 'orderedList':
+      return (
+        <ol key={key} start={block.start} className="list-decimal pl-5">
+          {block.items.map((item, i) => <li key={i}>{renderInline(item, colors)}</li>)}
+        </ol>
+      );
+    case 'codeBlock':
+      return <pre key={key} className="font-mono whitespace-pre-wrap">{block.value.replace(/^\n|\n$/g, '')}</pre>;
+  }
+}
+
+function Ticks({ status, colors }: { status: PreviewStatus; colors: ThemeClasses }) {
+  const label = status.charAt(0).toUpperCase() + status.slice(1);
+  const color = status === 'read' ? colors.readTick : colors.meta;
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox="0 0 16 11"
+      className={`w-4 h-3 ${color}`}
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={1.5}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {status === 'sent' ? (
+        <path d="M3 6l3 3 6-7" />
+      ) : (
+        <>
+          <path d="M1 6l3 3 6-7" />
+          <path d="M6 8l1 1 6-7" />
+        </>
+      )}
+    </svg>
+  );
+}
+
+// ============================================================
+// Component
+// ============================================================
+export default function WhatsAppPreview({
+  text,
+  direction = 'outgoing',
+  time,
+  status = 'read',
+  theme = 'light',
+  placeholder = 'Your message will appear here',
+  dir,
+  lang,
+  className = '',
+}: WhatsAppPreviewProps) {
+  // Current time is resolved after mount so server and client markup match
+  const [now, setNow] = useState('');
+  useEffect(() => {
+    if (time === undefined) setNow(formatTime(new Date()));
+  }, [time]);
+
+  const doc = useMemo(() => parseWaMarkup(text), [text]);
+  const colors = THEMES[theme];
+  const outgoing = direction === 'outgoing';
+  const displayTime = time ?? now;
+
+  return (
+    <div className={`${colors.wallpaper} rounded-xl p-4 ${className}`} data-theme={theme}>
+      <div className={`flex ${outgoing ? 'justify-end' : 'justify-start'}`}>
+        <div
+          className={`max-w-[85%] ${outgoing ? `${colors.outgoing} rounded-tr-sm` : `${colors.incoming} rounded-tl-sm`} rounded-2xl px-3 pt-2 pb-1.5 shadow-sm text-sm ${colors.text} leading-relaxed break-words`}
+          data-testid="whatsapp-preview-bubble"
+          data-direction={direction}
+        >
+          {text ? (
+            <div className="space-y-1" dir={dir} lang={lang}>
+              {doc.blocks.map((block, i) => renderBlock(block, i, colors))}
+            </div>
+          ) : (
+            <p className={`italic ${colors.meta}`}>{placeholder}</p>
+          )}
+          <div className={`flex items-center justify-end gap-1 mt-0.5 text-[11px] ${colors.meta}`}>
+            {displayTime && <span>{displayTime}</span>}
+            {outgoing && <Ticks status={status} colors={colors} />}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for CharacterCounter
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import CharacterCounter from '../CharacterCounter';
+
+describe('CharacterCounter', () => {
+  // Test 1: Counts graphemes, not UTF-16 units
+  it('counts emoji as single characters', () => {
+    render(<CharacterCounter text="Hi 👨‍👩‍👧" />);
+    expect(screen.getByText('4 characters')).toBeInTheDocument();
+  });
+
+  // Test 2: Singular label
+  it('uses singular for one character', () => {
+    render(<CharacterCounter text="a" />);
+    expect(screen.getByText('1 character')).toBeInTheDocument();
+  });
+
+  // Test 3: Shows field cap
+  it('shows count against max', () => {
+    render(<CharacterCounter text="Rahul" max={50} />);
+    expect(screen.getByText('5/50 characters')).toBeInTheDocument();
+  });
+
+  // Test 4: Details show words and bytes
+  it('shows word and byte counts when requested', () => {
+    render(<CharacterCounter text="Hi there ₹" showDetails />);
+    expect(screen.getByText('2 words')).toBeInTheDocument();
+    expect(screen.getByText('12 bytes (UTF-8)')).toBeInTheDocument();
+    expect(screen.getByText('10 units (UTF-16)')).toBeInTheDocument();
+  });
+
+  // Test 5: Renders a bar per limit
+  it('renders a progress bar per limit', () => {
+    render(<CharacterCounter text="Hello" limits={['status', 'waLinkText']} />);
+    const bars = screen.getAllByRole('progressbar');
+    expect(bars).toHaveLength(2);
+    expect(screen.getByRole('progressbar', { name: 'Status text' })).toHaveAttribute('aria-valuemax', '700');
+  });
+
+  // Test 6: Bars change level with usage
+  it('colors bars by usage level', () => {
+    const { container, rerender } = render(<CharacterCounter text={'a'.repeat(120)} limits={['businessAbout']} />);
+    expect(container.querySelector('[data-level]')).toHaveAttribute('data-level', 'warning');
+    rerender(<CharacterCounter text={'a'.repeat(200)} limits={['businessAbout']} />);
+    expect(container.querySelector('[data-level]')).toHaveAttribute('data-level', 'over');
+    expect(screen.getByText('200/139')).toBeInTheDocument();
+  });
+});
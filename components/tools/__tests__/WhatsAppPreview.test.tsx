@@ -0,0 +1,86 @@
+/**
+ * @jest-environment jsdom
+ */
+// Component tests for WhatsAppPreview
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import WhatsAppPreview from '../WhatsAppPreview';
+
+function getBubble() {
+  return screen.getByTestId('whatsapp-preview-bubble');
+}
+
+describe('WhatsAppPreview', () => {
+  // Test 1: Renders bold, italic, strike and monospace
+  it('renders inline formatting', () => {
+    render(<WhatsAppPreview text="*bold* _italic_ ~strike~ ```mono```" time="10:42" />);
+    const bubble = getBubble();
+    expect(bubble.querySelector('strong')).toHaveTextContent('bold');
+    expect(bubble.querySelector('em')).toHaveTextContent('italic');
+    expect(bubble.querySelector('s')).toHaveTextContent('strike');
+    expect(screen.getByText('mono')).toHaveClass('font-mono');
+  });
+
+  // Test 2: Links are clickable and open in a new tab
+  it('renders links as anchors', () => {
+    render(<WhatsAppPreview text="Chat: wa.me/919876543210 or https://x.com/a." time="10:42" />);
+    const wa = screen.getByRole('link', { name: 'wa.me/919876543210' });
+    expect(wa).toHaveAttribute('href', 'https://wa.me/919876543210');
+    expect(wa).toHaveAttribute('target', '_blank');
+    expect(screen.getByRole('link', { name: 'https://x.com/a' })).toBeInTheDocument();
+  });
+
+  // Test 3: Shows timestamp and read ticks on outgoing bubbles
+  it('shows timestamp and ticks for outgoing messages', () => {
+    render(<WhatsAppPreview text="Hi" time="09:15" status="delivered" />);
+    expect(screen.getByText('09:15')).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Delivered' })).toBeInTheDocument();
+    expect(getBubble()).toHaveAttribute('data-direction', 'outgoing');
+  });
+
+  // Test 4: Incoming bubbles have no ticks
+  it('hides ticks for incoming messages', () => {
+    render(<WhatsAppPreview text="Hi" time="09:15" direction="incoming" />);
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+    expect(getBubble()).toHaveClass('bg-white');
+  });
+
+  // Test 5: Light bubble uses WhatsApp green, dark theme switches palette
+  it('applies light and dark themes', () => {
+    const { rerender, container } = render(<WhatsAppPreview text="Hi" time="09:15" />);
+    expect(getBubble()).toHaveClass('bg-[#DCF8C6]');
+    rerender(<WhatsAppPreview text="Hi" time="09:15" theme="dark" />);
+    expect(container.firstChild).toHaveAttribute('data-theme', 'dark');
+    expect(getBubble()).toHaveClass('bg-[#005C4B]');
+  });
+
+  // Test 6: Defaults the timestamp to the current time
+  it('defaults the timestamp to the current time', () => {
+    render(<WhatsAppPreview text="Hi" />);
+    const expected = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    expect(screen.getByText(expected)).toBeInTheDocument();
+  });
+
+  // Test 7: Empty text shows the placeholder
+  it('shows placeholder for empty text', () => {
+    render(<WhatsAppPreview text="" time="09:15" placeholder="Nothing yet" />);
+    expect(screen.getByText('Nothing yet')).toBeInTheDocument();
+  });
+
+  // Test 8: Renders lists and quotes
+  it('renders lists and quotes', () => {
+    render(<WhatsAppPreview text={'> note\n1. a\n2. b'} time="09:15" />);
+    expect(getBubble().querySelector('blockquote')).toHaveTextContent('note');
+    expect(getBubble().querySelectorAll('ol li')).toHaveLength(2);
+  });
+
+  // Test 9: Right-to-left text keeps the bubble on the outgoing side
+  it('sets text direction and language without moving the bubble', () => {
+    render(<WhatsAppPreview text="عيد مبارك" time="09:15" dir="rtl" lang="ar" />);
+    const text = screen.getByText('عيد مبارك').closest('div[dir]');
+    expect(text).toHaveAttribute('dir', 'rtl');
+    expect(text).toHaveAttribute('lang', 'ar');
+    expect(getBubble()).toHaveAttribute('data-direction', 'outgoing');
+    expect(getBubble().parentElement).toHaveClass('justify-end');
+  });
+});
@@ -0,0 +1,109 @@
+// lib/__tests__/utils/bulk-greetings.test.ts
+// Tests for Greeting Generator bulk CSV mode
+
+import {
+  parseGreetingCSV,
+  generateBulkGreetings,
+  greetingRowsToCSV,
+  buildGreetingChecklist,
+  GREETING_BULK_EXAMPLE,
+  type BulkGreetingOptions,
+} from '../../utils/bulk-greetings';
+import { parseCSV } from '../../utils/csv';
+
+const OPTIONS: BulkGreetingOptions = {
+  templates: {
+    formal: ['Dear {name}, warm wishes from {company} 🪔', 'Season\'s greetings, {name}.'],
+    casual: ['Hey {name}! 🎉', 'Happy Diwali {name}, my dear {relation}!', 'Have a great one, {name}'],
+    funny: [],
+  },
+  defaultTone: 'casual',
+  values: { company: 'Acme', relation: 'friend' },
+  includeEmojis: true,
+};
+
+describe('parseGreetingCSV', () => {
+  // Test 1: Example CSV resolves every number like the Link Generator
+  test('reads the example with its header', () => {
+    const rows = parseGreetingCSV(GREETING_BULK_EXAMPLE, '91');
+    expect(rows.map((r) => r.error)).toEqual(['', '', '']);
+    expect(rows.map((r) => `${r.dial}${r.cleaned}`)).toEqual(['919876543210', '919123456789', '447700900123']);
+    expect(rows.map((r) => r.tone)).toEqual(['formal', '', 'casual']);
+    expect(rows[1].relation).toBe('partner');
+  });
+
+  // Test 2: Aliased headers, an optional country column, positional fallback
+  test('maps header aliases and reads positionally without a header', () => {
+    const aliased = parseGreetingCSV('Relationship,Mobile,Contact,Country\nclient,11 91234-5678,Ana,BR', '91');
+    expect(aliased[0]).toMatchObject({ name: 'Ana', relation: 'client', dial: '55', cleaned: '11912345678', line: 2 });
+
+    const positional = parseGreetingCSV('Asha,9876543210,Funny,sister', '91');
+    expect(positional[0]).toMatchObject({ line: 1, name: 'Asha', tone: 'funny', relation: 'sister', cleaned: '9876543210' });
+  });
+
+  // Test 3: Per-row errors for tone, country and phone
+  test('reports per-row errors with line numbers', () => {
+    const rows = parseGreetingCSV('name,phone,tone,country\nA,123,,IN\nB,9876543210,silly,\nC,9876543210,,Atlantis', '91');
+    expect(rows.map((r) => r.line)).toEqual([2, 3, 4]);
+    expect(rows[0].error).toMatch(/too short/);
+    expect(rows[1].error).toBe('Unknown tone "silly" — use formal, casual, funny');
+    expect(rows[2].error).toBe('Unknown country "Atlantis"');
+  });
+});
+
+describe('generateBulkGreetings', () => {
+  // Test 4: Each tone rotates on its own, so neighbours in a tone never repeat
+  test('rotates templates per tone', () => {
+    const contacts = parseGreetingCSV('name,phone,tone\nA,9876543210,\nB,9876543211,formal\nC,9876543212,\nD,9876543213,\nE,9876543214,formal\nF,9876543215,', '91');
+    const rows = generateBulkGreetings(contacts, OPTIONS);
+    expect(rows.map((r) => r.message)).toEqual([
+      'Hey A! 🎉',
+      'Dear B, warm wishes from Acme 🪔',
+      'Happy Diwali C, my dear friend!',
+      'Have a great one, D',
+      'Season\'s greetings, E.',
+      'Hey F! 🎉',
+    ]);
+    expect(rows.map((r) => r.tone)).toEqual(['casual', 'formal', 'casual', 'casual', 'formal', 'casual']);
+  });
+
+  // Test 5: Row name and relation win, blank names fall back, emojis follow the toggle
+  test('personalizes each row and respects the emoji toggle', () => {
+    const contacts = parseGreetingCSV('name,phone,relation\nPriya,9876543210,\n,9876543211,cousin', '91');
+    const rows = generateBulkGreetings(contacts, { ...OPTIONS, templates: { ...OPTIONS.templates, casual: ['Hi {name}, dear {relation} 🎉'] }, includeEmojis: false });
+    expect(rows.map((r) => r.message)).toEqual(['Hi Priya, dear friend', 'Hi friend, dear cousin']);
+    expect(rows[0].link).toBe(`https://wa.me/919876543210?text=${encodeURIComponent('Hi Priya, dear friend')}`);
+  });
+
+  // Test 6: Parse errors pass through; a tone with no templates is an error
+  test('keeps parse errors and flags tones without templates', () => {
+    const contacts = parseGreetingCSV('name,phone,tone\nA,123,\nB,9876543210,funny', '91');
+    const rows = generateBulkGreetings(contacts, OPTIONS);
+    expect(rows[0]).toBe(contacts[0]);
+    expect(rows[1]).toMatchObject({ error: 'No funny greetings for this occasion', link: '' });
+  });
+});
+
+describe('output', () => {
+  // Test 7: CSV has the resolved number, tone, greeting, link and error
+  test('writes a CSV row per contact', () => {
+    const rows = generateBulkGreetings(parseGreetingCSV('name,phone\n"Lee, Sam",+44 07700 900123\nBad,12', '91'), OPTIONS);
+    const table = parseCSV(greetingRowsToCSV(rows));
+    expect(table[0]).toEqual(['name', 'phone', 'tone', 'relation', 'message', 'link', 'error']);
+    expect(table[1].slice(0, 5)).toEqual(['Lee, Sam', '+447700900123', 'casual', '', 'Hey Lee, Sam! 🎉']);
+    expect(table[1][5]).toMatch(/^https:\/\/wa\.me\/447700900123\?text=/);
+    expect(table[2]).toEqual(['Bad', '12', '', '', '', '', expect.stringMatching(/too short/)]);
+  });
+
+  // Test 8: Checklist lists ready rows only, escaped, with a print trigger
+  test('builds a printable checklist', () => {
+    const contacts = parseGreetingCSV('name,phone\n<b>Tom</b>,9876543210\nAli,9876543211\nBad,12', '91');
+    const html = buildGreetingChecklist(generateBulkGreetings(contacts, OPTIONS), { title: 'Diwali & more', subtitle: 'Tick each one' });
+    expect(html).toContain('<title>Diwali &amp; more</title>');
+    expect(html).toContain('Tick each one · 2 to send · 1 skipped with errors');
+    expect(html).toContain('1. &lt;b&gt;Tom&lt;/b&gt;</strong> · +919876543210');
+    expect(html).toContain('<p class="msg" dir="auto">Happy Diwali Ali, my dear friend!</p>');
+    expect(html).not.toContain('Bad');
+    expect(html).toContain('onload="window.print()"');
+  });
+});
@@ -0,0 +1,82 @@
+// lib/__tests__/utils/bulk-links.test.ts
+// Tests for Link Generator bulk CSV mode
+
+import { parseBulkCSV, bulkRowsToCSV, qrFileNames, BULK_EXAMPLE, MAX_BULK_ROWS } from '../../utils/bulk-links';
+import { parseCSV } from '../../utils/csv';
+
+describe('parseBulkCSV', () => {
+  // Test 1: Example CSV produces valid links
+  test('creates links for the example CSV', () => {
+    const rows = parseBulkCSV(BULK_EXAMPLE, '91');
+    expect(rows).toHaveLength(3);
+    expect(rows.every((r) => r.error === '')).toBe(true);
+    expect(rows[0].link).toBe(
+      `https://wa.me/919876543210?text=${encodeURIComponent('Hi Priya! I have a question about your products')}`
+    );
+    expect(rows[2].link).toBe('https://wa.me/447700900123');
+  });
+
+  // Test 2: Header columns can be reordered and aliased
+  test('maps header columns by name', () => {
+    const rows = parseBulkCSV('Mobile,Name\n9876543210,Asha', '91');
+    expect(rows[0].name).toBe('Asha');
+    expect(rows[0].link).toBe('https://wa.me/919876543210');
+  });
+
+  // Test 3: No header reads columns positionally
+  test('reads name, country, phone, message positionally without a header', () => {
+    const rows = parseBulkCSV('Ana,Brazil,11912345678,Oi', '91');
+    expect(rows[0].line).toBe(1);
+    expect(rows[0].link).toBe('https://wa.me/5511912345678?text=Oi');
+  });
+
+  // Test 4: Blank country falls back to default, +international phone keeps its code
+  test('uses default dial or the +international number', () => {
+    const rows = parseBulkCSV('name,country,phone\nA,,9876543210\nB,,+44 7700 900123', '91');
+    expect(rows[0].link).toBe('https://wa.me/919876543210');
+    expect(rows[1].link).toBe('https://wa.me/447700900123');
+  });
+
+  // Test 5: Per-row errors reuse validatePhone messages
+  test('reports per-row errors with line numbers', () => {
+    const rows = parseBulkCSV('name,country,phone\nA,IN,123\nB,Atlantis,9876543210\nC,IN,', '91');
+    expect(rows.map((r) => r.line)).toEqual([2, 3, 4]);
+    expect(rows[0].error).toMatch(/too short/);
+    expect(rows[1].error).toBe('Unknown country "Atlantis"');
+    expect(rows[2].error).toBe('Please enter a phone number');
+    expect(rows.every((r) => r.link === '')).toBe(true);
+  });
+
+  // Test 6: Row limit
+  test('flags rows past the limit', () => {
+    const csv = ['phone', ...Array.from({ length: MAX_BULK_ROWS + 1 }, () => '9876543210')].join('\n');
+    const rows = parseBulkCSV(csv, '91');
+    expect(rows[MAX_BULK_ROWS - 1].error).toBe('');
+    expect(rows[MAX_BULK_ROWS].error).toMatch(/row limit/i);
+  });
+});
+
+describe('bulkRowsToCSV', () => {
+  // Test 7: Output has link and error columns
+  test('exports links and errors', () => {
+    const rows = parseBulkCSV('name,country,phone,message\nPriya,IN,9876543210,"Hi, Priya"\nBad,IN,1', '91');
+    const table = parseCSV(bulkRowsToCSV(rows));
+    expect(table[0]).toEqual(['name', 'phone', 'message', 'link', 'error']);
+    expect(table[1]).toEqual(['Priya', '+919876543210', 'Hi, Priya', rows[0].link, '']);
+    expect(table[2][3]).toBe('');
+    expect(table[2][4]).toMatch(/too short/);
+  });
+});
+
+describe('qrFileNames', () => {
+  // Test 8: Slugged, unique file names
+  test('derives unique file names from name and number', () => {
+    const rows = parseBulkCSV('name,phone\nPriya Sharma,9876543210\nPriya Sharma,9876543210\nJosé,9876543211\n,9876543212', '91');
+    expect(qrFileNames(rows)).toEqual([
+      'priya-sharma-919876543210.png',
+      'priya-sharma-919876543210-2.png',
+      'jose-919876543211.png',
+      '919876543212.png',
+    ]);
+  });
+});
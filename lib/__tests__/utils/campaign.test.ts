@@ -0,0 +1,131 @@
+// lib/__tests__/utils/campaign.test.ts
+// Tests for Link Generator campaign tags and the saved campaign log
+
+import {
+  normalizeRefCode,
+  generateRefCode,
+  buildCampaignTag,
+  appendCampaignTag,
+  stripCampaignTag,
+  parseCampaignTag,
+  loadCampaigns,
+  saveCampaigns,
+  addCampaign,
+  removeCampaign,
+  campaignsToCSV,
+  CAMPAIGN_STORAGE_KEY,
+  MAX_CAMPAIGN_ENTRIES,
+  type CampaignEntry,
+} from '../../utils/campaign';
+import { parseCSV } from '../../utils/csv';
+
+const TAG = { source: 'flyer', medium: 'print', name: 'summer-sale', ref: 'FLYER-07' };
+
+function entry(overrides: Partial<CampaignEntry> = {}): CampaignEntry {
+  return {
+    ...TAG,
+    id: '1',
+    createdAt: '2024-06-01T10:00:00.000Z',
+    phone: '+919876543210',
+    message: 'Hi!',
+    link: 'https://wa.me/919876543210?text=Hi!',
+    ...overrides,
+  };
+}
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const data = { ...initial };
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; },
+  };
+}
+
+describe('ref codes', () => {
+  // Test 1: Normalization
+  test('normalizes ref codes to uppercase letters, digits and dashes', () => {
+    expect(normalizeRefCode('flyer 07')).toBe('FLYER-07');
+    expect(normalizeRefCode(' Café_#1 ')).toBe('CAFE-1');
+    expect(normalizeRefCode('a'.repeat(30))).toHaveLength(16);
+  });
+
+  // Test 2: Next free code per campaign
+  test('generates the next free code from the campaign name or source', () => {
+    expect(generateRefCode({ name: 'Summer Sale', source: '' }, [])).toBe('SUMMER-01');
+    expect(generateRefCode({ name: '', source: 'flyer' }, ['FLYER-01', 'FLYER-07', 'BUS-02'])).toBe('FLYER-08');
+    expect(generateRefCode({ name: '', source: '' }, ['WA-01'])).toBe('WA-02');
+  });
+});
+
+describe('message tags', () => {
+  // Test 3: Tag line format
+  test('builds a compact tag line', () => {
+    expect(buildCampaignTag(TAG)).toBe('Ref: FLYER-07 · flyer / print / summer-sale');
+    expect(buildCampaignTag({ ...TAG, source: '', name: '' })).toBe('Ref: FLYER-07 · - / print / -');
+    expect(buildCampaignTag({ source: '', medium: '', name: '', ref: 'bus-2' })).toBe('Ref: BUS-2');
+  });
+
+  // Test 4: Appending, re-tagging and stripping
+  test('appends the tag after a blank line without stacking tags', () => {
+    const tagged = appendCampaignTag('Hi! I saw your flyer', TAG);
+    expect(tagged).toBe('Hi! I saw your flyer\n\nRef: FLYER-07 · flyer / print / summer-sale');
+    expect(appendCampaignTag(tagged, { ...TAG, ref: 'FLYER-08' })).toBe(
+      'Hi! I saw your flyer\n\nRef: FLYER-08 · flyer / print / summer-sale'
+    );
+    expect(appendCampaignTag('', TAG)).toBe('Ref: FLYER-07 · flyer / print / summer-sale');
+    expect(stripCampaignTag(tagged)).toBe('Hi! I saw your flyer');
+  });
+
+  // Test 5: Parsing a tag back out of a chat
+  test('parses the tag from an incoming message', () => {
+    expect(parseCampaignTag(appendCampaignTag('Hello', TAG))).toEqual(TAG);
+    expect(parseCampaignTag('Hello\n\nRef: BUS-02 · - / outdoor / -')).toEqual({
+      ref: 'BUS-02',
+      source: '',
+      medium: 'outdoor',
+      name: '',
+    });
+    // Pasted into a single-line input, the newlines are gone
+    expect(parseCampaignTag('Hello?Ref: FLYER-07 · flyer / print / summer-sale')).toEqual(TAG);
+    expect(parseCampaignTag('Just a normal message')).toBeNull();
+  });
+});
+
+describe('campaign log', () => {
+  // Test 6: Storage round-trip and corrupt data
+  test('loads and saves entries, ignoring corrupt storage', () => {
+    const storage = memoryStorage();
+    saveCampaigns(storage, [entry()]);
+    expect(loadCampaigns(storage)).toEqual([entry()]);
+    expect(loadCampaigns(memoryStorage({ [CAMPAIGN_STORAGE_KEY]: '{not json' }))).toEqual([]);
+    expect(loadCampaigns(memoryStorage({ [CAMPAIGN_STORAGE_KEY]: '[{"id":1},null]' }))).toEqual([]);
+  });
+
+  // Test 7: Add replaces same link, caps size, remove by id
+  test('adds newest first, replaces regenerated links and caps the log', () => {
+    let entries = addCampaign([], entry({ id: 'a' }));
+    entries = addCampaign(entries, entry({ id: 'b', link: 'https://wa.me/1' }));
+    entries = addCampaign(entries, entry({ id: 'c' }));
+    expect(entries.map((e) => e.id)).toEqual(['c', 'b']);
+    expect(removeCampaign(entries, 'c').map((e) => e.id)).toEqual(['b']);
+
+    const many = Array.from({ length: MAX_CAMPAIGN_ENTRIES }, (_, i) => entry({ id: `${i}`, link: `https://wa.me/${i}` }));
+    expect(addCampaign(many, entry({ id: 'new' }))).toHaveLength(MAX_CAMPAIGN_ENTRIES);
+  });
+
+  // Test 8: CSV export
+  test('exports the log to CSV', () => {
+    const rows = parseCSV(campaignsToCSV([entry({ message: 'Hi, "friend"' })]));
+    expect(rows[0]).toEqual(['created', 'ref', 'source', 'medium', 'campaign', 'phone', 'message', 'link']);
+    expect(rows[1]).toEqual([
+      '2024-06-01T10:00:00.000Z',
+      'FLYER-07',
+      'flyer',
+      'print',
+      'summer-sale',
+      '+919876543210',
+      'Hi, "friend"',
+      'https://wa.me/919876543210?text=Hi!',
+    ]);
+  });
+});
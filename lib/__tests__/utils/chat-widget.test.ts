@@ -0,0 +1,140 @@
+/**
+ * @jest-environment jsdom
+ */
+// lib/__tests__/utils/chat-widget.test.ts
+// Tests for the click-to-chat widget snippets (Link Generator)
+
+import {
+  agentFromLink,
+  isWithinHours,
+  buildWidgetHTML,
+  buildWidgetCode,
+  buildPreviewDocument,
+  DEFAULT_WIDGET_CONFIG,
+  BUBBLE_DELAY_MS,
+  type WidgetConfig,
+} from '../../utils/chat-widget';
+
+function config(overrides: Partial<WidgetConfig> = {}): WidgetConfig {
+  return {
+    ...DEFAULT_WIDGET_CONFIG,
+    agents: [
+      { name: 'Priya', phone: '919876543210' },
+      { name: 'Tom', phone: '447700900123' },
+    ],
+    message: 'Hi! I have a question',
+    ...overrides,
+  };
+}
+
+/** Mount the HTML snippet and run its script, as a browser would */
+function mount(html: string) {
+  document.body.innerHTML = html;
+  const script = /<script>([\s\S]*)<\/script>/.exec(html)![1];
+  new Function(script)();
+}
+
+// 2024-01-08 is a Monday
+const MONDAY_10_UTC = new Date('2024-01-08T10:00:00Z');
+const SUNDAY_10_UTC = new Date('2024-01-07T10:00:00Z');
+
+describe('helpers', () => {
+  // Test 1: Agent from a generated link
+  test('reads phone and message from a wa.me link', () => {
+    expect(agentFromLink('https://wa.me/919876543210?text=Hi%20there')).toEqual({ phone: '919876543210', message: 'Hi there' });
+    expect(agentFromLink('https://wa.me/919876543210')).toEqual({ phone: '919876543210', message: '' });
+    expect(agentFromLink('https://example.com')).toBeNull();
+  });
+
+  // Test 2: Business hours in the configured time zone
+  test('checks business hours in the configured time zone', () => {
+    const hours = { days: [1, 2, 3, 4, 5], open: '09:00', close: '18:00', timezone: 'UTC' };
+    expect(isWithinHours(null, SUNDAY_10_UTC)).toBe(true);
+    expect(isWithinHours(hours, MONDAY_10_UTC)).toBe(true);
+    expect(isWithinHours(hours, SUNDAY_10_UTC)).toBe(false);
+    // 10:00 UTC is 05:00 in New York — before opening
+    expect(isWithinHours({ ...hours, timezone: 'America/New_York' }, MONDAY_10_UTC)).toBe(false);
+  });
+
+  // Test 3: Overnight hours belong to the opening day
+  test('handles hours that cross midnight', () => {
+    const hours = { days: [0], open: '20:00', close: '02:00', timezone: 'UTC' };
+    expect(isWithinHours(hours, new Date('2024-01-07T22:00:00Z'))).toBe(true); // Sun 22:00
+    expect(isWithinHours(hours, new Date('2024-01-08T01:00:00Z'))).toBe(true); // Mon 01:00
+    expect(isWithinHours(hours, new Date('2024-01-08T22:00:00Z'))).toBe(false); // Mon 22:00
+  });
+});
+
+describe('snippets', () => {
+  // Test 4: HTML snippet settings and script safety
+  test('builds an HTML snippet with position, color and safe inline config', () => {
+    const html = buildWidgetHTML(config({ position: 'left', color: '#128c7e', greeting: '</script><b>hi</b>' }));
+    expect(html).toContain('left: 20px;');
+    expect(html).toContain('background: #128C7E;');
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+    expect(html).toContain('\\u003c/script>');
+  });
+
+  // Test 5: React and WordPress variants
+  test('produces React and WordPress variants', () => {
+    const react = buildWidgetCode(config(), 'react');
+    expect(react).toContain('export default function WhatsAppWidget()');
+    expect(react).toContain('"phone": "919876543210"');
+
+    const wordpress = buildWidgetCode(config(), 'wordpress');
+    expect(wordpress).toContain("add_shortcode('whatsapp_widget'");
+    expect(wordpress).toContain(buildWidgetHTML(config()));
+    expect(wordpress).toMatch(/\nWA_WIDGET;\n/);
+
+    expect(buildPreviewDocument(config())).toMatch(/^<!doctype html>[\s\S]*<div id="wa-widget"/);
+  });
+});
+
+describe('widget runtime', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(window, 'open').mockImplementation(() => null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  // Test 6: Greeting bubble + round-robin agents
+  test('shows the greeting and rotates agents round-robin', () => {
+    jest.useFakeTimers({ now: MONDAY_10_UTC });
+    mount(buildWidgetHTML(config()));
+
+    const bubble = document.querySelector('.wa-widget-bubble') as HTMLElement;
+    expect(bubble.hidden).toBe(true);
+    jest.advanceTimersByTime(BUBBLE_DELAY_MS);
+    expect(bubble.hidden).toBe(false);
+    expect(bubble.textContent).toContain(DEFAULT_WIDGET_CONFIG.greeting);
+
+    const button = document.querySelector('.wa-widget-button') as HTMLButtonElement;
+    button.click();
+    button.click();
+    button.click();
+    const urls = (window.open as jest.Mock).mock.calls.map((c) => c[0]);
+    expect(urls).toEqual([
+      'https://wa.me/919876543210?text=Hi!%20I%20have%20a%20question',
+      'https://wa.me/447700900123?text=Hi!%20I%20have%20a%20question',
+      'https://wa.me/919876543210?text=Hi!%20I%20have%20a%20question',
+    ]);
+  });
+
+  // Test 7: Offline message outside business hours
+  test('shows the offline message outside business hours', () => {
+    jest.useFakeTimers({ now: SUNDAY_10_UTC });
+    const hours = { days: [1, 2, 3, 4, 5], open: '09:00', close: '18:00', timezone: 'UTC' };
+    mount(buildWidgetHTML(config({ hours, offlineMessage: 'Back on Monday' })));
+    jest.advanceTimersByTime(BUBBLE_DELAY_MS);
+    expect(document.querySelector('.wa-widget-text')!.textContent).toBe('Back on Monday');
+
+    (document.querySelector('.wa-widget-close') as HTMLButtonElement).click();
+    expect((document.querySelector('.wa-widget-bubble') as HTMLElement).hidden).toBe(true);
+    expect(window.open).not.toHaveBeenCalled();
+  });
+});
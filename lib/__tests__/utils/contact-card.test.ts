@@ -0,0 +1,115 @@
+// lib/__tests__/utils/contact-card.test.ts
+// Tests for Link Generator contact card payloads
+
+import {
+  splitName,
+  normalizeWebsite,
+  validateContact,
+  foldLine,
+  buildVCard,
+  buildMeCard,
+  buildContactPayload,
+  buildVCardFile,
+  vcfFileName,
+  type ContactCard,
+} from '../../utils/contact-card';
+import { generateContactCardPDF } from '../../utils/qr-pdf';
+import { DEFAULT_QR_STYLE } from '../../utils/qr-export';
+
+const CARD: ContactCard = {
+  name: 'Priya Sharma',
+  org: 'Sharma Bakery',
+  phone: '+919876543210',
+  email: 'priya@example.com',
+  website: 'example.com',
+  waLink: 'https://wa.me/919876543210?text=Hi',
+};
+
+describe('helpers', () => {
+  // Test 1: Name splitting
+  test('splits names into given and family', () => {
+    expect(splitName('Priya Sharma')).toEqual({ given: 'Priya', family: 'Sharma' });
+    expect(splitName('  Ana Maria  Silva ')).toEqual({ given: 'Ana Maria', family: 'Silva' });
+    expect(splitName('Madonna')).toEqual({ given: 'Madonna', family: '' });
+  });
+
+  // Test 2: Website and validation
+  test('normalizes websites and validates required fields', () => {
+    expect(normalizeWebsite('example.com')).toBe('https://example.com');
+    expect(normalizeWebsite('http://example.com')).toBe('http://example.com');
+    expect(normalizeWebsite(' ')).toBe('');
+    expect(validateContact({ name: ' ', email: '' })).toBe('Please enter a name');
+    expect(validateContact({ name: 'Priya', email: 'priya@' })).toMatch(/valid email/);
+    expect(validateContact({ name: 'Priya', email: '' })).toBeNull();
+  });
+});
+
+describe('vCard', () => {
+  // Test 3: vCard 3.0
+  test('builds a vCard 3.0 with phone, email, website and WhatsApp link', () => {
+    const vcard = buildVCard(CARD, '3.0');
+    const lines = vcard.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCARD');
+    expect(lines).toContain('VERSION:3.0');
+    expect(lines).toContain('N:Sharma;Priya;;;');
+    expect(lines).toContain('FN:Priya Sharma');
+    expect(lines).toContain('ORG:Sharma Bakery');
+    expect(lines).toContain('TEL;TYPE=CELL:+919876543210');
+    expect(lines).toContain('EMAIL;TYPE=INTERNET:priya@example.com');
+    expect(lines).toContain('URL:https://example.com');
+    expect(lines).toContain('URL;TYPE=WhatsApp:https://wa.me/919876543210?text=Hi');
+    expect(lines[lines.length - 1]).toBe('END:VCARD');
+  });
+
+  // Test 4: vCard 4.0 uses tel: URIs and omits empty fields
+  test('builds a vCard 4.0 and skips empty optional fields', () => {
+    const vcard = buildVCard({ ...CARD, org: '', email: '', website: '' }, '4.0');
+    expect(vcard).toContain('VERSION:4.0');
+    expect(vcard).toContain('TEL;VALUE=uri;TYPE=cell:tel:+919876543210');
+    expect(vcard).not.toContain('ORG:');
+    expect(vcard).not.toContain('EMAIL');
+    expect(vcard).not.toMatch(/^URL:/m);
+  });
+
+  // Test 5: Escaping and folding
+  test('escapes special characters and folds long lines', () => {
+    const vcard = buildVCard({ ...CARD, org: 'Cakes, Pies; & More\\Co' }, '3.0');
+    expect(vcard).toContain('ORG:Cakes\\, Pies\\; & More\\\\Co');
+
+    const folded = foldLine('NOTE:' + 'é'.repeat(60));
+    const [first, second] = folded.split('\r\n');
+    expect(new TextEncoder().encode(first).length).toBeLessThanOrEqual(75);
+    expect(second.startsWith(' ')).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe('NOTE:' + 'é'.repeat(60));
+  });
+});
+
+describe('MeCard', () => {
+  // Test 6: MeCard fields and escaping
+  test('builds a MeCard with escaped values', () => {
+    expect(buildMeCard(CARD)).toBe(
+      'MECARD:N:Sharma,Priya;ORG:Sharma Bakery;TEL:+919876543210;EMAIL:priya@example.com;' +
+        'URL:https\\://example.com;URL:https\\://wa.me/919876543210?text=Hi;;'
+    );
+    expect(buildMeCard({ ...CARD, name: 'Madonna', org: 'A;B' })).toContain('N:Madonna;ORG:A\\;B;');
+  });
+});
+
+describe('payloads & files', () => {
+  // Test 7: Format switch and .vcf fallback
+  test('picks the payload by format and falls back to vCard 3.0 for .vcf', () => {
+    expect(buildContactPayload(CARD, 'mecard')).toMatch(/^MECARD:/);
+    expect(buildContactPayload(CARD, 'vcard4')).toContain('VERSION:4.0');
+    expect(buildVCardFile(CARD, 'mecard')).toContain('VERSION:3.0');
+    expect(buildVCardFile(CARD, 'vcard3').endsWith('END:VCARD\r\n')).toBe(true);
+    expect(vcfFileName('José Núñez')).toBe('jose-nunez.vcf');
+    expect(vcfFileName('')).toBe('contact.vcf');
+  });
+
+  // Test 8: Business card PDF
+  test('produces a business card PDF', () => {
+    const blob = generateContactCardPDF(CARD, buildContactPayload(CARD, 'vcard3'), DEFAULT_QR_STYLE);
+    expect(blob.type).toBe('application/pdf');
+    expect(blob.size).toBeGreaterThan(1000);
+  });
+});
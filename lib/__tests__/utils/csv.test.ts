@@ -0,0 +1,33 @@
+// lib/__tests__/utils/csv.test.ts
+// Tests for CSV parser/writer used by bulk modes
+
+import { parseCSV, toCSV } from '../../utils/csv';
+
+describe('parseCSV', () => {
+  // Test 1: Simple rows
+  test('splits rows and cells', () => {
+    expect(parseCSV('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  // Test 2: Quoted cells with commas, quotes and newlines
+  test('handles quoted cells', () => {
+    expect(parseCSV('"Hi, there","say ""hi""","line 1\nline 2"')).toEqual([
+      ['Hi, there', 'say "hi"', 'line 1\nline 2'],
+    ]);
+  });
+
+  // Test 3: CRLF, BOM, blank lines and empty trailing cells
+  test('handles CRLF, BOM, blank lines and empty cells', () => {
+    expect(parseCSV('\uFEFFname,phone\r\n\r\nSam,\r\n')).toEqual([['name', 'phone'], ['Sam', '']]);
+  });
+});
+
+describe('toCSV', () => {
+  // Test 4: Escapes only when needed and round-trips
+  test('escapes special cells and round-trips', () => {
+    const rows = [['name', 'note'], ['Priya', 'Hi, "friend"\nbye'], ['Sam', 42]];
+    const csv = toCSV(rows);
+    expect(csv.split('\r\n')[0]).toBe('name,note');
+    expect(parseCSV(csv)).toEqual(rows.map((r) => r.map(String)));
+  });
+});
@@ -0,0 +1,136 @@
+// lib/__tests__/utils/emoji.test.ts
+// Tests for emoji detection, stripping and shortcodes against a corpus of tricky sequences
+
+import {
+  splitGraphemes,
+  isEmoji,
+  findEmojis,
+  countEmojis,
+  stripEmojis,
+  replaceEmojis,
+  emojiShortcode,
+  emojisToShortcodes,
+} from '../../utils/emoji';
+import greetingsData from '../../../tools/whatsapp-greeting-generator/greetings.json';
+import hiPack from '../../../tools/whatsapp-greeting-generator/locales/hi.json';
+import ptPack from '../../../tools/whatsapp-greeting-generator/locales/pt.json';
+import idPack from '../../../tools/whatsapp-greeting-generator/locales/id.json';
+import esPack from '../../../tools/whatsapp-greeting-generator/locales/es.json';
+import arPack from '../../../tools/whatsapp-greeting-generator/locales/ar.json';
+
+// Written with escapes so the invisible joiners, selectors and tags are explicit
+const FAMILY = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}\u200D\u{1F466}'; // 👨‍👩‍👧‍👦
+const WOMAN_GIRL = '\u{1F469}\u200D\u{1F467}'; // 👩‍👧
+const HEART_ON_FIRE = '\u2764\uFE0F\u200D\u{1F525}'; // ❤️‍🔥
+const RAINBOW_FLAG = '\u{1F3F3}\uFE0F\u200D\u{1F308}'; // 🏳️‍🌈
+const INDIA = '\u{1F1EE}\u{1F1F3}'; // 🇮🇳
+const SCOTLAND = '\u{1F3F4}\u{E0067}\u{E0062}\u{E0073}\u{E0063}\u{E0074}\u{E007F}'; // 🏴󠁧󠁢󠁳󠁣󠁴󠁿
+const KEYCAP_HASH = '#\uFE0F\u20E3'; // #️⃣
+const KEYCAP_ONE_BARE = '1\u20E3'; // 1⃣ without VS16
+const TONE_MEDIUM = '\u{1F3FD}'; // 🏽
+const WAVE_DARK = '\u{1F44B}\u{1F3FF}'; // 👋🏿
+const RED_HEART = '\u2764\uFE0F'; // ❤️
+const TEXT_HEART = '\u2665\uFE0E'; // ♥︎
+const MELTING = '\u{1FAE0}'; // 🫠 (Unicode 14)
+const SHAKING = '\u{1FAE8}'; // 🫨 (Unicode 15)
+const RESERVED = '\u{1FAEF}'; // not yet assigned, reserved for emoji
+
+interface CorpusCase {
+  name: string;
+  text: string;
+  count: number;
+  stripped: string;
+}
+
+const CORPUS: CorpusCase[] = [
+  { name: 'ZWJ family', text: `Family ${FAMILY} time`, count: 1, stripped: 'Family time' },
+  { name: 'ZWJ pair + plain emoji', text: `${WOMAN_GIRL}🎉`, count: 2, stripped: '' },
+  { name: 'ZWJ with VS16 inside', text: `${HEART_ON_FIRE} and ${RAINBOW_FLAG}`, count: 2, stripped: 'and' },
+  { name: 'flags', text: `Go ${INDIA}${INDIA} team`, count: 2, stripped: 'Go team' },
+  { name: 'tag sequence flag', text: `Hi from ${SCOTLAND}!`, count: 1, stripped: 'Hi from!' },
+  { name: 'keycaps', text: `Press ${KEYCAP_HASH} or ${KEYCAP_ONE_BARE} now`, count: 2, stripped: 'Press or now' },
+  { name: 'skin tone on a base', text: `Bye ${WAVE_DARK}`, count: 1, stripped: 'Bye' },
+  { name: 'skin tone on its own', text: `Lone ${TONE_MEDIUM} tone`, count: 1, stripped: 'Lone tone' },
+  { name: 'skin tone after a letter', text: `ok${TONE_MEDIUM}${TONE_MEDIUM}`, count: 2, stripped: 'ok' },
+  { name: 'VS16 turns a symbol into emoji', text: `I ${RED_HEART} you`, count: 1, stripped: 'I you' },
+  { name: 'VS15 keeps a symbol as text', text: `I ${TEXT_HEART} you`, count: 0, stripped: `I ${TEXT_HEART} you` },
+  { name: 'newer and reserved emoji', text: `${MELTING} ${SHAKING} ${RESERVED} wow`, count: 3, stripped: 'wow' },
+  { name: 'text symbols survive', text: '© 2026 Acme™ ♥ ☺ ✓ → ☎ ½', count: 0, stripped: '© 2026 Acme™ ♥ ☺ ✓ → ☎ ½' },
+  { name: 'default-emoji symbols in U+2600–27BF', text: 'Tea ☕ and ✅ done ⭐', count: 3, stripped: 'Tea and done' },
+  { name: 'Devanagari ZWJ is not an emoji joiner', text: 'क्\u200Dष लक्ष्मी 🪔', count: 1, stripped: 'क्\u200Dष लक्ष्मी' },
+  { name: 'Arabic text', text: 'عيد مبارك 🌙✨', count: 2, stripped: 'عيد مبارك' },
+];
+
+describe('emoji corpus', () => {
+  // Test 1: Counting — every sequence counts as one emoji, plain symbols don't count
+  test.each(CORPUS.map((c) => [c.name, c] as const))('counts %s', (_, c) => {
+    expect(countEmojis(c.text)).toBe(c.count);
+  });
+
+  // Test 2: Stripping removes whole sequences and tidies the spacing
+  test.each(CORPUS.map((c) => [c.name, c] as const))('strips %s', (_, c) => {
+    expect(stripEmojis(c.text)).toBe(c.stripped);
+    expect(countEmojis(stripEmojis(c.text))).toBe(0);
+  });
+});
+
+describe('detection', () => {
+  // Test 3: Clusters and positions
+  test('splits clusters and reports UTF-16 positions', () => {
+    expect(splitGraphemes(`a${FAMILY}b`)).toEqual(['a', FAMILY, 'b']);
+    expect(findEmojis(`Hi ${INDIA} ${KEYCAP_HASH}`)).toEqual([
+      { emoji: INDIA, index: 3 },
+      { emoji: KEYCAP_HASH, index: 8 },
+    ]);
+    expect([RED_HEART, '❤', '#', '7'].map(isEmoji)).toEqual([true, false, false, false]);
+  });
+
+  // Test 4: Without Intl.Segmenter, emoji sequences are still found whole
+  test('falls back to sequence matching without Intl.Segmenter', () => {
+    // Simulate an engine without Intl.Segmenter
+    const intl = Intl as unknown as { Segmenter?: typeof Intl.Segmenter };
+    const segmenter = intl.Segmenter;
+    delete intl.Segmenter;
+    try {
+      jest.isolateModules(() => {
+        const fallback = require('../../utils/emoji') as typeof import('../../utils/emoji');
+        for (const c of CORPUS) {
+          expect({ name: c.name, count: fallback.countEmojis(c.text) }).toEqual({ name: c.name, count: c.count });
+        }
+        expect(fallback.stripEmojis(`Family ${FAMILY} time`)).toBe('Family time');
+      });
+    } finally {
+      intl.Segmenter = segmenter;
+    }
+  });
+});
+
+describe('replacement', () => {
+  // Test 5: Spacing after removal — line starts, line ends, punctuation, runs, no-space joins
+  test('tidies spacing around removed emoji', () => {
+    expect(stripEmojis('🎉 Hi\n🎊 there 🎈\nBye')).toBe('Hi\nthere\nBye');
+    expect(stripEmojis('a 🎉 🎊 b')).toBe('a b');
+    expect(stripEmojis('Happy Diwali 🪔!')).toBe('Happy Diwali!');
+    expect(stripEmojis('Hey🎉you')).toBe('Heyyou');
+    expect(stripEmojis('Line one\n\nLine  two')).toBe('Line one\n\nLine  two');
+  });
+
+  // Test 6: Shortcodes — table names, skin tones, computed flags and keycaps, unknowns
+  test('converts emoji to shortcodes', () => {
+    expect(emojisToShortcodes(`Happy Diwali 🪔! ${RED_HEART}`)).toBe('Happy Diwali :diya_lamp:! :heart:');
+    expect([WAVE_DARK, TONE_MEDIUM, INDIA, SCOTLAND, KEYCAP_HASH, KEYCAP_ONE_BARE, FAMILY].map(emojiShortcode)).toEqual([
+      ':wave::skin-tone-6:', ':skin-tone-4:', ':flag-in:', ':scotland:', ':hash:', ':one:', ':family_man_woman_girl_boy:',
+    ]);
+    expect(emojiShortcode(RESERVED)).toBeUndefined();
+    expect(emojisToShortcodes(`Wow ${RESERVED} ok`)).toBe('Wow ok');
+    expect(emojisToShortcodes(`Wow ${RESERVED} ok`, { unknown: 'keep' })).toBe(`Wow ${RESERVED} ok`);
+    expect(replaceEmojis('a🎉b', () => '*')).toBe('a*b');
+  });
+
+  // Test 7: Every emoji in the bundled greetings has a shortcode
+  test('has a shortcode for every bundled emoji', () => {
+    const texts = [greetingsData, hiPack, ptPack, idPack, esPack, arPack].map((data) => JSON.stringify(data));
+    const missing = texts.flatMap((t) => findEmojis(t).map((m) => m.emoji)).filter((e) => !emojiShortcode(e));
+    expect([...new Set(missing)]).toEqual([]);
+  });
+});
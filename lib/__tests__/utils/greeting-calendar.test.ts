@@ -0,0 +1,122 @@
+// lib/__tests__/utils/greeting-calendar.test.ts
+// Tests for occasion date rules, upcoming suggestions, festival tables and .ics export
+
+import {
+  easterSunday,
+  datesInYear,
+  nextOccasionDate,
+  upcomingOccasions,
+  localIsoDate,
+  addDays,
+  daysBetween,
+  formatDaysAway,
+  buildIcs,
+  OCCASION_DATES,
+  TABLE_FIRST_YEAR,
+  TABLE_LAST_YEAR,
+} from '../../utils/greeting-calendar';
+import { countUtf8Bytes } from '../../utils/text-stats';
+import type { GreetingPack } from '../../utils/greeting-templates';
+import greetingsData from '../../../tools/whatsapp-greeting-generator/greetings.json';
+
+const BUNDLED = greetingsData as GreetingPack;
+
+describe('date rules', () => {
+  // Test 1: Easter and the days counted from it
+  test('computes Western Easter and Carnival', () => {
+    expect(['2024', '2025', '2026', '2027', '2038'].map((y) => easterSunday(Number(y)))).toEqual([
+      '2024-03-31', '2025-04-20', '2026-04-05', '2027-03-28', '2038-04-25',
+    ]);
+    expect(datesInYear(OCCASION_DATES.carnival.rule, 2026)).toEqual(['2026-02-17']);
+  });
+
+  // Test 2: nth-weekday holidays
+  test('finds the nth weekday of a month', () => {
+    expect(datesInYear(OCCASION_DATES.thanksgiving.rule, 2026)).toEqual(['2026-11-26']);
+    expect(datesInYear(OCCASION_DATES['mothers-day'].rule, 2026)).toEqual(['2026-05-10']);
+    expect(datesInYear(OCCASION_DATES['fathers-day'].rule, 2025)).toEqual(['2025-06-15']);
+  });
+
+  // Test 3: Next date counts today and rolls into next year
+  test('returns the next date on or after a day', () => {
+    expect(nextOccasionDate('christmas', '2026-12-25')).toBe('2026-12-25');
+    expect(nextOccasionDate('christmas', '2026-12-26')).toBe('2027-12-25');
+    expect(nextOccasionDate('diwali', '2026-10-19')).toBe('2026-11-08');
+    expect(nextOccasionDate('diwali', '2026-11-09')).toBe('2027-10-29');
+  });
+
+  // Test 4: Lunar tables — two in a year, run out after the last year; personal occasions have no date
+  test('handles table edges and undated occasions', () => {
+    expect(datesInYear(OCCASION_DATES.eid.rule, 2033)).toEqual(['2033-01-02', '2033-12-23']);
+    expect(nextOccasionDate('eid', '2033-01-03')).toBe('2033-12-23');
+    expect(nextOccasionDate('diwali', `${TABLE_LAST_YEAR}-11-01`)).toBeNull();
+    expect(nextOccasionDate('birthday', '2026-01-01')).toBeNull();
+  });
+});
+
+describe('upcoming', () => {
+  // Test 5: Soonest first, inside the window only
+  test('lists dated occasions in the window, soonest first', () => {
+    const ids = ['birthday', 'christmas', 'diwali', 'halloween', 'holi', 'thanksgiving'];
+    expect(upcomingOccasions(ids, '2026-10-19', 60)).toEqual([
+      { occasionId: 'halloween', date: '2026-10-31', daysAway: 12 },
+      { occasionId: 'diwali', date: '2026-11-08', daysAway: 20 },
+      { occasionId: 'thanksgiving', date: '2026-11-26', daysAway: 38 },
+    ]);
+  });
+
+  // Test 6: Local day, day arithmetic and labels
+  test('uses the local calendar day and counts days across months', () => {
+    expect(localIsoDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+    expect(daysBetween('2026-12-30', '2027-01-02')).toBe(3);
+    expect([0, 1, 12].map(formatDaysAway)).toEqual(['today', 'tomorrow', 'in 12 days']);
+  });
+});
+
+describe('festival data', () => {
+  // Test 7: Every festival is dated; tables are sorted, valid and cover every year
+  test('dates every festival occasion with complete tables', () => {
+    const ids = BUNDLED.categories.flatMap((c) => c.occasions.map((o) => o.id));
+    const festivals = BUNDLED.categories.filter((c) => c.id.startsWith('festivals-')).flatMap((c) => c.occasions.map((o) => o.id));
+    expect(Object.keys(OCCASION_DATES).sort()).toEqual([...festivals].sort());
+    expect(Object.keys(OCCASION_DATES).every((id) => ids.includes(id))).toBe(true);
+
+    for (const [id, { rule }] of Object.entries(OCCASION_DATES)) {
+      if (rule.kind !== 'table') continue;
+      expect({ id, sorted: [...rule.dates].sort() }).toEqual({ id, sorted: rule.dates });
+      for (const date of rule.dates) expect(addDays(date, 0)).toBe(date);
+      for (let year = TABLE_FIRST_YEAR; year <= TABLE_LAST_YEAR; year++) {
+        expect({ id, year, dated: datesInYear(rule, year).length > 0 }).toEqual({ id, year, dated: true });
+      }
+    }
+  });
+});
+
+describe('ics export', () => {
+  // Test 8: All-day events with alarms, escaped text and folded lines
+  test('builds an iCalendar file', () => {
+    const ics = buildIcs(
+      [
+        { occasionId: 'diwali', title: '🪔 Diwali', date: '2026-11-08', url: 'https://www.whatsscale.com/tools/whatsapp-greeting-generator?occasion=diwali&tone=casual&lang=hi' },
+        { occasionId: 'eid', title: 'Eid; with, commas', date: '2027-03-09' },
+      ],
+      { remindDaysBefore: 1, now: new Date(Date.UTC(2026, 9, 19, 8, 30)) }
+    );
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:diwali-20261108@whatsscale.com');
+    expect(ics).toContain('DTSTAMP:20261019T083000Z');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261108\r\nDTEND;VALUE=DATE:20261109');
+    expect(ics).toContain('SUMMARY:Eid\\; with\\, commas');
+    expect(ics.match(/TRIGGER:-PT15H/g)).toHaveLength(2);
+    // Long lines fold at 75 octets and unfold back to the original
+    expect(lines.every((l) => countUtf8Bytes(l) <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain('Pick a WhatsApp greeting: https://www.whatsscale.com/tools/whatsapp-greeting-generator?occasion=diwali&tone=casual&lang=hi');
+
+    expect(buildIcs([], { remindDaysBefore: 0, now: new Date(0) })).not.toContain('BEGIN:VEVENT');
+    expect(buildIcs([{ occasionId: 'holi', title: 'Holi', date: '2027-03-22' }], { remindDaysBefore: 0, now: new Date(0) }))
+      .toContain('TRIGGER:PT9H');
+  });
+});
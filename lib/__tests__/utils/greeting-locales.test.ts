@@ -0,0 +1,101 @@
+// lib/__tests__/utils/greeting-locales.test.ts
+// Tests for greeting locale fallback and the integrity of the bundled language packs
+
+import {
+  attachTranslations,
+  localizedTemplates,
+  getLocaleInfo,
+  GREETING_LOCALES,
+  type LocalePack,
+} from '../../utils/greeting-locales';
+import { GREETING_TONES, validateTemplate, type GreetingPack } from '../../utils/greeting-templates';
+import greetingsData from '../../../tools/whatsapp-greeting-generator/greetings.json';
+import hiPack from '../../../tools/whatsapp-greeting-generator/locales/hi.json';
+import ptPack from '../../../tools/whatsapp-greeting-generator/locales/pt.json';
+import idPack from '../../../tools/whatsapp-greeting-generator/locales/id.json';
+import esPack from '../../../tools/whatsapp-greeting-generator/locales/es.json';
+import arPack from '../../../tools/whatsapp-greeting-generator/locales/ar.json';
+
+const BASE: GreetingPack = {
+  categories: [
+    {
+      id: 'life-events',
+      label: 'Life Events',
+      occasions: [
+        { id: 'birthday', label: 'Birthday', emoji: '🎂', templates: { formal: ['Happy birthday, {name}.'], casual: ['HBD {name}!'], funny: ['Old!'] } },
+        { id: 'wedding', label: 'Wedding', emoji: '💍', templates: { formal: [], casual: ['Congrats {name}!'], funny: [] } },
+      ],
+    },
+  ],
+};
+
+const BUNDLED = greetingsData as GreetingPack;
+const PACKS = [hiPack, ptPack, idPack, esPack, arPack] as LocalePack[];
+const OCCASION_IDS = BUNDLED.categories.flatMap((c) => c.occasions.map((o) => o.id));
+
+describe('locale fallback', () => {
+  // Test 1: Packs attach per occasion; uncovered occasions are left as they were
+  test('attaches translations to the occasions a pack covers', () => {
+    const data = attachTranslations(BASE, [{ locale: 'es', occasions: { birthday: { casual: ['¡Feliz cumple, {name}!'] } } }]);
+    const [birthday, wedding] = data.categories[0].occasions;
+    expect(birthday.translations?.es).toEqual({ formal: [], casual: ['¡Feliz cumple, {name}!'], funny: [] });
+    expect(birthday.templates).toBe(BASE.categories[0].occasions[0].templates);
+    expect(wedding).toBe(BASE.categories[0].occasions[1]);
+  });
+
+  // Test 2: Missing language, occasion or tone falls back to English
+  test('falls back to English per occasion and tone', () => {
+    const data = attachTranslations(BASE, [{ locale: 'es', occasions: { birthday: { casual: ['¡Feliz cumple, {name}!'] } } }]);
+    const [birthday, wedding] = data.categories[0].occasions;
+    expect(localizedTemplates(birthday, 'casual', 'es')).toEqual({ templates: ['¡Feliz cumple, {name}!'], locale: 'es', fallback: false });
+    expect(localizedTemplates(birthday, 'funny', 'es')).toEqual({ templates: ['Old!'], locale: 'en', fallback: true });
+    expect(localizedTemplates(wedding, 'casual', 'hi')).toEqual({ templates: ['Congrats {name}!'], locale: 'en', fallback: true });
+    expect(localizedTemplates(birthday, 'casual', 'en')).toEqual({ templates: ['HBD {name}!'], locale: 'en', fallback: false });
+  });
+
+  // Test 3: Arabic is the only right-to-left language
+  test('marks Arabic as right-to-left', () => {
+    expect(getLocaleInfo('ar')).toMatchObject({ label: 'العربية', dir: 'rtl' });
+    expect(GREETING_LOCALES.filter((l) => l.dir === 'rtl').map((l) => l.code)).toEqual(['ar']);
+  });
+});
+
+describe('bundled language packs', () => {
+  // Test 4: One pack per non-English language, each naming its own locale
+  test('has a pack for every language in the switcher', () => {
+    expect(PACKS.map((p) => p.locale).sort()).toEqual(GREETING_LOCALES.map((l) => l.code).filter((c) => c !== 'en').sort());
+  });
+
+  // Test 5: Every locale has every tone for every occasion, and nothing unknown
+  test.each(PACKS.map((p) => [p.locale, p] as const))('%s covers every occasion and tone', (_, pack) => {
+    expect(Object.keys(pack.occasions).sort()).toEqual([...OCCASION_IDS].sort());
+    for (const id of OCCASION_IDS) {
+      for (const tone of GREETING_TONES) {
+        // Named so a failure says which occasion + tone is empty
+        expect({ id, tone, empty: !pack.occasions[id][tone]?.length }).toEqual({ id, tone, empty: false });
+      }
+    }
+  });
+
+  // Test 6: Every translated template is valid, personalizable and unique within its tone
+  test.each(PACKS.map((p) => [p.locale, p] as const))('%s templates are valid and use {name}', (_, pack) => {
+    for (const [id, tones] of Object.entries(pack.occasions)) {
+      for (const tone of GREETING_TONES) {
+        const templates = tones[tone] ?? [];
+        expect(new Set(templates).size).toBe(templates.length);
+        for (const template of templates) {
+          expect({ id, tone, template, error: validateTemplate(template) }).toEqual({ id, tone, template, error: null });
+          expect(template).toContain('{name}');
+        }
+      }
+    }
+  });
+
+  // Test 7: Hindi and Arabic packs are actually in their scripts
+  test('writes Hindi in Devanagari and Arabic in Arabic script', () => {
+    const all = (pack: LocalePack) =>
+      Object.values(pack.occasions).flatMap((tones) => GREETING_TONES.flatMap((t) => tones[t] ?? []));
+    expect(all(hiPack as LocalePack).every((t) => /\p{Script=Devanagari}/u.test(t))).toBe(true);
+    expect(all(arPack as LocalePack).every((t) => /\p{Script=Arabic}/u.test(t))).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+// lib/__tests__/utils/greeting-remix.test.ts
+// Tests for the Greeting Generator remix engine and its fragment data
+
+import {
+  remixTemplates,
+  hasRemixFragments,
+  LENGTH_TARGETS,
+  GREETING_LENGTHS,
+  type FragmentPack,
+} from '../../utils/greeting-remix';
+import { hashSeed, createRng } from '../../utils/random';
+import { GREETING_TONES, validateTemplate } from '../../utils/greeting-templates';
+import { countEmojis, stripEmojis, findEmojis, emojiShortcode } from '../../utils/emoji';
+import { countGraphemes } from '../../utils/text-stats';
+import fragmentData from '../../../tools/whatsapp-greeting-generator/fragments.json';
+import greetingsData from '../../../tools/whatsapp-greeting-generator/greetings.json';
+
+const FRAGMENTS = fragmentData as FragmentPack;
+const OCCASION_IDS = greetingsData.categories.flatMap((c) => c.occasions.map((o) => o.id));
+
+describe('seeded randomness', () => {
+  // Test 1: Hash and generator are stable across runs and engines
+  test('hashes and generates the same sequence every time', () => {
+    expect(hashSeed('')).toBe(0x811c9dc5);
+    expect(hashSeed('abc')).toBe(hashSeed('abc'));
+    expect(hashSeed('abc')).not.toBe(hashSeed('abd'));
+    const a = createRng(42);
+    const b = createRng(42);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('remixTemplates', () => {
+  // Test 2: Same seed → same messages; another seed → a different order
+  test('is reproducible from the seed', () => {
+    const options = { occasionId: 'diwali', tone: 'casual' as const, length: 'standard' as const, seed: 'abc123' };
+    const first = remixTemplates(FRAGMENTS, options);
+    expect(remixTemplates(FRAGMENTS, options)).toEqual(first);
+    expect(remixTemplates(FRAGMENTS, { ...options, seed: 'xyz789' })).not.toEqual(first);
+    expect(remixTemplates(FRAGMENTS, { ...options, count: 5 })).toEqual(first.slice(0, 5));
+  });
+
+  // Test 3: Every message fits its length target with the right number of emojis
+  test.each(GREETING_LENGTHS)('keeps %s messages within the target', (length) => {
+    const target = LENGTH_TARGETS[length];
+    const templates = remixTemplates(FRAGMENTS, { occasionId: 'birthday', tone: 'formal', length, seed: 'len' });
+    expect(templates.length).toBeGreaterThanOrEqual(10);
+    for (const text of templates) {
+      expect(countGraphemes(text)).toBeGreaterThanOrEqual(target.min);
+      expect(countGraphemes(text)).toBeLessThanOrEqual(target.max);
+      expect(countEmojis(text)).toBe(target.emojis);
+      expect(text).toContain('{name}');
+    }
+    expect(templates.some((t) => t.includes('\n\n'))).toBe(length === 'long');
+  });
+
+  // Test 4: No two messages differ only in their emojis
+  test('returns distinct messages', () => {
+    const templates = remixTemplates(FRAGMENTS, { occasionId: 'eid', tone: 'funny', length: 'long', seed: 's' });
+    expect(templates).toHaveLength(30);
+    expect(new Set(templates.map(stripEmojis)).size).toBe(30);
+  });
+
+  // Test 5: Occasions without fragments give nothing, so the tool falls back to its templates
+  test('returns nothing for unknown occasions', () => {
+    expect(hasRemixFragments(FRAGMENTS, 'my-custom-day', 'formal')).toBe(false);
+    expect(remixTemplates(FRAGMENTS, { occasionId: 'my-custom-day', tone: 'formal', length: 'short', seed: '' })).toEqual([]);
+  });
+});
+
+describe('fragments.json', () => {
+  // Test 6: Every bundled occasion and tone can be remixed at every length
+  test('covers every occasion, tone and length', () => {
+    expect(Object.keys(FRAGMENTS.occasions).sort()).toEqual([...OCCASION_IDS].sort());
+    for (const occasionId of OCCASION_IDS) {
+      for (const tone of GREETING_TONES) {
+        for (const length of GREETING_LENGTHS) {
+          const templates = remixTemplates(FRAGMENTS, { occasionId, tone, length, seed: 'coverage' });
+          expect({ occasionId, tone, length, enough: templates.length >= 10 }).toEqual({ occasionId, tone, length, enough: true });
+          for (const text of templates) expect(validateTemplate(text)).toBeNull();
+        }
+      }
+    }
+  });
+
+  // Test 7: Openings carry {name}; other fragments don't, and every emoji has a shortcode
+  test('has well-formed fragments', () => {
+    for (const occasion of Object.values(FRAGMENTS.occasions)) {
+      expect(occasion.emoji.length).toBeGreaterThanOrEqual(LENGTH_TARGETS.long.emojis);
+      for (const tone of GREETING_TONES) {
+        const set = occasion[tone]!;
+        expect(set.opening.every((t) => t.includes('{name}'))).toBe(true);
+        expect([...set.wish, ...set.closing].some((t) => t.includes('{'))).toBe(false);
+      }
+    }
+    const missing = findEmojis(JSON.stringify(FRAGMENTS)).map((m) => m.emoji).filter((e) => !emojiShortcode(e));
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+// lib/__tests__/utils/greeting-templates.test.ts
+// Tests for greeting placeholders, custom templates and template pack import/export
+
+import {
+  extractPlaceholders,
+  usedPlaceholders,
+  personalize,
+  validateTemplate,
+  mergeTemplatePacks,
+  addCustomTemplate,
+  updateCustomTemplate,
+  removeCustomTemplate,
+  customTemplatesFor,
+  countTemplates,
+  loadTemplatePack,
+  saveTemplatePack,
+  exportTemplatePack,
+  importTemplatePack,
+  TEMPLATE_STORAGE_KEY,
+  EMPTY_TEMPLATE_PACK,
+  type GreetingPack,
+  type TemplateTarget,
+} from '../../utils/greeting-templates';
+
+const BASE: GreetingPack = {
+  categories: [
+    {
+      id: 'life-events',
+      label: 'Life Events',
+      occasions: [
+        { id: 'birthday', label: 'Birthday', emoji: '🎂', templates: { formal: ['Happy birthday, {name}.'], casual: ['HBD {name}!'], funny: [] } },
+        { id: 'wedding', label: 'Wedding', emoji: '💍', templates: { formal: [], casual: ['Congrats {name}!'], funny: [] } },
+      ],
+    },
+  ],
+};
+
+const BIRTHDAY_CASUAL: TemplateTarget = { categoryId: 'life-events', occasionId: 'birthday', tone: 'casual' };
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const store = { ...initial };
+  return {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+  };
+}
+
+describe('placeholders', () => {
+  // Test 1: Extraction keeps first-use order; the form only shows known ones
+  test('extracts placeholders in order and lists the known ones used', () => {
+    expect(extractPlaceholders('Hi {name}, from {sender} and {name} at {team}')).toEqual(['name', 'sender', 'team']);
+    expect(usedPlaceholders(['{company} wishes {name}', 'Happy {years} years, {relation}'])).toEqual([
+      'name', 'relation', 'years', 'company',
+    ]);
+  });
+
+  // Test 2: Filling, fallbacks and dates
+  test('fills placeholders, falls back for name and formats dates', () => {
+    const template = 'Dear {name}, happy {years} years at {company}! See you on {date}. — {sender}';
+    expect(personalize(template, { name: ' Asha ', years: '10', company: 'Acme', date: '2025-02-14', sender: 'Ravi' }, 'en-US'))
+      .toBe('Dear Asha, happy 10 years at Acme! See you on February 14, 2025. — Ravi');
+    // Blank name reads naturally; other blanks stay visible so the user fills them in
+    expect(personalize(template, {}, 'en-US')).toBe('Dear friend, happy {years} years at {company}! See you on {date}. — {sender}');
+    expect(personalize('Hi {nickname}', { name: 'A' })).toBe('Hi {nickname}');
+  });
+
+  // Test 3: Validation names the unknown placeholders
+  test('rejects empty, overlong and unknown-placeholder templates', () => {
+    expect(validateTemplate('Happy birthday {name}!')).toBeNull();
+    expect(validateTemplate('   ')).toMatch(/write a message/i);
+    expect(validateTemplate('x'.repeat(1001))).toMatch(/under 1000 characters/);
+    expect(validateTemplate('Hi {nickname} and {pet}')).toMatch(/^Unknown placeholders \{nickname\}, \{pet\}\. Use \{name\}/);
+  });
+});
+
+describe('custom templates', () => {
+  // Test 4: Add, edit and remove, pruning empty occasions
+  test('adds, updates and removes templates for an occasion + tone', () => {
+    let pack = addCustomTemplate(EMPTY_TEMPLATE_PACK, BASE, BIRTHDAY_CASUAL, '  Cake time, {name}! ');
+    pack = addCustomTemplate(pack, BASE, BIRTHDAY_CASUAL, 'Another one');
+    expect(pack.categories[0]).toMatchObject({ id: 'life-events', label: 'Life Events' });
+    expect(pack.categories[0].occasions[0]).toMatchObject({ id: 'birthday', label: 'Birthday', emoji: '🎂' });
+    expect(customTemplatesFor(pack, 'birthday', 'casual')).toEqual(['Cake time, {name}!', 'Another one']);
+
+    pack = updateCustomTemplate(pack, BASE, BIRTHDAY_CASUAL, 1, 'Edited');
+    expect(customTemplatesFor(pack, 'birthday', 'casual')).toEqual(['Cake time, {name}!', 'Edited']);
+
+    pack = removeCustomTemplate(pack, BASE, BIRTHDAY_CASUAL, 0);
+    pack = removeCustomTemplate(pack, BASE, BIRTHDAY_CASUAL, 0);
+    expect(pack).toEqual(EMPTY_TEMPLATE_PACK);
+  });
+
+  // Test 5: Merge puts custom templates first and appends new occasions
+  test('merges custom templates ahead of bundled ones', () => {
+    const custom: GreetingPack = {
+      categories: [
+        { id: 'life-events', label: 'Life Events', occasions: [{ id: 'birthday', label: 'Birthday', emoji: '🎂', templates: { formal: [], casual: ['Mine'], funny: [] } }] },
+        { id: 'team', label: 'Team', occasions: [{ id: 'launch-day', label: 'Launch Day', emoji: '🚀', templates: { formal: ['We shipped!'], casual: [], funny: [] } }] },
+      ],
+    };
+    const merged = mergeTemplatePacks(BASE, custom);
+    expect(merged.categories[0].occasions[0].templates.casual).toEqual(['Mine', 'HBD {name}!']);
+    expect(merged.categories[0].occasions[1]).toBe(BASE.categories[0].occasions[1]);
+    expect(merged.categories[1]).toMatchObject({ id: 'team', occasions: [{ id: 'launch-day' }] });
+    expect(countTemplates(merged)).toBe(countTemplates(BASE) + 2);
+  });
+});
+
+describe('storage and packs', () => {
+  // Test 6: Storage round-trip; corrupt or newer data reads as empty
+  test('saves and loads the custom pack', () => {
+    const storage = memoryStorage();
+    const pack = addCustomTemplate(EMPTY_TEMPLATE_PACK, BASE, BIRTHDAY_CASUAL, 'Saved');
+    saveTemplatePack(storage, pack);
+    expect(loadTemplatePack(storage)).toEqual(pack);
+
+    expect(loadTemplatePack(memoryStorage({ [TEMPLATE_STORAGE_KEY]: '{oops' }))).toEqual(EMPTY_TEMPLATE_PACK);
+    expect(loadTemplatePack(memoryStorage({ [TEMPLATE_STORAGE_KEY]: JSON.stringify({ version: 99, categories: [] }) })))
+      .toEqual(EMPTY_TEMPLATE_PACK);
+  });
+
+  // Test 7: Import merges, skipping duplicates and invalid templates
+  test('imports a pack in the greetings.json shape', () => {
+    const current = addCustomTemplate(EMPTY_TEMPLATE_PACK, BASE, BIRTHDAY_CASUAL, 'Already here');
+    const file = JSON.stringify({
+      categories: [
+        {
+          id: 'life-events',
+          label: 'Life Events',
+          occasions: [
+            { id: 'birthday', label: 'Birthday', emoji: '🎂', templates: { casual: ['Already here', 'New one {sender}', 'Bad {nickname}', 42] } },
+            { id: 'retirement', label: 'Retirement', emoji: '🌅', templates: { formal: ['Enjoy it, {name}'] } },
+          ],
+        },
+      ],
+    });
+    const result = importTemplatePack(file, current);
+    expect(result).toMatchObject({ ok: true, added: 2, skipped: 3 });
+    if (!result.ok) return;
+    expect(customTemplatesFor(result.pack, 'birthday', 'casual')).toEqual(['Already here', 'New one {sender}']);
+    expect(result.pack.categories[0].occasions[1]).toMatchObject({ id: 'retirement', label: 'Retirement', emoji: '🌅' });
+  });
+
+  // Test 8: Export round-trips; bad files are refused with a reason
+  test('round-trips exports and refuses bad files', () => {
+    const pack = addCustomTemplate(EMPTY_TEMPLATE_PACK, BASE, BIRTHDAY_CASUAL, 'Round trip {date}');
+    const result = importTemplatePack(exportTemplatePack(pack), EMPTY_TEMPLATE_PACK);
+    expect(result).toEqual({ ok: true, pack, added: 1, skipped: 0 });
+
+    expect(importTemplatePack('nope', pack)).toEqual({ ok: false, error: "This file isn't valid JSON" });
+    expect(importTemplatePack('{"entries": []}', pack)).toEqual({ ok: false, error: "This file isn't a greeting template pack" });
+    expect(importTemplatePack('{"version": 2, "categories": []}', pack)).toEqual({
+      ok: false,
+      error: 'This file was exported by a newer version of the tool',
+    });
+  });
+});
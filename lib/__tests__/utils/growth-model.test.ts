@@ -3,13 +3,26 @@
 
 import {
   calculateEffectiveRate,
+  calculateChurnRate,
   calculateProjections,
   calculateMilestones,
   calculateMonetization,
   calculateBenchmark,
   generateTips,
   formatFollowerCount,
+  formatProjectionStep,
+  formatProjectionTime,
+  simulateGrowth,
+  normalizeGrowthEvents,
+  eventPoint,
+  describeGrowthEvent,
+  parseFollowerHistory,
+  calibrateGrowthModel,
+  FOLLOWER_HISTORY_EXAMPLE,
+  MIN_POINTS_FOR_CAPACITY,
   type GrowthInputs,
+  type GrowthEvent,
+  type HistoryPoint,
 } from '../../utils/growth-model';
 import { getNicheById, NICHE_DATA } from '../../data/niche-data';
 
@@ -75,14 +88,14 @@ describe('calculateProjections', () => {
   });
 
   // ============================================================
-  // Test 4: Low engagement (<2%) — no errors
+  // Test 4: Low engagement (<2%) — unfollows outpace growth, no errors
   // ============================================================
-  test('low engagement (<2%) returns valid low growth', () => {
+  test('low engagement (<2%) shrinks slowly with valid values', () => {
     const inputs = makeInputs({ engagementRate: 1 });
     const result = calculateProjections(inputs);
 
-    expect(result.summary.expected).toBeGreaterThan(1000);
-    expect(result.summary.expected).toBeLessThan(2000);
+    expect(result.summary.expected).toBeLessThan(1000);
+    expect(result.summary.expected).toBeGreaterThan(900);
     for (const m of result.monthly) {
       expect(Number.isFinite(m.expected)).toBe(true);
       expect(m.expected).toBeGreaterThan(0);
@@ -101,7 +114,7 @@ describe('calculateProjections', () => {
   });
 
   // ============================================================
-  // Test 6: Posts/week = 30 capped at 1.5x frequency multiplier
+  // Test 6: Posts/week = 30 capped at 1.5x frequency multiplier; churn keeps rising
   // ============================================================
   test('posts/week = 30 capped at 1.5x frequency multiplier', () => {
     const at10 = makeInputs({ postsPerWeek: 10 }); // 0.5 + 10/10 = 1.5
@@ -110,7 +123,9 @@ describe('calculateProjections', () => {
     const result10 = calculateProjections(at10);
     const result30 = calculateProjections(at30);
 
-    expect(result30.summary.expected).toBe(result10.summary.expected);
+    expect(calculateEffectiveRate(1000, 8, 30, at30.niche)).toBe(calculateEffectiveRate(1000, 8, 10, at10.niche));
+    // Over-posting costs followers, so the extra posts make things worse
+    expect(result30.summary.expected).toBeLessThan(result10.summary.expected);
   });
 
   // ============================================================
@@ -150,9 +165,10 @@ describe('calculateProjections', () => {
   test('conservative scenario uses 0.6x rate', () => {
     const inputs = makeInputs({ followers: 5000 });
     const rate = calculateEffectiveRate(5000, 8, 3, inputs.niche);
+    const churn = calculateChurnRate(3, inputs.niche);
 
-    const expectedMonth1 = Math.round(5000 * (1 + rate));
-    const conservativeMonth1 = Math.round(5000 * (1 + rate * 0.6));
+    const expectedMonth1 = Math.round(5000 * (1 + rate - churn));
+    const conservativeMonth1 = Math.round(5000 * (1 + rate * 0.6 - churn));
 
     const result = calculateProjections(inputs);
     expect(result.monthly[0].conservative).toBe(conservativeMonth1);
@@ -165,8 +181,9 @@ describe('calculateProjections', () => {
   test('optimistic scenario uses 1.5x rate', () => {
     const inputs = makeInputs({ followers: 5000 });
     const rate = calculateEffectiveRate(5000, 8, 3, inputs.niche);
+    const churn = calculateChurnRate(3, inputs.niche);
 
-    const optimisticMonth1 = Math.round(5000 * (1 + rate * 1.5));
+    const optimisticMonth1 = Math.round(5000 * (1 + rate * 1.5 - churn));
 
     const result = calculateProjections(inputs);
     expect(result.monthly[0].optimistic).toBe(optimisticMonth1);
@@ -245,6 +262,231 @@ describe('calculateMilestones', () => {
   });
 });
 
+// ============================================================
+// Horizon and Steps
+// ============================================================
+describe('projection horizon and steps', () => {
+  // Test 40: 24/36-month horizons; out-of-range horizons are clamped
+  test('projects over the chosen horizon', () => {
+    const twelve = calculateProjections(makeInputs());
+    const thirtySix = calculateProjections(makeInputs({ horizonMonths: 36 }));
+
+    expect(twelve.horizonMonths).toBe(12);
+    expect(calculateProjections(makeInputs({ horizonMonths: 24 })).monthly).toHaveLength(24);
+    expect(thirtySix.monthly).toHaveLength(36);
+    expect(thirtySix.monthly.slice(0, 12)).toEqual(twelve.monthly);
+    expect(thirtySix.summary.expected).toBe(thirtySix.monthly[35].expected);
+    expect(calculateProjections(makeInputs({ horizonMonths: 60 })).horizonMonths).toBe(36);
+    expect(calculateProjections(makeInputs({ horizonMonths: 3 })).horizonMonths).toBe(12);
+  });
+
+  // Test 41: Weekly steps — 52 per year, landing where monthly steps do
+  test('weekly steps match the monthly curve', () => {
+    const monthly = calculateProjections(makeInputs({ horizonMonths: 24 }));
+    const weekly = calculateProjections(makeInputs({ horizonMonths: 24, step: 'week' }));
+
+    expect(weekly.step).toBe('week');
+    expect(weekly.monthly).toHaveLength(104);
+    expect(weekly.monthly[0]).toMatchObject({ week: 1, month: 12 / 52 });
+    expect(weekly.monthly[51].month).toBeCloseTo(12);
+    // Dampening is recalculated weekly, so the curves differ slightly
+    expect(weekly.monthly[51].expected / monthly.monthly[11].expected).toBeCloseTo(1, 2);
+    expect(weekly.summary.expected / monthly.summary.expected).toBeCloseTo(1, 2);
+  });
+
+  // Test 42: Small weekly gains accumulate instead of rounding away
+  test('weekly steps grow a 50-follower seed', () => {
+    // About 0.4% net a month: well under one follower a week
+    const result = calculateProjections(makeInputs({ followers: 0, engagementRate: 3.2, step: 'week' }));
+    expect(result.monthly[51].expected).toBeGreaterThan(50);
+  });
+
+  // Test 43: Milestones past the horizon are estimated, matching a longer horizon
+  test('estimates milestones beyond the horizon', () => {
+    const inputs = makeInputs({ followers: 5000, engagementRate: 12, postsPerWeek: 7 });
+    const short = calculateMilestones(inputs, calculateProjections(inputs));
+    const longInputs = { ...inputs, horizonMonths: 36 };
+    const long = calculateMilestones(longInputs, calculateProjections(longInputs));
+
+    const m50k = short.find((m) => m.target === 50_000)!;
+    expect(m50k.monthExpected).toBeGreaterThan(12);
+    expect(m50k.monthExpected).toBeLessThanOrEqual(36);
+    expect(short).toEqual(long);
+    // Far-off targets stay null once they are more than 10 years out
+    const slow = makeInputs({ engagementRate: 0.5, postsPerWeek: 1 });
+    const m1m = calculateMilestones(slow, calculateProjections(slow)).find((m) => m.target === 1_000_000)!;
+    expect(m1m.monthConservative).toBeNull();
+
+    const weekly = { ...inputs, step: 'week' as const };
+    const weeklyMilestone = calculateMilestones(weekly, calculateProjections(weekly)).find((m) => m.target === 50_000)!;
+    expect(formatProjectionTime(weeklyMilestone.monthExpected!, 'week')).toMatch(/^Week \d+$/);
+    expect(weeklyMilestone.monthExpected! * 52 / 12).toBeGreaterThan(52);
+  });
+
+  // Test 44: Labels follow the step
+  test('formats steps and times', () => {
+    const weekly = calculateProjections(makeInputs({ step: 'week' }));
+    expect(formatProjectionStep(weekly.monthly[9])).toBe('W10');
+    expect(formatProjectionStep(calculateProjections(makeInputs()).monthly[9])).toBe('M10');
+    expect(formatProjectionTime(weekly.monthly[51].month, 'week')).toBe('Week 52');
+    expect(formatProjectionTime(14, 'month')).toBe('Month 14');
+  });
+});
+
+// ============================================================
+// Monte Carlo Simulation
+// ============================================================
+describe('simulateGrowth', () => {
+  // Test 47: A fixed seed gives the same bands; another seed does not
+  test('is reproducible from the seed', () => {
+    const inputs = makeInputs();
+    const first = simulateGrowth(inputs, { seed: 'test', runs: 200 });
+    expect(simulateGrowth(inputs, { seed: 'test', runs: 200 })).toEqual(first);
+    expect(simulateGrowth(inputs, { seed: 'other', runs: 200 }).summary).not.toEqual(first.summary);
+  });
+
+  // Test 48: Ordered bands per step whose spread matches the fixed scenarios
+  test('returns P10/P50/P90 per step around the scenarios', () => {
+    const inputs = makeInputs({ followers: 5000, horizonMonths: 24 });
+    const sim = simulateGrowth(inputs, { seed: 'test' });
+    const projections = calculateProjections(inputs);
+
+    expect(sim.periods).toHaveLength(24);
+    for (const p of sim.periods) {
+      expect(p.p10).toBeLessThanOrEqual(p.p50);
+      expect(p.p50).toBeLessThanOrEqual(p.p90);
+    }
+    expect(sim.summary.p50 / projections.summary.expected).toBeCloseTo(1, 1);
+    expect(sim.summary.p10).toBeLessThan(projections.summary.expected);
+    expect(sim.summary.p90).toBeGreaterThan(projections.summary.expected);
+    expect(sim.revenue.p10).toBeLessThan(sim.revenue.p90);
+
+    const weekly = simulateGrowth({ ...inputs, step: 'week' }, { seed: 'test', runs: 200 });
+    expect(weekly.periods).toHaveLength(104);
+    expect(weekly.periods[0].week).toBe(1);
+  });
+
+  // Test 49: Milestone probabilities within the horizon
+  test('gives the chance of reaching each milestone', () => {
+    const inputs = makeInputs({ followers: 5000, postsPerWeek: 5, engagementRate: 12, horizonMonths: 36 });
+    const sim = simulateGrowth(inputs, { seed: 'test' });
+    const [m10k, m50k] = sim.milestones;
+
+    expect(sim.milestones.map((m) => m.target)).toEqual([10_000, 50_000, 100_000, 500_000, 1_000_000]);
+    expect(m10k.probability).toBeGreaterThan(0.9);
+    expect(m10k.medianMonth).toBeGreaterThan(0);
+    expect(m50k.probability).toBeLessThan(m10k.probability);
+    for (const m of sim.milestones) {
+      expect(m.probability).toBeGreaterThanOrEqual(0);
+      expect(m.probability).toBeLessThanOrEqual(1);
+      if (m.probability < 0.5) expect(m.medianMonth).toBeNull();
+    }
+  });
+});
+
+describe('growth events', () => {
+  // Test 51: A shoutout adds followers in its month; the baseline stays without it
+  test('injects followers and keeps a baseline to compare against', () => {
+    const baseline = calculateProjections(makeInputs());
+    const events: GrowthEvent[] = [{ type: 'injection', month: 4, followers: 2000, label: 'Shoutout' }];
+    const withCampaign = calculateProjections(makeInputs({ events }));
+
+    expect(baseline.events).toEqual([]);
+    expect(baseline.monthly[0].baseline).toBeUndefined();
+    expect(withCampaign.monthly.slice(0, 3)).toEqual(baseline.monthly.slice(0, 3).map((m) => ({ ...m, baseline: m.expected })));
+    expect(withCampaign.monthly[3].expected - baseline.monthly[3].expected).toBeGreaterThan(2000);
+    expect(withCampaign.summary.baseline).toBe(baseline.summary.expected);
+    expect(withCampaign.summary.expected).toBeGreaterThan(baseline.summary.expected + 2000);
+  });
+
+  // Test 52: Boosts decay back to baseline growth; frequency changes last
+  test('decays rate boosts and applies frequency changes from their month on', () => {
+    const inputs = makeInputs({ horizonMonths: 24 });
+    const boosted = calculateProjections({ ...inputs, events: [{ type: 'boost', month: 1, percent: 200, halfLifeMonths: 1 }] });
+    const gain = (m: number) => boosted.monthly[m].expected / boosted.monthly[m - 1].expected - 1;
+    const baseGain = (m: number) => boosted.monthly[m].baseline! / boosted.monthly[m - 1].baseline! - 1;
+    expect(gain(1)).toBeGreaterThan(baseGain(1) * 1.5);
+    expect(gain(23) / baseGain(23)).toBeCloseTo(1, 1);
+
+    const busier = calculateProjections({ ...inputs, events: [{ type: 'frequency', month: 7, postsPerWeek: 7 }] });
+    expect(busier.monthly[5].expected).toBe(busier.monthly[5].baseline);
+    const busierGain = (m: number) => busier.monthly[m].expected / busier.monthly[m - 1].expected - 1;
+    const busierBaseGain = (m: number) => busier.monthly[m].baseline! / busier.monthly[m - 1].baseline! - 1;
+    expect(busierGain(6)).toBeGreaterThan(busierBaseGain(6) * 1.2);
+    expect(busierGain(23)).toBeGreaterThan(busierBaseGain(23) * 1.2);
+  });
+
+  // Test 53: Invalid and out-of-horizon events are dropped; the rest are sorted
+  test('normalizes events', () => {
+    const events: GrowthEvent[] = [
+      { type: 'frequency', month: 9, postsPerWeek: 2 },
+      { type: 'injection', month: 2, followers: -5 },
+      { type: 'boost', month: 3, percent: 50, halfLifeMonths: 0 },
+      { type: 'injection', month: 13, followers: 500 },
+      { type: 'injection', month: 1.5, followers: 500 },
+      { type: 'boost', month: 3, percent: 50, halfLifeMonths: 2 },
+    ];
+    expect(normalizeGrowthEvents(events, 12)).toEqual([events[5], events[0]]);
+    expect(normalizeGrowthEvents(undefined, 12)).toEqual([]);
+    expect(calculateProjections(makeInputs({ events })).events).toEqual([events[5], events[0]]);
+  });
+
+  // Test 54: Weekly steps place events in the week their month starts; labels
+  test('positions events on weekly charts and describes them', () => {
+    const injection: GrowthEvent = { type: 'injection', month: 2, followers: 1500 };
+    expect(eventPoint(injection, 'month')).toEqual({ month: 2 });
+    expect(eventPoint(injection, 'week').week).toBe(5);
+    expect(eventPoint({ ...injection, month: 1 }, 'week').week).toBe(1);
+
+    const weekly = calculateProjections(makeInputs({ step: 'week', events: [injection] }));
+    expect(weekly.monthly[3].expected).toBe(weekly.monthly[3].baseline);
+    expect(weekly.monthly[4].expected - weekly.monthly[4].baseline!).toBeGreaterThan(1500);
+
+    expect(describeGrowthEvent(injection)).toBe('+1,500 followers');
+    expect(describeGrowthEvent({ type: 'boost', month: 1, percent: 150, halfLifeMonths: 1 })).toBe('+150% growth, halving every 1 mo');
+    expect(describeGrowthEvent({ type: 'frequency', month: 1, postsPerWeek: 3 })).toBe('3 posts/week');
+  });
+});
+
+describe('churn', () => {
+  // Test 56: Base churn at 3-7 posts/week; under- and over-posting raise it, capped at 2.5x
+  test('churn rises either side of the healthy posting range', () => {
+    const niche = getNicheById('general'); // 1.2%
+    expect(calculateChurnRate(3, niche)).toBeCloseTo(0.012);
+    expect(calculateChurnRate(7, niche)).toBeCloseTo(0.012);
+    expect(calculateChurnRate(1, niche)).toBeCloseTo(0.012 * 1.7);
+    expect(calculateChurnRate(12, niche)).toBeCloseTo(0.012 * 1.5);
+    expect(calculateChurnRate(30, niche)).toBeCloseTo(0.012 * 2.5);
+    expect(calculateChurnRate(0, niche)).toBeCloseTo(0.012 * 2.05);
+    expect(calculateChurnRate(5, getNicheById('news'))).toBeGreaterThan(calculateChurnRate(5, getNicheById('education')));
+  });
+
+  // Test 57: Gross adds minus unfollows is the net change, every step
+  test('reports gross adds, churned and net growth per step', () => {
+    for (const step of ['month', 'week'] as const) {
+      const result = calculateProjections(makeInputs({ followers: 5000, step, events: [{ type: 'injection', month: 2, followers: 800 }] }));
+      let previous = 5000;
+      for (const m of result.monthly) {
+        expect(m.netGrowth).toBe(m.expected - previous);
+        expect(m.grossAdds - m.churned).toBe(m.netGrowth);
+        expect(m.churned).toBeGreaterThan(0);
+        previous = m.expected;
+      }
+    }
+    const first = calculateProjections(makeInputs({ followers: 5000 })).monthly[0];
+    expect(first.churned).toBe(60); // 1.2% of 5,000
+  });
+
+  // Test 58: Near capacity, unfollows outpace dampened growth and the channel shrinks
+  test('projections can decline', () => {
+    const inputs = makeInputs({ followers: 195_000, niche: getNicheById('business'), postsPerWeek: 1, engagementRate: 4 });
+    const result = calculateProjections(inputs);
+    expect(result.summary.expected).toBeLessThan(195_000);
+    expect(result.monthly.every((m) => m.netGrowth <= 0)).toBe(true);
+    expect(calculateMilestones(inputs, result).find((m) => m.target === 500_000)!.monthExpected).toBeNull();
+  });
+});
+
 // ============================================================
 // Tips
 // ============================================================
@@ -255,6 +497,19 @@ describe('generateTips', () => {
     expect(tips.some((t) => t.priority === 'High Impact')).toBe(true);
   });
 
+  // Test 59: Retention insights for over-posting and for shrinking channels
+  test('explains churn in the tips', () => {
+    const overPosting = generateTips(makeInputs({ postsPerWeek: 9 }));
+    expect(overPosting.some((t) => /notification fatigue raises unfollows to about 1\.4%/.test(t.text))).toBe(true);
+
+    const shrinking = generateTips(makeInputs({ engagementRate: 1 }));
+    expect(shrinking[0].priority).toBe('High Impact');
+    expect(shrinking[0].text).toMatch(/unfollows .* outpace new followers/i);
+
+    const steady = generateTips(makeInputs({ postsPerWeek: 5 }));
+    expect(steady.some((t) => /unfollow/i.test(t.text))).toBe(false);
+  });
+
   test('returns max 4 tips', () => {
     const inputs = makeInputs({ engagementRate: 1, postsPerWeek: 1, followers: 50 });
     const tips = generateTips(inputs);
@@ -262,6 +517,107 @@ describe('generateTips', () => {
   });
 });
 
+// ============================================================
+// Calibration
+// ============================================================
+
+// Monthly history generated by the model itself: rate 8%, capacity 40K, starting at 5K
+function syntheticHistory(months: number, noise: (i: number) => number = () => 1): HistoryPoint[] {
+  const points: HistoryPoint[] = [];
+  let followers = 5000;
+  for (let i = 0; i < months; i++) {
+    const date = new Date(Date.UTC(2024, i, 1)).toISOString().slice(0, 10);
+    points.push({ date, followers: Math.round(followers * noise(i)) });
+    followers *= 1 + (0.08 * 40_000) / (40_000 + followers);
+  }
+  return points;
+}
+
+describe('parseFollowerHistory', () => {
+  // Test 32: History parsing — header, date formats, grouped counts, repeated dates
+  test('reads dates and counts, skips the header and sorts by date', () => {
+    const history = parseFollowerHistory('Date,Followers\n2025-03-01,"1,500"\n2025/1/15,1200\n2025-02,1300\n2025-03-01,1550');
+    expect(history.errors).toEqual([]);
+    expect(history.points).toEqual([
+      { date: '2025-01-15', followers: 1200 },
+      { date: '2025-02-01', followers: 1300 },
+      { date: '2025-03-01', followers: 1550 },
+    ]);
+    expect(parseFollowerHistory(FOLLOWER_HISTORY_EXAMPLE).points).toHaveLength(8);
+  });
+
+  // Test 33: Invalid rows are reported by line and left out
+  test('reports bad dates and counts by line', () => {
+    const history = parseFollowerHistory('2025-02-30,100\nyesterday,100\n2025-01-01,-5\n2025-01-02,0\n2025-01-03,12.5');
+    expect(history.points).toEqual([]);
+    expect(history.errors.map((e) => e.line)).toEqual([1, 2, 3, 4, 5]);
+    expect(history.errors[0].message).toBe('"2025-02-30" is not a date — use YYYY-MM-DD');
+    expect(history.errors[2].message).toBe('Followers must be a whole number above 0');
+  });
+});
+
+describe('calibrateGrowthModel', () => {
+  // Test 34: Least-squares fit recovers known parameters
+  test('recovers the rate and capacity of a history the model produced', () => {
+    const result = calibrateGrowthModel(syntheticHistory(18), makeInputs());
+    if (!result.ok) throw new Error(result.error);
+    const { calibration } = result;
+
+    expect(calibration.capacityFitted).toBe(true);
+    expect(calibration.rate).toBeCloseTo(0.08, 2);
+    expect(calibration.capacity / 40_000).toBeCloseTo(1, 1);
+    expect(calibration.fit.rSquared).toBeGreaterThan(0.999);
+    expect(calibration.fit.mape).toBeLessThan(0.5);
+    expect(calibration.history[17].month).toBe(0);
+    expect(calibration.history[0].month).toBeCloseTo(-17, 0);
+  });
+
+  // Test 35: 95% band around the calibrated forecast
+  test('projects 12 months with a band that widens and contains the expected curve', () => {
+    const wobble = (i: number) => 1 + 0.04 * Math.sin(i * 2.1);
+    const result = calibrateGrowthModel(syntheticHistory(10, wobble), makeInputs());
+    if (!result.ok) throw new Error(result.error);
+    const { projection } = result.calibration;
+
+    expect(projection).toHaveLength(12);
+    for (const m of projection) {
+      expect(m.lower).toBeLessThan(m.expected);
+      expect(m.upper).toBeGreaterThan(m.expected);
+      expect(m.nicheDefault).toBeGreaterThan(0);
+    }
+    expect(projection[11].upper - projection[11].lower).toBeGreaterThan(projection[0].upper - projection[0].lower);
+    expect(projection[11].expected).toBeGreaterThan(projection[0].expected);
+  });
+
+  // Test 36: Short histories fit the rate only
+  test('holds capacity at the niche value for short histories', () => {
+    const points = syntheticHistory(MIN_POINTS_FOR_CAPACITY - 1);
+    const inputs = makeInputs();
+    const result = calibrateGrowthModel(points, inputs);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.calibration.capacityFitted).toBe(false);
+    expect(result.calibration.capacity).toBe(inputs.niche.capacity);
+    expect(result.calibration.currentRate).toBeLessThan(result.calibration.rate);
+  });
+
+  // Test 37: Declining channels are fitted, not clamped to growth
+  test('fits a shrinking channel with a negative rate', () => {
+    const points = [0, 1, 2, 3].map((i) => ({ date: `2025-0${i + 1}-01`, followers: Math.round(8000 * 0.97 ** i) }));
+    const result = calibrateGrowthModel(points, makeInputs());
+    if (!result.ok) throw new Error(result.error);
+    expect(result.calibration.rate).toBeLessThan(0);
+    expect(result.calibration.projection[11].expected).toBeLessThan(points[3].followers);
+  });
+
+  // Test 38: Too little history is an error
+  test('needs three points spanning at least a week', () => {
+    const inputs = makeInputs();
+    expect(calibrateGrowthModel(syntheticHistory(2), inputs)).toEqual({ ok: false, error: 'Add at least 3 dated follower counts' });
+    const sameWeek = ['2025-01-01', '2025-01-03', '2025-01-05'].map((date, i) => ({ date, followers: 100 + i }));
+    expect(calibrateGrowthModel(sameWeek, inputs)).toEqual({ ok: false, error: 'History needs to cover at least a week' });
+  });
+});
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -0,0 +1,146 @@
+// lib/__tests__/utils/link-history.test.ts
+// Tests for Link Generator history: versioned storage, entry operations, import/export
+
+import {
+  migrateHistory,
+  loadHistory,
+  saveHistory,
+  addHistory,
+  updateHistory,
+  duplicateHistory,
+  removeHistory,
+  sortHistory,
+  exportHistory,
+  importHistory,
+  HISTORY_STORAGE_KEY,
+  HISTORY_VERSION,
+  MAX_HISTORY_ENTRIES,
+  type HistoryEntry,
+} from '../../utils/link-history';
+
+function entry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id: 'a',
+    label: '',
+    pinned: false,
+    createdAt: '2024-06-01T10:00:00.000Z',
+    dial: '91',
+    phone: '9876543210',
+    message: 'Hi!',
+    qrSize: 300,
+    qrColor: '#000000',
+    qrBackground: '#FFFFFF',
+    ...overrides,
+  };
+}
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const data = { ...initial };
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; },
+  };
+}
+
+describe('versioned storage', () => {
+  // Test 1: Round-trip with a version stamp
+  test('saves a versioned file and loads it back', () => {
+    const storage = memoryStorage();
+    saveHistory(storage, [entry()]);
+    expect(JSON.parse(storage.getItem(HISTORY_STORAGE_KEY)!).version).toBe(HISTORY_VERSION);
+    expect(loadHistory(storage)).toEqual([entry()]);
+    expect(loadHistory(memoryStorage({ [HISTORY_STORAGE_KEY]: '{oops' }))).toEqual([]);
+    expect(loadHistory(memoryStorage())).toEqual([]);
+  });
+
+  // Test 2: Migrations run in order; unknown or newer versions are rejected
+  test('runs migrations step by step up to the target version', () => {
+    const migrations = {
+      1: (entries: unknown[]) => entries.map((e) => ({ ...(e as object), qrColor: '#128c7e' })),
+      2: (entries: unknown[]) => entries.map((e) => ({ ...(e as object), label: 'migrated' })),
+    };
+    const migrated = migrateHistory({ version: 1, entries: [entry()] }, migrations, 3);
+    expect(migrated).toEqual([entry({ qrColor: '#128C7E', label: 'migrated' })]);
+    expect(migrateHistory({ version: 2, entries: [entry()] }, migrations, 3)).toEqual([entry({ label: 'migrated' })]);
+
+    expect(migrateHistory({ version: 1, entries: [] }, {}, 2)).toBeNull();
+    expect(migrateHistory({ version: HISTORY_VERSION + 1, entries: [] })).toBeNull();
+    expect(migrateHistory([entry()])).toBeNull();
+  });
+
+  // Test 3: Bad fields are repaired, unusable entries dropped
+  test('sanitizes entries: clamps size, normalizes colors, drops broken rows', () => {
+    const [fixed, ...rest] = migrateHistory({
+      version: HISTORY_VERSION,
+      entries: [
+        { ...entry(), qrSize: 99999, qrColor: 'abc', qrBackground: 'nope', pinned: 'yes', phone: '98765-43210' },
+        { id: 'b' },
+        null,
+      ],
+    })!;
+    expect(rest).toEqual([]);
+    expect(fixed).toMatchObject({ qrSize: 2000, qrColor: '#AABBCC', qrBackground: '#FFFFFF', pinned: false, phone: '9876543210' });
+  });
+});
+
+describe('entry operations', () => {
+  // Test 4: Regenerating the same link or a re-opened entry updates in place
+  test('adds newest first and updates existing entries in place', () => {
+    let entries = addHistory([], entry({ id: 'a', label: 'Shop', pinned: true }));
+    entries = addHistory(entries, entry({ id: 'b', message: 'Other' }));
+    entries = addHistory(entries, entry({ id: 'c', qrSize: 600, createdAt: '2024-06-02T00:00:00.000Z' }));
+    expect(entries.map((e) => e.id)).toEqual(['a', 'b']);
+    expect(entries[0]).toMatchObject({ label: 'Shop', pinned: true, qrSize: 600 });
+
+    // Re-opened "b" regenerated with a new message keeps its id
+    entries = addHistory(entries, entry({ id: 'b', message: 'Edited' }));
+    expect(entries.map((e) => [e.id, e.message])).toEqual([['b', 'Edited'], ['a', 'Hi!']]);
+  });
+
+  // Test 5: Cap drops the oldest unpinned entries only
+  test('caps unpinned entries and never drops pinned ones', () => {
+    // A full log of unpinned entries, with the oldest one pinned
+    const many = Array.from({ length: MAX_HISTORY_ENTRIES + 1 }, (_, i) =>
+      entry({ id: `${i}`, message: `${i}`, pinned: i === MAX_HISTORY_ENTRIES })
+    );
+    const ids = addHistory(many, entry({ id: 'new', message: 'new' })).map((e) => e.id);
+    expect(ids).toHaveLength(MAX_HISTORY_ENTRIES + 1);
+    expect(ids).not.toContain(`${MAX_HISTORY_ENTRIES - 1}`);
+    expect(ids).toContain(`${MAX_HISTORY_ENTRIES}`);
+  });
+
+  // Test 6: Rename, pin, duplicate, delete, sort
+  test('renames, pins, duplicates, deletes and sorts pinned first', () => {
+    let entries = [entry({ id: 'a', createdAt: '2024-06-02T00:00:00.000Z' }), entry({ id: 'b', message: 'Other' })];
+    entries = updateHistory(entries, 'b', { label: 'Flyer', pinned: true });
+    entries = duplicateHistory(entries, 'b', 'b2');
+    expect(entries.map((e) => e.id)).toEqual(['a', 'b', 'b2']);
+    expect(entries[2]).toMatchObject({ label: 'Flyer (copy)', pinned: false, message: 'Other' });
+    expect(duplicateHistory(entries, 'missing')).toBe(entries);
+
+    expect(sortHistory(entries).map((e) => e.id)).toEqual(['b', 'a', 'b2']);
+    expect(removeHistory(entries, 'a').map((e) => e.id)).toEqual(['b', 'b2']);
+  });
+});
+
+describe('import / export', () => {
+  // Test 7: Export → import round-trip merges without duplicates
+  test('merges an exported file, skipping entries already present', () => {
+    const file = exportHistory([entry({ id: 'a' }), entry({ id: 'x', createdAt: '2024-07-01T00:00:00.000Z' })]);
+    expect(JSON.parse(file)).toMatchObject({ version: HISTORY_VERSION });
+
+    const result = importHistory(file, [entry({ id: 'a' })]);
+    expect(result).toMatchObject({ ok: true, added: 1 });
+    if (result.ok) expect(result.entries.map((e) => e.id)).toEqual(['x', 'a']);
+  });
+
+  // Test 8: Friendly errors for bad files
+  test('rejects invalid, foreign and newer files', () => {
+    expect(importHistory('not json', [])).toEqual({ ok: false, error: "This file isn't valid JSON" });
+    expect(importHistory('{"hello":1}', [])).toEqual({ ok: false, error: "This file isn't a link history export" });
+    expect(importHistory(JSON.stringify({ version: HISTORY_VERSION + 1, entries: [] }), [])).toEqual({
+      ok: false,
+      error: 'This file was exported by a newer version of the tool',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// lib/__tests__/utils/link-types.test.ts
+// Tests for WhatsApp link types — builders, channel/group validation and the link parser
+
+import {
+  buildApiLink,
+  buildCatalogLink,
+  buildLink,
+  validateChannelId,
+  validateGroupCode,
+  parseWhatsAppLink,
+  type LinkParts,
+} from '../../utils/link-types';
+
+const CHANNEL_ID = '0029VaA1bC2dE3fG4hI5jK6l';
+const GROUP_CODE = 'HKkYB6QDhKv9wY0u1VN3XA';
+
+describe('link building', () => {
+  // Test 1: Phone-based formats
+  test('builds api.whatsapp.com and catalog links', () => {
+    expect(buildApiLink('91', '9876543210', 'Hi & bye')).toBe(
+      'https://api.whatsapp.com/send?phone=919876543210&text=Hi%20%26%20bye'
+    );
+    expect(buildApiLink('91', '9876543210')).toBe('https://api.whatsapp.com/send?phone=919876543210');
+    expect(buildCatalogLink('44', '7700900123')).toBe('https://wa.me/c/447700900123');
+  });
+
+  // Test 2: Channel and group
+  test('builds channel and group invite links from parts', () => {
+    expect(buildLink({ type: 'channel', id: CHANNEL_ID })).toBe(`https://whatsapp.com/channel/${CHANNEL_ID}`);
+    expect(buildLink({ type: 'group', code: GROUP_CODE })).toBe(`https://chat.whatsapp.com/${GROUP_CODE}`);
+    expect(buildLink({ type: 'chat', dial: '91', national: '9876543210', message: '' })).toBe('https://wa.me/919876543210');
+  });
+});
+
+describe('validation', () => {
+  // Test 3: Bare IDs, full links and junk
+  test('accepts a bare ID or a full link of the right type', () => {
+    expect(validateChannelId(`  ${CHANNEL_ID} `)).toEqual({ ok: true, value: CHANNEL_ID });
+    expect(validateChannelId(`https://www.whatsapp.com/channel/${CHANNEL_ID}`)).toEqual({ ok: true, value: CHANNEL_ID });
+    expect(validateGroupCode(`chat.whatsapp.com/${GROUP_CODE}`)).toEqual({ ok: true, value: GROUP_CODE });
+
+    expect(validateChannelId('')).toMatchObject({ ok: false, reason: 'empty' });
+    expect(validateChannelId('abc')).toMatchObject({ ok: false, reason: 'invalid_channel' });
+    // A group link is not a channel
+    expect(validateChannelId(`https://chat.whatsapp.com/${GROUP_CODE}`)).toMatchObject({ ok: false, reason: 'invalid_channel' });
+    expect(validateGroupCode('short-code')).toMatchObject({ ok: false, reason: 'invalid_group' });
+  });
+});
+
+describe('parseWhatsAppLink', () => {
+  // Test 4: Chat links split into country, number and message
+  test('splits wa.me chat links', () => {
+    expect(parseWhatsAppLink('https://wa.me/919876543210?text=Hi%20there')).toEqual({
+      ok: true,
+      parts: { type: 'chat', dial: '91', national: '9876543210', message: 'Hi there' },
+      url: 'https://wa.me/919876543210?text=Hi%20there',
+    });
+    // No scheme, longest dial code wins
+    expect(parseWhatsAppLink('wa.me/12645551234')).toMatchObject({ ok: true, parts: { dial: '1264', national: '5551234' } });
+  });
+
+  // Test 5: api.whatsapp.com, web.whatsapp.com and whatsapp://send
+  test('reads the phone from api, web and deep links', () => {
+    const parts = { type: 'api', dial: '44', national: '7700900123', message: 'Order #12' };
+    expect(parseWhatsAppLink('https://api.whatsapp.com/send?phone=447700900123&text=Order%20%2312')).toMatchObject({ ok: true, parts });
+    expect(parseWhatsAppLink('https://web.whatsapp.com/send/?phone=%2B447700900123&text=Order+%2312')).toMatchObject({ ok: true, parts });
+    expect(parseWhatsAppLink('whatsapp://send?phone=447700900123&text=Order%20%2312')).toMatchObject({ ok: true, parts });
+  });
+
+  // Test 6: Catalog, channel and group invites (old and new style)
+  test('splits catalog, channel and group links', () => {
+    expect(parseWhatsAppLink('https://wa.me/c/447700900123')).toMatchObject({
+      ok: true,
+      parts: { type: 'catalog', dial: '44', national: '7700900123' },
+    });
+    expect(parseWhatsAppLink(`https://whatsapp.com/channel/${CHANNEL_ID}?utm=x`)).toMatchObject({
+      ok: true,
+      parts: { type: 'channel', id: CHANNEL_ID },
+      url: `https://whatsapp.com/channel/${CHANNEL_ID}`,
+    });
+    expect(parseWhatsAppLink(`https://chat.whatsapp.com/invite/${GROUP_CODE}`)).toMatchObject({
+      ok: true,
+      parts: { type: 'group', code: GROUP_CODE },
+      url: `https://chat.whatsapp.com/${GROUP_CODE}`,
+    });
+  });
+
+  // Test 7: Errors name the problem
+  test('rejects non-WhatsApp, short and malformed links', () => {
+    expect(parseWhatsAppLink('  ')).toMatchObject({ ok: false, reason: 'empty' });
+    expect(parseWhatsAppLink('https://t.me/somechannel')).toMatchObject({ ok: false, reason: 'not_whatsapp' });
+    expect(parseWhatsAppLink('https://wa.me/message/ABCDEF123')).toMatchObject({ ok: false, reason: 'unsupported' });
+    expect(parseWhatsAppLink('https://wa.me/?text=Hi')).toMatchObject({ ok: false, reason: 'invalid_phone' });
+    expect(parseWhatsAppLink('https://wa.me/15551234567')).toMatchObject({ ok: false, reason: 'invalid_phone' });
+    expect(parseWhatsAppLink('https://whatsapp.com/channel/abc')).toMatchObject({ ok: false, reason: 'invalid_channel' });
+    expect(parseWhatsAppLink('javascript:alert(1)')).toMatchObject({ ok: false, reason: 'not_whatsapp' });
+  });
+
+  // Test 8: Round-trip
+  test('parsing a built link gives back the same parts', () => {
+    const all: LinkParts[] = [
+      { type: 'chat', dial: '55', national: '11987654321', message: 'Olá! Quero um orçamento' },
+      { type: 'api', dial: '234', national: '8031234567', message: '' },
+      { type: 'catalog', dial: '91', national: '9876543210' },
+      { type: 'channel', id: CHANNEL_ID },
+      { type: 'group', code: GROUP_CODE },
+    ];
+    for (const parts of all) {
+      expect(parseWhatsAppLink(buildLink(parts))).toEqual({ ok: true, parts, url: buildLink(parts) });
+    }
+  });
+});
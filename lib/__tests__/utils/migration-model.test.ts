@@ -0,0 +1,63 @@
+// lib/__tests__/utils/migration-model.test.ts
+// Tests for the migration model's Monte Carlo mode (Tool #6)
+
+import {
+  calculateTimeline,
+  simulateMigration,
+  MAX_TIMELINE_WEEKS,
+  type MigrationInputs,
+} from '../../utils/migration-model';
+
+function makeInputs(overrides: Partial<MigrationInputs> = {}): MigrationInputs {
+  return {
+    tgSubscribers: 10_000,
+    overlapPercent: 85,
+    postFrequency: '2-3x',
+    ...overrides,
+  };
+}
+
+describe('simulateMigration', () => {
+  // Test 1: A fixed seed gives the same bands; another seed does not
+  test('is reproducible from the seed', () => {
+    const inputs = makeInputs();
+    const first = simulateMigration(inputs, { seed: 'test', runs: 300 });
+    expect(simulateMigration(inputs, { seed: 'test', runs: 300 })).toEqual(first);
+    expect(simulateMigration(inputs, { seed: 'other', runs: 300 }).weeks).not.toEqual(first.weeks);
+    expect(first.runs).toBe(300);
+  });
+
+  // Test 2: Ordered, capped bands that bracket the fixed scenarios
+  test('returns P10/P50/P90 per week around the scenario timeline', () => {
+    const inputs = makeInputs();
+    const sim = simulateMigration(inputs, { seed: 'test' });
+    const timeline = calculateTimeline(inputs);
+
+    expect(sim.weeks).toHaveLength(MAX_TIMELINE_WEEKS);
+    sim.weeks.forEach((w, i) => {
+      expect(w.week).toBe(i + 1);
+      expect(w.p10).toBeLessThanOrEqual(w.p50);
+      expect(w.p50).toBeLessThanOrEqual(w.p90);
+      expect(w.p90).toBeLessThanOrEqual(8500);
+      if (i > 0) expect(w.p50).toBeGreaterThanOrEqual(sim.weeks[i - 1].p50);
+    });
+    const week4 = timeline.weeks[3];
+    expect(sim.weeks[3].p10).toBeLessThan(week4.expected);
+    expect(sim.weeks[3].p90).toBeGreaterThan(week4.expected);
+    expect(sim.weeks[3].p50 / week4.expected).toBeCloseTo(1, 1);
+  });
+
+  // Test 3: Milestone odds follow posting frequency
+  test('gives the chance of reaching 50% and 90% of reachable', () => {
+    const daily = simulateMigration(makeInputs({ postFrequency: 'daily' }), { seed: 'test' });
+    const monthly = simulateMigration(makeInputs({ postFrequency: 'monthly' }), { seed: 'test' });
+
+    expect(daily.milestones.fiftyPercent.probability).toBeGreaterThan(0.95);
+    expect(daily.milestones.fiftyPercent.medianWeek).toBe(calculateTimeline(makeInputs({ postFrequency: 'daily' })).milestonesExpected.fiftyPercent);
+    expect(monthly.milestones.ninetyPercent.probability).toBeLessThan(daily.milestones.ninetyPercent.probability);
+    for (const odds of [daily, monthly].flatMap((s) => Object.values(s.milestones))) {
+      expect(odds.probability).toBeGreaterThanOrEqual(0);
+      expect(odds.probability).toBeLessThanOrEqual(1);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+// lib/__tests__/utils/migration-pdf.test.ts
+// Tests for migration PDF report (Tool #6)
+
+import {
+  calculateTimeline,
+  getStrategy,
+  getRisks,
+  type MigrationInputs,
+} from '../../utils/migration-model';
+import { buildActionChecklist, generateMigrationPDF } from '../../utils/migration-pdf';
+
+function makeInputs(overrides: Partial<MigrationInputs> = {}): MigrationInputs {
+  return {
+    tgSubscribers: 10_000,
+    overlapPercent: 85,
+    postFrequency: '2-3x',
+    ...overrides,
+  };
+}
+
+describe('buildActionChecklist', () => {
+  // Test 1: One checklist entry per timeline week
+  test('returns one entry per timeline week', () => {
+    const inputs = makeInputs();
+    const timeline = calculateTimeline(inputs);
+    const checklist = buildActionChecklist(inputs, timeline, getStrategy(inputs));
+
+    expect(checklist).toHaveLength(timeline.totalWeeks);
+    checklist.forEach((week, i) => {
+      expect(week.week).toBe(i + 1);
+      expect(week.targetFollowers).toBe(timeline.weeks[i].expected);
+      expect(week.tasks.length).toBeGreaterThan(0);
+    });
+  });
+
+  // Test 2: Week 1 is the announcement
+  test('week 1 is labelled as the announcement', () => {
+    const inputs = makeInputs();
+    const timeline = calculateTimeline(inputs);
+    const [first] = buildActionChecklist(inputs, timeline, getStrategy(inputs));
+
+    expect(first.label).toContain('Announcement');
+    expect(first.tasks.some((t) => t.includes('pin the link'))).toBe(true);
+  });
+
+  // Test 3: Milestone weeks are labelled from the expected timeline
+  test('labels 50% and 90% milestone weeks', () => {
+    const inputs = makeInputs();
+    const timeline = calculateTimeline(inputs);
+    const checklist = buildActionChecklist(inputs, timeline, getStrategy(inputs));
+    const { fiftyPercent, ninetyPercent } = timeline.milestonesExpected;
+
+    expect(fiftyPercent).not.toBeNull();
+    expect(ninetyPercent).not.toBeNull();
+    expect(checklist[fiftyPercent! - 1].label).toContain('50% Migrated');
+    expect(checklist[ninetyPercent! - 1].label).toContain('90% Migrated');
+  });
+
+  // Test 4: Weekly routine follows the recommended strategy
+  test('weekly routine follows the recommended strategy', () => {
+    const inputs = makeInputs({ overlapPercent: 40 }); // parallel
+    const timeline = calculateTimeline(inputs);
+    const strategy = getStrategy(inputs);
+    const checklist = buildActionChecklist(inputs, timeline, strategy);
+
+    expect(strategy.recommended).toBe('parallel');
+    expect(checklist[2].tasks[0]).toMatch(/no migration push/i);
+  });
+
+  // Test 5: Monthly posters get a frequency nudge every 4 weeks
+  test('monthly posting adds a frequency reminder every 4 weeks', () => {
+    const inputs = makeInputs({ postFrequency: 'monthly' });
+    const timeline = calculateTimeline(inputs);
+    const checklist = buildActionChecklist(inputs, timeline, getStrategy(inputs));
+
+    expect(checklist[3].tasks.some((t) => t.includes('monthly posting'))).toBe(true);
+    expect(checklist[2].tasks.some((t) => t.includes('monthly posting'))).toBe(false);
+  });
+});
+
+describe('generateMigrationPDF', () => {
+  // Test 6: Produces a non-empty PDF blob
+  test('produces a PDF blob', async () => {
+    const inputs = makeInputs();
+    const timeline = calculateTimeline(inputs);
+    const strategy = getStrategy(inputs);
+    const risks = getRisks(inputs, timeline.weeks[timeline.weeks.length - 1].expected);
+
+    const blob = await generateMigrationPDF(inputs, timeline, strategy, risks);
+
+    expect(blob.size).toBeGreaterThan(1000);
+    expect(blob.type).toBe('application/pdf');
+  });
+});
@@ -5,6 +5,7 @@ import {
   calculateProjections,
   calculateMilestones,
   calculateBenchmark,
+  formatProjectionTime,
   type GrowthInputs,
 } from '../../utils/growth-model';
 import { getNicheById } from '../../data/niche-data';
@@ -89,4 +90,27 @@ describe('pdf-report data contract', () => {
     expect(milestones.length).toBeGreaterThan(0);
     expect(benchmark.label).toBeTruthy();
   });
+
+  // Test 45: Weekly 36-month projections give one table row per week
+  test('weekly projections label every row by week for the PDF table', () => {
+    const inputs = makeInputs({ horizonMonths: 36, step: 'week' });
+    const projections = calculateProjections(inputs);
+    const labels = projections.monthly.map((m) => formatProjectionTime(m.month, projections.step));
+
+    expect(projections.monthly).toHaveLength(156);
+    expect(labels[0]).toBe('Week 1');
+    expect(labels[155]).toBe('Week 156');
+    expect(new Set(labels).size).toBe(156);
+  });
+
+  // Test 60: Follower flow totals for the PDF add up to the projected change
+  test('gross adds minus unfollows sum to the net change over the horizon', () => {
+    const inputs = makeInputs({ horizonMonths: 24, step: 'week' });
+    const projections = calculateProjections(inputs);
+    const gained = projections.monthly.reduce((sum, m) => sum + m.grossAdds, 0);
+    const churned = projections.monthly.reduce((sum, m) => sum + m.churned, 0);
+
+    expect(churned).toBeGreaterThan(0);
+    expect(gained - churned).toBe(projections.summary.expected - inputs.followers);
+  });
 });
@@ -0,0 +1,97 @@
+// lib/__tests__/utils/phone.test.ts
+// Tests for country-aware phone parsing (Link Generator)
+
+import { parsePhone, matchDialCode, stripTrunkPrefix, formatE164, getPhoneMeta } from '../../utils/phone';
+import { findCountry } from '../../utils/wa-link';
+
+const IN = findCountry('IN')!;
+const GB = findCountry('GB')!;
+const AR = findCountry('AR')!;
+const RU = findCountry('RU')!;
+const IT = findCountry('IT')!;
+const US = findCountry('US')!;
+
+describe('matchDialCode', () => {
+  // Test 1: Longest prefix wins
+  test('prefers the longest dial code', () => {
+    expect(matchDialCode('12645551234')?.country.code).toBe('AI');
+    expect(matchDialCode('18765551234')?.country.code).toBe('JM');
+    expect(matchDialCode('12125551234')?.country.code).toBe('US');
+    expect(matchDialCode('12125551234')?.national).toBe('2125551234');
+  });
+
+  // Test 2: Shared dial codes
+  test('resolves shared dial codes', () => {
+    expect(matchDialCode('79161234567')?.country.code).toBe('RU');
+    expect(matchDialCode('77011234567')?.country.code).toBe('KZ');
+    expect(matchDialCode('999')).toBeNull();
+  });
+});
+
+describe('stripTrunkPrefix', () => {
+  // Test 3: Trunk prefixes per country
+  test('strips national trunk prefixes', () => {
+    expect(stripTrunkPrefix('07700900123', GB)).toBe('7700900123');
+    expect(stripTrunkPrefix('89161234567', RU)).toBe('9161234567');
+    expect(stripTrunkPrefix('12125551234', US)).toBe('2125551234');
+  });
+
+  // Test 4: Italian leading zero is significant
+  test('keeps the leading zero for Italy', () => {
+    expect(stripTrunkPrefix('0612345678', IT)).toBe('0612345678');
+  });
+
+  // Test 5: Argentina 0 + area + 15 → 9 + area
+  test('rewrites Argentine 15 mobile prefix', () => {
+    expect(stripTrunkPrefix('011 15 1234 5678'.replace(/\s/g, ''), AR)).toBe('91112345678');
+    expect(stripTrunkPrefix('0351 15 123 4567'.replace(/\s/g, ''), AR)).toBe('93511234567');
+  });
+});
+
+describe('parsePhone', () => {
+  // Test 6: National input with default country
+  test('parses national numbers with the default country', () => {
+    const result = parsePhone('098765 43210', IN);
+    expect(result).toMatchObject({ ok: true, dial: '91', national: '9876543210', e164: '+919876543210' });
+  });
+
+  // Test 7: + and 00 international forms override the default
+  test('parses +international and 00 prefixes', () => {
+    expect(parsePhone('+44 (0)7700 900123', IN)).toMatchObject({ ok: true, e164: '+447700900123' });
+    expect(parsePhone('0044 7700 900123', IN)).toMatchObject({ ok: true, e164: '+447700900123' });
+    expect(parsePhone('+54 9 11 1234-5678')).toMatchObject({ ok: true, e164: '+5491112345678' });
+  });
+
+  // Test 8: Typed error reasons
+  test('returns typed error reasons', () => {
+    expect(parsePhone('', IN)).toMatchObject({ ok: false, reason: 'empty' });
+    expect(parsePhone('98765abc', IN)).toMatchObject({ ok: false, reason: 'invalid_characters' });
+    expect(parsePhone('+999 123456')).toMatchObject({ ok: false, reason: 'unknown_country' });
+    expect(parsePhone('12345', IN)).toMatchObject({ ok: false, reason: 'too_short' });
+    expect(parsePhone('98765432101', IN)).toMatchObject({ ok: false, reason: 'too_long' });
+    expect(parsePhone('1125551234', US)).toMatchObject({ ok: false, reason: 'invalid_pattern' });
+    expect(parsePhone('9876543210')).toMatchObject({ ok: false, reason: 'unknown_country' });
+  });
+
+  // Test 9: Messages name the country and expected length
+  test('builds UI messages with country and length', () => {
+    const result = parsePhone('12345', IN);
+    expect(!result.ok && result.message).toBe('Phone number too short for India (expected 10 digits)');
+    const gb = parsePhone('+44 12345');
+    expect(!gb.ok && gb.message).toBe('Phone number too short for United Kingdom (expected 9–10 digits)');
+  });
+
+  // Test 10: Generic fallback for countries without metadata
+  test('falls back to generic lengths', () => {
+    const fj = findCountry('FJ')!;
+    expect(getPhoneMeta(fj)).toEqual({ min: 6, max: 12 });
+    expect(parsePhone('+679 123 4567')).toMatchObject({ ok: true, e164: '+6791234567' });
+  });
+});
+
+describe('formatE164', () => {
+  // Test 11: Formatting
+  test('joins dial and national digits with a plus', () => {
+    expect(formatE164('91', '9876543210')).toBe('+919876543210');
+  });
+});
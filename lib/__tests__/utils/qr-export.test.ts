@@ -0,0 +1,97 @@
+// lib/__tests__/utils/qr-export.test.ts
+// Tests for QR export helpers (Link Generator)
+
+import {
+  normalizeHex,
+  contrastRatio,
+  checkQRContrast,
+  effectiveErrorLevel,
+  createQRMatrix,
+  darkRuns,
+  qrToSVG,
+  DEFAULT_QR_STYLE,
+  QR_MARGIN,
+  type QRStyle,
+} from '../../utils/qr-export';
+import { generateQRPDF } from '../../utils/qr-pdf';
+
+const LINK = 'https://wa.me/919876543210?text=Hi';
+
+function style(overrides: Partial<QRStyle> = {}): QRStyle {
+  return { ...DEFAULT_QR_STYLE, ...overrides };
+}
+
+describe('colors', () => {
+  // Test 1: Hex normalization
+  test('normalizes hex colors', () => {
+    expect(normalizeHex('#25d366')).toBe('#25D366');
+    expect(normalizeHex('abc')).toBe('#AABBCC');
+    expect(normalizeHex('#12345')).toBeNull();
+    expect(normalizeHex('green')).toBeNull();
+  });
+
+  // Test 2: WCAG contrast ratio
+  test('computes WCAG contrast ratios', () => {
+    expect(contrastRatio('#000000', '#FFFFFF')).toBeCloseTo(21, 1);
+    expect(contrastRatio('#FFFFFF', '#FFFFFF')).toBeCloseTo(1, 5);
+  });
+
+  // Test 3: Contrast levels and inverted codes
+  test('classifies QR contrast', () => {
+    expect(checkQRContrast('#000000', '#FFFFFF').level).toBe('good');
+    expect(checkQRContrast('#128C7E', '#FFFFFF').level).toBe('good');
+    expect(checkQRContrast('#25D366', '#FFFFFF').level).toBe('low');
+    expect(checkQRContrast('#CCCCCC', '#FFFFFF').level).toBe('fail');
+    const inverted = checkQRContrast('#FFFFFF', '#000000');
+    expect(inverted.inverted).toBe(true);
+    expect(inverted.level).toBe('low');
+  });
+});
+
+describe('error correction', () => {
+  // Test 4: Logo forces level H
+  test('forces H when a logo is set', () => {
+    expect(effectiveErrorLevel(style({ errorLevel: 'L' }))).toBe('L');
+    expect(effectiveErrorLevel(style({ errorLevel: 'L', logo: { type: 'whatsapp' } }))).toBe('H');
+  });
+
+  // Test 5: Higher levels need a bigger symbol
+  test('higher levels produce a larger matrix', () => {
+    expect(createQRMatrix(LINK, 'H').size).toBeGreaterThan(createQRMatrix(LINK, 'L').size);
+  });
+});
+
+describe('qrToSVG', () => {
+  // Test 6: Runs cover every dark module
+  test('dark runs cover every dark module', () => {
+    const matrix = createQRMatrix(LINK, 'M');
+    const dark = matrix.modules.reduce((sum, m) => sum + m, 0);
+    expect(darkRuns(matrix).reduce((sum, r) => sum + r.length, 0)).toBe(dark);
+  });
+
+  // Test 7: SVG uses chosen colors and a module-sized viewBox
+  test('renders a vector SVG with custom colors', () => {
+    const svg = qrToSVG(LINK, style({ color: '#123456', background: '#FAFAFA' }));
+    const total = createQRMatrix(LINK, 'M').size + QR_MARGIN * 2;
+    expect(svg).toContain(`viewBox="0 0 ${total} ${total}"`);
+    expect(svg).toContain('fill="#123456"');
+    expect(svg).toContain('fill="#FAFAFA"');
+    expect(svg).not.toContain('<image');
+  });
+
+  // Test 8: Logo overlays
+  test('adds the WhatsApp icon or an uploaded logo', () => {
+    expect(qrToSVG(LINK, style({ logo: { type: 'whatsapp' } }))).toContain('fill="#25D366"');
+    const withImage = qrToSVG(LINK, style({ logo: { type: 'image', dataUrl: 'data:image/png;base64,AAAA' } }));
+    expect(withImage).toContain('<image href="data:image/png;base64,AAAA"');
+  });
+});
+
+describe('generateQRPDF', () => {
+  // Test 9: Produces a PDF
+  test('produces a PDF blob', () => {
+    const blob = generateQRPDF(LINK, style({ logo: { type: 'whatsapp' } }), { caption: LINK });
+    expect(blob.type).toBe('application/pdf');
+    expect(blob.size).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @jest-environment jsdom
+ */
+// lib/__tests__/utils/qr-verify.test.ts
+// Tests for the QR scannability check (Link Generator)
+
+import {
+  qrDensity,
+  decodeQRPixels,
+  diagnoseQR,
+  verifyQRImage,
+  DENSE_VERSION,
+} from '../../utils/qr-verify';
+import { createQRMatrix, DEFAULT_QR_STYLE, QR_MARGIN, type QRStyle } from '../../utils/qr-export';
+import { TextEncoder } from 'util';
+
+// jsdom lacks TextEncoder (used by qrcode)
+Object.assign(global, { TextEncoder });
+
+const LINK = 'https://wa.me/919876543210?text=Hi';
+const LONG_LINK = `https://wa.me/919876543210?text=${encodeURIComponent('Hello there! '.repeat(60))}`;
+
+function style(overrides: Partial<QRStyle> = {}): QRStyle {
+  return { ...DEFAULT_QR_STYLE, ...overrides };
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/** Paint a code into RGBA pixels the way the PNG renderer would — no canvas needed */
+function rasterize(text: string, s: QRStyle, scale: number) {
+  const matrix = createQRMatrix(text, s.errorLevel);
+  const total = matrix.size + QR_MARGIN * 2;
+  const width = total * scale;
+  const data = new Uint8ClampedArray(width * width * 4);
+  const dark = hexToRgb(s.color);
+  const light = hexToRgb(s.background);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / scale) - QR_MARGIN;
+      const col = Math.floor(x / scale) - QR_MARGIN;
+      const inside = row >= 0 && col >= 0 && row < matrix.size && col < matrix.size;
+      const [r, g, b] = inside && matrix.modules[row * matrix.size + col] ? dark : light;
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width };
+}
+
+describe('decodeQRPixels', () => {
+  // Test 1: Round-trip a rendered code
+  test('decodes a rendered code back to the link', () => {
+    const { data, width } = rasterize(LINK, style(), 4);
+    expect(decodeQRPixels(data, width, width)).toBe(LINK);
+  });
+
+  // Test 2: Blank image
+  test('returns null when there is no code', () => {
+    const data = new Uint8ClampedArray(100 * 100 * 4).fill(255);
+    expect(decodeQRPixels(data, 100, 100)).toBeNull();
+  });
+});
+
+describe('diagnoseQR', () => {
+  // Test 3: Density grows with the message
+  test('reports version and flags long messages as dense', () => {
+    expect(qrDensity(LINK, style()).version).toBeLessThanOrEqual(DENSE_VERSION);
+    expect(qrDensity(LONG_LINK, style()).version).toBeGreaterThan(DENSE_VERSION);
+    expect(qrDensity(LINK, style({ logo: { type: 'whatsapp' } })).version).toBeGreaterThanOrEqual(
+      qrDensity(LINK, style()).version
+    );
+  });
+
+  // Test 4: Pass / mismatch
+  test('passes matching payloads and fails mismatches', () => {
+    expect(diagnoseQR(LINK, LINK, style(), 300)).toMatchObject({ status: 'pass', reason: 'ok' });
+    expect(diagnoseQR('https://wa.me/1', LINK, style(), 300)).toMatchObject({ status: 'fail', reason: 'mismatch' });
+  });
+
+  // Test 5: Failure reasons
+  test('explains why a code did not decode', () => {
+    expect(diagnoseQR(null, LINK, style({ color: '#DDDDDD' }), 300).reason).toBe('low_contrast');
+    expect(diagnoseQR(null, LINK, style({ color: '#FFFFFF', background: '#000000' }), 300).reason).toBe('inverted');
+    const dense = diagnoseQR(null, LONG_LINK, style(), 300);
+    expect(dense.reason).toBe('too_dense');
+    expect(dense.message).toMatch(/shorten the message/i);
+    expect(diagnoseQR(null, LINK, style({ logo: { type: 'whatsapp' } }), 300).reason).toBe('logo');
+    expect(diagnoseQR(null, LINK, style(), 300).reason).toBe('unreadable');
+  });
+
+  // Test 6: Decodes but risky
+  test('warns when a code decodes but is risky on a camera', () => {
+    expect(diagnoseQR(LINK, LINK, style({ color: '#25D366' }), 300)).toMatchObject({ status: 'warn', reason: 'low_contrast' });
+    expect(diagnoseQR(LONG_LINK, LONG_LINK, style(), 1000)).toMatchObject({ status: 'warn', reason: 'too_dense' });
+  });
+});
+
+describe('verifyQRImage', () => {
+  const originalImage = global.Image;
+  let getContext: jest.SpyInstance;
+
+  beforeEach(() => {
+    // jsdom doesn't load images or implement canvas
+    global.Image = class {
+      onload: (() => void) | null = null;
+      set src(_value: string) {
+        setTimeout(() => this.onload?.());
+      }
+    } as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = originalImage;
+    getContext?.mockRestore();
+  });
+
+  function mockCanvas(pixels: { data: Uint8ClampedArray; width: number }) {
+    getContext = jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      drawImage: jest.fn(),
+      getImageData: () => ({ data: pixels.data, width: pixels.width, height: pixels.width }),
+    } as unknown as CanvasRenderingContext2D);
+  }
+
+  // Test 7: Reads pixels from the canvas and passes
+  test('decodes the drawn image and passes', async () => {
+    const pixels = rasterize(LINK, style(), 4);
+    mockCanvas(pixels);
+    const result = await verifyQRImage('data:image/png;base64,x', LINK, style(), pixels.width);
+    expect(result).toMatchObject({ status: 'pass', decoded: LINK });
+  });
+
+  // Test 8: Low-contrast image fails with a reason
+  test('fails an unreadable low-contrast image', async () => {
+    const s = style({ color: '#F4F4F4' });
+    const pixels = rasterize(LINK, s, 4);
+    mockCanvas(pixels);
+    const result = await verifyQRImage('data:image/png;base64,x', LINK, s, pixels.width);
+    expect(result.status).toBe('fail');
+    expect(result.reason).toBe('low_contrast');
+  });
+});
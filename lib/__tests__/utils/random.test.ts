@@ -0,0 +1,54 @@
+// lib/__tests__/utils/random.test.ts
+// Tests for seeded randomness, distributions and percentile summaries
+
+import {
+  createRng,
+  sampleNormal,
+  sampleLogNormal,
+  percentile,
+  percentileBand,
+  resolveSimulation,
+  MAX_SIMULATION_RUNS,
+} from '../../utils/random';
+
+describe('distributions', () => {
+  // Test 1: Normal draws have mean 0 and sd 1; log-normal draws have median 1
+  test('samples the right shape', () => {
+    const rng = createRng(7);
+    const normal = Array.from({ length: 20_000 }, () => sampleNormal(rng));
+    const mean = normal.reduce((a, b) => a + b, 0) / normal.length;
+    const sd = Math.sqrt(normal.reduce((a, b) => a + (b - mean) ** 2, 0) / normal.length);
+    expect(mean).toBeCloseTo(0, 1);
+    expect(sd).toBeCloseTo(1, 1);
+    expect(normal.every(Number.isFinite)).toBe(true);
+
+    const logNormal = Float64Array.from({ length: 20_000 }, () => sampleLogNormal(rng, 0.3)).sort();
+    expect(percentile(logNormal, 50)).toBeCloseTo(1, 1);
+    expect(percentile(logNormal, 90)).toBeCloseTo(Math.exp(0.3 * 1.2816), 1);
+  });
+});
+
+describe('percentiles', () => {
+  // Test 2: Interpolated percentiles and rounded P10/P50/P90 bands
+  test('interpolates between ranks', () => {
+    expect(percentile([10, 20, 30, 40, 50], 50)).toBe(30);
+    expect(percentile([10, 20], 25)).toBe(12.5);
+    expect(percentile([5], 90)).toBe(5);
+    expect(percentile([], 50)).toBeNaN();
+    expect(percentileBand(Float64Array.from([9.6, 1, 5.2, 3, 7]))).toEqual({ p10: 2, p50: 5, p90: 9 });
+  });
+});
+
+describe('resolveSimulation', () => {
+  // Test 3: Runs are clamped; the model name and seed fix the sequence
+  test('clamps runs and seeds per model', () => {
+    expect(resolveSimulation('growth', { runs: 0 }).runs).toBe(1);
+    expect(resolveSimulation('growth', { runs: 1e9 }).runs).toBe(MAX_SIMULATION_RUNS);
+    const a = resolveSimulation('growth', { seed: 'x' }).rng;
+    const b = resolveSimulation('growth', { seed: 'x' }).rng;
+    const c = resolveSimulation('migration', { seed: 'x' }).rng;
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+  });
+});
@@ -0,0 +1,78 @@
+// lib/__tests__/utils/text-stats.test.ts
+// Tests for text measurement used by CharacterCounter
+
+import {
+  countGraphemes,
+  countWords,
+  countUtf8Bytes,
+  getTextStats,
+  getLimitUsage,
+  WHATSAPP_LIMITS,
+} from '../../utils/text-stats';
+
+describe('countGraphemes', () => {
+  // Test 1: Plain ASCII
+  test('counts ASCII characters', () => {
+    expect(countGraphemes('Hello')).toBe(5);
+    expect(countGraphemes('')).toBe(0);
+  });
+
+  // Test 2: Emoji sequences and flags count once
+  test('counts ZWJ emoji, flags and skin tones as one', () => {
+    expect(countGraphemes('👨‍👩‍👧')).toBe(1);
+    expect(countGraphemes('🇮🇳🇧🇷')).toBe(2);
+    expect(countGraphemes('👍🏽')).toBe(1);
+  });
+
+  // Test 3: Combining marks
+  test('counts base + combining mark as one', () => {
+    expect(countGraphemes('é')).toBe(1);
+    expect(countGraphemes('नमस्ते')).toBe(3);
+  });
+});
+
+describe('countWords', () => {
+  // Test 4: Words ignore punctuation and emoji
+  test('counts words, ignoring punctuation and emoji', () => {
+    expect(countWords('Happy birthday, Rahul! 🎂')).toBe(3);
+    expect(countWords('   ')).toBe(0);
+  });
+});
+
+describe('countUtf8Bytes', () => {
+  // Test 5: Byte widths by code point range
+  test('matches TextEncoder byte length', () => {
+    for (const sample of ['abc', 'é', '₹', '🎉', 'नमस्ते 👨‍👩‍👧']) {
+      expect(countUtf8Bytes(sample)).toBe(new TextEncoder().encode(sample).length);
+    }
+  });
+});
+
+describe('getTextStats', () => {
+  // Test 6: UTF-16 units and encoded length
+  test('reports UTF-16 units and encoded URL length', () => {
+    const stats = getTextStats('Hi 🎉');
+    expect(stats.graphemes).toBe(4);
+    expect(stats.utf16Units).toBe(5);
+    expect(stats.utf8Bytes).toBe(7);
+    expect(stats.encodedLength).toBe(encodeURIComponent('Hi 🎉').length);
+  });
+});
+
+describe('getLimitUsage', () => {
+  // Test 7: Levels switch at 80% and 100%
+  test('classifies ok, warning and over', () => {
+    const about = WHATSAPP_LIMITS.businessAbout;
+    expect(getLimitUsage(getTextStats('a'.repeat(50)), about).level).toBe('ok');
+    expect(getLimitUsage(getTextStats('a'.repeat(120)), about).level).toBe('warning');
+    expect(getLimitUsage(getTextStats('a'.repeat(139)), about).level).toBe('warning');
+    expect(getLimitUsage(getTextStats('a'.repeat(140)), about).level).toBe('over');
+  });
+
+  // Test 8: wa.me limit measures the encoded text
+  test('wa.me limit uses encoded length', () => {
+    const usage = getLimitUsage(getTextStats('नमस्ते'), WHATSAPP_LIMITS.waLinkText);
+    expect(usage.used).toBe(encodeURIComponent('नमस्ते').length);
+    expect(usage.used).toBe(54);
+  });
+});
@@ -0,0 +1,74 @@
+// lib/__tests__/utils/url-state.test.ts
+// Tests for the typed query-string schemas behind useUrlState
+
+import {
+  numberParam,
+  stringParam,
+  enumParam,
+  booleanParam,
+  listParam,
+  parseUrlState,
+  serializeUrlState,
+} from '../../utils/url-state';
+
+const SCHEMA = {
+  posts: numberParam(3, { min: 1, max: 30, integer: true }),
+  engagement: numberParam(5, { min: 0.1, max: 50 }),
+  niche: enumParam('general', ['general', 'tech', 'food']),
+  name: stringParam('', { maxLength: 5 }),
+  emoji: booleanParam(true),
+  rows: listParam(enumParam('', ['1', '2', '3'])),
+};
+
+function parse(query: string) {
+  return parseUrlState(SCHEMA, new URLSearchParams(query));
+}
+
+describe('param types', () => {
+  // Test 1: Numbers are clamped, not rejected
+  test('clamps numbers into range and rejects non-numbers', () => {
+    expect(parse('posts=99&engagement=0')).toEqual({ posts: 30, engagement: 0.1 });
+    expect(parse('posts=4.7&engagement=7.5')).toEqual({ posts: 4, engagement: 7.5 });
+    expect(parse('posts=abc&engagement=')).toEqual({});
+  });
+
+  // Test 2: Enums, strings and booleans
+  test('validates enums, truncates strings and reads booleans', () => {
+    expect(parse('niche=tech&name=Priyanka&emoji=0')).toEqual({ niche: 'tech', name: 'Priya', emoji: false });
+    expect(parse('niche=cars&emoji=maybe')).toEqual({});
+    expect(parse('emoji=true').emoji).toBe(true);
+
+    const hex = stringParam('000000', { pattern: /^[0-9A-F]{6}$/i });
+    expect(hex.parse('128c7e')).toBe('128c7e');
+    expect(hex.parse('red')).toBeUndefined();
+  });
+
+  // Test 3: Lists drop invalid and repeated items
+  test('parses comma lists, dropping invalid and repeated items', () => {
+    expect(parse('rows=3,1,9,3,,2')).toEqual({ rows: ['3', '1', '2'] });
+    expect(parse('rows=')).toEqual({ rows: [] });
+  });
+});
+
+describe('parse / serialize', () => {
+  // Test 4: Missing params are left out so callers keep their state
+  test('returns only params present in the URL', () => {
+    expect(parse('')).toEqual({});
+    expect(parse('unknown=1&niche=food')).toEqual({ niche: 'food' });
+  });
+
+  // Test 5: Defaults stay out of the URL
+  test('serializes non-default values only', () => {
+    const defaults = { posts: 3, engagement: 5, niche: 'general' as const, name: '', emoji: true, rows: [] as string[] };
+    expect(serializeUrlState(SCHEMA, defaults)).toBe('');
+    expect(serializeUrlState(SCHEMA, { ...defaults, posts: 5, emoji: false, rows: ['1', '3'], name: 'A & B' })).toBe(
+      'posts=5&name=A+%26+B&emoji=0&rows=1%2C3'
+    );
+  });
+
+  // Test 6: Round-trip
+  test('round-trips through the query string', () => {
+    const state = { posts: 12, engagement: 2.5, niche: 'tech' as const, name: 'Tom', emoji: false, rows: ['2'] };
+    expect(parse(serializeUrlState(SCHEMA, state))).toEqual(state);
+  });
+});
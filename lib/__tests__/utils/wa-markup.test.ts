@@ -0,0 +1,171 @@
+// lib/__tests__/utils/wa-markup.test.ts
+// Tests for WhatsApp markup parser/serializer (Tool #2)
+
+import {
+  parseInline,
+  parseWaMarkup,
+  serializeWaMarkup,
+  stripWaMarkup,
+  splitLinks,
+  toggleInlineStyle,
+  toggleLineStyle,
+} from '../../utils/wa-markup';
+
+// ============================================================
+// Inline parsing
+// ============================================================
+describe('parseInline', () => {
+  test('parses bold, italic and strikethrough', () => {
+    expect(parseInline('*hi* _there_ ~old~')).toEqual([
+      { type: 'bold', children: [{ type: 'text', value: 'hi' }] },
+      { type: 'text', value: ' ' },
+      { type: 'italic', children: [{ type: 'text', value: 'there' }] },
+      { type: 'text', value: ' ' },
+      { type: 'strike', children: [{ type: 'text', value: 'old' }] },
+    ]);
+  });
+
+  test('supports nested styles', () => {
+    expect(parseInline('*_both_*')).toEqual([
+      { type: 'bold', children: [{ type: 'italic', children: [{ type: 'text', value: 'both' }] }] },
+    ]);
+  });
+
+  test('monospace and inline code keep their content literal', () => {
+    expect(parseInline('```*x*``` and `_y_`')).toEqual([
+      { type: 'mono', value: '*x*' },
+      { type: 'text', value: ' and ' },
+      { type: 'code', value: '_y_' },
+    ]);
+  });
+
+  test('markers inside words or next to spaces stay literal', () => {
+    expect(parseInline('2*3*4')).toEqual([{ type: 'text', value: '2*3*4' }]);
+    expect(parseInline('* not bold*')).toEqual([{ type: 'text', value: '* not bold*' }]);
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', value: 'snake_case_name' }]);
+  });
+
+  test('unclosed markers stay literal', () => {
+    expect(parseInline('*open')).toEqual([{ type: 'text', value: '*open' }]);
+    expect(parseInline('**')).toEqual([{ type: 'text', value: '**' }]);
+  });
+
+  test('allows punctuation right after a closing marker', () => {
+    expect(parseInline('*Sale*!')).toEqual([
+      { type: 'bold', children: [{ type: 'text', value: 'Sale' }] },
+      { type: 'text', value: '!' },
+    ]);
+  });
+});
+
+// ============================================================
+// Block parsing
+// ============================================================
+describe('parseWaMarkup', () => {
+  test('groups consecutive quote, bullet and numbered lines', () => {
+    const doc = parseWaMarkup('> one\n> two\n- a\n- b\n1. x\n2. y');
+    expect(doc.blocks.map((b) => b.type)).toEqual(['quote', 'bulletList', 'orderedList']);
+    expect(doc.blocks[0]).toMatchObject({ lines: [[{ value: 'one' }], [{ value: 'two' }]] });
+    expect(doc.blocks[2]).toMatchObject({ start: 1 });
+  });
+
+  test('parses multi-line fenced code blocks', () => {
+    const doc = parseWaMarkup('```\nline 1\n*line 2*\n```');
+    expect(doc.blocks).toEqual([{ type: 'codeBlock', value: '\nline 1\n*line 2*\n' }]);
+  });
+
+  test('keeps empty lines as empty paragraphs', () => {
+    const doc = parseWaMarkup('a\n\nb');
+    expect(doc.blocks).toHaveLength(3);
+    expect(doc.blocks[1]).toEqual({ type: 'paragraph', children: [] });
+  });
+
+  test('a numbering gap starts a new ordered list', () => {
+    const doc = parseWaMarkup('1. a\n3. b');
+    expect(doc.blocks).toHaveLength(2);
+  });
+});
+
+// ============================================================
+// Round trip
+// ============================================================
+describe('serializeWaMarkup', () => {
+  const samples = [
+    '*Flash sale* today only!',
+    'Hello _there_, this is ~not~ *_very_* important',
+    '> quoted *bold*\n> second line',
+    '- milk\n- _eggs_\n\n1. first\n2. second',
+    '```\nconst x = 1;\n```',
+    'Use `npm install` or ```npm ci```',
+    'plain 2*3*4 text',
+  ];
+
+  test.each(samples)('round-trips %p', (sample) => {
+    expect(serializeWaMarkup(parseWaMarkup(sample))).toBe(sample);
+  });
+});
+
+describe('stripWaMarkup', () => {
+  test('removes inline markers but keeps list prefixes', () => {
+    expect(stripWaMarkup('*Hi* _you_\n- ~a~\n> `q`')).toBe('Hi you\n- a\nq');
+  });
+});
+
+describe('splitLinks', () => {
+  test('detects http, www and wa.me links', () => {
+    expect(splitLinks('Visit https://a.com, www.b.org or wa.me/919876543210!')).toEqual([
+      { type: 'text', value: 'Visit ' },
+      { type: 'link', value: 'https://a.com', href: 'https://a.com' },
+      { type: 'text', value: ', ' },
+      { type: 'link', value: 'www.b.org', href: 'https://www.b.org' },
+      { type: 'text', value: ' or ' },
+      { type: 'link', value: 'wa.me/919876543210', href: 'https://wa.me/919876543210' },
+      { type: 'text', value: '!' },
+    ]);
+  });
+
+  test('returns a single text segment when there are no links', () => {
+    expect(splitLinks('no links here')).toEqual([{ type: 'text', value: 'no links here' }]);
+  });
+});
+
+// ============================================================
+// Toolbar helpers
+// ============================================================
+describe('toggleInlineStyle', () => {
+  test('wraps the selection and keeps it selected', () => {
+    const result = toggleInlineStyle('hello world', 6, 11, 'bold');
+    expect(result.text).toBe('hello *world*');
+    expect(result.text.slice(result.selectionStart, result.selectionEnd)).toBe('world');
+  });
+
+  test('unwraps when markers surround the selection', () => {
+    const result = toggleInlineStyle('hello *world*', 7, 12, 'bold');
+    expect(result.text).toBe('hello world');
+  });
+
+  test('keeps surrounding spaces outside the markers', () => {
+    expect(toggleInlineStyle('a big deal', 1, 6, 'italic').text).toBe('a _big_ deal');
+  });
+
+  test('inserts empty markers with no selection', () => {
+    const result = toggleInlineStyle('hi ', 3, 3, 'mono');
+    expect(result.text).toBe('hi ``````');
+    expect(result.selectionStart).toBe(6);
+  });
+});
+
+describe('toggleLineStyle', () => {
+  test('prefixes every selected line', () => {
+    expect(toggleLineStyle('a\nb\nc', 0, 3, 'bulletList').text).toBe('- a\n- b\nc');
+    expect(toggleLineStyle('a\nb', 0, 3, 'orderedList').text).toBe('1. a\n2. b');
+  });
+
+  test('removes the prefix when all lines already have it', () => {
+    expect(toggleLineStyle('> a\n> b', 0, 7, 'quote').text).toBe('a\nb');
+  });
+
+  test('switches list type instead of stacking prefixes', () => {
+    expect(toggleLineStyle('- a', 0, 3, 'quote').text).toBe('> a');
+  });
+});
@@ -0,0 +1,54 @@
+// lib/__tests__/utils/zip.test.ts
+// Tests for store-only ZIP writer
+
+import { crc32, createZip, dataUrlToBytes } from '../../utils/zip';
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+}
+
+describe('crc32', () => {
+  // Test 1: Standard check value
+  test('matches the CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  const files = [
+    { name: 'a.txt', data: new TextEncoder().encode('hello') },
+    { name: 'priya-शर्मा.png', data: new Uint8Array([1, 2, 3]) },
+  ];
+  const zip = createZip(files, new Date(2024, 0, 15, 10, 30));
+
+  // Test 2: Local header for the first entry
+  test('writes a local file header with stored data', () => {
+    expect(readUint32(zip, 0)).toBe(0x04034b50);
+    expect(readUint16(zip, 8)).toBe(0); // stored
+    expect(readUint32(zip, 14)).toBe(crc32(files[0].data));
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.slice(35, 40))).toBe('hello');
+  });
+
+  // Test 3: End of central directory points at every entry
+  test('writes an end-of-central-directory record', () => {
+    const eocd = zip.length - 22;
+    expect(readUint32(zip, eocd)).toBe(0x06054b50);
+    expect(readUint16(zip, eocd + 10)).toBe(2);
+
+    const centralOffset = readUint32(zip, eocd + 16);
+    expect(readUint32(zip, centralOffset)).toBe(0x02014b50);
+    expect(centralOffset + readUint32(zip, eocd + 12)).toBe(eocd);
+  });
+});
+
+describe('dataUrlToBytes', () => {
+  // Test 4: Decodes base64 payload
+  test('decodes a base64 data URL', () => {
+    expect(Array.from(dataUrlToBytes('data:image/png;base64,AQID'))).toEqual([1, 2, 3]);
+  });
+});
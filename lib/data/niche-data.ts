@@ -9,19 +9,20 @@ export interface NicheData {
   avgSubPrice: number; // USD monthly
   convRate: number; // percentage (e.g., 3 = 3%)
   capacity: number; // max followers (logistic dampening ceiling)
+  churnRate: number; // monthly unfollows at a steady 3-7 posts/week, percentage (e.g., 1.2 = 1.2%)
 }
 
 export const NICHE_DATA: readonly NicheData[] = [
-  { id: 'general', label: 'General', avgEngagement: 8, avgSubPrice: 2, convRate: 3, capacity: 300_000 },
-  { id: 'tech', label: 'Tech', avgEngagement: 6, avgSubPrice: 3, convRate: 4, capacity: 300_000 },
-  { id: 'education', label: 'Education', avgEngagement: 10, avgSubPrice: 4, convRate: 5, capacity: 500_000 },
-  { id: 'entertainment', label: 'Entertainment', avgEngagement: 12, avgSubPrice: 1.5, convRate: 2, capacity: 1_000_000 },
-  { id: 'news', label: 'News', avgEngagement: 15, avgSubPrice: 2, convRate: 3, capacity: 2_000_000 },
-  { id: 'sports', label: 'Sports', avgEngagement: 14, avgSubPrice: 2, convRate: 3, capacity: 1_500_000 },
-  { id: 'business', label: 'Business / Finance', avgEngagement: 7, avgSubPrice: 5, convRate: 4, capacity: 200_000 },
-  { id: 'health', label: 'Health', avgEngagement: 9, avgSubPrice: 3, convRate: 3, capacity: 300_000 },
-  { id: 'food', label: 'Food', avgEngagement: 11, avgSubPrice: 2, convRate: 2, capacity: 400_000 },
-  { id: 'fashion', label: 'Fashion', avgEngagement: 8, avgSubPrice: 2, convRate: 2, capacity: 250_000 },
+  { id: 'general', label: 'General', avgEngagement: 8, avgSubPrice: 2, convRate: 3, capacity: 300_000, churnRate: 1.2 },
+  { id: 'tech', label: 'Tech', avgEngagement: 6, avgSubPrice: 3, convRate: 4, capacity: 300_000, churnRate: 1.0 },
+  { id: 'education', label: 'Education', avgEngagement: 10, avgSubPrice: 4, convRate: 5, capacity: 500_000, churnRate: 0.8 },
+  { id: 'entertainment', label: 'Entertainment', avgEngagement: 12, avgSubPrice: 1.5, convRate: 2, capacity: 1_000_000, churnRate: 1.5 },
+  { id: 'news', label: 'News', avgEngagement: 15, avgSubPrice: 2, convRate: 3, capacity: 2_000_000, churnRate: 1.8 },
+  { id: 'sports', label: 'Sports', avgEngagement: 14, avgSubPrice: 2, convRate: 3, capacity: 1_500_000, churnRate: 1.5 },
+  { id: 'business', label: 'Business / Finance', avgEngagement: 7, avgSubPrice: 5, convRate: 4, capacity: 200_000, churnRate: 0.8 },
+  { id: 'health', label: 'Health', avgEngagement: 9, avgSubPrice: 3, convRate: 3, capacity: 300_000, churnRate: 1.0 },
+  { id: 'food', label: 'Food', avgEngagement: 11, avgSubPrice: 2, convRate: 2, capacity: 400_000, churnRate: 1.2 },
+  { id: 'fashion', label: 'Fashion', avgEngagement: 8, avgSubPrice: 2, convRate: 2, capacity: 250_000, churnRate: 1.5 },
 ] as const;
 
 export const getNicheById = (id: string): NicheData =>
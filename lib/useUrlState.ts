@@ -0,0 +1,43 @@
+// lib/useUrlState.ts
+// Client hook — two-way sync between tool inputs and the query string, for shareable links
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { parseUrlState, serializeUrlState, type UrlSchema, type UrlStateOf } from '@/lib/utils/url-state';
+
+/**
+ * On mount, valid params from the URL are passed to `onLoad` (only the keys present).
+ * After that, every change to `state` is written back with `history.replaceState`,
+ * leaving out values equal to the schema default. The component keeps its own state.
+ */
+export function useUrlState<T extends UrlSchema>(
+  schema: T,
+  state: UrlStateOf<T>,
+  onLoad: (values: Partial<UrlStateOf<T>>) => void
+): void {
+  const searchParams = useSearchParams();
+  const loaded = useRef(false);
+  const query = serializeUrlState(schema, state);
+
+  // ----- URL params on mount -----
+  useEffect(() => {
+    if (loaded.current) return;
+    loaded.current = true;
+    // No app-router context (tests, pages router) — read the address bar directly
+    const values = parseUrlState(schema, searchParams ?? new URLSearchParams(window.location.search));
+    if (Object.keys(values).length > 0) onLoad(values);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
+  // ----- URL param sync -----
+  const synced = useRef(false);
+  useEffect(() => {
+    // Skip the first pass: state still holds defaults while onLoad's updates are pending
+    if (!synced.current) {
+      synced.current = true;
+      return;
+    }
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [query]);
+}
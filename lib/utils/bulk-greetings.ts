@@ -0,0 +1,261 @@
+// lib/utils/bulk-greetings.ts
+// Bulk mode for Greeting Generator — contact CSV → personalized greetings with wa.me links
+// No React imports — testable in isolation
+//
+// Phone numbers go through the Link Generator's bulk resolver, so a contact list that
+// works there works here. Templates rotate per tone, so neighbouring rows get different text.
+
+import { parseCSV, toCSV } from './csv';
+import { buildWaLink } from './wa-link';
+import { resolveBulkPhone, MAX_BULK_ROWS } from './bulk-links';
+import { personalize, GREETING_TONES, type GreetingTone, type PlaceholderValues } from './greeting-templates';
+import { stripEmojis } from './emoji';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BulkGreetingRow {
+  /** 1-based line number in the pasted CSV, for error messages */
+  line: number;
+  name: string;
+  phone: string;
+  /** Tone from the CSV; '' takes the tone picked in the tool when generated */
+  tone: GreetingTone | '';
+  relation: string;
+  /** Resolved dial code */
+  dial: string;
+  /** National significant number (trunk prefix stripped) */
+  cleaned: string;
+  /** Filled in by generateBulkGreetings */
+  message: string;
+  link: string;
+  error: string;
+}
+
+export interface BulkGreetingOptions {
+  /** Templates to rotate through, per tone */
+  templates: Record<GreetingTone, string[]>;
+  /** Tone for rows without one */
+  defaultTone: GreetingTone;
+  /** Shared placeholder values; each row's name and relation win */
+  values: PlaceholderValues;
+  includeEmojis: boolean;
+  /** Locale for formatting {date} */
+  locale?: string;
+}
+
+export interface ChecklistOptions {
+  title: string;
+  subtitle?: string;
+}
+
+type Column = 'name' | 'country' | 'phone' | 'tone' | 'relation';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const HEADER_ALIASES: Record<string, Column> = {
+  name: 'name',
+  contact: 'name',
+  'first name': 'name',
+  country: 'country',
+  'country code': 'country',
+  dial: 'country',
+  phone: 'phone',
+  number: 'phone',
+  mobile: 'phone',
+  whatsapp: 'phone',
+  tone: 'tone',
+  relation: 'relation',
+  relationship: 'relation',
+};
+
+export const GREETING_BULK_EXAMPLE = [
+  'name,phone,tone,relation',
+  'Priya Sharma,98765 43210,formal,client',
+  'Rahul Mehta,+91 91234 56789,,partner',
+  'Sarah Lee,+44 7700 900123,casual,',
+].join('\n');
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function detectColumns(firstRow: string[]): Record<Column, number> | null {
+  const mapped = firstRow.map((cell) => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  if (!mapped.includes('phone')) return null;
+  const columns = { name: -1, country: -1, phone: -1, tone: -1, relation: -1 };
+  mapped.forEach((col, i) => {
+    if (col && columns[col] === -1) columns[col] = i;
+  });
+  return columns;
+}
+
+function emptyRow(line: number): BulkGreetingRow {
+  return { line, name: '', phone: '', tone: '', relation: '', dial: '', cleaned: '', message: '', link: '', error: '' };
+}
+
+function resolveRow(line: number, cells: Record<Column, string>, defaultDial: string): BulkGreetingRow {
+  const row: BulkGreetingRow = { ...emptyRow(line), name: cells.name, phone: cells.phone, relation: cells.relation };
+
+  const tone = cells.tone.trim().toLowerCase();
+  if (tone && !GREETING_TONES.includes(tone as GreetingTone)) {
+    row.error = `Unknown tone "${cells.tone.trim()}" — use ${GREETING_TONES.join(', ')}`;
+    return row;
+  }
+  row.tone = tone as GreetingTone | '';
+
+  const result = resolveBulkPhone(cells.phone, cells.country, defaultDial);
+  if (!result.ok) {
+    row.error = result.error;
+    return row;
+  }
+  row.dial = result.dial;
+  row.cleaned = result.national;
+  return row;
+}
+
+/**
+ * Parse a pasted/uploaded contact list.
+ * A header row is detected by a phone-like column name (an optional country column resolves
+ * local numbers); otherwise columns are read positionally as name, phone, tone, relation.
+ */
+export function parseGreetingCSV(text: string, defaultDial: string): BulkGreetingRow[] {
+  const table = parseCSV(text);
+  if (table.length === 0) return [];
+
+  const header = detectColumns(table[0]);
+  const columns = header ?? { name: 0, phone: 1, tone: 2, relation: 3, country: -1 };
+  const dataRows = header ? table.slice(1) : table;
+
+  return dataRows.map((cells, i) => {
+    const line = i + (header ? 2 : 1);
+    if (i >= MAX_BULK_ROWS) {
+      return { ...emptyRow(line), error: `Row limit reached (maximum ${MAX_BULK_ROWS} rows)` };
+    }
+    const get = (col: Column) => (columns[col] >= 0 ? cells[columns[col]] ?? '' : '');
+    return resolveRow(
+      line,
+      {
+        name: get('name').trim(),
+        country: get('country'),
+        phone: get('phone'),
+        tone: get('tone'),
+        relation: get('relation').trim(),
+      },
+      defaultDial
+    );
+  });
+}
+
+// ============================================================
+// Generation
+// ============================================================
+
+/**
+ * Personalize a greeting per row. Each tone keeps its own rotation through its templates,
+ * so consecutive rows in the same tone never share a template (when there are two or more).
+ * Rows that failed to parse are passed through untouched.
+ */
+export function generateBulkGreetings(rows: BulkGreetingRow[], options: BulkGreetingOptions): BulkGreetingRow[] {
+  const next: Record<GreetingTone, number> = { formal: 0, casual: 0, funny: 0 };
+
+  return rows.map((row) => {
+    if (row.error) return row;
+    const tone = row.tone || options.defaultTone;
+    const templates = options.templates[tone];
+    if (templates.length === 0) {
+      return { ...row, message: '', link: '', error: `No ${tone} greetings for this occasion` };
+    }
+
+    const template = templates[next[tone]++ % templates.length];
+    const values: PlaceholderValues = {
+      ...options.values,
+      name: row.name,
+      ...(row.relation ? { relation: row.relation } : {}),
+    };
+    let message = personalize(template, values, options.locale);
+    if (!options.includeEmojis) message = stripEmojis(message);
+    return { ...row, tone, message, link: buildWaLink(row.dial, row.cleaned, message) };
+  });
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+/** CSV of every row, with the greeting and link or the row's error */
+export function greetingRowsToCSV(rows: BulkGreetingRow[]): string {
+  return toCSV([
+    ['name', 'phone', 'tone', 'relation', 'message', 'link', 'error'],
+    ...rows.map((r) => [
+      r.name,
+      r.cleaned ? `+${r.dial}${r.cleaned}` : r.phone,
+      r.tone,
+      r.relation,
+      r.message,
+      r.link,
+      r.error,
+    ]),
+  ]);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Print-ready HTML checklist: one box per contact with the number, the greeting and its link.
+ * HTML rather than PDF so Hindi, Arabic and emojis print in the browser's own fonts.
+ * Opens the print dialog when loaded.
+ */
+export function buildGreetingChecklist(rows: BulkGreetingRow[], options: ChecklistOptions): string {
+  const ready = rows.filter((r) => r.link);
+  const skipped = rows.length - ready.length;
+  const items = ready
+    .map(
+      (r, i) => `<li>
+<span class="box"></span>
+<div>
+<p class="who"><strong>${i + 1}. ${escapeHtml(r.name || '—')}</strong> · +${r.dial}${r.cleaned}</p>
+<p class="msg" dir="auto">${escapeHtml(r.message)}</p>
+<p class="link">${escapeHtml(r.link)}</p>
+</div>
+</li>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(options.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111; margin: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.sub { color: #666; font-size: 13px; margin: 0 0 16px; }
+ol { list-style: none; padding: 0; margin: 0; }
+li { display: flex; gap: 12px; padding: 10px 0; border-top: 1px solid #ddd; break-inside: avoid; }
+.box { flex: none; width: 14px; height: 14px; border: 1.5px solid #333; border-radius: 3px; margin-top: 2px; }
+p { margin: 0 0 4px; }
+.who { font-size: 14px; }
+.msg { font-size: 13px; white-space: pre-wrap; }
+.link { font-size: 10px; color: #666; word-break: break-all; }
+</style>
+</head>
+<body onload="window.print()">
+<h1>${escapeHtml(options.title)}</h1>
+<p class="sub">${escapeHtml(
+    [options.subtitle, `${ready.length} to send`, skipped > 0 ? `${skipped} skipped with errors` : '']
+      .filter(Boolean)
+      .join(' · ')
+  )}</p>
+<ol>
+${items}
+</ol>
+</body>
+</html>
+`;
+}
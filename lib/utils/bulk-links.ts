@@ -0,0 +1,183 @@
+// lib/utils/bulk-links.ts
+// Bulk mode for Link Generator — CSV rows → validated wa.me links
+// No React imports — testable in isolation
+
+import { parseCSV, toCSV } from './csv';
+import { findCountry, buildWaLink } from './wa-link';
+import { parsePhone } from './phone';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface BulkRow {
+  /** 1-based line number in the pasted CSV, for error messages */
+  line: number;
+  name: string;
+  country: string;
+  phone: string;
+  message: string;
+  /** Resolved dial code */
+  dial: string;
+  /** National significant number (trunk prefix stripped) */
+  cleaned: string;
+  link: string;
+  error: string;
+}
+
+export type BulkPhoneResult =
+  | { ok: true; dial: string; national: string }
+  | { ok: false; error: string };
+
+type Column = 'name' | 'country' | 'phone' | 'message';
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const BULK_COLUMNS: Column[] = ['name', 'country', 'phone', 'message'];
+export const MAX_BULK_ROWS = 500;
+
+const HEADER_ALIASES: Record<string, Column> = {
+  name: 'name',
+  rep: 'name',
+  contact: 'name',
+  country: 'country',
+  'country code': 'country',
+  dial: 'country',
+  phone: 'phone',
+  number: 'phone',
+  mobile: 'phone',
+  whatsapp: 'phone',
+  message: 'message',
+  text: 'message',
+};
+
+export const BULK_EXAMPLE = [
+  'name,country,phone,message',
+  'Priya Sharma,IN,98765 43210,Hi Priya! I have a question about your products',
+  'Carlos Silva,BR,11 91234-5678,Olá Carlos!',
+  'Sam Taylor,+44,07700 900123,',
+].join('\n');
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function detectColumns(firstRow: string[]): Record<Column, number> | null {
+  const mapped = firstRow.map((cell) => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  if (!mapped.includes('phone')) return null;
+  const columns = { name: -1, country: -1, phone: -1, message: -1 };
+  mapped.forEach((col, i) => {
+    if (col && columns[col] === -1) columns[col] = i;
+  });
+  return columns;
+}
+
+/**
+ * Resolve a phone cell against its country cell (blank uses the default dial code).
+ * Shared with other bulk CSV modes so every tool normalizes numbers the same way.
+ */
+export function resolveBulkPhone(phone: string, country: string, defaultDial: string): BulkPhoneResult {
+  const resolved = findCountry(country.trim() || defaultDial);
+  if (country.trim() && !resolved) return { ok: false, error: `Unknown country "${country.trim()}"` };
+
+  // +international numbers carry their own country code and win over the column
+  const result = parsePhone(phone, resolved);
+  if (!result.ok) return { ok: false, error: result.message };
+  return { ok: true, dial: result.dial, national: result.national };
+}
+
+function resolveRow(
+  line: number,
+  cells: Record<Column, string>,
+  defaultDial: string
+): BulkRow {
+  const row: BulkRow = { line, ...cells, dial: '', cleaned: '', link: '', error: '' };
+
+  const result = resolveBulkPhone(cells.phone, cells.country, defaultDial);
+  if (!result.ok) {
+    row.error = result.error;
+    return row;
+  }
+  row.dial = result.dial;
+  row.cleaned = result.national;
+  row.link = buildWaLink(result.dial, result.national, cells.message.trim());
+  return row;
+}
+
+function resolveRowError(line: number, error: string): BulkRow {
+  return { line, name: '', country: '', phone: '', message: '', dial: '', cleaned: '', link: '', error };
+}
+
+/**
+ * Parse pasted/uploaded CSV into bulk rows.
+ * A header row is detected by a phone-like column name; otherwise columns are
+ * read positionally as name, country, phone, message.
+ */
+export function parseBulkCSV(text: string, defaultDial: string): BulkRow[] {
+  const table = parseCSV(text);
+  if (table.length === 0) return [];
+
+  const header = detectColumns(table[0]);
+  const columns = header ?? { name: 0, country: 1, phone: 2, message: 3 };
+  const dataRows = header ? table.slice(1) : table;
+
+  return dataRows.map((cells, i) => {
+    const line = i + (header ? 2 : 1);
+    if (i >= MAX_BULK_ROWS) {
+      return resolveRowError(line, `Row limit reached (maximum ${MAX_BULK_ROWS} rows)`);
+    }
+    const get = (col: Column) => (columns[col] >= 0 ? cells[columns[col]] ?? '' : '');
+    return resolveRow(
+      line,
+      { name: get('name').trim(), country: get('country'), phone: get('phone'), message: get('message') },
+      defaultDial
+    );
+  });
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+/** CSV of every row, with the generated link or the row's error */
+export function bulkRowsToCSV(rows: BulkRow[]): string {
+  return toCSV([
+    ['name', 'phone', 'message', 'link', 'error'],
+    ...rows.map((r) => [
+      r.name,
+      r.cleaned ? `+${r.dial}${r.cleaned}` : r.phone,
+      r.message,
+      r.link,
+      r.error,
+    ]),
+  ]);
+}
+
+/** File-name-safe slug: "José Núñez" → "jose-nunez" */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * File names for QR PNGs, derived from the row name + number and unique within the set.
+ * "Priya Sharma" → "priya-sharma-919876543210.png"
+ */
+export function qrFileNames(rows: BulkRow[]): string[] {
+  const used = new Set<string>();
+  return rows.map((row) => {
+    const slug = slugify(row.name);
+    const base = [slug, `${row.dial}${row.cleaned}`].filter(Boolean).join('-') || `row-${row.line}`;
+
+    let name = `${base}.png`;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}.png`;
+    used.add(name);
+    return name;
+  });
+}
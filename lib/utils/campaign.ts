@@ -0,0 +1,155 @@
+// lib/utils/campaign.ts
+// Campaign attribution for Link Generator — reference tags in the pre-filled message + saved link log
+// No React imports — storage is passed in, so everything is testable in isolation
+//
+// wa.me links can't carry UTM parameters through to the chat, so attribution rides in the
+// message itself: "…\n\nRef: FLYER-07 · flyer / print / summer-sale". The ref code is what
+// you match against incoming chats; the campaign log maps it back to source/medium/name.
+
+import { toCSV } from './csv';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface CampaignTag {
+  source: string;
+  medium: string;
+  name: string;
+  /** Short code shown in the chat, e.g. "FLYER-07" */
+  ref: string;
+}
+
+export interface CampaignEntry extends CampaignTag {
+  id: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** E.164 */
+  phone: string;
+  /** Message as typed, without the tag */
+  message: string;
+  link: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const CAMPAIGN_STORAGE_KEY = 'wa-link-campaigns';
+export const MAX_CAMPAIGN_ENTRIES = 500;
+
+export const EMPTY_CAMPAIGN_TAG: CampaignTag = { source: '', medium: '', name: '', ref: '' };
+
+const REF_LABEL = 'Ref:';
+const FIELD_SEPARATOR = ' / ';
+const EMPTY_FIELD = '-';
+const TAG_LINE = /(?:^|\n\n?)Ref: ([A-Z0-9-]+)(?: · ([^\n]*))?\s*$/;
+// Single-line inputs drop the newlines of a pasted chat, so parsing doesn't require them
+const TAG_ANYWHERE = /Ref: ([A-Z0-9-]+)(?: · ([^\n]*))?\s*$/;
+
+// ============================================================
+// Reference Codes
+// ============================================================
+
+/** Uppercase letters, digits and dashes only — survives any keyboard and chat app */
+export function normalizeRefCode(value: string): string {
+  return value
+    .toUpperCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^A-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 16);
+}
+
+/**
+ * Next free code for a campaign: "Summer Sale" → "SUMMER-01", then "SUMMER-02"…
+ * Base comes from the campaign name, then the source, then "WA".
+ */
+export function generateRefCode(tag: Pick<CampaignTag, 'name' | 'source'>, existing: string[]): string {
+  const base = normalizeRefCode(tag.name || tag.source).split('-')[0].slice(0, 8) || 'WA';
+  const pattern = new RegExp(`^${base}-(\\d+)$`);
+  const used = existing.map((ref) => pattern.exec(ref)).filter(Boolean).map((m) => Number(m![1]));
+  const next = used.length ? Math.max(...used) + 1 : 1;
+  return `${base}-${String(next).padStart(2, '0')}`;
+}
+
+// ============================================================
+// Message Tags
+// ============================================================
+
+/** "Ref: FLYER-07 · flyer / print / summer-sale" — fields only when any are set */
+export function buildCampaignTag(tag: CampaignTag): string {
+  const fields = [tag.source, tag.medium, tag.name].map((v) => v.trim());
+  const suffix = fields.some(Boolean) ? ` · ${fields.map((v) => v || EMPTY_FIELD).join(FIELD_SEPARATOR)}` : '';
+  return `${REF_LABEL} ${normalizeRefCode(tag.ref)}${suffix}`;
+}
+
+/** Remove a trailing tag line, so re-tagging doesn't stack tags */
+export function stripCampaignTag(message: string): string {
+  return message.replace(TAG_LINE, '');
+}
+
+/** Message with the tag on its own line after a blank line */
+export function appendCampaignTag(message: string, tag: CampaignTag): string {
+  const body = stripCampaignTag(message).trimEnd();
+  const line = buildCampaignTag(tag);
+  return body ? `${body}\n\n${line}` : line;
+}
+
+/** Read a tag back out of an incoming chat message */
+export function parseCampaignTag(text: string): CampaignTag | null {
+  const match = TAG_ANYWHERE.exec(text.trim());
+  if (!match) return null;
+  const [source = '', medium = '', name = ''] = (match[2] ?? '')
+    .split(FIELD_SEPARATOR)
+    .map((v) => (v.trim() === EMPTY_FIELD ? '' : v.trim()));
+  return { ref: match[1], source, medium, name };
+}
+
+// ============================================================
+// Campaign Log
+// ============================================================
+
+function isEntry(value: unknown): value is CampaignEntry {
+  const e = value as CampaignEntry;
+  return !!e && typeof e.id === 'string' && typeof e.ref === 'string' && typeof e.link === 'string';
+}
+
+/** Saved entries, newest first. Corrupt storage reads as empty. */
+export function loadCampaigns(storage: Pick<Storage, 'getItem'>): CampaignEntry[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(CAMPAIGN_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCampaigns(storage: Pick<Storage, 'setItem'>, entries: CampaignEntry[]): void {
+  try {
+    storage.setItem(CAMPAIGN_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Quota exceeded or storage disabled — the log is a convenience, not critical
+  }
+}
+
+/**
+ * Add an entry to the front. Regenerating the same link replaces its old entry;
+ * the log is capped at MAX_CAMPAIGN_ENTRIES.
+ */
+export function addCampaign(entries: CampaignEntry[], entry: CampaignEntry): CampaignEntry[] {
+  return [entry, ...entries.filter((e) => e.link !== entry.link)].slice(0, MAX_CAMPAIGN_ENTRIES);
+}
+
+export function removeCampaign(entries: CampaignEntry[], id: string): CampaignEntry[] {
+  return entries.filter((e) => e.id !== id);
+}
+
+/** CSV for matching ref codes against incoming chats */
+export function campaignsToCSV(entries: CampaignEntry[]): string {
+  return toCSV([
+    ['created', 'ref', 'source', 'medium', 'campaign', 'phone', 'message', 'link'],
+    ...entries.map((e) => [e.createdAt, e.ref, e.source, e.medium, e.name, e.phone, e.message, e.link]),
+  ]);
+}
@@ -0,0 +1,380 @@
+// lib/utils/chat-widget.ts
+// Floating click-to-chat widget snippets for Link Generator — HTML/CSS/JS, React, WordPress
+// No React imports — the generated code is plain strings, testable in isolation
+//
+// The snippet runs on the customer's site, so its runtime is hand-written ES5 below
+// (RUNTIME_HELPERS) rather than compiled from this module. isWithinHours mirrors it for the UI.
+
+import { normalizeHex } from './qr-export';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type WidgetPosition = 'right' | 'left';
+
+export type WidgetVariant = 'html' | 'react' | 'wordpress';
+
+export interface WidgetAgent {
+  name: string;
+  /** International digits without +, as in wa.me/<phone> */
+  phone: string;
+}
+
+export interface BusinessHours {
+  /** 0 = Sunday … 6 = Saturday */
+  days: number[];
+  /** "HH:MM", 24-hour */
+  open: string;
+  close: string;
+  /** IANA time zone, e.g. "Asia/Kolkata" */
+  timezone: string;
+}
+
+export interface WidgetConfig {
+  /** Rotated round-robin per visitor */
+  agents: WidgetAgent[];
+  /** Pre-filled chat message */
+  message: string;
+  position: WidgetPosition;
+  color: string;
+  /** Bubble text while online; empty hides the bubble */
+  greeting: string;
+  /** null = always online */
+  hours: BusinessHours | null;
+  /** Bubble text outside business hours */
+  offlineMessage: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  days: [1, 2, 3, 4, 5],
+  open: '09:00',
+  close: '18:00',
+  timezone: 'UTC',
+};
+
+export const DEFAULT_WIDGET_CONFIG: WidgetConfig = {
+  agents: [],
+  message: '',
+  position: 'right',
+  color: '#25D366',
+  greeting: 'Hi there 👋 How can we help?',
+  hours: null,
+  offlineMessage: "We're offline right now — leave a message and we'll reply soon.",
+};
+
+export const WIDGET_VARIANTS: { value: WidgetVariant; label: string }[] = [
+  { value: 'html', label: 'HTML' },
+  { value: 'react', label: 'React' },
+  { value: 'wordpress', label: 'WordPress' },
+];
+
+/** Delay before the greeting bubble pops up, in ms */
+export const BUBBLE_DELAY_MS = 1500;
+
+const AGENT_STORAGE_KEY = 'wa-widget-agent';
+
+const CHAT_ICON_PATH =
+  'M12 2C6.48 2 2 6.03 2 11c0 2.63 1.26 5 3.27 6.64L4.5 22l4.6-2.3c.92.2 1.88.3 2.9.3 5.52 0 10-4.03 10-9S17.52 2 12 2zm-4 10.25a1.25 1.25 0 110-2.5 1.25 1.25 0 010 2.5zm4 0a1.25 1.25 0 110-2.5 1.25 1.25 0 010 2.5zm4 0a1.25 1.25 0 110-2.5 1.25 1.25 0 010 2.5z';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Phone + message from a generated wa.me link */
+export function agentFromLink(link: string): { phone: string; message: string } | null {
+  const match = /^https:\/\/wa\.me\/(\d+)(?:\?text=(.*))?$/.exec(link);
+  if (!match) return null;
+  return { phone: match[1], message: match[2] ? decodeURIComponent(match[2]) : '' };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+/**
+ * Whether `date` falls inside business hours in the configured time zone.
+ * Close before open means overnight (e.g. 20:00–02:00 belongs to the opening day).
+ */
+export function isWithinHours(hours: BusinessHours | null, date: Date = new Date()): boolean {
+  if (!hours) return true;
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  })
+    .formatToParts(date)
+    .forEach((p) => { parts[p.type] = p.value; });
+
+  const day = WEEKDAYS.indexOf(parts.weekday);
+  const now = (Number(parts.hour) % 24) * 60 + Number(parts.minute);
+  const open = toMinutes(hours.open);
+  const close = toMinutes(hours.close);
+
+  if (open <= close) return hours.days.includes(day) && now >= open && now < close;
+  return (hours.days.includes(day) && now >= open) || (hours.days.includes((day + 6) % 7) && now < close);
+}
+
+/** JSON safe to inline in a <script> tag */
+function inlineJSON(value: unknown, indent = 2): string {
+  return JSON.stringify(value, null, indent).replace(/</g, '\\u003c');
+}
+
+function runtimeConfig(config: WidgetConfig) {
+  return {
+    agents: config.agents.map((a) => ({ name: a.name, phone: a.phone })),
+    message: config.message,
+    greeting: config.greeting,
+    offlineMessage: config.offlineMessage,
+    hours: config.hours,
+  };
+}
+
+// ============================================================
+// Shared Runtime
+// ============================================================
+
+/** ES5 helpers shared by the HTML and React snippets. Expects a CONFIG object in scope. */
+const RUNTIME_HELPERS = `function isOnline(h) {
+  if (!h) return true;
+  var parts = {};
+  new Intl.DateTimeFormat('en-US', { timeZone: h.timezone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    .formatToParts(new Date())
+    .forEach(function (p) { parts[p.type] = p.value; });
+  var day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday);
+  var now = (Number(parts.hour) % 24) * 60 + Number(parts.minute);
+  var open = toMinutes(h.open);
+  var close = toMinutes(h.close);
+  if (open <= close) return h.days.indexOf(day) !== -1 && now >= open && now < close;
+  return (h.days.indexOf(day) !== -1 && now >= open) || (h.days.indexOf((day + 6) % 7) !== -1 && now < close);
+}
+
+function toMinutes(time) {
+  var p = time.split(':');
+  return Number(p[0]) * 60 + Number(p[1]);
+}
+
+// Round-robin across agents, remembered per visitor
+function pickAgent(agents) {
+  var i = 0;
+  try {
+    i = (parseInt(localStorage.getItem('${AGENT_STORAGE_KEY}'), 10) || 0) % agents.length;
+    localStorage.setItem('${AGENT_STORAGE_KEY}', String((i + 1) % agents.length));
+  } catch (e) {}
+  return agents[i];
+}
+
+function openChat() {
+  var agent = pickAgent(CONFIG.agents);
+  var url = 'https://wa.me/' + agent.phone + (CONFIG.message ? '?text=' + encodeURIComponent(CONFIG.message) : '');
+  window.open(url, '_blank', 'noopener');
+}`;
+
+// ============================================================
+// CSS & Markup
+// ============================================================
+
+export function widgetCSS(config: WidgetConfig): string {
+  const color = normalizeHex(config.color) ?? DEFAULT_WIDGET_CONFIG.color;
+  const side = config.position === 'left' ? 'left' : 'right';
+  const align = side === 'left' ? 'flex-start' : 'flex-end';
+  return `.wa-widget {
+  position: fixed;
+  bottom: 20px;
+  ${side}: 20px;
+  z-index: 9999;
+  display: flex;
+  flex-direction: column;
+  align-items: ${align};
+  gap: 12px;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+}
+.wa-widget-button {
+  width: 60px;
+  height: 60px;
+  border: 0;
+  border-radius: 50%;
+  background: ${color};
+  color: #fff;
+  cursor: pointer;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: transform 0.15s;
+}
+.wa-widget-button:hover { transform: scale(1.06); }
+.wa-widget-button svg { width: 32px; height: 32px; fill: currentColor; }
+.wa-widget-bubble {
+  position: relative;
+  max-width: 260px;
+  padding: 12px 32px 12px 14px;
+  border-radius: 12px;
+  background: #fff;
+  color: #111827;
+  font-size: 14px;
+  line-height: 1.4;
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+  cursor: pointer;
+}
+.wa-widget-bubble[hidden] { display: none; }
+.wa-widget-close {
+  position: absolute;
+  top: 4px;
+  right: 6px;
+  border: 0;
+  background: none;
+  color: #9ca3af;
+  font-size: 18px;
+  cursor: pointer;
+}`;
+}
+
+function chatIconSVG(): string {
+  return `<svg viewBox="0 0 24 24" aria-hidden="true"><path d="${CHAT_ICON_PATH}"/></svg>`;
+}
+
+// ============================================================
+// Variants
+// ============================================================
+
+/** Self-contained snippet to paste before </body> */
+export function buildWidgetHTML(config: WidgetConfig): string {
+  return `<!-- WhatsApp chat widget -->
+<style>
+${widgetCSS(config)}
+</style>
+<div id="wa-widget" class="wa-widget">
+  <div class="wa-widget-bubble" role="status" hidden>
+    <button type="button" class="wa-widget-close" aria-label="Close">&times;</button>
+    <span class="wa-widget-text"></span>
+  </div>
+  <button type="button" class="wa-widget-button" aria-label="Chat on WhatsApp">${chatIconSVG()}</button>
+</div>
+<script>
+(function () {
+var CONFIG = ${inlineJSON(runtimeConfig(config))};
+
+${RUNTIME_HELPERS}
+
+var root = document.getElementById('wa-widget');
+if (!root || CONFIG.agents.length === 0) return;
+var bubble = root.querySelector('.wa-widget-bubble');
+var text = isOnline(CONFIG.hours) ? CONFIG.greeting : CONFIG.offlineMessage;
+root.querySelector('.wa-widget-button').addEventListener('click', openChat);
+bubble.addEventListener('click', openChat);
+root.querySelector('.wa-widget-close').addEventListener('click', function (e) {
+  e.stopPropagation();
+  bubble.hidden = true;
+});
+if (text) {
+  setTimeout(function () {
+    root.querySelector('.wa-widget-text').textContent = text;
+    bubble.hidden = false;
+  }, ${BUBBLE_DELAY_MS});
+}
+})();
+</script>`;
+}
+
+/** Drop-in React component (JSX, no dependencies) */
+export function buildWidgetReact(config: WidgetConfig): string {
+  return `// WhatsAppWidget.jsx — floating WhatsApp chat button
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const CONFIG = ${inlineJSON(runtimeConfig(config))};
+
+const CSS = \`${widgetCSS(config)}\`;
+
+${RUNTIME_HELPERS}
+
+export default function WhatsAppWidget() {
+  const [bubble, setBubble] = useState('');
+
+  useEffect(() => {
+    const text = isOnline(CONFIG.hours) ? CONFIG.greeting : CONFIG.offlineMessage;
+    if (!text) return;
+    const timer = setTimeout(() => setBubble(text), ${BUBBLE_DELAY_MS});
+    return () => clearTimeout(timer);
+  }, []);
+
+  if (CONFIG.agents.length === 0) return null;
+
+  return (
+    <div className="wa-widget">
+      <style>{CSS}</style>
+      {bubble && (
+        <div className="wa-widget-bubble" role="status" onClick={openChat}>
+          <button
+            type="button"
+            className="wa-widget-close"
+            aria-label="Close"
+            onClick={(e) => { e.stopPropagation(); setBubble(''); }}
+          >
+            &times;
+          </button>
+          {bubble}
+        </div>
+      )}
+      <button type="button" className="wa-widget-button" aria-label="Chat on WhatsApp" onClick={openChat}>
+        <svg viewBox="0 0 24 24" aria-hidden="true"><path d="${CHAT_ICON_PATH}" /></svg>
+      </button>
+    </div>
+  );
+}
+`;
+}
+
+/** functions.php snippet registering a [whatsapp_widget] shortcode */
+export function buildWidgetShortcode(config: WidgetConfig): string {
+  return `<?php
+// Add to your theme's functions.php (or a code snippets plugin),
+// then place [whatsapp_widget] in any page, post or widget area.
+add_shortcode('whatsapp_widget', function () {
+    return <<<'WA_WIDGET'
+${buildWidgetHTML(config)}
+WA_WIDGET;
+});
+`;
+}
+
+export function buildWidgetCode(config: WidgetConfig, variant: WidgetVariant): string {
+  switch (variant) {
+    case 'html':
+      return buildWidgetHTML(config);
+    case 'react':
+      return buildWidgetReact(config);
+    case 'wordpress':
+      return buildWidgetShortcode(config);
+  }
+}
+
+/** Full page for the sandboxed iframe preview */
+export function buildPreviewDocument(config: WidgetConfig): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+body { margin: 0; min-height: 100vh; background: #f3f4f6; font-family: sans-serif; }
+.page { padding: 24px; color: #9ca3af; font-size: 14px; }
+</style>
+</head>
+<body>
+<div class="page">Your website</div>
+${buildWidgetHTML(config)}
+</body>
+</html>`;
+}
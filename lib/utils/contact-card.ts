@@ -0,0 +1,162 @@
+// lib/utils/contact-card.ts
+// Contact QR payloads for Link Generator — vCard 3.0 / 4.0 and MeCard, with the wa.me link
+// No React imports — testable in isolation
+
+import { slugify } from './bulk-links';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ContactFormat = 'vcard3' | 'vcard4' | 'mecard';
+
+export interface ContactCard {
+  name: string;
+  org: string;
+  /** E.164, e.g. "+919876543210" */
+  phone: string;
+  email: string;
+  website: string;
+  /** wa.me click-to-chat URL */
+  waLink: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const CONTACT_FORMATS: { value: ContactFormat; label: string; hint: string }[] = [
+  { value: 'vcard3', label: 'vCard 3.0', hint: 'Works with every phone camera' },
+  { value: 'vcard4', label: 'vCard 4.0', hint: 'Newer standard, tel: URIs' },
+  { value: 'mecard', label: 'MeCard', hint: 'Shortest payload, less dense QR' },
+];
+
+/** vCard lines longer than this many octets are folded (RFC 6350 §3.2) */
+const VCARD_LINE_OCTETS = 75;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** "Priya Sharma" → given "Priya", family "Sharma". Single words are a given name. */
+export function splitName(name: string): { given: string; family: string } {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length < 2) return { given: parts[0] ?? '', family: '' };
+  return { given: parts.slice(0, -1).join(' '), family: parts[parts.length - 1] };
+}
+
+/** "example.com" → "https://example.com"; leaves explicit schemes alone */
+export function normalizeWebsite(url: string): string {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/** Returns an error message, or null when the card can be built */
+export function validateContact(card: Pick<ContactCard, 'name' | 'email'>): string | null {
+  if (!card.name.trim()) return 'Please enter a name';
+  if (card.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(card.email.trim())) {
+    return 'Please enter a valid email address';
+  }
+  return null;
+}
+
+// ============================================================
+// vCard
+// ============================================================
+
+/** Escape TEXT values: backslash, comma, semicolon, newline */
+export function escapeVCard(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const cp = char.codePointAt(0) ?? 0;
+  return cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4;
+}
+
+/** Fold at 75 octets with CRLF + space, never splitting a character */
+export function foldLine(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = out.length === 0 ? VCARD_LINE_OCTETS : VCARD_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      out.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+export function buildVCard(card: ContactCard, version: '3.0' | '4.0'): string {
+  const { given, family } = splitName(card.name);
+  const website = normalizeWebsite(card.website);
+  const v4 = version === '4.0';
+
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${escapeVCard(family)};${escapeVCard(given)};;;`,
+    `FN:${escapeVCard(card.name.trim())}`,
+  ];
+  if (card.org.trim()) lines.push(`ORG:${escapeVCard(card.org.trim())}`);
+  if (card.phone) lines.push(v4 ? `TEL;VALUE=uri;TYPE=cell:tel:${card.phone}` : `TEL;TYPE=CELL:${card.phone}`);
+  if (card.email.trim()) lines.push(v4 ? `EMAIL:${card.email.trim()}` : `EMAIL;TYPE=INTERNET:${card.email.trim()}`);
+  if (website) lines.push(`URL:${website}`);
+  if (card.waLink) lines.push(v4 ? `URL;TYPE=x-whatsapp:${card.waLink}` : `URL;TYPE=WhatsApp:${card.waLink}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n');
+}
+
+// ============================================================
+// MeCard
+// ============================================================
+
+/** Escape MeCard values: backslash, semicolon, colon, comma, double quote */
+export function escapeMeCard(value: string): string {
+  return value.replace(/([\\;:,"])/g, '\\$1');
+}
+
+export function buildMeCard(card: ContactCard): string {
+  const { given, family } = splitName(card.name);
+  const website = normalizeWebsite(card.website);
+  const fields = [`N:${family ? `${escapeMeCard(family)},${escapeMeCard(given)}` : escapeMeCard(given)}`];
+  if (card.org.trim()) fields.push(`ORG:${escapeMeCard(card.org.trim())}`);
+  if (card.phone) fields.push(`TEL:${card.phone}`);
+  if (card.email.trim()) fields.push(`EMAIL:${escapeMeCard(card.email.trim())}`);
+  if (website) fields.push(`URL:${escapeMeCard(website)}`);
+  if (card.waLink) fields.push(`URL:${escapeMeCard(card.waLink)}`);
+  return `MECARD:${fields.join(';')};;`;
+}
+
+// ============================================================
+// Payloads & Files
+// ============================================================
+
+/** QR payload for the chosen format */
+export function buildContactPayload(card: ContactCard, format: ContactFormat): string {
+  if (format === 'mecard') return buildMeCard(card);
+  return buildVCard(card, format === 'vcard4' ? '4.0' : '3.0');
+}
+
+/** .vcf file contents. MeCard has no file format, so it falls back to vCard 3.0. */
+export function buildVCardFile(card: ContactCard, format: ContactFormat): string {
+  return buildVCard(card, format === 'vcard4' ? '4.0' : '3.0') + '\r\n';
+}
+
+export function vcfFileName(name: string): string {
+  return `${slugify(name) || 'contact'}.vcf`;
+}
@@ -0,0 +1,67 @@
+// lib/utils/csv.ts
+// Minimal RFC 4180 CSV parser/writer for bulk tool modes
+// No React imports — testable in isolation
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells, escaped quotes (""), embedded newlines, CRLF and a UTF-8 BOM.
+ * Blank lines are skipped.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows to CSV with CRLF line endings (opens cleanly in Excel and Sheets).
+ */
+export function toCSV(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map((cell) => escapeCell(String(cell))).join(',')).join('\r\n');
+}
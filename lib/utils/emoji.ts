@@ -0,0 +1,220 @@
+// lib/utils/emoji.ts
+// Emoji detection, counting, stripping and :shortcode: conversion on grapheme clusters
+// No React imports — testable in isolation
+//
+// Works on user-perceived characters, so 👨‍👩‍👧‍👦, 🇮🇳, 🏴󠁧󠁢󠁳󠁣󠁴󠁿, #️⃣ and 👋🏽 are each one emoji.
+// A cluster is classified by its base: keycaps, flags and lone skin tones are emoji, and so
+// is any pictograph at U+1F000 and above (including code points reserved for future emoji).
+// Older pictographs such as ©, ™, ♥ and ☺ only count when shown as emoji — by default or
+// with VS16 (U+FE0F), a skin tone or a ZWJ sequence — so plain text symbols survive.
+
+import shortcodeData from '@/lib/data/emoji-shortcodes.json';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface EmojiMatch {
+  emoji: string;
+  /** UTF-16 offset in the original text */
+  index: number;
+}
+
+export interface ShortcodeOptions {
+  /** Emojis without a known shortcode: drop them (default) or keep the emoji */
+  unknown?: 'strip' | 'keep';
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Slack/GitHub-style names keyed by emoji with VS16 and skin tones removed */
+const SHORTCODES = shortcodeData as Record<string, string>;
+
+const KEYCAP_NAMES: Record<string, string> = {
+  '0': 'zero', '1': 'one', '2': 'two', '3': 'three', '4': 'four',
+  '5': 'five', '6': 'six', '7': 'seven', '8': 'eight', '9': 'nine',
+  '#': 'hash', '*': 'asterisk',
+};
+
+/** Subdivision flags with their own shortcodes; others become :flag-<tag>: */
+const TAG_FLAG_NAMES: Record<string, string> = {
+  gbeng: 'england',
+  gbsct: 'scotland',
+  gbwls: 'wales',
+};
+
+const VS15 = '\uFE0E';
+const VS16 = '\uFE0F';
+const ZWJ = '\u200D';
+const FIRST_SUPPLEMENTARY_PICTOGRAPH = 0x1f000;
+
+const KEYCAP = /^[0-9#*]\uFE0F?\u20E3$/u;
+const PICTOGRAPH = /^\p{Extended_Pictographic}$/u;
+const EMOJI_PRESENTATION = /^\p{Emoji_Presentation}$/u;
+const MODIFIER = /\p{Emoji_Modifier}/u;
+const REGIONAL_INDICATOR = /^\p{Regional_Indicator}$/u;
+const STRAY_MODIFIER = /(\p{Emoji_Modifier})/u;
+
+/** Emoji parts left behind on non-emoji clusters: skin tones, VS16 and tag characters */
+const STRAY_COMPONENTS = /[\u{1F3FB}-\u{1F3FF}\uFE0F\u{E0020}-\u{E007F}]/gu;
+
+/**
+ * Fallback clustering where Intl.Segmenter is missing: emoji sequences are kept whole,
+ * everything else goes code point by code point (enough to find emoji, not to count letters).
+ */
+const FALLBACK_CLUSTER =
+  /[0-9#*]\uFE0F?\u20E3|\p{Regional_Indicator}{1,2}|\p{Extended_Pictographic}[\uFE0E\uFE0F]?\p{Emoji_Modifier}?[\u{E0020}-\u{E007F}]*(?:\u200D\p{Extended_Pictographic}[\uFE0E\uFE0F]?\p{Emoji_Modifier}?)*|\r\n|[\s\S]/gu;
+
+// ============================================================
+// Segmentation
+// ============================================================
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+let segmenter: Intl.Segmenter | undefined;
+
+/**
+ * Skin tones extend whatever precedes them, so " 🏽" and "a🏽" are single clusters.
+ * Split them off unless they follow an emoji base, so a lone tone is found and removed on its own.
+ */
+function splitStrayModifiers(cluster: string): string[] {
+  if (!MODIFIER.test(cluster) || PICTOGRAPH.test(Array.from(cluster)[0])) return [cluster];
+  return cluster.split(STRAY_MODIFIER).filter(Boolean);
+}
+
+/** Grapheme clusters of a text, in order */
+export function splitGraphemes(text: string): string[] {
+  if (!text) return [];
+  if (hasSegmenter) {
+    if (!segmenter) segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), (s) => s.segment).flatMap(splitStrayModifiers);
+  }
+  return text.match(FALLBACK_CLUSTER) ?? [];
+}
+
+// ============================================================
+// Detection
+// ============================================================
+
+/** Whether a single grapheme cluster is displayed as an emoji */
+export function isEmoji(grapheme: string): boolean {
+  if (KEYCAP.test(grapheme)) return true;
+
+  const chars = Array.from(grapheme);
+  const base = chars[0] ?? '';
+  if (REGIONAL_INDICATOR.test(base) || MODIFIER.test(base)) return true;
+  if (!PICTOGRAPH.test(base)) return false;
+  // VS15 asks for the text glyph: "♥\uFE0E" stays a symbol
+  if (chars[1] === VS15) return false;
+  if (base.codePointAt(0)! >= FIRST_SUPPLEMENTARY_PICTOGRAPH) return true;
+  return EMOJI_PRESENTATION.test(base) || chars.includes(VS16) || chars.includes(ZWJ) || MODIFIER.test(grapheme);
+}
+
+/** Every emoji in the text with its position */
+export function findEmojis(text: string): EmojiMatch[] {
+  const matches: EmojiMatch[] = [];
+  let index = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    if (isEmoji(grapheme)) matches.push({ emoji: grapheme, index });
+    index += grapheme.length;
+  }
+  return matches;
+}
+
+export function countEmojis(text: string): number {
+  return splitGraphemes(text).filter(isEmoji).length;
+}
+
+// ============================================================
+// Replacement
+// ============================================================
+
+const isBlank = (grapheme: string) => /^[ \t]+$/.test(grapheme);
+
+/**
+ * Replace each emoji with `replace(emoji)`. Removing one ('') tidies the spacing around it:
+ * no double spaces, no space left before punctuation or at the start or end of a line.
+ */
+export function replaceEmojis(text: string, replace: (emoji: string) => string): string {
+  const parts = splitGraphemes(text);
+  let out = '';
+  let i = 0;
+
+  while (i < parts.length) {
+    if (!isEmoji(parts[i])) {
+      out += parts[i].replace(STRAY_COMPONENTS, '');
+      i++;
+      continue;
+    }
+
+    const replacement = replace(parts[i]);
+    i++;
+    if (replacement) {
+      out += replacement;
+      continue;
+    }
+
+    // Removed: swallow the run of removed emojis and the blanks between them
+    let spaced = /[ \t]$/.test(out);
+    while (i < parts.length && (isBlank(parts[i]) || (isEmoji(parts[i]) && !replace(parts[i])))) {
+      if (isBlank(parts[i])) spaced = true;
+      i++;
+    }
+    out = out.replace(/[ \t]+$/, '');
+    const next = parts[i] ?? '';
+    const atLineStart = out === '' || /[\r\n]$/.test(out);
+    const beforeBreak = next === '' || /^[\r\n.,!?;:)\]]/.test(next);
+    if (spaced && !atLineStart && !beforeBreak) out += ' ';
+  }
+  return out;
+}
+
+/** Remove every emoji, including skin tones, flags, keycaps and tag sequences */
+export function stripEmojis(text: string): string {
+  return replaceEmojis(text, () => '');
+}
+
+// ============================================================
+// Shortcodes
+// ============================================================
+
+function tagFlagName(grapheme: string): string | undefined {
+  const tags = Array.from(grapheme)
+    .map((c) => c.codePointAt(0)!)
+    .filter((cp) => cp >= 0xe0061 && cp <= 0xe007a)
+    .map((cp) => String.fromCharCode(cp - 0xe0000))
+    .join('');
+  if (!tags) return undefined;
+  return TAG_FLAG_NAMES[tags] ?? `flag-${tags}`;
+}
+
+/**
+ * Shortcode for one emoji: ":tada:", ":wave::skin-tone-4:", ":flag-in:", ":one:"…
+ * Undefined when the emoji isn't in the table.
+ */
+export function emojiShortcode(emoji: string): string | undefined {
+  if (KEYCAP.test(emoji)) return `:${KEYCAP_NAMES[emoji[0]]}:`;
+
+  const chars = Array.from(emoji);
+  if (REGIONAL_INDICATOR.test(chars[0] ?? '')) {
+    const region = chars.map((c) => String.fromCharCode(c.codePointAt(0)! - 0x1f1e6 + 97)).join('');
+    return `:flag-${region}:`;
+  }
+
+  const tagFlag = tagFlagName(emoji);
+  if (tagFlag) return `:${tagFlag}:`;
+
+  const tone = chars.find((c) => MODIFIER.test(c));
+  const key = chars.filter((c) => c !== VS16 && !MODIFIER.test(c)).join('');
+  // A lone skin tone has no base: it becomes just the tone
+  const name = key ? SHORTCODES[key] : '';
+  if (name === undefined) return undefined;
+  const toneCode = tone ? `:skin-tone-${tone.codePointAt(0)! - 0x1f3fb + 2}:` : '';
+  return name ? `:${name}:${toneCode}` : toneCode;
+}
+
+/** Replace emojis with :shortcodes:, for channels that can't show emoji */
+export function emojisToShortcodes(text: string, options: ShortcodeOptions = {}): string {
+  return replaceEmojis(text, (emoji) => emojiShortcode(emoji) ?? (options.unknown === 'keep' ? emoji : ''));
+}
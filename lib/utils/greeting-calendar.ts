@@ -0,0 +1,357 @@
+// lib/utils/greeting-calendar.ts
+// Greeting calendar — upcoming dates for dated occasions and .ics reminder export
+// No React imports — testable in isolation
+//
+// Dates are plain ISO days ("2026-11-08") with no time zone: a festival falls on a calendar
+// day wherever the user is. Fixed and rule-based dates are computed for any year; lunar and
+// lunisolar festivals come from bundled tables (TABLE_FIRST_YEAR–TABLE_LAST_YEAR).
+
+import { countUtf8Bytes } from './text-stats';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type DateRule =
+  /** Same day every year, e.g. Christmas */
+  | { kind: 'fixed'; month: number; day: number }
+  /** nth weekday of a month (weekday 0 = Sunday), e.g. the 4th Thursday of November */
+  | { kind: 'nth-weekday'; month: number; weekday: number; n: number }
+  /** Days from Western Easter Sunday */
+  | { kind: 'easter'; offset: number }
+  /** Published dates, one ISO day per occurrence */
+  | { kind: 'table'; dates: string[] };
+
+export interface OccasionDate {
+  rule: DateRule;
+  /** Shown next to the date, e.g. which calendar or country it follows */
+  note?: string;
+}
+
+export interface UpcomingOccasion {
+  occasionId: string;
+  date: string;
+  /** 0 = today */
+  daysAway: number;
+}
+
+export interface ReminderEvent {
+  occasionId: string;
+  /** e.g. "🪔 Diwali" */
+  title: string;
+  date: string;
+  /** Link back to the generator, included in the event description */
+  url?: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const TABLE_FIRST_YEAR = 2025;
+export const TABLE_LAST_YEAR = 2035;
+
+export const UPCOMING_WINDOW_DAYS = 90;
+export const REMINDER_WINDOW_DAYS = 365;
+
+/** Reminder choices for the .ics export, in days before the occasion */
+export const REMINDER_OPTIONS = [
+  { days: 0, label: 'On the day' },
+  { days: 1, label: '1 day before' },
+  { days: 3, label: '3 days before' },
+  { days: 7, label: '1 week before' },
+] as const;
+
+const ISLAMIC_NOTE = 'Umm al-Qura calendar; many countries mark it a day later, after the moon is sighted';
+const HINDU_NOTE = 'Dates as published for India; can differ by a day by region';
+
+/**
+ * Occasion id → date rule. Occasions without an entry (birthday, farewell…) are personal
+ * and never show up as upcoming.
+ */
+export const OCCASION_DATES: Record<string, OccasionDate> = {
+  'new-year': { rule: { kind: 'fixed', month: 1, day: 1 } },
+  'valentines-day': { rule: { kind: 'fixed', month: 2, day: 14 } },
+  halloween: { rule: { kind: 'fixed', month: 10, day: 31 } },
+  christmas: { rule: { kind: 'fixed', month: 12, day: 25 } },
+  'mothers-day': { rule: { kind: 'nth-weekday', month: 5, weekday: 0, n: 2 }, note: 'US, India and many other countries' },
+  'fathers-day': { rule: { kind: 'nth-weekday', month: 6, weekday: 0, n: 3 }, note: 'US, India and many other countries' },
+  thanksgiving: { rule: { kind: 'nth-weekday', month: 11, weekday: 4, n: 4 }, note: 'US' },
+  easter: { rule: { kind: 'easter', offset: 0 }, note: 'Western churches' },
+  carnival: { rule: { kind: 'easter', offset: -47 }, note: 'Carnival Tuesday' },
+  'chinese-new-year': {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-01-29', '2026-02-17', '2027-02-06', '2028-01-26', '2029-02-13', '2030-02-03',
+        '2031-01-23', '2032-02-11', '2033-01-31', '2034-02-19', '2035-02-08',
+      ],
+    },
+  },
+  nowruz: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-03-21', '2026-03-21', '2027-03-21', '2028-03-20', '2029-03-20', '2030-03-21',
+        '2031-03-21', '2032-03-20', '2033-03-20', '2034-03-21', '2035-03-21',
+      ],
+    },
+    note: 'Iranian calendar',
+  },
+  ramadan: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-03-01', '2026-02-18', '2027-02-08', '2028-01-28', '2029-01-16', '2030-01-05',
+        '2030-12-26', '2031-12-15', '2032-12-04', '2033-11-23', '2034-11-12', '2035-11-01',
+      ],
+    },
+    note: `First day of fasting. ${ISLAMIC_NOTE}`,
+  },
+  eid: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-03-30', '2026-03-20', '2027-03-09', '2028-02-26', '2029-02-14', '2030-02-04',
+        '2031-01-24', '2032-01-14', '2033-01-02', '2033-12-23', '2034-12-12', '2035-12-01',
+      ],
+    },
+    note: `Eid al-Fitr. ${ISLAMIC_NOTE}`,
+  },
+  holi: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-03-14', '2026-03-04', '2027-03-22', '2028-03-11', '2029-03-01', '2030-03-20',
+        '2031-03-09', '2032-03-27', '2033-03-16', '2034-03-05', '2035-03-24',
+      ],
+    },
+    note: HINDU_NOTE,
+  },
+  'raksha-bandhan': {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-08-09', '2026-08-28', '2027-08-17', '2028-08-05', '2029-08-23', '2030-08-13',
+        '2031-08-02', '2032-08-20', '2033-08-10', '2034-08-29', '2035-08-18',
+      ],
+    },
+    note: HINDU_NOTE,
+  },
+  'ganesh-chaturthi': {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-08-27', '2026-09-14', '2027-09-04', '2028-08-23', '2029-09-11', '2030-09-01',
+        '2031-09-20', '2032-09-08', '2033-08-28', '2034-09-16', '2035-09-05',
+      ],
+    },
+    note: HINDU_NOTE,
+  },
+  navratri: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-09-22', '2026-10-11', '2027-09-30', '2028-09-19', '2029-10-08', '2030-09-28',
+        '2031-10-17', '2032-10-05', '2033-09-24', '2034-10-13', '2035-10-02',
+      ],
+    },
+    note: `Sharad Navratri begins. ${HINDU_NOTE}`,
+  },
+  diwali: {
+    rule: {
+      kind: 'table',
+      dates: [
+        '2025-10-20', '2026-11-08', '2027-10-29', '2028-10-17', '2029-11-05', '2030-10-26',
+        '2031-11-14', '2032-11-02', '2033-10-22', '2034-11-10', '2035-10-30',
+      ],
+    },
+    note: `Lakshmi Puja. ${HINDU_NOTE}`,
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DAY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// ============================================================
+// Day arithmetic
+// ============================================================
+
+function toUtc(iso: string): number {
+  const match = ISO_DAY.exec(iso);
+  if (!match) throw new Error(`Invalid date: ${iso}`);
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function fromUtc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function isoDay(year: number, month: number, day: number): string {
+  return fromUtc(Date.UTC(year, month - 1, day));
+}
+
+/** The user's local calendar day — not toISOString, which would give the UTC day */
+export function localIsoDate(date: Date): string {
+  return isoDay(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+export function addDays(iso: string, days: number): string {
+  return fromUtc(toUtc(iso) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+// ============================================================
+// Rules
+// ============================================================
+
+/** Western Easter Sunday (anonymous Gregorian algorithm) */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDay(year, month, day);
+}
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return isoDay(year, month, 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7);
+}
+
+/** Every date a rule gives in a year — tables can have two (Eid drifts ~11 days a year) or none */
+export function datesInYear(rule: DateRule, year: number): string[] {
+  switch (rule.kind) {
+    case 'fixed':
+      return [isoDay(year, rule.month, rule.day)];
+    case 'nth-weekday':
+      return [nthWeekday(year, rule.month, rule.weekday, rule.n)];
+    case 'easter':
+      return [addDays(easterSunday(year), rule.offset)];
+    case 'table':
+      return rule.dates.filter((d) => d.startsWith(`${year}-`));
+  }
+}
+
+/** Next date on or after `from`, or null if the occasion has no date or the table has run out */
+export function nextOccasionDate(occasionId: string, from: string): string | null {
+  const entry = OCCASION_DATES[occasionId];
+  if (!entry) return null;
+  const year = Number(from.slice(0, 4));
+  // Two years covers an occasion whose date this year has already passed
+  for (const y of [year, year + 1]) {
+    const next = datesInYear(entry.rule, y).find((d) => d >= from);
+    if (next) return next;
+  }
+  return null;
+}
+
+/** Dated occasions within `withinDays` of `from`, soonest first (ties keep the given order) */
+export function upcomingOccasions(
+  occasionIds: string[],
+  from: string,
+  withinDays: number = UPCOMING_WINDOW_DAYS
+): UpcomingOccasion[] {
+  const upcoming: UpcomingOccasion[] = [];
+  for (const occasionId of occasionIds) {
+    const date = nextOccasionDate(occasionId, from);
+    if (!date) continue;
+    const daysAway = daysBetween(from, date);
+    if (daysAway <= withinDays) upcoming.push({ occasionId, date, daysAway });
+  }
+  return upcoming.sort((a, b) => a.daysAway - b.daysAway);
+}
+
+/** "today", "tomorrow", "in 12 days" */
+export function formatDaysAway(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+// ============================================================
+// iCalendar export
+// ============================================================
+
+function icsDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** RFC 5545 TEXT escaping */
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines at 75 octets without splitting a character */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    // Continuation lines start with a space, which counts toward their 75
+    const limit = parts.length === 0 ? 75 : 74;
+    if (countUtf8Bytes(current + char) > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * All-day events with a display alarm `remindDaysBefore` days ahead (9am that day).
+ * `now` stamps the events; pass it in so the output is reproducible.
+ */
+export function buildIcs(events: ReminderEvent[], { remindDaysBefore, now }: { remindDaysBefore: number; now: Date }): string {
+  const stamp = icsTimestamp(now);
+  // Alarms on all-day events are relative to midnight at the start of the day
+  const trigger = remindDaysBefore === 0 ? 'PT9H' : `-PT${remindDaysBefore * 24 - 9}H`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//WhatsScale//Greeting Generator//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Greeting reminders',
+  ];
+  for (const event of events) {
+    const description = event.url ? `Pick a WhatsApp greeting: ${event.url}` : 'Time to send a WhatsApp greeting';
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.occasionId}-${icsDate(event.date)}@whatsscale.com`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:${trigger}`,
+      `DESCRIPTION:${escapeText(event.title)}`,
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
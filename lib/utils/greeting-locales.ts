@@ -0,0 +1,89 @@
+// lib/utils/greeting-locales.ts
+// Greeting Generator languages — per-locale template packs attached to the bundled occasions
+// No React imports — testable in isolation
+//
+// English lives in greetings.json. Each other language is a pack keyed by occasion id
+// (locales/<code>.json); an occasion or tone a pack doesn't cover falls back to English.
+
+import { GREETING_TONES, type GreetingOccasion, type GreetingPack, type GreetingTone } from './greeting-templates';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type GreetingLocale = 'en' | 'hi' | 'pt' | 'id' | 'es' | 'ar';
+
+export interface LocaleInfo {
+  code: GreetingLocale;
+  /** Native name, shown in the switcher */
+  label: string;
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+}
+
+/** One language: occasion id → templates by tone */
+export interface LocalePack {
+  locale: GreetingLocale;
+  occasions: Record<string, Partial<Record<GreetingTone, string[]>>>;
+}
+
+export interface LocalizedTemplates {
+  templates: string[];
+  /** Language the templates are actually in */
+  locale: GreetingLocale;
+  /** True when the requested language had nothing for this occasion + tone */
+  fallback: boolean;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const GREETING_LOCALES: LocaleInfo[] = [
+  { code: 'en', label: 'English', englishName: 'English', dir: 'ltr' },
+  { code: 'hi', label: 'हिन्दी', englishName: 'Hindi', dir: 'ltr' },
+  { code: 'pt', label: 'Português', englishName: 'Portuguese', dir: 'ltr' },
+  { code: 'id', label: 'Bahasa Indonesia', englishName: 'Indonesian', dir: 'ltr' },
+  { code: 'es', label: 'Español', englishName: 'Spanish', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', englishName: 'Arabic', dir: 'rtl' },
+];
+
+export const DEFAULT_LOCALE: GreetingLocale = 'en';
+
+// ============================================================
+// Lookup
+// ============================================================
+
+export function getLocaleInfo(code: GreetingLocale): LocaleInfo {
+  return GREETING_LOCALES.find((l) => l.code === code) ?? GREETING_LOCALES[0];
+}
+
+/**
+ * Copy translations from the packs onto each occasion's `translations`, so the data model
+ * carries the locale dimension: occasion → locale → tone → templates.
+ */
+export function attachTranslations(base: GreetingPack, packs: LocalePack[]): GreetingPack {
+  return {
+    categories: base.categories.map((category) => ({
+      ...category,
+      occasions: category.occasions.map((occasion) => {
+        const translations: GreetingOccasion['translations'] = {};
+        for (const pack of packs) {
+          const entry = pack.occasions[occasion.id];
+          if (!entry) continue;
+          const templates = { formal: [], casual: [], funny: [] } as Record<GreetingTone, string[]>;
+          for (const tone of GREETING_TONES) templates[tone] = entry[tone] ?? [];
+          translations[pack.locale] = templates;
+        }
+        return Object.keys(translations).length > 0 ? { ...occasion, translations } : occasion;
+      }),
+    })),
+  };
+}
+
+/** Templates for an occasion + tone in the requested language, falling back to English */
+export function localizedTemplates(occasion: GreetingOccasion, tone: GreetingTone, locale: GreetingLocale): LocalizedTemplates {
+  const translated = locale === DEFAULT_LOCALE ? undefined : occasion.translations?.[locale]?.[tone];
+  if (translated && translated.length > 0) return { templates: translated, locale, fallback: false };
+  return { templates: occasion.templates[tone], locale: DEFAULT_LOCALE, fallback: locale !== DEFAULT_LOCALE };
+}
@@ -0,0 +1,149 @@
+// lib/utils/greeting-remix.ts
+// Greeting Generator remix — composes greetings from tagged fragments at a target length
+// No React imports — testable in isolation
+//
+// Each occasion has openings, wishes and closings per tone plus an emoji set; every tone has
+// shared closings and heartfelt lines for long messages. Picks come from a seeded generator,
+// so the same seed, occasion, tone and length always give the same list — a shared URL with
+// ?seed= shows exactly what the sender saw. Output keeps {name} for personalize().
+
+import { countGraphemes } from './text-stats';
+import { hashSeed, createRng } from './random';
+import type { GreetingTone } from './greeting-templates';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type GreetingLength = 'short' | 'standard' | 'long';
+
+export interface FragmentSet {
+  /** Each opening names the occasion and contains {name} */
+  opening: string[];
+  wish: string[];
+  closing: string[];
+}
+
+export interface OccasionFragments extends Partial<Record<GreetingTone, FragmentSet>> {
+  emoji: string[];
+}
+
+export interface ToneFragments {
+  /** Closings that suit any occasion */
+  closing: string[];
+  /** Extra personal lines, used in long messages */
+  heartfelt: string[];
+}
+
+export interface FragmentPack {
+  tones: Record<GreetingTone, ToneFragments>;
+  occasions: Record<string, OccasionFragments>;
+}
+
+export interface LengthTarget {
+  id: GreetingLength;
+  label: string;
+  hint: string;
+  /** Allowed template length in characters, {name} included */
+  min: number;
+  max: number;
+  emojis: number;
+}
+
+export interface RemixOptions {
+  occasionId: string;
+  tone: GreetingTone;
+  length: GreetingLength;
+  seed: string;
+  /** How many distinct messages to return at most */
+  count?: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const LENGTH_TARGETS: Record<GreetingLength, LengthTarget> = {
+  short: { id: 'short', label: 'Short', hint: 'SMS-style, one line', min: 1, max: 160, emojis: 1 },
+  standard: { id: 'standard', label: 'Standard', hint: 'A few sentences', min: 60, max: 240, emojis: 2 },
+  long: { id: 'long', label: 'Long', hint: 'Heartfelt, several paragraphs', min: 200, max: 600, emojis: 3 },
+};
+
+export const GREETING_LENGTHS: GreetingLength[] = ['short', 'standard', 'long'];
+
+export const REMIX_POOL_SIZE = 30;
+
+/** Tries per requested message before giving up on combinations that are too long or repeated */
+const ATTEMPTS_PER_MESSAGE = 20;
+
+// ============================================================
+// Seeded Randomness
+// ============================================================
+
+/** A short random seed for the Remix button, safe to put in a URL */
+export function newRemixSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+function pick<T>(rng: () => number, list: T[]): T {
+  return list[Math.floor(rng() * list.length)];
+}
+
+/** `n` different items in random order (fewer if the list is shorter) */
+function pickDistinct<T>(rng: () => number, list: T[], n: number): T[] {
+  const pool = [...list];
+  const picked: T[] = [];
+  while (picked.length < n && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(rng() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// ============================================================
+// Composition
+// ============================================================
+
+export function hasRemixFragments(pack: FragmentPack, occasionId: string, tone: GreetingTone): boolean {
+  const set = pack.occasions[occasionId]?.[tone];
+  return Boolean(set && set.opening.length > 0 && set.wish.length > 0);
+}
+
+/** The message without its emojis, so repeats can be spotted before the emojis are added */
+function composeBody(pack: FragmentPack, set: FragmentSet, tone: GreetingTone, length: GreetingLength, rng: () => number): string {
+  const closings = [...set.closing, ...pack.tones[tone].closing];
+  const opening = pick(rng, set.opening);
+
+  if (length === 'short') return `${opening} ${pick(rng, set.wish)}`;
+  if (length === 'standard') return `${opening} ${pick(rng, set.wish)} ${pick(rng, closings)}`;
+
+  const wishes = pickDistinct(rng, set.wish, 3).join(' ');
+  const heartfelt = pick(rng, pack.tones[tone].heartfelt);
+  return `${opening}\n\n${wishes}\n\n${heartfelt}\n\n${pick(rng, closings)}`;
+}
+
+/**
+ * Distinct greeting templates for an occasion and tone at the target length, in a fixed order
+ * for a given seed. Empty when the occasion has no fragments (e.g. imported custom occasions).
+ * Messages that differ only in their emojis count as the same message.
+ */
+export function remixTemplates(pack: FragmentPack, options: RemixOptions): string[] {
+  const { occasionId, tone, length, seed, count = REMIX_POOL_SIZE } = options;
+  const occasion = pack.occasions[occasionId];
+  if (!occasion || !hasRemixFragments(pack, occasionId, tone)) return [];
+
+  const target = LENGTH_TARGETS[length];
+  const set = occasion[tone]!;
+  const rng = createRng(hashSeed(`${seed}:${occasionId}:${tone}:${length}`));
+  const seen = new Set<string>();
+  const templates: string[] = [];
+
+  for (let attempt = 0; templates.length < count && attempt < count * ATTEMPTS_PER_MESSAGE; attempt++) {
+    const body = composeBody(pack, set, tone, length, rng);
+    if (seen.has(body)) continue;
+    seen.add(body);
+    const text = `${body} ${pickDistinct(rng, occasion.emoji, target.emojis).join('')}`;
+    const size = countGraphemes(text);
+    if (size >= target.min && size <= target.max) templates.push(text);
+  }
+  return templates;
+}
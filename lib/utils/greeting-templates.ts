@@ -0,0 +1,385 @@
+// lib/utils/greeting-templates.ts
+// Greeting Generator templates — placeholders, user-authored templates, pack import/export
+// No React imports — storage is passed in, so everything is testable in isolation
+//
+// Custom templates are kept as a pack in the same category → occasion → tone shape as the
+// bundled greetings.json, so an exported pack can be shared, edited by hand and imported back.
+
+import type { GreetingLocale } from './greeting-locales';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type GreetingTone = 'formal' | 'casual' | 'funny';
+
+export interface GreetingOccasion {
+  id: string;
+  label: string;
+  emoji: string;
+  /** English templates */
+  templates: Record<GreetingTone, string[]>;
+  /** Other languages, attached from the locale packs */
+  translations?: Partial<Record<GreetingLocale, Record<GreetingTone, string[]>>>;
+}
+
+export interface GreetingCategory {
+  id: string;
+  label: string;
+  occasions: GreetingOccasion[];
+}
+
+export interface GreetingPack {
+  categories: GreetingCategory[];
+}
+
+export interface TemplatePackFile extends GreetingPack {
+  version: number;
+}
+
+export type PlaceholderKey = 'name' | 'sender' | 'relation' | 'date' | 'years' | 'company';
+
+export type PlaceholderValues = Partial<Record<PlaceholderKey, string>>;
+
+export interface PlaceholderInfo {
+  key: PlaceholderKey;
+  label: string;
+  hint: string;
+  input: 'text' | 'date' | 'number';
+}
+
+/** Where a custom template lives */
+export interface TemplateTarget {
+  categoryId: string;
+  occasionId: string;
+  tone: GreetingTone;
+}
+
+export type TemplateImportResult =
+  | { ok: true; pack: GreetingPack; added: number; skipped: number }
+  | { ok: false; error: string };
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const GREETING_TONES: GreetingTone[] = ['formal', 'casual', 'funny'];
+
+export const PLACEHOLDERS: PlaceholderInfo[] = [
+  { key: 'name', label: 'Recipient Name', hint: 'e.g. Rahul, Sarah, Mom...', input: 'text' },
+  { key: 'sender', label: 'Your Name', hint: 'e.g. Priya', input: 'text' },
+  { key: 'relation', label: 'Relation', hint: 'e.g. brother, colleague, neighbour', input: 'text' },
+  { key: 'date', label: 'Date', hint: '', input: 'date' },
+  { key: 'years', label: 'Years', hint: 'e.g. 25', input: 'number' },
+  { key: 'company', label: 'Company', hint: 'e.g. Sharma Bakery', input: 'text' },
+];
+
+export const TEMPLATE_STORAGE_KEY = 'wa-greeting-templates';
+export const TEMPLATE_PACK_VERSION = 1;
+export const TEMPLATE_MAX_LENGTH = 1000;
+export const MAX_CUSTOM_TEMPLATES = 500;
+
+/** Used when {name} is left blank, so bundled greetings still read naturally */
+export const DEFAULT_NAME_FALLBACK = 'friend';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const KNOWN_KEYS = new Set<string>(PLACEHOLDERS.map((p) => p.key));
+
+// ============================================================
+// Placeholders
+// ============================================================
+
+/** Every {token} in a template, in order of first use */
+export function extractPlaceholders(template: string): string[] {
+  const keys: string[] = [];
+  for (const match of Array.from(template.matchAll(PLACEHOLDER_PATTERN))) {
+    if (!keys.includes(match[1])) keys.push(match[1]);
+  }
+  return keys;
+}
+
+export function unknownPlaceholders(template: string): string[] {
+  return extractPlaceholders(template).filter((key) => !KNOWN_KEYS.has(key));
+}
+
+/** Known placeholders used by any of the templates, in PLACEHOLDERS order (drives the form) */
+export function usedPlaceholders(templates: string[]): PlaceholderKey[] {
+  const used = new Set(templates.flatMap(extractPlaceholders));
+  return PLACEHOLDERS.map((p) => p.key).filter((key) => used.has(key));
+}
+
+/** "2025-02-14" → "February 14, 2025" in the given locale; other text is kept as typed */
+export function formatPlaceholderDate(value: string, locale?: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return value;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(date);
+}
+
+/**
+ * Fill placeholders. A blank {name} falls back to "friend"; other blank placeholders are
+ * left as {token} so the message shows what still needs filling in.
+ */
+export function personalize(template: string, values: PlaceholderValues, locale?: string): string {
+  return template.replace(PLACEHOLDER_PATTERN, (token, key: string) => {
+    if (!KNOWN_KEYS.has(key)) return token;
+    const value = values[key as PlaceholderKey]?.trim() ?? '';
+    if (key === 'name') return value || DEFAULT_NAME_FALLBACK;
+    if (!value) return token;
+    return key === 'date' ? formatPlaceholderDate(value, locale) : value;
+  });
+}
+
+/** Error message for a template, or null if it can be saved */
+export function validateTemplate(text: string): string | null {
+  if (!text.trim()) return 'Write a message first';
+  if (text.length > TEMPLATE_MAX_LENGTH) return `Keep templates under ${TEMPLATE_MAX_LENGTH} characters`;
+  const unknown = unknownPlaceholders(text);
+  if (unknown.length > 0) {
+    const known = PLACEHOLDERS.map((p) => `{${p.key}}`).join(', ');
+    return `Unknown placeholder${unknown.length === 1 ? '' : 's'} ${unknown.map((k) => `{${k}}`).join(', ')}. Use ${known}`;
+  }
+  return null;
+}
+
+// ============================================================
+// Pack Helpers
+// ============================================================
+
+function emptyTemplates(): Record<GreetingTone, string[]> {
+  return { formal: [], casual: [], funny: [] };
+}
+
+function hasTemplates(occasion: GreetingOccasion): boolean {
+  return GREETING_TONES.some((tone) => occasion.templates[tone].length > 0);
+}
+
+export function countTemplates(pack: GreetingPack): number {
+  return pack.categories.reduce(
+    (sum, c) => sum + c.occasions.reduce((n, o) => n + GREETING_TONES.reduce((t, tone) => t + o.templates[tone].length, 0), 0),
+    0
+  );
+}
+
+export function findOccasion(pack: GreetingPack, occasionId: string): GreetingOccasion | undefined {
+  for (const category of pack.categories) {
+    const found = category.occasions.find((o) => o.id === occasionId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Custom templates for an occasion + tone */
+export function customTemplatesFor(pack: GreetingPack, occasionId: string, tone: GreetingTone): string[] {
+  return findOccasion(pack, occasionId)?.templates[tone] ?? [];
+}
+
+/**
+ * Bundled data plus custom templates. Custom templates come first in each tone;
+ * categories and occasions only the custom pack has are appended.
+ */
+export function mergeTemplatePacks(base: GreetingPack, custom: GreetingPack): GreetingPack {
+  const categories = base.categories.map((category) => ({
+    ...category,
+    occasions: category.occasions.map((occasion) => {
+      const extra = findOccasion(custom, occasion.id);
+      if (!extra) return occasion;
+      const templates = emptyTemplates();
+      for (const tone of GREETING_TONES) templates[tone] = [...extra.templates[tone], ...occasion.templates[tone]];
+      return { ...occasion, templates };
+    }),
+  }));
+
+  for (const category of custom.categories) {
+    const fresh = category.occasions.filter((o) => !findOccasion(base, o.id));
+    if (fresh.length === 0) continue;
+    const existing = categories.find((c) => c.id === category.id);
+    if (existing) existing.occasions = [...existing.occasions, ...fresh];
+    else categories.push({ ...category, occasions: fresh });
+  }
+  return { categories };
+}
+
+/** Apply `edit` to the target's template list, creating the category/occasion from `base` if needed */
+function editTemplates(
+  pack: GreetingPack,
+  base: GreetingPack,
+  target: TemplateTarget,
+  edit: (templates: string[]) => string[]
+): GreetingPack {
+  // An occasion already in the pack stays in its category
+  const categoryId =
+    pack.categories.find((c) => c.occasions.some((o) => o.id === target.occasionId))?.id ?? target.categoryId;
+  const baseCategory = base.categories.find((c) => c.id === categoryId);
+  const baseOccasion = findOccasion(base, target.occasionId);
+
+  let categories = pack.categories;
+  if (!categories.some((c) => c.id === categoryId)) {
+    categories = [...categories, { id: categoryId, label: baseCategory?.label ?? categoryId, occasions: [] }];
+  }
+
+  categories = categories.map((category) => {
+    if (category.id !== categoryId) return category;
+    let occasions = category.occasions;
+    if (!occasions.some((o) => o.id === target.occasionId)) {
+      occasions = [...occasions, {
+        id: target.occasionId,
+        label: baseOccasion?.label ?? target.occasionId,
+        emoji: baseOccasion?.emoji ?? '',
+        templates: emptyTemplates(),
+      }];
+    }
+    occasions = occasions
+      .map((o) => (o.id === target.occasionId ? { ...o, templates: { ...o.templates, [target.tone]: edit(o.templates[target.tone]) } } : o))
+      .filter(hasTemplates);
+    return { ...category, occasions };
+  });
+
+  return { categories: categories.filter((c) => c.occasions.length > 0) };
+}
+
+export function addCustomTemplate(pack: GreetingPack, base: GreetingPack, target: TemplateTarget, text: string): GreetingPack {
+  return editTemplates(pack, base, target, (templates) => [...templates, text.trim()]);
+}
+
+export function updateCustomTemplate(
+  pack: GreetingPack,
+  base: GreetingPack,
+  target: TemplateTarget,
+  index: number,
+  text: string
+): GreetingPack {
+  return editTemplates(pack, base, target, (templates) => templates.map((t, i) => (i === index ? text.trim() : t)));
+}
+
+/** Empty occasions and categories are pruned */
+export function removeCustomTemplate(pack: GreetingPack, base: GreetingPack, target: TemplateTarget, index: number): GreetingPack {
+  return editTemplates(pack, base, target, (templates) => templates.filter((_, i) => i !== index));
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+/**
+ * Coerce raw pack data into a valid pack. Templates that are empty, too long, repeated or
+ * use unknown placeholders are dropped and counted. Returns null if it isn't a pack at all.
+ */
+function sanitizePack(data: unknown): { pack: GreetingPack; skipped: number } | null {
+  const raw = data as { categories?: unknown } | null;
+  if (!raw || !Array.isArray(raw.categories)) return null;
+
+  let skipped = 0;
+  const categories: GreetingCategory[] = [];
+  for (const c of raw.categories as Partial<GreetingCategory>[]) {
+    if (!c || !isId(c.id) || !Array.isArray(c.occasions)) continue;
+    const occasions: GreetingOccasion[] = [];
+    for (const o of c.occasions as Partial<GreetingOccasion>[]) {
+      if (!o || !isId(o.id) || typeof o.templates !== 'object' || o.templates === null) continue;
+      const templates = emptyTemplates();
+      for (const tone of GREETING_TONES) {
+        const list = (o.templates as Partial<Record<GreetingTone, unknown>>)[tone];
+        if (!Array.isArray(list)) continue;
+        for (const text of list) {
+          if (typeof text !== 'string' || validateTemplate(text) || templates[tone].includes(text.trim())) {
+            skipped++;
+            continue;
+          }
+          templates[tone].push(text.trim());
+        }
+      }
+      occasions.push({
+        id: o.id,
+        label: typeof o.label === 'string' && o.label.trim() ? o.label.trim() : o.id,
+        emoji: typeof o.emoji === 'string' ? o.emoji : '',
+        templates,
+      });
+    }
+    categories.push({ id: c.id, label: typeof c.label === 'string' && c.label.trim() ? c.label.trim() : c.id, occasions });
+  }
+  return { pack: { categories }, skipped };
+}
+
+// ============================================================
+// Storage
+// ============================================================
+
+export const EMPTY_TEMPLATE_PACK: GreetingPack = { categories: [] };
+
+/** Saved custom templates. Corrupt, unreadable or newer-version storage reads as empty. */
+export function loadTemplatePack(storage: Pick<Storage, 'getItem'>): GreetingPack {
+  try {
+    const data = JSON.parse(storage.getItem(TEMPLATE_STORAGE_KEY) ?? 'null') as { version?: unknown } | null;
+    if (!data || data.version !== TEMPLATE_PACK_VERSION) return EMPTY_TEMPLATE_PACK;
+    return sanitizePack(data)?.pack ?? EMPTY_TEMPLATE_PACK;
+  } catch {
+    return EMPTY_TEMPLATE_PACK;
+  }
+}
+
+export function saveTemplatePack(storage: Pick<Storage, 'setItem'>, pack: GreetingPack): void {
+  const file: TemplatePackFile = { version: TEMPLATE_PACK_VERSION, ...pack };
+  try {
+    storage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(file));
+  } catch {
+    // Quota exceeded or storage disabled — the user can still export their pack
+  }
+}
+
+// ============================================================
+// Import / Export
+// ============================================================
+
+export function exportTemplatePack(pack: GreetingPack): string {
+  const file: TemplatePackFile = { version: TEMPLATE_PACK_VERSION, ...pack };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Merge a pack file into the current custom templates. Accepts an export from this tool or
+ * any file in the greetings.json shape (no version). Templates already present are skipped.
+ */
+export function importTemplatePack(json: string, current: GreetingPack): TemplateImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "This file isn't valid JSON" };
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > TEMPLATE_PACK_VERSION) {
+    return { ok: false, error: 'This file was exported by a newer version of the tool' };
+  }
+
+  const imported = sanitizePack(data);
+  if (!imported) return { ok: false, error: "This file isn't a greeting template pack" };
+
+  let pack = current;
+  let added = 0;
+  let skipped = imported.skipped;
+  let total = countTemplates(current);
+  for (const category of imported.pack.categories) {
+    for (const occasion of category.occasions) {
+      for (const tone of GREETING_TONES) {
+        for (const text of occasion.templates[tone]) {
+          if (customTemplatesFor(pack, occasion.id, tone).includes(text) || total >= MAX_CUSTOM_TEMPLATES) {
+            skipped++;
+            continue;
+          }
+          // The imported category/occasion supplies labels for ones this browser hasn't seen
+          pack = addCustomTemplate(pack, imported.pack, { categoryId: category.id, occasionId: occasion.id, tone }, text);
+          added++;
+          total++;
+        }
+      }
+    }
+  }
+  return { ok: true, pack, added, skipped };
+}
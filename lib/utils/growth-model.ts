@@ -3,43 +3,100 @@
 // No React imports — testable in isolation
 
 import { type NicheData } from '@/lib/data/niche-data';
+import { parseCSV } from '@/lib/utils/csv';
+import {
+  sampleLogNormal,
+  percentileBand,
+  resolveSimulation,
+  type PercentileBand,
+  type SimulationOptions,
+} from '@/lib/utils/random';
 
 // ============================================================
 // Types
 // ============================================================
 
+export type ProjectionStep = 'month' | 'week';
+
+export type GrowthEventType = 'injection' | 'boost' | 'frequency';
+
+// Dated campaign events. `month` is the month they start in: 1 = the first projected month
+export type GrowthEvent =
+  | { type: 'injection'; month: number; followers: number; label?: string } // shoutout, giveaway
+  | { type: 'boost'; month: number; percent: number; halfLifeMonths: number; label?: string } // ad burst, viral post
+  | { type: 'frequency'; month: number; postsPerWeek: number; label?: string }; // new schedule from then on
+
 export interface GrowthInputs {
   followers: number;
   postsPerWeek: number;
   engagementRate: number; // percentage (e.g., 8 = 8%)
   niche: NicheData;
+  horizonMonths?: number; // 12-36, default 12
+  step?: ProjectionStep; // default 'month'
+  events?: GrowthEvent[];
 }
 
 export interface MonthProjection {
-  month: number; // 1-12
+  month: number; // months from now (1-36); fractional for weekly steps
+  week?: number; // weekly steps only (1-156)
   conservative: number;
   expected: number;
   optimistic: number;
+  // Follower flow in the expected scenario during this step: netGrowth = grossAdds - churned
+  grossAdds: number; // new followers, including any injected by events
+  churned: number; // unfollows
+  netGrowth: number; // change in expected followers
+  baseline?: number; // expected without the events; only set when there are events
 }
 
 export interface GrowthProjections {
-  monthly: MonthProjection[];
+  horizonMonths: number;
+  step: ProjectionStep;
+  monthly: MonthProjection[]; // one entry per step
+  events: GrowthEvent[]; // valid events inside the horizon, by month
   summary: {
+    // at the end of the horizon
     conservative: number;
     expected: number;
     optimistic: number;
+    baseline?: number;
   };
 }
 
 export interface Milestone {
   target: number;
   label: string;
-  monthConservative: number | null; // null = not reachable in 12 months
+  // Months from now, fractional for weekly steps. Months past the projection horizon
+  // are estimated by running the model on; null = not reachable within 10 years
+  monthConservative: number | null;
   monthExpected: number | null;
   monthOptimistic: number | null;
   revenueEstimate: number;
 }
 
+export interface SimulatedPeriod extends PercentileBand {
+  month: number; // as in MonthProjection
+  week?: number;
+}
+
+export interface MilestoneChance {
+  target: number;
+  label: string;
+  probability: number; // 0-1, share of runs that reach the target within the horizon
+  medianMonth: number | null; // when half the runs have reached it; null = under 50% chance
+}
+
+export interface GrowthSimulation {
+  runs: number;
+  seed: string;
+  horizonMonths: number;
+  step: ProjectionStep;
+  periods: SimulatedPeriod[]; // one per step, followers across runs
+  summary: PercentileBand; // followers at the end of the horizon
+  revenue: PercentileBand; // monthly revenue at the end, conversion rate sampled per run
+  milestones: MilestoneChance[];
+}
+
 export type BenchmarkLabel =
   | 'Top 5%'
   | 'Top 15%'
@@ -54,6 +111,48 @@ export interface BenchmarkResult {
   frequencyVsNiche: number; // ratio
 }
 
+export interface HistoryPoint {
+  date: string; // YYYY-MM-DD
+  followers: number;
+}
+
+export interface FollowerHistory {
+  points: HistoryPoint[]; // sorted by date, one per day
+  errors: { line: number; message: string }[];
+}
+
+export interface FittedPoint extends HistoryPoint {
+  month: number; // months before the last data point (≤ 0)
+  fitted: number;
+}
+
+export interface CalibratedMonth {
+  month: number; // months after the last data point
+  expected: number;
+  lower: number; // 95% prediction band
+  upper: number;
+  nicheDefault: number; // uncalibrated model, started from the last actual count
+}
+
+export interface GrowthCalibration {
+  rate: number; // fitted monthly net growth rate before dampening (the history already includes unfollows)
+  capacity: number;
+  capacityFitted: boolean; // false = too little history, held at the niche capacity
+  currentRate: number; // fitted rate at the last actual count
+  nicheCurrentRate: number; // the uncalibrated model's net rate at that count, after churn
+  fit: {
+    rSquared: number; // on follower counts
+    rmse: number; // followers
+    mape: number; // percentage
+  };
+  history: FittedPoint[];
+  projection: CalibratedMonth[];
+}
+
+export type CalibrationResult =
+  | { ok: true; calibration: GrowthCalibration }
+  | { ok: false; error: string };
+
 // ============================================================
 // Core Growth Formula
 // ============================================================
@@ -70,6 +169,7 @@ const SCENARIO_MULTIPLIERS = {
 
 /**
  * Calculate effective monthly growth rate with logistic dampening.
+ * This is gross growth, before unfollows (see calculateChurnRate).
  * Returns a rate (e.g., 0.075 = 7.5% growth).
  */
 export function calculateEffectiveRate(
@@ -87,62 +187,278 @@ export function calculateEffectiveRate(
   return monthlyGrowth * dampeningFactor;
 }
 
+// Posting pace with the niche's base churn; either side of it raises unfollows
+export const HEALTHY_POSTS_PER_WEEK = { min: 3, max: 7 } as const;
+const UNDER_POSTING_CHURN_PER_POST = 0.35; // per weekly post below the range: followers forget the channel
+const OVER_POSTING_CHURN_PER_POST = 0.1; // per weekly post above it: notification fatigue
+const MAX_CHURN_MULT = 2.5;
+
+/**
+ * Monthly share of followers who unfollow (e.g., 0.012 = 1.2%). The niche sets the base,
+ * posting outside 3-7 a week raises it, up to 2.5x. Not dampened: big channels lose
+ * followers as easily as small ones, so growth near capacity can turn negative.
+ */
+export function calculateChurnRate(postsPerWeek: number, niche: NicheData): number {
+  const { min, max } = HEALTHY_POSTS_PER_WEEK;
+  let mult = 1;
+  if (postsPerWeek < min) mult += (min - postsPerWeek) * UNDER_POSTING_CHURN_PER_POST;
+  else if (postsPerWeek > max) mult += (postsPerWeek - max) * OVER_POSTING_CHURN_PER_POST;
+  return (niche.churnRate / 100) * Math.min(mult, MAX_CHURN_MULT);
+}
+
 // ============================================================
-// Projections (12 months, iterative)
+// Projections (12-36 months, monthly or weekly steps, iterative)
 // ============================================================
 
+export const DEFAULT_HORIZON_MONTHS = 12;
+export const HORIZON_OPTIONS = [12, 24, 36];
+const MIN_HORIZON_MONTHS = 12;
+const MAX_HORIZON_MONTHS = 36;
+
+export const PROJECTION_STEPS: ProjectionStep[] = ['month', 'week'];
+export const WEEKS_PER_MONTH = 52 / 12;
+
+type Scenario = keyof typeof SCENARIO_MULTIPLIERS;
+const SCENARIOS = Object.keys(SCENARIO_MULTIPLIERS) as Scenario[];
+
+/** Horizon clamped to 12-36 whole months, and how many steps fit in a month */
+function resolveHorizon(inputs: GrowthInputs) {
+  const horizonMonths = Math.round(
+    Math.min(Math.max(inputs.horizonMonths ?? DEFAULT_HORIZON_MONTHS, MIN_HORIZON_MONTHS), MAX_HORIZON_MONTHS)
+  );
+  const step: ProjectionStep = inputs.step === 'week' ? 'week' : 'month';
+  const stepsPerMonth = step === 'week' ? WEEKS_PER_MONTH : 1;
+  return { horizonMonths, step, stepsPerMonth, steps: Math.round(horizonMonths * stepsPerMonth) };
+}
+
+/** What the events change during one step */
+interface StepEffect {
+  injected: number; // followers added at the start of the step
+  rateMult: number; // 1 + decayed boosts
+  postsPerWeek: number;
+}
+
 /**
- * Calculate 12-month projections with 3 scenarios.
- * Iterative: recalculates dampening each month as followers grow.
+ * Advance one step at the net rate (gross growth × scenario, minus churn). Weekly steps
+ * compound the month's net rate over a week, so four and a third weeks at a fixed count
+ * match one monthly step. `churned` is what the churn costs against gross-only growth.
+ */
+function stepFollowers(
+  followers: number,
+  inputs: GrowthInputs,
+  scenario: Scenario,
+  stepsPerMonth: number,
+  effect: StepEffect
+): { followers: number; churned: number } {
+  const start = followers + effect.injected;
+  const gross =
+    calculateEffectiveRate(start, inputs.engagementRate, effect.postsPerWeek, inputs.niche) *
+    effect.rateMult *
+    SCENARIO_MULTIPLIERS[scenario];
+  const churn = calculateChurnRate(effect.postsPerWeek, inputs.niche);
+  const next = start * Math.pow(1 + gross - churn, 1 / stepsPerMonth);
+  return { followers: next, churned: start * Math.pow(1 + gross, 1 / stepsPerMonth) - next };
+}
+
+function projectionPoint(index: number, step: ProjectionStep): Pick<MonthProjection, 'month' | 'week'> {
+  return step === 'week' ? { month: index / WEEKS_PER_MONTH, week: index } : { month: index };
+}
+
+// ============================================================
+// Events (shoutouts, paid promos, viral spikes, schedule changes)
+// ============================================================
+
+export const GROWTH_EVENT_TYPES: GrowthEventType[] = ['injection', 'boost', 'frequency'];
+export const GROWTH_EVENT_LABELS: Record<GrowthEventType, string> = {
+  injection: 'Shoutout / promo',
+  boost: 'Growth boost',
+  frequency: 'Schedule change',
+};
+export const MAX_GROWTH_EVENTS = 10;
+const MAX_EVENT_FOLLOWERS = 10_000_000;
+const MAX_BOOST_PERCENT = 1000;
+const MAX_POSTS_PER_WEEK = 50;
+
+/** The step the event's month starts in: step N for monthly, week 5 for month 2 */
+function eventStepIndex(month: number, stepsPerMonth: number): number {
+  return Math.floor((month - 1) * stepsPerMonth + 1e-9) + 1;
+}
+
+/** Chart position of an event — the step it first affects */
+export function eventPoint(event: GrowthEvent, step: ProjectionStep): Pick<MonthProjection, 'month' | 'week'> {
+  return projectionPoint(eventStepIndex(event.month, step === 'week' ? WEEKS_PER_MONTH : 1), step);
+}
+
+/**
+ * Drop events that can't apply (bad numbers, past the last month) and sort by month.
+ * Same-month events keep their order, so the later frequency change wins.
+ */
+export function normalizeGrowthEvents(events: GrowthEvent[] | undefined, maxMonth: number): GrowthEvent[] {
+  const valid = (events ?? []).filter((e) => {
+    if (!Number.isInteger(e.month) || e.month < 1 || e.month > maxMonth) return false;
+    switch (e.type) {
+      case 'injection':
+        return Number.isFinite(e.followers) && e.followers > 0 && e.followers <= MAX_EVENT_FOLLOWERS;
+      case 'boost':
+        return (
+          Number.isFinite(e.percent) && e.percent > 0 && e.percent <= MAX_BOOST_PERCENT &&
+          Number.isFinite(e.halfLifeMonths) && e.halfLifeMonths > 0
+        );
+      case 'frequency':
+        return Number.isFinite(e.postsPerWeek) && e.postsPerWeek >= 0 && e.postsPerWeek <= MAX_POSTS_PER_WEEK;
+      default:
+        return false;
+    }
+  });
+  return valid.slice(0, MAX_GROWTH_EVENTS).sort((a, b) => a.month - b.month);
+}
+
+/**
+ * Per-step effects of the events over `steps` steps. A boost adds `percent`% to the growth
+ * rate in its first step and halves every `halfLifeMonths`; boosts stack.
+ */
+function eventSchedule(inputs: GrowthInputs, events: GrowthEvent[], steps: number, stepsPerMonth: number): StepEffect[] {
+  const schedule: StepEffect[] = Array.from({ length: steps }, () => ({
+    injected: 0,
+    rateMult: 1,
+    postsPerWeek: inputs.postsPerWeek,
+  }));
+  for (const event of events) {
+    const first = eventStepIndex(event.month, stepsPerMonth);
+    for (let i = first; i <= steps; i++) {
+      const effect = schedule[i - 1];
+      if (event.type === 'injection') {
+        effect.injected += i === first ? event.followers : 0;
+      } else if (event.type === 'boost') {
+        const age = (i - first) / stepsPerMonth;
+        effect.rateMult += (event.percent / 100) * Math.pow(0.5, age / event.halfLifeMonths);
+      } else {
+        effect.postsPerWeek = event.postsPerWeek;
+      }
+    }
+  }
+  return schedule;
+}
+
+/** "+2,000 followers", "+150% growth, halving every 1 mo", "3 posts/week" */
+export function describeGrowthEvent(event: GrowthEvent): string {
+  switch (event.type) {
+    case 'injection':
+      return `+${formatCommaNumber(event.followers)} followers`;
+    case 'boost':
+      return `+${event.percent}% growth, halving every ${event.halfLifeMonths} mo`;
+    case 'frequency':
+      return `${event.postsPerWeek} posts/week`;
+  }
+}
+
+/**
+ * Calculate projections with 3 scenarios over the chosen horizon and step.
+ * Iterative: recalculates dampening each step as followers grow. Counts are
+ * carried unrounded so small weekly gains aren't lost, and rounded per entry.
  */
 export function calculateProjections(inputs: GrowthInputs): GrowthProjections {
-  const { followers: startFollowers, engagementRate, postsPerWeek, niche } = inputs;
+  const { horizonMonths, step, stepsPerMonth, steps } = resolveHorizon(inputs);
+  const events = normalizeGrowthEvents(inputs.events, horizonMonths);
+  const schedule = eventSchedule(inputs, events, steps, stepsPerMonth);
+  const baseline = events.length > 0 ? calculateProjections({ ...inputs, events: [] }).monthly : null;
 
   // Seed at 50 if followers = 0
-  const seedFollowers = startFollowers === 0 ? 50 : startFollowers;
+  const seedFollowers = inputs.followers === 0 ? 50 : inputs.followers;
 
   const monthly: MonthProjection[] = [];
-  let conservative = seedFollowers;
-  let expected = seedFollowers;
-  let optimistic = seedFollowers;
-
-  for (let month = 1; month <= 12; month++) {
-    // Calculate rate for each scenario using current follower count
-    const rateConservative =
-      calculateEffectiveRate(conservative, engagementRate, postsPerWeek, niche) *
-      SCENARIO_MULTIPLIERS.conservative;
-    const rateExpected =
-      calculateEffectiveRate(expected, engagementRate, postsPerWeek, niche) *
-      SCENARIO_MULTIPLIERS.expected;
-    const rateOptimistic =
-      calculateEffectiveRate(optimistic, engagementRate, postsPerWeek, niche) *
-      SCENARIO_MULTIPLIERS.optimistic;
-
-    conservative = Math.round(conservative * (1 + rateConservative));
-    expected = Math.round(expected * (1 + rateExpected));
-    optimistic = Math.round(optimistic * (1 + rateOptimistic));
-
-    monthly.push({ month, conservative, expected, optimistic });
+  const current: Record<Scenario, number> = {
+    conservative: seedFollowers,
+    expected: seedFollowers,
+    optimistic: seedFollowers,
+  };
+
+  let previousExpected = Math.round(seedFollowers);
+  for (let i = 1; i <= steps; i++) {
+    let churned = 0;
+    for (const scenario of SCENARIOS) {
+      const next = stepFollowers(current[scenario], inputs, scenario, stepsPerMonth, schedule[i - 1]);
+      current[scenario] = next.followers;
+      if (scenario === 'expected') churned = Math.round(next.churned);
+    }
+    // Net growth comes from the rounded counts so the flow always adds up to what's shown
+    const expected = Math.round(current.expected);
+    const netGrowth = expected - previousExpected;
+    previousExpected = expected;
+    monthly.push({
+      ...projectionPoint(i, step),
+      conservative: Math.round(current.conservative),
+      expected,
+      optimistic: Math.round(current.optimistic),
+      grossAdds: netGrowth + churned,
+      churned,
+      netGrowth,
+      ...(baseline && { baseline: baseline[i - 1].expected }),
+    });
   }
 
+  const last = monthly[monthly.length - 1];
   return {
+    horizonMonths,
+    step,
     monthly,
+    events,
     summary: {
-      conservative: monthly[11].conservative,
-      expected: monthly[11].expected,
-      optimistic: monthly[11].optimistic,
+      conservative: last.conservative,
+      expected: last.expected,
+      optimistic: last.optimistic,
+      ...(last.baseline !== undefined && { baseline: last.baseline }),
     },
   };
 }
 
+/** "M14" or "W61" — short label for chart axes */
+export function formatProjectionStep(m: Pick<MonthProjection, 'month' | 'week'>): string {
+  return m.week !== undefined ? `W${m.week}` : `M${m.month}`;
+}
+
+/** "Month 14" or "Week 61" for a (possibly fractional) month count */
+export function formatProjectionTime(month: number, step: ProjectionStep): string {
+  return step === 'week' ? `Week ${Math.round(month * WEEKS_PER_MONTH)}` : `Month ${month}`;
+}
+
 // ============================================================
 // Milestones
 // ============================================================
 
 const MILESTONE_TARGETS = [10_000, 50_000, 100_000, 500_000, 1_000_000];
+const MILESTONE_ESTIMATE_MONTHS = 120;
+
+/**
+ * When a scenario reaches the target: from the projections when it's inside the horizon,
+ * otherwise by stepping the same model on past it — the same answer a longer horizon gives.
+ */
+function milestoneMonth(
+  inputs: GrowthInputs,
+  projections: GrowthProjections,
+  scenario: Scenario,
+  target: number
+): number | null {
+  const reached = projections.monthly.find((m) => m[scenario] >= target);
+  if (reached) return reached.month;
+
+  const stepsPerMonth = projections.step === 'week' ? WEEKS_PER_MONTH : 1;
+  const maxSteps = Math.round(MILESTONE_ESTIMATE_MONTHS * stepsPerMonth);
+  // Events past the horizon aren't shown, so they don't move the estimate either
+  const schedule = eventSchedule(inputs, projections.events, maxSteps, stepsPerMonth);
+  // Replay from the start: projections hold rounded counts, the steps carry unrounded ones
+  let followers = inputs.followers === 0 ? 50 : inputs.followers;
+  for (let i = 1; i <= maxSteps; i++) {
+    followers = stepFollowers(followers, inputs, scenario, stepsPerMonth, schedule[i - 1]).followers;
+    if (i > projections.monthly.length && Math.round(followers) >= target) {
+      return projectionPoint(i, projections.step).month;
+    }
+  }
+  return null;
+}
 
 /**
- * Calculate when each milestone is reached (month number) for each scenario.
+ * Calculate when each milestone is reached (in months) for each scenario.
  * Only returns milestones above the current follower count.
  */
 export function calculateMilestones(
@@ -152,12 +468,9 @@ export function calculateMilestones(
   const currentFollowers = inputs.followers === 0 ? 50 : inputs.followers;
 
   return MILESTONE_TARGETS.filter((target) => target > currentFollowers).map((target) => {
-    const monthConservative =
-      projections.monthly.find((m) => m.conservative >= target)?.month ?? null;
-    const monthExpected =
-      projections.monthly.find((m) => m.expected >= target)?.month ?? null;
-    const monthOptimistic =
-      projections.monthly.find((m) => m.optimistic >= target)?.month ?? null;
+    const monthConservative = milestoneMonth(inputs, projections, 'conservative', target);
+    const monthExpected = milestoneMonth(inputs, projections, 'expected', target);
+    const monthOptimistic = milestoneMonth(inputs, projections, 'optimistic', target);
 
     // Revenue at this milestone
     const revenueEstimate =
@@ -174,6 +487,84 @@ export function calculateMilestones(
   });
 }
 
+// ============================================================
+// Monte Carlo Simulation
+// ============================================================
+
+// Run-level spread of the growth rate: P10 / P90 land near the 0.6x / 1.5x scenarios
+const RATE_SIGMA = 0.36;
+// Uncertainty in how big the niche can get
+const CAPACITY_SIGMA = 0.3;
+// Month-to-month swings around a run's rate (a post that travels, a quiet month)
+const MONTHLY_SHOCK_SIGMA = 0.2;
+// Spread of the paid conversion rate around the niche figure
+const CONVERSION_SIGMA = 0.35;
+
+/**
+ * Seeded Monte Carlo version of calculateProjections. Each run draws its own growth-rate
+ * multiplier, niche capacity and conversion rate, plus a mean-preserving shock every step,
+ * then steps the same dampened model with the same events. Returns P10/P50/P90 followers per step and the
+ * chance of reaching each milestone within the horizon. The same seed gives the same result.
+ */
+export function simulateGrowth(inputs: GrowthInputs, options: SimulationOptions = {}): GrowthSimulation {
+  const { horizonMonths, step, stepsPerMonth, steps } = resolveHorizon(inputs);
+  const { runs, seed, rng } = resolveSimulation('growth', options);
+  const schedule = eventSchedule(inputs, normalizeGrowthEvents(inputs.events, horizonMonths), steps, stepsPerMonth);
+  const start = inputs.followers === 0 ? 50 : inputs.followers;
+  // Weekly shocks are larger so that a month of them swings as much as one monthly shock
+  const shockSigma = MONTHLY_SHOCK_SIGMA * Math.sqrt(stepsPerMonth);
+  const shockMean = Math.exp((shockSigma * shockSigma) / 2);
+
+  const draws = Array.from({ length: steps }, () => new Float64Array(runs));
+  const revenue = new Float64Array(runs);
+  const peaks = new Float64Array(runs);
+
+  for (let r = 0; r < runs; r++) {
+    const rateMult = sampleLogNormal(rng, RATE_SIGMA);
+    const niche = { ...inputs.niche, capacity: inputs.niche.capacity * sampleLogNormal(rng, CAPACITY_SIGMA) };
+    let followers = start;
+    let peak = start;
+    for (let i = 0; i < steps; i++) {
+      const shock = sampleLogNormal(rng, shockSigma) / shockMean;
+      const effect = schedule[i];
+      followers += effect.injected;
+      const gross =
+        calculateEffectiveRate(followers, inputs.engagementRate, effect.postsPerWeek, niche) *
+        effect.rateMult * rateMult * shock;
+      followers *= Math.pow(1 + gross - calculateChurnRate(effect.postsPerWeek, niche), 1 / stepsPerMonth);
+      draws[i][r] = followers;
+      peak = Math.max(peak, followers);
+    }
+    peaks[r] = peak;
+    const convRate = inputs.niche.convRate * sampleLogNormal(rng, CONVERSION_SIGMA);
+    revenue[r] = calculateMonetization(followers, { ...inputs.niche, convRate });
+  }
+
+  // Churn can pull a run back below a target it passed, so count the peak
+  const targets = MILESTONE_TARGETS.filter((target) => target > start);
+  const reachedBy = targets.map((target) => peaks.reduce((n, f) => n + (Math.round(f) >= target ? 1 : 0), 0));
+
+  const periods = draws.map((values, i) => ({ ...projectionPoint(i + 1, step), ...percentileBand(values) }));
+  const last = periods[periods.length - 1];
+  const milestones = targets.map((target, t) => ({
+    target,
+    label: formatFollowerCount(target),
+    probability: reachedBy[t] / runs,
+    medianMonth: periods.find((p) => p.p50 >= target)?.month ?? null,
+  }));
+
+  return {
+    runs,
+    seed,
+    horizonMonths,
+    step,
+    periods,
+    summary: { p10: last.p10, p50: last.p50, p90: last.p90 },
+    revenue: percentileBand(revenue),
+    milestones,
+  };
+}
+
 // ============================================================
 // Monetization
 // ============================================================
@@ -231,9 +622,23 @@ export interface Tip {
   priority: 'High Impact' | 'Medium' | 'Low';
 }
 
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
 export function generateTips(inputs: GrowthInputs): Tip[] {
   const tips: Tip[] = [];
   const { engagementRate, postsPerWeek, followers, niche } = inputs;
+  const { min: healthyMin, max: healthyMax } = HEALTHY_POSTS_PER_WEEK;
+  const churn = calculateChurnRate(postsPerWeek, niche);
+  const baseChurn = niche.churnRate / 100;
+  const gross = calculateEffectiveRate(followers === 0 ? 50 : followers, engagementRate, postsPerWeek, niche);
+
+  // Retention first: a channel that loses more than it gains needs this before anything else
+  if (gross < churn) {
+    tips.push({
+      text: `Unfollows (about ${formatPercent(churn)} a month) currently outpace new followers (${formatPercent(gross)}), so your channel is projected to shrink. Win back attention with a steady ${healthyMin}-${healthyMax} posts per week and content your audience reacts to.`,
+      priority: 'High Impact',
+    });
+  }
 
   if (engagementRate < niche.avgEngagement * 0.5) {
     tips.push({
@@ -249,11 +654,18 @@ export function generateTips(inputs: GrowthInputs): Tip[] {
 
   if (postsPerWeek < 3) {
     tips.push({
-      text: 'Posting fewer than 3 times per week limits your visibility. Aim for at least 3-5 posts per week to maintain audience attention.',
+      text: `Posting fewer than 3 times per week limits your visibility, and followers who forget your channel unfollow: about ${formatPercent(churn)} a month vs ${formatPercent(baseChurn)} at ${healthyMin}-${healthyMax} posts. Aim for at least 3-5 posts per week to maintain audience attention.`,
       priority: 'High Impact',
     });
   }
 
+  if (postsPerWeek > healthyMax) {
+    tips.push({
+      text: `At ${postsPerWeek} posts per week, notification fatigue raises unfollows to about ${formatPercent(churn)} a month, vs ${formatPercent(baseChurn)} at ${healthyMin}-${healthyMax} posts. Bundle smaller updates into fewer, richer posts.`,
+      priority: 'Medium',
+    });
+  }
+
   if (postsPerWeek > 10) {
     tips.push({
       text: 'High-frequency posting works best with automation. Tools like Make.com + WhatsScale can schedule and distribute content automatically.',
@@ -284,6 +696,325 @@ export function generateTips(inputs: GrowthInputs): Tip[] {
   return tips.slice(0, 4); // Max 4 tips
 }
 
+// ============================================================
+// Follower History
+// ============================================================
+
+export const MAX_HISTORY_POINTS = 1000;
+
+export const FOLLOWER_HISTORY_EXAMPLE = [
+  'date,followers',
+  '2025-01-01,1200',
+  '2025-02-01,1410',
+  '2025-03-01,1590',
+  '2025-04-01,1850',
+  '2025-05-01,2080',
+  '2025-06-01,2300',
+  '2025-07-01,2610',
+  '2025-08-01,2840',
+].join('\n');
+
+/** Plain digits, or digits grouped in threes: "12500", "12,500", "12.500", "12'500" */
+const HISTORY_COUNT = /^(?:\d+|\d{1,3}(?:[,.'_]\d{3})+)$/;
+const HISTORY_DATE = /^(\d{4})[-/](\d{1,2})(?:[-/](\d{1,2}))?/;
+
+/** "2025-03-07", "2025/3/7" or "2025-03" (first of the month) → "2025-03-07"; null if not a real day */
+function parseHistoryDate(value: string): string | null {
+  const match = HISTORY_DATE.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 1)];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a pasted or uploaded history: one "date,followers" row per count, header optional.
+ * Thousands separators are allowed in the count. A repeated date keeps the last row.
+ */
+export function parseFollowerHistory(text: string): FollowerHistory {
+  const rows = parseCSV(text);
+  const errors: FollowerHistory['errors'] = [];
+  const byDate = new Map<string, number>();
+
+  rows.slice(0, MAX_HISTORY_POINTS + 1).forEach((row, i) => {
+    const [dateCell = '', countCell = ''] = row.map((c) => c.trim());
+    const line = i + 1;
+    // Header row: a count column that isn't a number
+    if (i === 0 && !/\d/.test(countCell)) return;
+
+    const date = parseHistoryDate(dateCell);
+    if (!date) {
+      errors.push({ line, message: `"${dateCell}" is not a date — use YYYY-MM-DD` });
+      return;
+    }
+    const compact = countCell.replace(/\s/g, '');
+    const followers = HISTORY_COUNT.test(compact) ? Number(compact.replace(/\D/g, '')) : NaN;
+    if (!(followers > 0)) {
+      errors.push({ line, message: 'Followers must be a whole number above 0' });
+      return;
+    }
+    byDate.set(date, followers);
+  });
+
+  const points = Array.from(byDate, ([date, followers]) => ({ date, followers }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_HISTORY_POINTS);
+  return { points, errors };
+}
+
+// ============================================================
+// Calibration (least-squares fit to follower history)
+// ============================================================
+
+export const MIN_HISTORY_POINTS = 3;
+/** With fewer points the slowdown can't be told apart from noise, so capacity stays at the niche value */
+export const MIN_POINTS_FOR_CAPACITY = 6;
+
+const MS_PER_DAY = 86_400_000;
+const CALIBRATION_HORIZON = 12;
+
+/**
+ * Weight of the pull towards the niche capacity. Small enough that any visible slowdown in the
+ * data wins, but it decides when the history is a straight line and capacity can't be told.
+ */
+const CAPACITY_PRIOR_WEIGHT = 0.001;
+
+const RATE_BOUNDS = [-0.5, 3] as const;
+const LOG_CAPACITY_BOUNDS = [Math.log(1_000), Math.log(1e9)] as const;
+const MAX_ITERATIONS = 200;
+
+/** Two-sided 95% Student-t quantiles for 1–30 degrees of freedom; 1.96 beyond */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/** Fit parameters: log of the starting count, undampened rate, log of capacity */
+type Params = [number, number, number];
+
+/** An ISO day as months since year 0, spreading each month's days evenly: 1 Jan → 1 Feb is exactly 1 */
+function monthCoordinate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return year * 12 + (month - 1) + (day - 1) / daysInMonth;
+}
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, value));
+
+/**
+ * The projection model evaluated at fractional months: whole months step exactly like
+ * calculateProjections (rate × capacity / (capacity + followers)), the remainder compounds
+ * at that month's rate. Returns log followers at each time (times sorted ascending).
+ */
+function logCurve([logStart, rate, logCapacity]: Params, times: number[]): number[] {
+  const capacity = Math.exp(logCapacity);
+  let followers = Math.exp(logStart);
+  let month = 0;
+  return times.map((t) => {
+    while (month + 1 <= t) {
+      followers *= 1 + (rate * capacity) / (capacity + followers);
+      month++;
+    }
+    const step = 1 + (rate * capacity) / (capacity + followers);
+    return Math.log(followers) + (t - month) * Math.log(Math.max(step, 1e-9));
+  });
+}
+
+/** Solve A·x = b by Gaussian elimination with partial pivoting (A is small and square) */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-14) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+function normalMatrix(jacobian: number[][]): number[][] {
+  const p = jacobian[0].length;
+  return Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) => jacobian.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+}
+
+/** Forward-difference gradient of `fn` (one value per output) for each free parameter */
+function numericJacobian(fn: (params: Params) => number[], params: Params, free: number[]): number[][] {
+  const base = fn(params);
+  const columns = free.map((k) => {
+    const h = 1e-6 * (1 + Math.abs(params[k]));
+    const shifted = [...params] as Params;
+    shifted[k] += h;
+    const moved = fn(shifted);
+    return moved.map((v, i) => (v - base[i]) / h);
+  });
+  return base.map((_, i) => columns.map((col) => col[i]));
+}
+
+/**
+ * Fit the growth model to a follower history and project it forward.
+ *
+ * Least squares on log followers (so a 5% miss counts the same at 1K and 100K), solved with
+ * Levenberg–Marquardt over the starting count, the undampened monthly rate and — given at
+ * least MIN_POINTS_FOR_CAPACITY points — the capacity. The 95% band combines parameter
+ * uncertainty (delta method on the fit covariance) with the scatter of the history around
+ * the curve, using Student-t quantiles so short histories get honest, wide bands.
+ */
+export function calibrateGrowthModel(points: HistoryPoint[], inputs: GrowthInputs): CalibrationResult {
+  if (points.length < MIN_HISTORY_POINTS) {
+    return { ok: false, error: `Add at least ${MIN_HISTORY_POINTS} dated follower counts` };
+  }
+
+  const firstDay = Date.parse(points[0].date);
+  const lastDay = Date.parse(points[points.length - 1].date);
+  if (lastDay - firstDay < 7 * MS_PER_DAY) {
+    return { ok: false, error: 'History needs to cover at least a week' };
+  }
+
+  const origin = monthCoordinate(points[0].date);
+  const times = points.map((p) => monthCoordinate(p.date) - origin);
+  const logActual = points.map((p) => Math.log(p.followers));
+  const n = points.length;
+  const fitCapacity = n >= MIN_POINTS_FOR_CAPACITY;
+  const free = fitCapacity ? [0, 1, 2] : [0, 1];
+  const nicheLogCapacity = Math.log(inputs.niche.capacity);
+
+  // Residuals: model minus actual in log space, plus the capacity prior when capacity is free
+  const residuals = (params: Params) => {
+    const curve = logCurve(params, times);
+    const res = curve.map((v, i) => v - logActual[i]);
+    if (fitCapacity) res.push(CAPACITY_PRIOR_WEIGHT * (params[2] - nicheLogCapacity));
+    return res;
+  };
+  const ssr = (res: number[]) => res.reduce((sum, r) => sum + r * r, 0);
+
+  // Start from a log-linear trend, converted to an undampened rate at the average count
+  const meanT = times.reduce((a, b) => a + b, 0) / n;
+  const meanY = logActual.reduce((a, b) => a + b, 0) / n;
+  const slope =
+    times.reduce((sum, t, i) => sum + (t - meanT) * (logActual[i] - meanY), 0) /
+    times.reduce((sum, t) => sum + (t - meanT) ** 2, 0);
+  const meanFollowers = Math.exp(meanY);
+  const startDamping = inputs.niche.capacity / (inputs.niche.capacity + meanFollowers);
+  let params: Params = [
+    meanY - slope * meanT,
+    clamp(Math.expm1(slope) / startDamping, RATE_BOUNDS),
+    clamp(nicheLogCapacity, LOG_CAPACITY_BOUNDS),
+  ];
+
+  let current = ssr(residuals(params));
+  let lambda = 1e-3;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const res = residuals(params);
+    const jacobian = numericJacobian(residuals, params, free);
+    const jtj = normalMatrix(jacobian);
+    const jtr = free.map((_, k) => jacobian.reduce((sum, row, i) => sum + row[k] * res[i], 0));
+
+    let improved = false;
+    while (lambda < 1e10) {
+      const damped = jtj.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) + 1e-12 : v)));
+      const delta = solveLinear(damped, jtr.map((v) => -v));
+      if (!delta) {
+        lambda *= 10;
+        continue;
+      }
+      const next = [...params] as Params;
+      free.forEach((k, i) => (next[k] += delta[i]));
+      next[1] = clamp(next[1], RATE_BOUNDS);
+      next[2] = clamp(next[2], LOG_CAPACITY_BOUNDS);
+      const nextSsr = ssr(residuals(next));
+      if (nextSsr < current) {
+        const gain = current - nextSsr;
+        params = next;
+        current = nextSsr;
+        lambda = Math.max(lambda / 3, 1e-12);
+        improved = gain > 1e-12 * (1 + current);
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!improved) break;
+  }
+
+  // Goodness of fit on follower counts
+  const fittedLog = logCurve(params, times);
+  const fitted = fittedLog.map(Math.exp);
+  const meanActual = points.reduce((sum, p) => sum + p.followers, 0) / n;
+  const sse = points.reduce((sum, p, i) => sum + (p.followers - fitted[i]) ** 2, 0);
+  const sst = points.reduce((sum, p) => sum + (p.followers - meanActual) ** 2, 0);
+  const fit = {
+    rSquared: sst > 0 ? 1 - sse / sst : 1,
+    rmse: Math.sqrt(sse / n),
+    mape: (points.reduce((sum, p, i) => sum + Math.abs(p.followers - fitted[i]) / p.followers, 0) / n) * 100,
+  };
+
+  // Parameter covariance from the log-space fit (prior row included, data-only scatter)
+  const dof = n - free.length;
+  const logScatter = fittedLog.reduce((sum, v, i) => sum + (v - logActual[i]) ** 2, 0) / Math.max(dof, 1);
+  const jtj = normalMatrix(numericJacobian(residuals, params, free));
+  const covariance = free.map((_, i) => solveLinear(jtj, free.map((__, j) => (i === j ? 1 : 0))) ?? free.map(() => 0));
+  const tQuantile = dof <= T_95.length ? T_95[Math.max(dof, 1) - 1] : 1.96;
+
+  const lastT = times[n - 1];
+  const horizon = Array.from({ length: CALIBRATION_HORIZON }, (_, i) => lastT + i + 1);
+  const curveAt = (p: Params) => logCurve(p, horizon);
+  const expectedLog = curveAt(params);
+  const gradients = numericJacobian(curveAt, params, free);
+
+  const lastActual = points[n - 1].followers;
+  const nicheDefault = calculateProjections({
+    ...inputs,
+    followers: lastActual,
+    horizonMonths: CALIBRATION_HORIZON,
+    step: 'month',
+    events: [],
+  }).monthly;
+  const projection: CalibratedMonth[] = expectedLog.map((logValue, m) => {
+    const g = gradients[m];
+    const paramVariance = g.reduce((sum, gi, i) => sum + gi * g.reduce((s, gj, j) => s + covariance[i][j] * gj, 0), 0);
+    const spread = tQuantile * Math.sqrt(Math.max(0, logScatter * (paramVariance + 1)));
+    return {
+      month: m + 1,
+      expected: Math.round(Math.exp(logValue)),
+      lower: Math.round(Math.exp(logValue - spread)),
+      upper: Math.round(Math.exp(logValue + spread)),
+      nicheDefault: nicheDefault[m]?.expected ?? nicheDefault[nicheDefault.length - 1].expected,
+    };
+  });
+
+  const [, rate, logCapacity] = params;
+  const capacity = Math.exp(logCapacity);
+  return {
+    ok: true,
+    calibration: {
+      rate,
+      capacity: Math.round(capacity),
+      capacityFitted: fitCapacity,
+      currentRate: (rate * capacity) / (capacity + lastActual),
+      nicheCurrentRate:
+        calculateEffectiveRate(lastActual, inputs.engagementRate, inputs.postsPerWeek, inputs.niche) -
+        calculateChurnRate(inputs.postsPerWeek, inputs.niche),
+      fit,
+      history: points.map((p, i) => ({ ...p, month: times[i] - lastT, fitted: Math.round(fitted[i]) })),
+      projection,
+    },
+  };
+}
+
 // ============================================================
 // Helpers
 // ============================================================
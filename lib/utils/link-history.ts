@@ -0,0 +1,210 @@
+// lib/utils/link-history.ts
+// Link Generator history — saved links with pin/rename/duplicate, JSON import/export
+// No React imports — storage is passed in, so everything is testable in isolation
+//
+// Stored as { version, entries } so a future change to the entry shape can migrate old
+// data instead of dropping it: bump HISTORY_VERSION and add a step to HISTORY_MIGRATIONS.
+
+import { normalizeHex } from './qr-export';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface HistoryEntry {
+  id: string;
+  /** User-given name; empty shows the number */
+  label: string;
+  pinned: boolean;
+  /** ISO timestamp of the last generation */
+  createdAt: string;
+  /** Dial code without "+", e.g. "91" */
+  dial: string;
+  /** National number, digits only */
+  phone: string;
+  /** Message exactly as sent in the link (includes any campaign tag) */
+  message: string;
+  qrSize: number;
+  qrColor: string;
+  qrBackground: string;
+}
+
+export interface HistoryFile {
+  version: number;
+  entries: HistoryEntry[];
+}
+
+/** Upgrades the raw entries of version n to version n + 1 */
+export type HistoryMigration = (entries: unknown[]) => unknown[];
+
+export type HistoryImportResult =
+  | { ok: true; entries: HistoryEntry[]; added: number }
+  | { ok: false; error: string };
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const HISTORY_STORAGE_KEY = 'wa-link-history';
+export const HISTORY_VERSION = 1;
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** Keyed by the version they upgrade from. Empty until the entry shape first changes. */
+export const HISTORY_MIGRATIONS: Record<number, HistoryMigration> = {};
+
+const QR_SIZE_RANGE = { min: 100, max: 2000 };
+
+// ============================================================
+// Versioning
+// ============================================================
+
+/** Coerce a raw entry into a valid one, or null if it can't be used */
+function sanitizeEntry(value: unknown): HistoryEntry | null {
+  const e = value as Partial<HistoryEntry> | null;
+  if (!e || typeof e.id !== 'string' || typeof e.dial !== 'string' || typeof e.phone !== 'string') return null;
+  const size = Math.round(Number(e.qrSize));
+  return {
+    id: e.id,
+    label: typeof e.label === 'string' ? e.label : '',
+    pinned: e.pinned === true,
+    createdAt: typeof e.createdAt === 'string' ? e.createdAt : new Date(0).toISOString(),
+    dial: e.dial.replace(/\D/g, ''),
+    phone: e.phone.replace(/\D/g, ''),
+    message: typeof e.message === 'string' ? e.message : '',
+    qrSize: Number.isFinite(size) ? Math.min(QR_SIZE_RANGE.max, Math.max(QR_SIZE_RANGE.min, size)) : 300,
+    qrColor: normalizeHex(String(e.qrColor ?? '')) ?? '#000000',
+    qrBackground: normalizeHex(String(e.qrBackground ?? '')) ?? '#FFFFFF',
+  };
+}
+
+/**
+ * Bring stored or imported data up to HISTORY_VERSION.
+ * Returns null for data that isn't a history file or comes from a newer version.
+ */
+export function migrateHistory(
+  data: unknown,
+  migrations: Record<number, HistoryMigration> = HISTORY_MIGRATIONS,
+  targetVersion: number = HISTORY_VERSION
+): HistoryEntry[] | null {
+  const file = data as { version?: unknown; entries?: unknown } | null;
+  if (!file || typeof file.version !== 'number' || !Array.isArray(file.entries)) return null;
+  if (file.version > targetVersion) return null;
+
+  let entries: unknown[] = file.entries;
+  for (let v = file.version; v < targetVersion; v++) {
+    const step = migrations[v];
+    if (!step) return null;
+    entries = step(entries);
+  }
+  return entries.map(sanitizeEntry).filter((e): e is HistoryEntry => e !== null);
+}
+
+// ============================================================
+// Storage
+// ============================================================
+
+/** Saved entries, newest first. Corrupt or unreadable storage reads as empty. */
+export function loadHistory(storage: Pick<Storage, 'getItem'>): HistoryEntry[] {
+  try {
+    return migrateHistory(JSON.parse(storage.getItem(HISTORY_STORAGE_KEY) ?? 'null')) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(storage: Pick<Storage, 'setItem'>, entries: HistoryEntry[]): void {
+  const file: HistoryFile = { version: HISTORY_VERSION, entries };
+  try {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(file));
+  } catch {
+    // Quota exceeded or storage disabled — history is a convenience, not critical
+  }
+}
+
+// ============================================================
+// Entry Operations
+// ============================================================
+
+export function createHistoryId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Unpinned entries beyond MAX_HISTORY_ENTRIES drop off; pinned ones always stay */
+function capHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  let unpinned = 0;
+  return entries.filter((e) => e.pinned || ++unpinned <= MAX_HISTORY_ENTRIES);
+}
+
+function isSameLink(a: HistoryEntry, b: HistoryEntry): boolean {
+  return a.dial === b.dial && a.phone === b.phone && a.message === b.message;
+}
+
+/**
+ * Add an entry to the front. An entry with the same id (a re-opened link) or the same
+ * number + message is replaced and moved up, keeping its name and pin.
+ */
+export function addHistory(entries: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  const existing = entries.find((e) => e.id === entry.id) ?? entries.find((e) => isSameLink(e, entry));
+  const merged = existing ? { ...entry, id: existing.id, label: existing.label, pinned: existing.pinned } : entry;
+  return capHistory([merged, ...entries.filter((e) => e !== existing)]);
+}
+
+export function updateHistory(
+  entries: HistoryEntry[],
+  id: string,
+  patch: Partial<Pick<HistoryEntry, 'label' | 'pinned'>>
+): HistoryEntry[] {
+  return entries.map((e) => (e.id === id ? { ...e, ...patch } : e));
+}
+
+/** Copy placed right after the original, unpinned, so it can be edited separately */
+export function duplicateHistory(entries: HistoryEntry[], id: string, newId: string = createHistoryId()): HistoryEntry[] {
+  const index = entries.findIndex((e) => e.id === id);
+  if (index === -1) return entries;
+  const source = entries[index];
+  const copy: HistoryEntry = { ...source, id: newId, pinned: false, label: source.label ? `${source.label} (copy)` : '' };
+  return [...entries.slice(0, index + 1), copy, ...entries.slice(index + 1)];
+}
+
+export function removeHistory(entries: HistoryEntry[], id: string): HistoryEntry[] {
+  return entries.filter((e) => e.id !== id);
+}
+
+/** Pinned first, then newest first */
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+// ============================================================
+// Import / Export
+// ============================================================
+
+export function exportHistory(entries: HistoryEntry[]): string {
+  const file: HistoryFile = { version: HISTORY_VERSION, entries };
+  return JSON.stringify(file, null, 2);
+}
+
+/** Merge an exported file into the current history; entries already present (same id) are skipped */
+export function importHistory(json: string, current: HistoryEntry[]): HistoryImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "This file isn't valid JSON" };
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > HISTORY_VERSION) {
+    return { ok: false, error: 'This file was exported by a newer version of the tool' };
+  }
+
+  const imported = migrateHistory(data);
+  if (!imported) return { ok: false, error: "This file isn't a link history export" };
+
+  const ids = new Set(current.map((e) => e.id));
+  const fresh = imported.filter((e) => !ids.has(e.id));
+  const merged = [...current, ...fresh].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { ok: true, entries: capHistory(merged), added: fresh.length };
+}
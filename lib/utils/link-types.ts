@@ -0,0 +1,211 @@
+// lib/utils/link-types.ts
+// WhatsApp link formats beyond wa.me chat links — api.whatsapp.com, catalog, channel, group invite
+// No React imports — testable in isolation
+//
+// Builders take already-validated parts; parseWhatsAppLink goes the other way and splits
+// any supported URL back into its parts, validating them on the way.
+
+import { buildWaLink } from './wa-link';
+import { matchDialCode, parsePhone } from './phone';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type LinkType = 'chat' | 'api' | 'catalog' | 'channel' | 'group';
+
+/** Link split into parts. `dial` + `national` is the number; `message` is the ?text= value. */
+export type LinkParts =
+  | { type: 'chat' | 'api'; dial: string; national: string; message: string }
+  | { type: 'catalog'; dial: string; national: string }
+  | { type: 'channel'; id: string }
+  | { type: 'group'; code: string };
+
+export type LinkErrorReason =
+  | 'empty'
+  | 'not_whatsapp'
+  | 'unsupported'
+  | 'invalid_phone'
+  | 'invalid_channel'
+  | 'invalid_group';
+
+export type LinkParseResult =
+  | { ok: true; parts: LinkParts; url: string }
+  | { ok: false; reason: LinkErrorReason; message: string };
+
+export type InviteIdResult =
+  | { ok: true; value: string }
+  | { ok: false; reason: LinkErrorReason; message: string };
+
+export interface LinkTypeInfo {
+  value: LinkType;
+  label: string;
+  hint: string;
+  /** Phone-based types share the country + number fields */
+  usesPhone: boolean;
+  /** Only chat links can carry a pre-filled message */
+  usesMessage: boolean;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const LINK_TYPES: LinkTypeInfo[] = [
+  { value: 'chat', label: 'Chat', hint: 'wa.me/919876543210 — opens a chat with your number', usesPhone: true, usesMessage: true },
+  { value: 'api', label: 'API fallback', hint: 'api.whatsapp.com/send — for apps and email clients that block wa.me', usesPhone: true, usesMessage: true },
+  { value: 'catalog', label: 'Catalog', hint: 'wa.me/c/919876543210 — opens your WhatsApp Business catalog', usesPhone: true, usesMessage: false },
+  { value: 'channel', label: 'Channel', hint: 'whatsapp.com/channel/… — opens your channel to follow', usesPhone: false, usesMessage: false },
+  { value: 'group', label: 'Group invite', hint: 'chat.whatsapp.com/… — invites people to join a group', usesPhone: false, usesMessage: false },
+];
+
+/** Channel IDs are 24 characters today ("0029Va…"); allow some slack */
+const CHANNEL_ID = /^[A-Za-z0-9]{20,32}$/;
+/** Group invite codes are 22 characters today */
+const GROUP_CODE = /^[A-Za-z0-9]{20,24}$/;
+
+const ERROR_MESSAGES: Record<LinkErrorReason, string> = {
+  empty: 'Paste a WhatsApp link',
+  not_whatsapp: "That doesn't look like a WhatsApp link",
+  unsupported: "Short wa.me/message links are resolved by WhatsApp's servers, so they can't be split",
+  invalid_phone: "The link doesn't contain a valid phone number",
+  invalid_channel: 'Channel links look like whatsapp.com/channel/0029Va… (20–32 letters and numbers)',
+  invalid_group: 'Group invite links look like chat.whatsapp.com/AbC123… (20–24 letters and numbers)',
+};
+
+function fail(reason: LinkErrorReason, message = ERROR_MESSAGES[reason]): { ok: false; reason: LinkErrorReason; message: string } {
+  return { ok: false, reason, message };
+}
+
+// ============================================================
+// Link Building
+// ============================================================
+
+export function buildApiLink(dial: string, national: string, message = ''): string {
+  const base = `https://api.whatsapp.com/send?phone=${dial}${national}`;
+  return message ? `${base}&text=${encodeURIComponent(message)}` : base;
+}
+
+export function buildCatalogLink(dial: string, national: string): string {
+  return `https://wa.me/c/${dial}${national}`;
+}
+
+export function buildChannelLink(id: string): string {
+  return `https://whatsapp.com/channel/${id}`;
+}
+
+export function buildGroupLink(code: string): string {
+  return `https://chat.whatsapp.com/${code}`;
+}
+
+/** Canonical URL for a set of parts */
+export function buildLink(parts: LinkParts): string {
+  switch (parts.type) {
+    case 'chat':
+      return buildWaLink(parts.dial, parts.national, parts.message);
+    case 'api':
+      return buildApiLink(parts.dial, parts.national, parts.message);
+    case 'catalog':
+      return buildCatalogLink(parts.dial, parts.national);
+    case 'channel':
+      return buildChannelLink(parts.id);
+    case 'group':
+      return buildGroupLink(parts.code);
+  }
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/** A bare ID/code, or a full link of the expected type */
+function validateInvite(type: 'channel' | 'group', input: string, pattern: RegExp): InviteIdResult {
+  const raw = input.trim();
+  if (!raw) return fail('empty', type === 'channel' ? 'Enter your channel link or ID' : 'Enter your group invite link or code');
+  if (pattern.test(raw)) return { ok: true, value: raw };
+
+  const parsed = parseWhatsAppLink(raw);
+  if (parsed.ok && parsed.parts.type === 'channel' && type === 'channel') return { ok: true, value: parsed.parts.id };
+  if (parsed.ok && parsed.parts.type === 'group' && type === 'group') return { ok: true, value: parsed.parts.code };
+  return fail(type === 'channel' ? 'invalid_channel' : 'invalid_group');
+}
+
+export function validateChannelId(input: string): InviteIdResult {
+  return validateInvite('channel', input, CHANNEL_ID);
+}
+
+export function validateGroupCode(input: string): InviteIdResult {
+  return validateInvite('group', input, GROUP_CODE);
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/** International digits → dial + national, checked against the country's number rules */
+function splitPhone(raw: string | null | undefined): { dial: string; national: string } | LinkParseResult {
+  const digits = (raw ?? '').replace(/[^0-9]/g, '');
+  const match = digits ? matchDialCode(digits) : null;
+  if (!match) return fail('invalid_phone');
+  const result = parsePhone(match.national, match.country);
+  if (!result.ok) return fail('invalid_phone', `${ERROR_MESSAGES.invalid_phone}: ${result.message}`);
+  return { dial: result.dial, national: result.national };
+}
+
+function done(parts: LinkParts): LinkParseResult {
+  return { ok: true, parts, url: buildLink(parts) };
+}
+
+/**
+ * Split any supported WhatsApp URL into its parts. Accepts links without a scheme
+ * ("wa.me/91…") and the whatsapp://send deep link, which reads as an API link.
+ */
+export function parseWhatsAppLink(input: string): LinkParseResult {
+  const raw = input.trim();
+  if (!raw) return fail('empty');
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    return fail('not_whatsapp');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+  const text = url.searchParams.get('text') ?? '';
+
+  if (url.protocol === 'whatsapp:' && host === 'send') {
+    const phone = splitPhone(url.searchParams.get('phone'));
+    return 'ok' in phone ? phone : done({ type: 'api', ...phone, message: text });
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return fail('not_whatsapp');
+
+  switch (host) {
+    case 'wa.me': {
+      if (segments[0] === 'message') return fail('unsupported');
+      const catalog = segments[0] === 'c';
+      const phone = splitPhone(catalog ? segments[1] : segments[0]);
+      if ('ok' in phone) return phone;
+      return done(catalog ? { type: 'catalog', ...phone } : { type: 'chat', ...phone, message: text });
+    }
+    case 'api.whatsapp.com':
+    case 'web.whatsapp.com': {
+      if (segments[0] !== 'send') return fail('not_whatsapp');
+      const phone = splitPhone(url.searchParams.get('phone'));
+      return 'ok' in phone ? phone : done({ type: 'api', ...phone, message: text });
+    }
+    case 'whatsapp.com': {
+      if (segments[0] !== 'channel') return fail('not_whatsapp');
+      const id = segments[1] ?? '';
+      return CHANNEL_ID.test(id) ? done({ type: 'channel', id }) : fail('invalid_channel');
+    }
+    case 'chat.whatsapp.com': {
+      // Older invites use chat.whatsapp.com/invite/<code>
+      const code = segments[0] === 'invite' ? segments[1] ?? '' : segments[0] ?? '';
+      return GROUP_CODE.test(code) ? done({ type: 'group', code }) : fail('invalid_group');
+    }
+    default:
+      return fail('not_whatsapp');
+  }
+}
@@ -2,6 +2,14 @@
 // Pure math functions for Telegram to WhatsApp Migration Calculator (Tool #7)
 // No React imports — testable in isolation
 
+import {
+  sampleLogNormal,
+  percentileBand,
+  resolveSimulation,
+  type PercentileBand,
+  type SimulationOptions,
+} from '@/lib/utils/random';
+
 // ============================================================
 // Types
 // ============================================================
@@ -33,6 +41,25 @@ export interface MigrationTimeline {
   };
 }
 
+export interface SimulatedWeek extends PercentileBand {
+  week: number; // cumulative WA followers across runs
+}
+
+export interface MilestoneOdds {
+  probability: number; // 0-1, share of runs that get there within the timeline
+  medianWeek: number | null; // when half the runs have; null = under 50% chance
+}
+
+export interface MigrationSimulation {
+  runs: number;
+  seed: string;
+  weeks: SimulatedWeek[];
+  milestones: {
+    fiftyPercent: MilestoneOdds;
+    ninetyPercent: MilestoneOdds;
+  };
+}
+
 export interface StrategyCard {
   type: StrategyType;
   name: string;
@@ -77,6 +104,8 @@ const SCENARIO_MULTIPLIERS = {
   optimistic: 1.4,
 };
 
+export const MAX_TIMELINE_WEEKS = 24;
+
 // Base weekly conversion rates (percentage of TOTAL reachable)
 const BASE_CONVERSION_RATES = [
   0.20, // week 1: 20% announcement bump
@@ -123,13 +152,9 @@ export function calculateTimeline(inputs: MigrationInputs): MigrationTimeline {
   const weeks: TimelineWeek[] = [];
   const cumulative = { conservative: 0, expected: 0, optimistic: 0 };
 
-  // Determine how many weeks to simulate (until optimistic hits 95% or max 24 weeks)
-  const maxWeeks = 24;
-
-  for (let w = 1; w <= maxWeeks; w++) {
-    const baseRate = w <= BASE_CONVERSION_RATES.length
-      ? BASE_CONVERSION_RATES[w - 1]
-      : BASE_CONVERSION_RATES[BASE_CONVERSION_RATES.length - 1]; // last rate for week 9+
+  // Simulate until conservative hits 95% or max 24 weeks
+  for (let w = 1; w <= MAX_TIMELINE_WEEKS; w++) {
+    const baseRate = baseConversionRate(w);
 
     for (const scenario of ['conservative', 'expected', 'optimistic'] as const) {
       const scenarioMult = SCENARIO_MULTIPLIERS[scenario];
@@ -167,6 +192,59 @@ export function calculateTimeline(inputs: MigrationInputs): MigrationTimeline {
   };
 }
 
+function baseConversionRate(week: number): number {
+  return week <= BASE_CONVERSION_RATES.length
+    ? BASE_CONVERSION_RATES[week - 1]
+    : BASE_CONVERSION_RATES[BASE_CONVERSION_RATES.length - 1]; // last rate for week 9+
+}
+
+// ============================================================
+// Monte Carlo Simulation
+// ============================================================
+
+// Campaign-level spread of conversion: P10 / P90 land near the 0.7x / 1.4x scenarios
+const CONVERSION_SIGMA = 0.27;
+// Week-to-week swings around a run's conversion (a nudge that lands, a missed week)
+const WEEKLY_SHOCK_SIGMA = 0.25;
+
+/**
+ * Seeded Monte Carlo version of calculateTimeline over the full 24 weeks. Each run draws a
+ * conversion multiplier, then a mean-preserving shock every week. Returns P10/P50/P90
+ * cumulative followers per week and the chance of reaching 50% / 90% of reachable.
+ */
+export function simulateMigration(inputs: MigrationInputs, options: SimulationOptions = {}): MigrationSimulation {
+  const { runs, seed, rng } = resolveSimulation('migration', options);
+  const reachable = calculateReachable(inputs.tgSubscribers, inputs.overlapPercent);
+  const freqMult = FREQUENCY_MULTIPLIERS[inputs.postFrequency];
+  const shockMean = Math.exp((WEEKLY_SHOCK_SIGMA * WEEKLY_SHOCK_SIGMA) / 2);
+
+  const draws = Array.from({ length: MAX_TIMELINE_WEEKS }, () => new Float64Array(runs));
+  for (let r = 0; r < runs; r++) {
+    const conversionMult = sampleLogNormal(rng, CONVERSION_SIGMA);
+    let cumulative = 0;
+    for (let w = 1; w <= MAX_TIMELINE_WEEKS; w++) {
+      const shock = sampleLogNormal(rng, WEEKLY_SHOCK_SIGMA) / shockMean;
+      cumulative = Math.min(cumulative + reachable * baseConversionRate(w) * freqMult * conversionMult * shock, reachable);
+      draws[w - 1][r] = cumulative;
+    }
+  }
+
+  // Cumulative followers never fall, so the last week decides whether a run got there
+  const final = draws[MAX_TIMELINE_WEEKS - 1];
+  const weeks = draws.map((values, i) => ({ week: i + 1, ...percentileBand(values) }));
+  const odds = (share: number): MilestoneOdds => ({
+    probability: final.reduce((n, f) => n + (f >= reachable * share ? 1 : 0), 0) / runs,
+    medianWeek: weeks.find((w) => w.p50 >= reachable * share)?.week ?? null,
+  });
+
+  return {
+    runs,
+    seed,
+    weeks,
+    milestones: { fiftyPercent: odds(0.5), ninetyPercent: odds(0.9) },
+  };
+}
+
 // ============================================================
 // Strategy Recommendation
 // ============================================================
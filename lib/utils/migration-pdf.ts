@@ -0,0 +1,302 @@
+// lib/utils/migration-pdf.ts
+// Client-side PDF generation for Telegram to WhatsApp Migration Calculator (Tool #6)
+// Uses jsPDF — generates fresh PDF on each download, zero server cost
+
+import jsPDF from 'jspdf';
+import {
+  type MigrationInputs,
+  type MigrationTimeline,
+  type StrategyResult,
+  type StrategyType,
+  type RiskMatrix,
+  type Risk,
+  type PostFrequency,
+  calculateReachable,
+  formatCommaNumber,
+} from '@/lib/utils/migration-model';
+import {
+  type PDFLayout,
+  type RGB,
+  PDF_COLORS,
+  createLayout,
+  addPageIfNeeded,
+  addReportHeader,
+  addSectionHeading,
+  addTextLines,
+  addWrappedText,
+  addTable,
+  addLineChart,
+  addCTAPage,
+  addFooters,
+} from '@/lib/utils/pdf-layout';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ChecklistWeek {
+  week: number;
+  label: string;
+  targetFollowers: number; // expected cumulative WA followers by end of week
+  tasks: string[];
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+// Matches CHART_COLORS in MigrationCalculator.tsx
+const SERIES_COLORS: Record<'conservative' | 'expected' | 'optimistic', RGB> = {
+  conservative: [107, 114, 128],
+  expected: [37, 211, 102],
+  optimistic: [37, 99, 235],
+};
+
+const FREQUENCY_LABELS: Record<PostFrequency, string> = {
+  'daily': 'Daily',
+  '2-3x': '2-3x per week',
+  'weekly': 'Weekly',
+  'monthly': 'Monthly',
+};
+
+const STRATEGY_WEEKLY_TASK: Record<StrategyType, string> = {
+  gradual: 'Cross-post to both channels and send a WhatsApp nudge in Telegram',
+  parallel: 'Cross-post your best update to WhatsApp (no migration push)',
+  fullSwitch: 'Post a countdown reminder in Telegram with your WhatsApp Channel link',
+};
+
+// ============================================================
+// PDF Generation
+// ============================================================
+
+export async function generateMigrationPDF(
+  inputs: MigrationInputs,
+  timeline: MigrationTimeline,
+  strategy: StrategyResult,
+  risks: RiskMatrix
+): Promise<Blob> {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const layout = createLayout(doc);
+  const reachable = calculateReachable(inputs.tgSubscribers, inputs.overlapPercent);
+  const { fiftyPercent, ninetyPercent } = timeline.milestonesExpected;
+
+  // ============================================================
+  // Page 1: Header + Timeline Chart
+  // ============================================================
+
+  addReportHeader(
+    layout,
+    'Telegram to WhatsApp Migration Plan',
+    formatCommaNumber(inputs.tgSubscribers) + ' Telegram Subscribers | ' + inputs.overlapPercent + '% Overlap'
+  );
+
+  addTextLines(layout, [
+    'Telegram Subscribers: ' + formatCommaNumber(inputs.tgSubscribers),
+    'Audience Overlap: ' + inputs.overlapPercent + '% (' + formatCommaNumber(reachable) + ' reachable on WhatsApp)',
+    'Post Frequency: ' + FREQUENCY_LABELS[inputs.postFrequency],
+    'Projected Timeline: ' + timeline.totalWeeks + ' weeks',
+  ], 5);
+
+  addSectionHeading(layout, 'Migration Timeline', 100);
+  addLineChart(
+    layout,
+    [
+      { label: 'Conservative', color: SERIES_COLORS.conservative, values: timeline.weeks.map((w) => w.conservative) },
+      { label: 'Expected', color: SERIES_COLORS.expected, values: timeline.weeks.map((w) => w.expected) },
+      { label: 'Optimistic', color: SERIES_COLORS.optimistic, values: timeline.weeks.map((w) => w.optimistic) },
+    ],
+    { xLabel: 'Week' }
+  );
+
+  addTextLines(layout, [
+    'Week 1: Announcement bump',
+    fiftyPercent ? 'Week ' + fiftyPercent + ': 50% of reachable audience migrated' : '50% migration not reached within ' + timeline.totalWeeks + ' weeks',
+    ninetyPercent ? 'Week ' + ninetyPercent + ': 90% of reachable audience migrated' : '90% migration not reached within ' + timeline.totalWeeks + ' weeks',
+  ]);
+
+  // ============================================================
+  // Week-by-Week Projections
+  // ============================================================
+  addSectionHeading(layout, 'Week-by-Week Projections', 80);
+  addTable(
+    layout,
+    ['Week', 'Conservative', 'Expected', 'Optimistic', '% Migrated'],
+    timeline.weeks.map((w) => [
+      'Week ' + w.week,
+      formatCommaNumber(w.conservative),
+      formatCommaNumber(w.expected),
+      formatCommaNumber(w.optimistic),
+      (reachable > 0 ? Math.round((w.expected / reachable) * 100) : 0) + '%',
+    ]),
+    [3, 35, 75, 110, 140]
+  );
+
+  // ============================================================
+  // Recommended Strategy
+  // ============================================================
+  const recommendedCard = strategy.cards.find((c) => c.type === strategy.recommended) ?? strategy.cards[0];
+  addSectionHeading(layout, 'Recommended Strategy: ' + recommendedCard.name, 60);
+  addWrappedText(layout, recommendedCard.description, { fontSize: 10, lineHeight: 5 });
+  addWrappedText(layout, 'Timeline: ~' + recommendedCard.timelineWeeks + ' weeks', { color: PDF_COLORS.muted });
+  layout.y += 2;
+
+  addLabel(layout, 'Pros', [22, 163, 74]);
+  for (const pro of recommendedCard.pros) addWrappedText(layout, '+ ' + pro, { indent: 3 });
+  addLabel(layout, 'Cons', PDF_COLORS.high);
+  for (const con of recommendedCard.cons) addWrappedText(layout, '- ' + con, { indent: 3 });
+
+  if (strategy.showFullSwitchAsViable && strategy.recommended !== 'fullSwitch') {
+    layout.y += 2;
+    addWrappedText(
+      layout,
+      'Viable alternative: with daily posting and high overlap, a Full Switch can also work for your channel.',
+      { color: PDF_COLORS.accent }
+    );
+  }
+  if (strategy.isLargeChannel) {
+    addWrappedText(
+      layout,
+      'Large channel: expect 12-16 weeks and consider a staged rollout by audience segment.',
+      { color: PDF_COLORS.accent }
+    );
+  }
+  layout.y += 6;
+
+  // ============================================================
+  // Risk Matrix
+  // ============================================================
+  addSectionHeading(layout, 'Risk Assessment', 50);
+  addRiskList(layout, 'Risk of Waiting', risks.waiting, [194, 65, 12]);
+  addRiskList(layout, 'Risk of Rushing', risks.rushing, [29, 78, 216]);
+  layout.y += 4;
+
+  // ============================================================
+  // Week-by-Week Action Checklist (EXCLUSIVE)
+  // ============================================================
+  addSectionHeading(layout, 'Week-by-Week Action Checklist', 50);
+
+  const checklist = buildActionChecklist(inputs, timeline, strategy);
+  for (const week of checklist) {
+    addPageIfNeeded(layout, 12 + week.tasks.length * 6);
+    doc.setFontSize(11);
+    doc.setTextColor(...PDF_COLORS.heading);
+    doc.text(week.label, layout.margin, layout.y);
+    doc.setFontSize(9);
+    doc.setTextColor(...PDF_COLORS.muted);
+    doc.text(
+      'Target: ' + formatCommaNumber(week.targetFollowers) + ' followers',
+      layout.margin + layout.contentWidth,
+      layout.y,
+      { align: 'right' }
+    );
+    layout.y += 6;
+
+    for (const task of week.tasks) {
+      doc.setDrawColor(...PDF_COLORS.muted);
+      doc.setLineWidth(0.3);
+      doc.rect(layout.margin + 3, layout.y - 3, 3, 3);
+      addWrappedText(layout, task, { indent: 9 });
+    }
+    layout.y += 3;
+  }
+
+  // ============================================================
+  // CTA Page
+  // ============================================================
+  addCTAPage(layout, {
+    heading: 'Automate Your Cross-Posting',
+    body: 'WhatsScale + Make.com mirrors every Telegram post to your WhatsApp Channel automatically, archives content before it disappears, and schedules your weekly migration nudges. Spend your time on content, not copy-paste.',
+    linkText: 'Get started at whatsscale.com',
+    url: 'https://www.whatsscale.com?utm_source=pdf&utm_medium=migration-calculator',
+  });
+
+  addFooters(layout);
+
+  return doc.output('blob');
+}
+
+// ============================================================
+// Section Helpers
+// ============================================================
+
+function addLabel(layout: PDFLayout, text: string, color: RGB) {
+  addPageIfNeeded(layout, 10);
+  layout.doc.setFontSize(10);
+  layout.doc.setTextColor(...color);
+  layout.doc.text(text + ':', layout.margin, layout.y);
+  layout.y += 5;
+}
+
+function addRiskList(layout: PDFLayout, heading: string, items: Risk[], color: RGB) {
+  addPageIfNeeded(layout, 25);
+  layout.doc.setFontSize(11);
+  layout.doc.setTextColor(...color);
+  layout.doc.text(heading, layout.margin, layout.y);
+  layout.y += 6;
+
+  for (const risk of items) {
+    addPageIfNeeded(layout, 15);
+    addWrappedText(layout, risk.title, { fontSize: 10, lineHeight: 5 });
+    addWrappedText(layout, risk.content, { indent: 3, color: PDF_COLORS.muted });
+    layout.y += 1;
+  }
+  layout.y += 3;
+}
+
+// ============================================================
+// Week-by-Week Checklist Generator
+// ============================================================
+
+/**
+ * Build the action checklist from the expected-scenario timeline.
+ * Milestone weeks (announcement, 50%, 90%, final) get milestone-specific
+ * tasks; every other week gets the recommended strategy's weekly routine.
+ */
+export function buildActionChecklist(
+  inputs: MigrationInputs,
+  timeline: MigrationTimeline,
+  strategy: StrategyResult
+): ChecklistWeek[] {
+  const reachable = calculateReachable(inputs.tgSubscribers, inputs.overlapPercent);
+  const { fiftyPercent, ninetyPercent } = timeline.milestonesExpected;
+  const lastWeek = timeline.weeks[timeline.weeks.length - 1]?.week ?? 0;
+  const weeklyTask = STRATEGY_WEEKLY_TASK[strategy.recommended];
+
+  return timeline.weeks.map((w) => {
+    const tasks: string[] = [];
+    let label = 'Week ' + w.week;
+
+    if (w.week === 1) {
+      label += ' — Announcement';
+      tasks.push('Create your WhatsApp Channel (name, description, icon matching Telegram)');
+      tasks.push('Announce the WhatsApp Channel in Telegram and pin the link');
+      tasks.push('Post your 3 best recent updates so new followers see value immediately');
+    } else if (w.week === 2) {
+      label += ' — Follow-up';
+      tasks.push('Send a reminder to the ' + formatCommaNumber(Math.max(reachable - w.expected, 0)) + ' reachable followers who have not joined yet');
+      tasks.push(weeklyTask);
+    } else {
+      tasks.push(weeklyTask);
+    }
+
+    if (w.week === fiftyPercent) {
+      label += ' — 50% Migrated';
+      tasks.push('Share a milestone post on both channels — social proof converts stragglers');
+    }
+    if (w.week === ninetyPercent) {
+      label += ' — 90% Migrated';
+      tasks.push('Move your primary posting to WhatsApp; keep Telegram for highlights only');
+    }
+    if (strategy.recommended === 'fullSwitch' && w.week === 4) {
+      tasks.push('Post the final Telegram message and archive the channel');
+    }
+    if (inputs.postFrequency === 'monthly' && w.week % 4 === 0) {
+      tasks.push('Consider posting more often — monthly posting slows migration to 0.4x');
+    }
+    if (w.week === lastWeek && w.week !== ninetyPercent) {
+      tasks.push('Review results against this plan and decide whether to keep running both channels');
+    }
+
+    return { week: w.week, label, targetFollowers: w.expected, tasks };
+  });
+}
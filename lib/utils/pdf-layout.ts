@@ -0,0 +1,336 @@
+// lib/utils/pdf-layout.ts
+// Shared jsPDF layout helpers for client-side reports
+// Used by: pdf-report.ts (Tool #4), migration-pdf.ts (Tool #6)
+
+import type jsPDF from 'jspdf';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type RGB = [number, number, number];
+
+export interface PDFLayout {
+  doc: jsPDF;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  contentWidth: number;
+  y: number; // current vertical cursor (mm)
+}
+
+export interface ChartSeries {
+  label: string;
+  color: RGB;
+  values: number[];
+}
+
+export interface CTAPageContent {
+  heading: string;
+  body: string;
+  linkText: string;
+  url: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const PDF_COLORS = {
+  heading: [30, 64, 175] as RGB, // blue-800
+  accent: [59, 130, 246] as RGB, // blue-500
+  body: [60, 60, 60] as RGB,
+  muted: [100, 100, 100] as RGB,
+  zebra: [248, 250, 252] as RGB, // slate-50
+  high: [220, 38, 38] as RGB, // red-600
+};
+
+const PAGE_MARGIN = 20;
+const FOOTER_SPACE = 30;
+
+// ============================================================
+// Layout
+// ============================================================
+
+/**
+ * Create an A4 portrait layout cursor for a jsPDF document.
+ */
+export function createLayout(doc: jsPDF, margin = PAGE_MARGIN): PDFLayout {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  return {
+    doc,
+    pageWidth,
+    pageHeight,
+    margin,
+    contentWidth: pageWidth - margin * 2,
+    y: margin,
+  };
+}
+
+/**
+ * Start a new page when the remaining space (above the footer) is too small.
+ */
+export function addPageIfNeeded(layout: PDFLayout, requiredSpace: number): void {
+  if (layout.y + requiredSpace > layout.pageHeight - FOOTER_SPACE) {
+    layout.doc.addPage();
+    layout.y = layout.margin;
+  }
+}
+
+/**
+ * Report title + grey subtitle at the top of page 1.
+ */
+export function addReportHeader(layout: PDFLayout, title: string, subtitle: string): void {
+  const { doc, margin } = layout;
+  doc.setFontSize(22);
+  doc.setTextColor(...PDF_COLORS.heading);
+  doc.text(title, margin, layout.y);
+  layout.y += 10;
+
+  doc.setFontSize(11);
+  doc.setTextColor(...PDF_COLORS.muted);
+  doc.text(subtitle, margin, layout.y);
+  layout.y += 12;
+}
+
+/**
+ * Blue section heading. Reserves `requiredSpace` so headings never orphan.
+ */
+export function addSectionHeading(layout: PDFLayout, text: string, requiredSpace = 30): void {
+  addPageIfNeeded(layout, requiredSpace);
+  layout.doc.setFontSize(14);
+  layout.doc.setTextColor(...PDF_COLORS.heading);
+  layout.doc.text(text, layout.margin, layout.y);
+  layout.y += 8;
+}
+
+/**
+ * Plain body lines (one string per line), followed by a section gap.
+ */
+export function addTextLines(layout: PDFLayout, lines: string[], gapAfter = 8): void {
+  layout.doc.setFontSize(10);
+  layout.doc.setTextColor(...PDF_COLORS.body);
+  for (const line of lines) {
+    addPageIfNeeded(layout, 6);
+    layout.doc.text(line, layout.margin, layout.y);
+    layout.y += 5;
+  }
+  layout.y += gapAfter;
+}
+
+/**
+ * Word-wrapped paragraph at an indent. Returns the wrapped line count.
+ */
+export function addWrappedText(
+  layout: PDFLayout,
+  text: string,
+  options: { indent?: number; fontSize?: number; lineHeight?: number; color?: RGB } = {}
+): number {
+  const { indent = 0, fontSize = 9, lineHeight = 4.5, color = PDF_COLORS.body } = options;
+  const { doc } = layout;
+  doc.setFontSize(fontSize);
+  doc.setTextColor(...color);
+  const lines: string[] = doc.splitTextToSize(text, layout.contentWidth - indent);
+  addPageIfNeeded(layout, lines.length * lineHeight + 2);
+  doc.text(lines, layout.margin + indent, layout.y);
+  layout.y += lines.length * lineHeight + 2;
+  return lines.length;
+}
+
+/**
+ * Table with a filled header row and zebra-striped body rows.
+ * `columns` are x-offsets (mm) from the left margin.
+ */
+export function addTable(
+  layout: PDFLayout,
+  headers: string[],
+  rows: string[][],
+  columns: number[]
+): void {
+  const { doc, margin, contentWidth } = layout;
+
+  const drawHeader = () => {
+    doc.setFontSize(9);
+    doc.setTextColor(255, 255, 255);
+    doc.setFillColor(...PDF_COLORS.accent);
+    doc.rect(margin, layout.y - 4, contentWidth, 7, 'F');
+    headers.forEach((h, i) => doc.text(h, margin + columns[i], layout.y));
+    layout.y += 6;
+    doc.setTextColor(...PDF_COLORS.body);
+  };
+
+  drawHeader();
+  rows.forEach((row, rowIndex) => {
+    if (layout.y + 8 > layout.pageHeight - FOOTER_SPACE) {
+      doc.addPage();
+      layout.y = margin;
+      drawHeader();
+    }
+    if (rowIndex % 2 === 1) {
+      doc.setFillColor(...PDF_COLORS.zebra);
+      doc.rect(margin, layout.y - 4, contentWidth, 6, 'F');
+    }
+    row.forEach((cell, i) => doc.text(cell, margin + columns[i], layout.y));
+    layout.y += 6;
+  });
+  layout.y += 8;
+}
+
+/**
+ * Closing CTA page with centered copy and a tracked link.
+ */
+export function addCTAPage(layout: PDFLayout, content: CTAPageContent): void {
+  const { doc, pageWidth, contentWidth } = layout;
+  doc.addPage();
+  layout.y = 60;
+
+  doc.setFontSize(18);
+  doc.setTextColor(...PDF_COLORS.heading);
+  doc.text(content.heading, pageWidth / 2, layout.y, { align: 'center' });
+  layout.y += 12;
+
+  doc.setFontSize(11);
+  doc.setTextColor(80);
+  const ctaLines = doc.splitTextToSize(content.body, contentWidth - 20);
+  doc.text(ctaLines, pageWidth / 2, layout.y, { align: 'center' });
+  layout.y += ctaLines.length * 6 + 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(...PDF_COLORS.accent);
+  doc.textWithLink(content.linkText, pageWidth / 2, layout.y, {
+    url: content.url,
+    align: 'center',
+  });
+}
+
+/**
+ * Brand + generation date footer on every page. Call last.
+ */
+export function addFooters(layout: PDFLayout): void {
+  const { doc, pageWidth, pageHeight } = layout;
+  const generated =
+    'Generated ' + new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text('WhatsScale | whatsscale.com', pageWidth / 2, pageHeight - 10, { align: 'center' });
+    doc.text(generated, pageWidth / 2, pageHeight - 6, { align: 'center' });
+  }
+}
+
+// ============================================================
+// Charts
+// ============================================================
+
+/**
+ * Rasterize the first <svg> inside a container (e.g. a Recharts chart)
+ * and embed it at full content width, capped at `maxHeight` mm.
+ */
+export async function addSvgChart(
+  layout: PDFLayout,
+  container: HTMLElement | null,
+  maxHeight = 80
+): Promise<void> {
+  if (!container) return;
+  try {
+    const svg = container.querySelector('svg');
+    if (!svg) return;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    const svgData = new XMLSerializer().serializeToString(svg);
+    const img = new Image();
+
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => {
+        canvas.width = img.width * 2;
+        canvas.height = img.height * 2;
+        if (ctx) {
+          ctx.fillStyle = 'white';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          ctx.scale(2, 2);
+          ctx.drawImage(img, 0, 0);
+        }
+        resolve();
+      };
+      img.onerror = reject;
+      img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svgData)));
+    });
+
+    const imgData = canvas.toDataURL('image/png');
+    const chartHeight = Math.min((layout.contentWidth * canvas.height) / canvas.width, maxHeight);
+    layout.doc.addImage(imgData, 'PNG', layout.margin, layout.y, layout.contentWidth, chartHeight);
+    layout.y += chartHeight + 8;
+  } catch (err) {
+    console.warn('Could not embed chart in PDF:', err);
+  }
+}
+
+/**
+ * Vector line chart drawn with jsPDF primitives — no DOM needed.
+ * X axis is the series index (1-based labels), Y axis starts at 0.
+ */
+export function addLineChart(
+  layout: PDFLayout,
+  series: ChartSeries[],
+  options: { height?: number; xLabel?: string; formatY?: (n: number) => string } = {}
+): void {
+  const { height = 70, xLabel = '', formatY = (n) => Math.round(n).toLocaleString('en-US') } = options;
+  const { doc, margin, contentWidth } = layout;
+  const points = Math.max(...series.map((s) => s.values.length), 0);
+  if (points === 0) return;
+
+  addPageIfNeeded(layout, height + 16);
+
+  const axisLeft = margin + 14;
+  const plotWidth = contentWidth - 14;
+  const top = layout.y;
+  const bottom = top + height;
+  const maxValue = Math.max(...series.flatMap((s) => s.values), 1);
+  const xAt = (i: number) => axisLeft + (points === 1 ? 0 : (i / (points - 1)) * plotWidth);
+  const yAt = (v: number) => bottom - (v / maxValue) * height;
+
+  // Grid + Y labels (4 intervals)
+  doc.setFontSize(7);
+  doc.setTextColor(...PDF_COLORS.muted);
+  doc.setDrawColor(230, 230, 230);
+  doc.setLineWidth(0.2);
+  for (let i = 0; i <= 4; i++) {
+    const value = (maxValue / 4) * i;
+    const y = yAt(value);
+    doc.line(axisLeft, y, axisLeft + plotWidth, y);
+    doc.text(formatY(value), axisLeft - 2, y + 1, { align: 'right' });
+  }
+
+  // X labels (at most ~12 ticks)
+  const tickEvery = Math.max(1, Math.ceil(points / 12));
+  for (let i = 0; i < points; i += tickEvery) {
+    doc.text(String(i + 1), xAt(i), bottom + 4, { align: 'center' });
+  }
+  if (xLabel) doc.text(xLabel, axisLeft + plotWidth / 2, bottom + 8, { align: 'center' });
+
+  // Series
+  doc.setLineWidth(0.6);
+  for (const s of series) {
+    doc.setDrawColor(...s.color);
+    for (let i = 1; i < s.values.length; i++) {
+      doc.line(xAt(i - 1), yAt(s.values[i - 1]), xAt(i), yAt(s.values[i]));
+    }
+  }
+
+  // Legend
+  let legendX = axisLeft;
+  const legendY = bottom + 13;
+  for (const s of series) {
+    doc.setFillColor(...s.color);
+    doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+    doc.setTextColor(...PDF_COLORS.body);
+    doc.text(s.label, legendX + 4.5, legendY);
+    legendX += doc.getTextWidth(s.label) + 12;
+  }
+
+  layout.y = legendY + 8;
+}
@@ -9,11 +9,29 @@ import {
   type Milestone,
   type BenchmarkResult,
   calculateMonetization,
+  calculateChurnRate,
+  HEALTHY_POSTS_PER_WEEK,
   generateTips,
   formatFollowerCount,
   formatCurrency,
   formatCommaNumber,
+  formatProjectionTime,
+  describeGrowthEvent,
+  GROWTH_EVENT_LABELS,
 } from '@/lib/utils/growth-model';
+import {
+  PDF_COLORS,
+  createLayout,
+  addPageIfNeeded,
+  addReportHeader,
+  addSectionHeading,
+  addTextLines,
+  addWrappedText,
+  addTable,
+  addSvgChart,
+  addCTAPage,
+  addFooters,
+} from '@/lib/utils/pdf-layout';
 
 // ============================================================
 // PDF Generation
@@ -27,302 +45,188 @@ export async function generateGrowthPDF(
   chartRef: React.RefObject<HTMLDivElement | null>
 ): Promise<Blob> {
   const doc = new jsPDF('p', 'mm', 'a4');
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const margin = 20;
-  const contentWidth = pageWidth - margin * 2;
-  let y = margin;
-
-  const addPageIfNeeded = (requiredSpace: number) => {
-    if (y + requiredSpace > doc.internal.pageSize.getHeight() - 30) {
-      doc.addPage();
-      y = margin;
-    }
-  };
-
-  const addFooter = () => {
-    const pageHeight = doc.internal.pageSize.getHeight();
-    doc.setFontSize(8);
-    doc.setTextColor(150);
-    doc.text('WhatsScale | whatsscale.com', pageWidth / 2, pageHeight - 10, { align: 'center' });
-    doc.text(
-      'Generated ' + new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
-      pageWidth / 2,
-      pageHeight - 6,
-      { align: 'center' }
-    );
-  };
+  const layout = createLayout(doc);
+  const { margin, contentWidth } = layout;
 
   // ============================================================
   // Page 1: Header + Chart + Summary
   // ============================================================
 
-  // Title
-  doc.setFontSize(22);
-  doc.setTextColor(30, 64, 175);
-  doc.text('WhatsApp Channel Growth Report', margin, y);
-  y += 10;
-
-  // Subtitle
-  doc.setFontSize(11);
-  doc.setTextColor(100);
-  doc.text(inputs.niche.label + ' Niche | ' + formatCommaNumber(inputs.followers) + ' Followers', margin, y);
-  y += 12;
+  addReportHeader(
+    layout,
+    'WhatsApp Channel Growth Report',
+    inputs.niche.label + ' Niche | ' + formatCommaNumber(inputs.followers) + ' Followers'
+  );
 
   // Input summary
-  doc.setFontSize(10);
-  doc.setTextColor(60);
   const seedLabel = inputs.followers === 0 ? ' (seeded from 0)' : '';
   const startCount = inputs.followers === 0 ? 50 : inputs.followers;
-  const inputLines = [
+  addTextLines(layout, [
     'Current Followers: ' + formatCommaNumber(startCount) + seedLabel,
     'Posts per Week: ' + inputs.postsPerWeek,
     'Engagement Rate: ' + inputs.engagementRate + '% (Niche avg: ' + inputs.niche.avgEngagement + '%)',
     'Benchmark: ' + benchmark.label + ' (' + benchmark.percentile + 'th percentile)',
-  ];
-  for (const line of inputLines) {
-    doc.text(line, margin, y);
-    y += 5;
-  }
-  y += 5;
+  ], 5);
 
   // Chart image
-  if (chartRef.current) {
-    try {
-      const svg = chartRef.current.querySelector('svg');
-      if (svg) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const svgData = new XMLSerializer().serializeToString(svg);
-        const img = new Image();
-
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => {
-            canvas.width = img.width * 2;
-            canvas.height = img.height * 2;
-            if (ctx) {
-              ctx.fillStyle = 'white';
-              ctx.fillRect(0, 0, canvas.width, canvas.height);
-              ctx.scale(2, 2);
-              ctx.drawImage(img, 0, 0);
-            }
-            resolve();
-          };
-          img.onerror = reject;
-          img.src = 'data:image/svg+xml;base64,' + btoa(unescape(encodeURIComponent(svgData)));
-        });
-
-        const imgData = canvas.toDataURL('image/png');
-        const chartHeight = (contentWidth * canvas.height) / canvas.width;
-        doc.addImage(imgData, 'PNG', margin, y, contentWidth, Math.min(chartHeight, 80));
-        y += Math.min(chartHeight, 80) + 8;
-      }
-    } catch (err) {
-      console.warn('Could not embed chart in PDF:', err);
-    }
-  }
+  await addSvgChart(layout, chartRef.current);
 
   // ============================================================
-  // 12-Month Projection Summary
+  // Projection Summary (end of horizon)
   // ============================================================
-  addPageIfNeeded(30);
-  doc.setFontSize(14);
-  doc.setTextColor(30, 64, 175);
-  doc.text('12-Month Projection Summary', margin, y);
-  y += 8;
-
-  doc.setFontSize(10);
-  doc.setTextColor(60);
-  const scenarioSummary = [
+  const { horizonMonths, step } = projections;
+  addSectionHeading(layout, horizonMonths + '-Month Projection Summary');
+  addTextLines(layout, [
     'Conservative: ' + formatCommaNumber(projections.summary.conservative) + ' followers (' + formatCurrency(calculateMonetization(projections.summary.conservative, inputs.niche)) + '/mo)',
     'Expected: ' + formatCommaNumber(projections.summary.expected) + ' followers (' + formatCurrency(calculateMonetization(projections.summary.expected, inputs.niche)) + '/mo)',
     'Optimistic: ' + formatCommaNumber(projections.summary.optimistic) + ' followers (' + formatCurrency(calculateMonetization(projections.summary.optimistic, inputs.niche)) + '/mo)',
-  ];
-  for (const line of scenarioSummary) {
-    doc.text(line, margin, y);
-    y += 5;
-  }
-  y += 8;
+  ]);
 
   // ============================================================
-  // Month-by-Month Table (GATED)
+  // Follower Flow (expected scenario)
   // ============================================================
-  addPageIfNeeded(80);
-  doc.setFontSize(14);
-  doc.setTextColor(30, 64, 175);
-  doc.text('Month-by-Month Projections', margin, y);
-  y += 8;
-
-  // Table header
-  doc.setFontSize(9);
-  doc.setTextColor(255, 255, 255);
-  doc.setFillColor(59, 130, 246);
-  doc.rect(margin, y - 4, contentWidth, 7, 'F');
-  doc.text('Month', margin + 3, y);
-  doc.text('Conservative', margin + 35, y);
-  doc.text('Expected', margin + 75, y);
-  doc.text('Optimistic', margin + 110, y);
-  doc.text('Est. Revenue', margin + 140, y);
-  y += 6;
+  const gained = projections.monthly.reduce((sum, m) => sum + m.grossAdds, 0);
+  const churned = projections.monthly.reduce((sum, m) => sum + m.churned, 0);
+  const net = gained - churned;
+  const churnRate = calculateChurnRate(inputs.postsPerWeek, inputs.niche);
+  addSectionHeading(layout, 'Follower Flow (Expected)', 30);
+  addTextLines(layout, [
+    'Gained: +' + formatCommaNumber(gained) + ' new followers',
+    'Unfollowed: -' + formatCommaNumber(churned) + ' followers',
+    'Net growth: ' + (net >= 0 ? '+' : '') + formatCommaNumber(net) + ' over ' + horizonMonths + ' months',
+    'Churn: ' + (churnRate * 100).toFixed(1) + '% a month at ' + inputs.postsPerWeek + ' posts/week (' +
+      inputs.niche.churnRate + '% at ' + HEALTHY_POSTS_PER_WEEK.min + '-' + HEALTHY_POSTS_PER_WEEK.max + ' posts/week in ' + inputs.niche.label + ')',
+  ]);
 
-  // Table rows
-  doc.setTextColor(60);
-  for (const m of projections.monthly) {
-    addPageIfNeeded(8);
-    if (m.month % 2 === 0) {
-      doc.setFillColor(248, 250, 252);
-      doc.rect(margin, y - 4, contentWidth, 6, 'F');
-    }
-    doc.text('Month ' + m.month, margin + 3, y);
-    doc.text(formatCommaNumber(m.conservative), margin + 35, y);
-    doc.text(formatCommaNumber(m.expected), margin + 75, y);
-    doc.text(formatCommaNumber(m.optimistic), margin + 110, y);
-    doc.text(formatCurrency(calculateMonetization(m.expected, inputs.niche)), margin + 140, y);
-    y += 6;
+  // ============================================================
+  // Campaigns & Events (with vs without)
+  // ============================================================
+  const { baseline } = projections.summary;
+  if (projections.events.length > 0 && baseline !== undefined) {
+    addSectionHeading(layout, 'Campaigns & Events', 30);
+    addTextLines(layout, projections.events.map((e) =>
+      'Month ' + e.month + ': ' + (e.label || GROWTH_EVENT_LABELS[e.type]) + ' (' + describeGrowthEvent(e) + ')'
+    ), 5);
+    const gain = projections.summary.expected - baseline;
+    addTextLines(layout, [
+      'With events: ' + formatCommaNumber(projections.summary.expected) + ' followers (' + formatCurrency(calculateMonetization(projections.summary.expected, inputs.niche)) + '/mo)',
+      'Baseline: ' + formatCommaNumber(baseline) + ' followers (' + formatCurrency(calculateMonetization(baseline, inputs.niche)) + '/mo)',
+      'Difference: ' + (gain >= 0 ? '+' : '') + formatCommaNumber(gain) + ' followers after ' + horizonMonths + ' months (expected scenario)',
+    ]);
   }
-  y += 8;
+
+  // ============================================================
+  // Month-by-Month / Week-by-Week Table (GATED)
+  // ============================================================
+  addSectionHeading(layout, step === 'week' ? 'Week-by-Week Projections' : 'Month-by-Month Projections', 80);
+  addTable(
+    layout,
+    [step === 'week' ? 'Week' : 'Month', 'Conservative', 'Expected', 'Optimistic', 'Est. Revenue'],
+    projections.monthly.map((m) => [
+      formatProjectionTime(m.month, step),
+      formatCommaNumber(m.conservative),
+      formatCommaNumber(m.expected),
+      formatCommaNumber(m.optimistic),
+      formatCurrency(calculateMonetization(m.expected, inputs.niche)),
+    ]),
+    [3, 35, 75, 110, 140]
+  );
 
   // ============================================================
   // Milestone Revenue Breakdown (GATED)
   // ============================================================
   if (milestones.length > 0) {
-    addPageIfNeeded(40);
-    doc.setFontSize(14);
-    doc.setTextColor(30, 64, 175);
-    doc.text('Monetization Milestones', margin, y);
-    y += 8;
+    addSectionHeading(layout, 'Monetization Milestones', 40);
 
     doc.setFontSize(9);
-    doc.setTextColor(100);
-    doc.text('Based on Meta Cannes Lions 2025 announcement (10% revenue cut). Estimates only.', margin, y);
-    y += 7;
+    doc.setTextColor(...PDF_COLORS.muted);
+    doc.text('Based on Meta Cannes Lions 2025 announcement (10% revenue cut). Estimates only.', margin, layout.y);
+    layout.y += 7;
 
     for (const m of milestones) {
-      addPageIfNeeded(12);
+      addPageIfNeeded(layout, 12);
       doc.setFontSize(10);
-      doc.setTextColor(60);
-      const timeline = m.monthExpected ? 'Expected: Month ' + m.monthExpected : 'Beyond 12 months';
+      doc.setTextColor(...PDF_COLORS.body);
+      const timeline = m.monthExpected
+        ? 'Expected: ' + formatProjectionTime(m.monthExpected, step) + (m.monthExpected > horizonMonths ? ' (estimated)' : '')
+        : 'Beyond 10 years';
       doc.text(
         m.label + ' followers -> ' + formatCurrency(m.revenueEstimate) + '/mo | ' + timeline,
         margin,
-        y
+        layout.y
       );
-      y += 6;
+      layout.y += 6;
     }
-    y += 8;
+    layout.y += 8;
   }
 
   // ============================================================
   // Niche Comparison (GATED)
   // ============================================================
-  addPageIfNeeded(30);
-  doc.setFontSize(14);
-  doc.setTextColor(30, 64, 175);
-  doc.text('Your Metrics vs Niche Average', margin, y);
-  y += 8;
-
-  doc.setFontSize(10);
-  doc.setTextColor(60);
+  addSectionHeading(layout, 'Your Metrics vs Niche Average');
   const engDiff = ((benchmark.engagementVsNiche - 1) * 100).toFixed(0);
   const freqDiff = ((benchmark.frequencyVsNiche - 1) * 100).toFixed(0);
-  const comparisons = [
+  addTextLines(layout, [
     'Engagement Rate: ' + inputs.engagementRate + '% vs ' + inputs.niche.avgEngagement + '% avg (' + (benchmark.engagementVsNiche >= 1 ? '+' : '') + engDiff + '%)',
     'Posting Frequency: ' + inputs.postsPerWeek + '/wk vs 5/wk avg (' + (benchmark.frequencyVsNiche >= 1 ? '+' : '') + freqDiff + '%)',
     'Benchmark: ' + benchmark.label + ' (' + benchmark.percentile + 'th percentile in ' + inputs.niche.label + ')',
-  ];
-  for (const line of comparisons) {
-    doc.text(line, margin, y);
-    y += 5;
-  }
-  y += 8;
+  ]);
 
   // ============================================================
   // Personalized Tips (GATED)
   // ============================================================
-  addPageIfNeeded(40);
-  doc.setFontSize(14);
-  doc.setTextColor(30, 64, 175);
-  doc.text('Personalized Recommendations', margin, y);
-  y += 8;
+  addSectionHeading(layout, 'Personalized Recommendations', 40);
 
   const tips = generateTips(inputs);
   for (const tip of tips) {
-    addPageIfNeeded(15);
+    addPageIfNeeded(layout, 15);
     doc.setFontSize(9);
     if (tip.priority === 'High Impact') {
-      doc.setTextColor(220, 38, 38);
+      doc.setTextColor(...PDF_COLORS.high);
     } else if (tip.priority === 'Medium') {
-      doc.setTextColor(59, 130, 246);
+      doc.setTextColor(...PDF_COLORS.accent);
     } else {
-      doc.setTextColor(100, 100, 100);
+      doc.setTextColor(...PDF_COLORS.muted);
     }
-    doc.text('[' + tip.priority + ']', margin, y);
-    doc.setTextColor(60);
+    doc.text('[' + tip.priority + ']', margin, layout.y);
+    doc.setTextColor(...PDF_COLORS.body);
     const tipLines = doc.splitTextToSize(tip.text, contentWidth - 30);
-    doc.text(tipLines, margin + 25, y);
-    y += tipLines.length * 5 + 4;
+    doc.text(tipLines, margin + 25, layout.y);
+    layout.y += tipLines.length * 5 + 4;
   }
-  y += 5;
+  layout.y += 5;
 
   // ============================================================
   // 30/60/90 Day Action Plan (GATED)
   // ============================================================
-  addPageIfNeeded(50);
-  doc.setFontSize(14);
-  doc.setTextColor(30, 64, 175);
-  doc.text('30 / 60 / 90 Day Action Plan', margin, y);
-  y += 8;
+  addSectionHeading(layout, '30 / 60 / 90 Day Action Plan', 50);
 
   const actionPlan = generateActionPlan(inputs);
   for (const phase of actionPlan) {
-    addPageIfNeeded(25);
+    addPageIfNeeded(layout, 25);
     doc.setFontSize(11);
-    doc.setTextColor(30, 64, 175);
-    doc.text(phase.label, margin, y);
-    y += 6;
+    doc.setTextColor(...PDF_COLORS.heading);
+    doc.text(phase.label, margin, layout.y);
+    layout.y += 6;
 
-    doc.setFontSize(9);
-    doc.setTextColor(60);
     for (const action of phase.actions) {
-      const actionLines = doc.splitTextToSize('- ' + action, contentWidth - 5);
-      doc.text(actionLines, margin + 3, y);
-      y += actionLines.length * 4.5 + 2;
+      addWrappedText(layout, '- ' + action, { indent: 3 });
     }
-    y += 4;
+    layout.y += 4;
   }
 
   // ============================================================
   // CTA Page
   // ============================================================
-  doc.addPage();
-  y = 60;
-
-  doc.setFontSize(18);
-  doc.setTextColor(30, 64, 175);
-  doc.text('Want Real Data Instead of Estimates?', pageWidth / 2, y, { align: 'center' });
-  y += 12;
-
-  doc.setFontSize(11);
-  doc.setTextColor(80);
-  const ctaLines = doc.splitTextToSize(
-    'Connect your WhatsApp Channel in WhatsScale to get real-time analytics: actual engagement rates, optimal posting times, subscriber growth trends, and audience insights. Replace estimates with data.',
-    contentWidth - 20
-  );
-  doc.text(ctaLines, pageWidth / 2, y, { align: 'center' });
-  y += ctaLines.length * 6 + 10;
-
-  doc.setFontSize(12);
-  doc.setTextColor(59, 130, 246);
-  doc.textWithLink('Get started at whatsscale.com', pageWidth / 2, y, {
+  addCTAPage(layout, {
+    heading: 'Want Real Data Instead of Estimates?',
+    body: 'Connect your WhatsApp Channel in WhatsScale to get real-time analytics: actual engagement rates, optimal posting times, subscriber growth trends, and audience insights. Replace estimates with data.',
+    linkText: 'Get started at whatsscale.com',
     url: 'https://www.whatsscale.com?utm_source=pdf&utm_medium=growth-calculator',
-    align: 'center',
   });
 
   // Add footer to all pages
-  const totalPages = doc.getNumberOfPages();
-  for (let i = 1; i <= totalPages; i++) {
-    doc.setPage(i);
-    addFooter();
-  }
+  addFooters(layout);
 
   return doc.output('blob');
 }
@@ -0,0 +1,245 @@
+// lib/utils/phone.ts
+// Country-aware phone parsing → E.164 for wa.me links
+// No React imports — testable in isolation
+//
+// Not a full libphonenumber: per-country national lengths, a few sanity patterns,
+// trunk-prefix stripping and longest-prefix dial matching. Countries without an
+// entry fall back to generic length checks.
+
+import { COUNTRIES, SHARED_DIAL_DEFAULT, type CountryCode } from './wa-link';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface PhoneMeta {
+  /** National significant number length range (digits after the country code) */
+  min: number;
+  max: number;
+  /** Sanity check on the national significant number */
+  pattern?: RegExp;
+  /** Trunk prefix dialled domestically. Defaults to '0'; '' when a leading 0 is significant. */
+  trunk?: string;
+}
+
+export type PhoneErrorReason =
+  | 'empty'
+  | 'invalid_characters'
+  | 'unknown_country'
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_pattern';
+
+export type PhoneParseResult =
+  | { ok: true; country: CountryCode; dial: string; national: string; e164: string }
+  | { ok: false; reason: PhoneErrorReason; message: string; country?: CountryCode };
+
+// ============================================================
+// Metadata
+// ============================================================
+
+const NANP: PhoneMeta = { min: 10, max: 10, pattern: /^[2-9]\d{2}[2-9]\d{6}$/, trunk: '1' };
+
+export const PHONE_METADATA: Record<string, PhoneMeta> = {
+  US: NANP,
+  CA: NANP,
+  IN: { min: 10, max: 10 },
+  BR: { min: 10, max: 11, pattern: /^[1-9]{2}(?:9\d{8}|[2-8]\d{7})$/ },
+  ID: { min: 8, max: 12 },
+  NG: { min: 8, max: 10 },
+  GB: { min: 9, max: 10 },
+  MX: { min: 10, max: 10, pattern: /^[1-9]\d{9}$/, trunk: '1' }, // legacy +52 1 mobile prefix
+  AR: { min: 10, max: 11, pattern: /^9?[1-9]\d{9}$/ },
+  CO: { min: 10, max: 10 },
+  CL: { min: 9, max: 9 },
+  PE: { min: 8, max: 9 },
+  VE: { min: 10, max: 10 },
+  ES: { min: 9, max: 9 },
+  PT: { min: 9, max: 9 },
+  FR: { min: 9, max: 9 },
+  DE: { min: 6, max: 13 },
+  IT: { min: 6, max: 11, trunk: '' },
+  SM: { min: 6, max: 10, trunk: '' },
+  VA: { min: 6, max: 10, trunk: '' },
+  NL: { min: 9, max: 9 },
+  BE: { min: 8, max: 9 },
+  IE: { min: 7, max: 9 },
+  RU: { min: 10, max: 10, trunk: '8' },
+  KZ: { min: 10, max: 10, trunk: '8' },
+  TR: { min: 10, max: 10 },
+  SA: { min: 9, max: 9 },
+  AE: { min: 8, max: 9 },
+  EG: { min: 9, max: 10 },
+  ZA: { min: 9, max: 9 },
+  KE: { min: 9, max: 9 },
+  GH: { min: 9, max: 9 },
+  PK: { min: 9, max: 10 },
+  BD: { min: 10, max: 10 },
+  PH: { min: 9, max: 10 },
+  MY: { min: 8, max: 10 },
+  TH: { min: 8, max: 9 },
+  VN: { min: 9, max: 10 },
+  CN: { min: 9, max: 11 },
+  JP: { min: 9, max: 10 },
+  KR: { min: 8, max: 10 },
+  SG: { min: 8, max: 8 },
+  HK: { min: 8, max: 8 },
+  AU: { min: 9, max: 9 },
+  NZ: { min: 8, max: 10 },
+  IL: { min: 8, max: 9 },
+};
+
+const E164_MAX_DIGITS = 15;
+
+// ============================================================
+// Lookup
+// ============================================================
+
+/**
+ * Metadata for a country. NANP territories (+1 264, +1 876…) dial 7 digits after
+ * their 4-digit code; unknown countries get a generic range.
+ */
+export function getPhoneMeta(country: CountryCode): PhoneMeta {
+  const meta = PHONE_METADATA[country.code];
+  if (meta) return meta;
+  if (country.dial.length === 4 && country.dial.startsWith('1')) {
+    return { min: 7, max: 7, pattern: /^[2-9]\d{6}$/, trunk: '1' };
+  }
+  return { min: 6, max: E164_MAX_DIGITS - country.dial.length };
+}
+
+/**
+ * Split international digits into country + national number using the longest matching dial code.
+ * "1264…" resolves to Anguilla, not +1.
+ */
+export function matchDialCode(digits: string): { country: CountryCode; national: string } | null {
+  let best: CountryCode[] = [];
+  for (const c of COUNTRIES) {
+    if (!digits.startsWith(c.dial)) continue;
+    if (best.length === 0 || c.dial.length > best[0].dial.length) best = [c];
+    else if (c.dial.length === best[0].dial.length) best.push(c);
+  }
+  if (best.length === 0) return null;
+
+  const dial = best[0].dial;
+  const national = digits.slice(dial.length);
+  let country = best[0];
+  if (best.length > 1) {
+    // Kazakhstan shares +7 with Russia; its numbers start with 6 or 7
+    const preferred = dial === '7' && /^[67]/.test(national) ? 'KZ' : SHARED_DIAL_DEFAULT[dial];
+    country = best.find((c) => c.code === preferred) ?? best[0];
+  }
+  return { country, national };
+}
+
+// ============================================================
+// Normalization
+// ============================================================
+
+/**
+ * Argentina: domestic mobile format is 0 + area + 15 + subscriber;
+ * internationally that becomes 9 + area + subscriber.
+ */
+function normalizeArgentina(national: string): string {
+  if (national.length !== 12) return national;
+  for (const areaLength of [2, 3, 4]) {
+    if (national.slice(areaLength, areaLength + 2) === '15') {
+      return '9' + national.slice(0, areaLength) + national.slice(areaLength + 2);
+    }
+  }
+  return national;
+}
+
+/**
+ * Strip the national trunk prefix ("07700…" → "7700…", Russian "8 916…" → "916…").
+ * Non-zero trunk prefixes are only stripped when the number is too long with them.
+ */
+export function stripTrunkPrefix(national: string, country: CountryCode): string {
+  const meta = getPhoneMeta(country);
+  const trunk = meta.trunk ?? '0';
+  let result = national;
+
+  if (trunk !== '') result = result.replace(/^0+/, '');
+  if (trunk && trunk !== '0' && result.length > meta.max && result.startsWith(trunk)) {
+    result = result.slice(trunk.length);
+  }
+  if (country.code === 'AR') result = normalizeArgentina(result);
+  return result;
+}
+
+// ============================================================
+// Formatting & Errors
+// ============================================================
+
+export function formatE164(dial: string, national: string): string {
+  return `+${dial}${national}`;
+}
+
+function describeLength(meta: PhoneMeta): string {
+  return meta.min === meta.max ? `${meta.min} digits` : `${meta.min}–${meta.max} digits`;
+}
+
+/** UI message for a parse failure */
+export function phoneErrorMessage(reason: PhoneErrorReason, country?: CountryCode): string {
+  const meta = country ? getPhoneMeta(country) : undefined;
+  const where = country ? ` for ${country.name}` : '';
+  switch (reason) {
+    case 'empty':
+      return 'Please enter a phone number';
+    case 'invalid_characters':
+      return 'Phone number can only contain digits, spaces, dashes, dots, brackets and a leading +';
+    case 'unknown_country':
+      return 'Unknown country code — check the number after the +';
+    case 'too_short':
+      return `Phone number too short${where}${meta ? ` (expected ${describeLength(meta)})` : ''}`;
+    case 'too_long':
+      return `Phone number too long${where}${meta ? ` (expected ${describeLength(meta)})` : ''}`;
+    case 'invalid_pattern':
+      return `This doesn't look like a valid number${where}`;
+  }
+}
+
+function fail(reason: PhoneErrorReason, country?: CountryCode): PhoneParseResult {
+  return { ok: false, reason, message: phoneErrorMessage(reason, country), country };
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse user input into an E.164 number.
+ * "+44 07700 900123", "0044 7700 900123" and "07700 900123" (with GB default) all give +447700900123.
+ */
+export function parsePhone(input: string, defaultCountry?: CountryCode): PhoneParseResult {
+  const raw = input.trim();
+  if (!raw) return fail('empty');
+  if (!/^\+?[\d\s\-.()]+$/.test(raw)) return fail('invalid_characters');
+
+  const digits = raw.replace(/\D/g, '');
+  if (!digits) return fail('empty');
+
+  let country: CountryCode | undefined = defaultCountry;
+  let national = digits;
+
+  if (raw.startsWith('+') || digits.startsWith('00')) {
+    const match = matchDialCode(raw.startsWith('+') ? digits : digits.slice(2));
+    if (!match) return fail('unknown_country');
+    country = match.country;
+    national = match.national;
+  }
+
+  if (!country) return fail('unknown_country');
+
+  national = stripTrunkPrefix(national, country);
+  const meta = getPhoneMeta(country);
+
+  if (!national) return fail('empty', country);
+  if (national.length < meta.min) return fail('too_short', country);
+  if (national.length > meta.max || country.dial.length + national.length > E164_MAX_DIGITS) {
+    return fail('too_long', country);
+  }
+  if (meta.pattern && !meta.pattern.test(national)) return fail('invalid_pattern', country);
+
+  return { ok: true, country, dial: country.dial, national, e164: formatE164(country.dial, national) };
+}
@@ -0,0 +1,264 @@
+// lib/utils/qr-export.ts
+// QR rendering for Link Generator — PNG, vector SVG, colors, contrast, error correction, logo overlay
+// No React imports. PDF export lives in qr-pdf.ts so jsPDF is only loaded on demand.
+
+import QRCode from 'qrcode';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type QRErrorLevel = 'L' | 'M' | 'Q' | 'H';
+
+export type QRLogo =
+  | { type: 'none' }
+  | { type: 'whatsapp' }
+  | { type: 'image'; dataUrl: string };
+
+export interface QRStyle {
+  color: string;
+  background: string;
+  errorLevel: QRErrorLevel;
+  logo: QRLogo;
+}
+
+export interface QRMatrix {
+  size: number;
+  /** Row-major, 1 = dark module */
+  modules: Uint8Array;
+}
+
+export type ContrastLevel = 'good' | 'low' | 'fail';
+
+export interface ContrastCheck {
+  ratio: number;
+  level: ContrastLevel;
+  /** Foreground lighter than background — many scanners can't read inverted codes */
+  inverted: boolean;
+  message: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const QR_ERROR_LEVELS: { value: QRErrorLevel; label: string; recovery: string }[] = [
+  { value: 'L', label: 'Low', recovery: '7%' },
+  { value: 'M', label: 'Medium', recovery: '15%' },
+  { value: 'Q', label: 'Quartile', recovery: '25%' },
+  { value: 'H', label: 'High', recovery: '30%' },
+];
+
+export const DEFAULT_QR_STYLE: QRStyle = {
+  color: '#000000',
+  background: '#FFFFFF',
+  errorLevel: 'M',
+  logo: { type: 'none' },
+};
+
+/** Quiet zone in modules, matching the PNG output */
+export const QR_MARGIN = 2;
+
+/** Logo width as a fraction of the symbol — stays inside level H's 30% recovery */
+export const LOGO_SCALE = 0.22;
+
+const WHATSAPP_GREEN = '#25D366';
+
+// ============================================================
+// Colors & Contrast
+// ============================================================
+
+export function isValidHex(value: string): boolean {
+  return /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+/** "#abc" / "abc" → "#AABBCC"; returns null for anything else */
+export function normalizeHex(value: string): string | null {
+  const hex = value.trim().startsWith('#') ? value.trim() : `#${value.trim()}`;
+  if (!isValidHex(hex)) return null;
+  const digits = hex.length === 4 ? hex.slice(1).split('').map((d) => d + d).join('') : hex.slice(1);
+  return `#${digits.toUpperCase()}`;
+}
+
+function relativeLuminance(hex: string): number {
+  const normalized = normalizeHex(hex) ?? '#000000';
+  const channels = [1, 3, 5].map((i) => parseInt(normalized.slice(i, i + 2), 16) / 255);
+  const [r, g, b] = channels.map((c) => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG contrast ratio, 1–21 */
+export function contrastRatio(a: string, b: string): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Scanners need dark modules on a light background with a clear gap between them.
+ * Below 1.8:1 most phone cameras fail; below 3:1 (WhatsApp green on white is ~2:1)
+ * scanning gets unreliable in poor light.
+ */
+export function checkQRContrast(color: string, background: string): ContrastCheck {
+  const ratio = Math.round(contrastRatio(color, background) * 10) / 10;
+  const inverted = relativeLuminance(color) > relativeLuminance(background);
+  const level: ContrastLevel = ratio < 1.8 ? 'fail' : ratio < 3 || inverted ? 'low' : 'good';
+
+  const message =
+    level === 'fail'
+      ? `Contrast ${ratio}:1 is too low — most phones won't scan this code`
+      : inverted
+        ? `Light code on a dark background — some scanners can't read inverted codes`
+        : level === 'low'
+          ? `Contrast ${ratio}:1 may fail in poor light — use a darker color`
+          : `Contrast ${ratio}:1 — good`;
+
+  return { ratio, level, inverted, message };
+}
+
+/** A logo covers modules, so the code needs maximum redundancy */
+export function effectiveErrorLevel(style: QRStyle): QRErrorLevel {
+  return style.logo.type === 'none' ? style.errorLevel : 'H';
+}
+
+// ============================================================
+// Matrix
+// ============================================================
+
+export function createQRMatrix(text: string, errorLevel: QRErrorLevel): QRMatrix {
+  const qr = QRCode.create(text, { errorCorrectionLevel: errorLevel });
+  return { size: qr.modules.size, modules: qr.modules.data };
+}
+
+/** Horizontal runs of dark modules, so vector output stays compact */
+export function darkRuns(matrix: QRMatrix): { row: number; col: number; length: number }[] {
+  const runs: { row: number; col: number; length: number }[] = [];
+  for (let row = 0; row < matrix.size; row++) {
+    let col = 0;
+    while (col < matrix.size) {
+      if (!matrix.modules[row * matrix.size + col]) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < matrix.size && matrix.modules[row * matrix.size + col]) col++;
+      runs.push({ row, col: start, length: col - start });
+    }
+  }
+  return runs;
+}
+
+// ============================================================
+// WhatsApp Icon
+// ============================================================
+
+/**
+ * WhatsApp-style chat icon as simple shapes in a 0–1 box, so SVG and PDF draw the same thing.
+ * Green disc, white speech-bubble ring with a tail, white handset dot pair.
+ */
+export const WHATSAPP_ICON = {
+  disc: { cx: 0.5, cy: 0.5, r: 0.5, fill: WHATSAPP_GREEN },
+  ring: { cx: 0.5, cy: 0.47, r: 0.29, strokeWidth: 0.065, stroke: '#FFFFFF' },
+  tail: { points: [[0.25, 0.62], [0.2, 0.81], [0.39, 0.75]] as [number, number][], fill: '#FFFFFF' },
+  handset: [
+    { cx: 0.41, cy: 0.39, r: 0.055 },
+    { cx: 0.59, cy: 0.56, r: 0.055 },
+  ],
+};
+
+function whatsappIconSVG(x: number, y: number, size: number): string {
+  const { disc, ring, tail, handset } = WHATSAPP_ICON;
+  const p = (v: number) => +(v * size).toFixed(3);
+  const points = tail.points.map(([px, py]) => `${x + p(px)},${y + p(py)}`).join(' ');
+  return [
+    `<circle cx="${x + p(disc.cx)}" cy="${y + p(disc.cy)}" r="${p(disc.r)}" fill="${disc.fill}"/>`,
+    `<circle cx="${x + p(ring.cx)}" cy="${y + p(ring.cy)}" r="${p(ring.r)}" fill="none" stroke="${ring.stroke}" stroke-width="${p(ring.strokeWidth)}"/>`,
+    `<polygon points="${points}" fill="${tail.fill}"/>`,
+    ...handset.map((h) => `<circle cx="${x + p(h.cx)}" cy="${y + p(h.cy)}" r="${p(h.r)}" fill="#FFFFFF"/>`),
+  ].join('');
+}
+
+/** Logo box (in modules, including quiet zone) centered on the symbol */
+export function logoBox(matrixSize: number): { x: number; y: number; size: number; pad: number } {
+  const total = matrixSize + QR_MARGIN * 2;
+  const size = matrixSize * LOGO_SCALE;
+  const pad = size * 0.12;
+  return { x: (total - size) / 2, y: (total - size) / 2, size, pad };
+}
+
+// ============================================================
+// SVG
+// ============================================================
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Vector SVG of the code. One unit = one module; scales to any print size.
+ */
+export function qrToSVG(text: string, style: QRStyle): string {
+  const matrix = createQRMatrix(text, effectiveErrorLevel(style));
+  const total = matrix.size + QR_MARGIN * 2;
+  const path = darkRuns(matrix)
+    .map((r) => `M${r.col + QR_MARGIN} ${r.row + QR_MARGIN}h${r.length}v1h-${r.length}z`)
+    .join('');
+
+  let logo = '';
+  if (style.logo.type !== 'none') {
+    const box = logoBox(matrix.size);
+    const backing = `<rect x="${box.x - box.pad}" y="${box.y - box.pad}" width="${box.size + box.pad * 2}" height="${box.size + box.pad * 2}" rx="${box.pad}" fill="${style.background}"/>`;
+    const image =
+      style.logo.type === 'whatsapp'
+        ? whatsappIconSVG(box.x, box.y, box.size)
+        : `<image href="${escapeAttr(style.logo.dataUrl)}" x="${box.x}" y="${box.y}" width="${box.size}" height="${box.size}" preserveAspectRatio="xMidYMid meet"/>`;
+    logo = backing + image;
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${style.background}"/>` +
+    `<path d="${path}" fill="${style.color}"/>` +
+    logo +
+    `</svg>`
+  );
+}
+
+// ============================================================
+// PNG
+// ============================================================
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Image failed to load'));
+    img.src = src;
+  });
+}
+
+/**
+ * PNG data URL at the given pixel width. Codes with a logo are rasterized from the SVG
+ * so PNG, SVG and PDF look identical.
+ */
+export async function qrToPNG(text: string, style: QRStyle, width: number): Promise<string> {
+  if (style.logo.type === 'none') {
+    return QRCode.toDataURL(text, {
+      width,
+      margin: QR_MARGIN,
+      errorCorrectionLevel: style.errorLevel,
+      color: { dark: style.color, light: style.background },
+    });
+  }
+
+  const svg = qrToSVG(text, style);
+  const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = width;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(img, 0, 0, width, width);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,152 @@
+// lib/utils/qr-pdf.ts
+// Print-ready vector PDFs for Link Generator — standalone QR code and contact business card
+// Loaded via dynamic import — keeps jsPDF out of the main bundle
+
+import jsPDF from 'jspdf';
+import {
+  createQRMatrix,
+  darkRuns,
+  effectiveErrorLevel,
+  logoBox,
+  QR_MARGIN,
+  WHATSAPP_ICON,
+  type QRStyle,
+} from './qr-export';
+import { normalizeWebsite, type ContactCard } from './contact-card';
+
+export interface QRPDFOptions {
+  /** Printed width of the code including quiet zone, in mm */
+  sizeMm?: number;
+  /** Optional line printed under the code, e.g. the wa.me link */
+  caption?: string;
+}
+
+const PAGE_MARGIN_MM = 10;
+const CAPTION_SPACE_MM = 10;
+
+/** Common business card size (85 × 55 mm) */
+const CARD_WIDTH_MM = 85;
+const CARD_HEIGHT_MM = 55;
+const CARD_PADDING_MM = 5;
+
+function imageFormat(dataUrl: string): string {
+  const match = /^data:image\/(png|jpe?g|webp)/i.exec(dataUrl);
+  return match ? match[1].toUpperCase().replace('JPG', 'JPEG') : 'PNG';
+}
+
+/**
+ * Draw the code as filled rectangles at (x, y), sizeMm wide including quiet zone,
+ * so it stays sharp at any print size.
+ */
+function drawQR(doc: jsPDF, text: string, style: QRStyle, ox: number, oy: number, sizeMm: number) {
+  const matrix = createQRMatrix(text, effectiveErrorLevel(style));
+  const total = matrix.size + QR_MARGIN * 2;
+  const unit = sizeMm / total;
+
+  // Background + modules
+  doc.setFillColor(style.background);
+  doc.rect(ox, oy, sizeMm, sizeMm, 'F');
+  doc.setFillColor(style.color);
+  for (const run of darkRuns(matrix)) {
+    doc.rect(ox + (run.col + QR_MARGIN) * unit, oy + (run.row + QR_MARGIN) * unit, run.length * unit, unit, 'F');
+  }
+
+  // Logo
+  if (style.logo.type !== 'none') {
+    const box = logoBox(matrix.size);
+    const x = ox + box.x * unit;
+    const y = oy + box.y * unit;
+    const size = box.size * unit;
+    const pad = box.pad * unit;
+
+    doc.setFillColor(style.background);
+    doc.roundedRect(x - pad, y - pad, size + pad * 2, size + pad * 2, pad, pad, 'F');
+
+    if (style.logo.type === 'whatsapp') {
+      const { disc, ring, tail, handset } = WHATSAPP_ICON;
+      doc.setFillColor(disc.fill);
+      doc.circle(x + disc.cx * size, y + disc.cy * size, disc.r * size, 'F');
+      doc.setDrawColor(ring.stroke);
+      doc.setLineWidth(ring.strokeWidth * size);
+      doc.circle(x + ring.cx * size, y + ring.cy * size, ring.r * size, 'S');
+      doc.setFillColor(tail.fill);
+      const [[x1, y1], [x2, y2], [x3, y3]] = tail.points;
+      doc.triangle(x + x1 * size, y + y1 * size, x + x2 * size, y + y2 * size, x + x3 * size, y + y3 * size, 'F');
+      for (const h of handset) doc.circle(x + h.cx * size, y + h.cy * size, h.r * size, 'F');
+    } else {
+      doc.addImage(style.logo.dataUrl, imageFormat(style.logo.dataUrl), x, y, size, size);
+    }
+  }
+}
+
+/** First line that fits maxWidth, with "..." when cut */
+function fitLine(doc: jsPDF, text: string, maxWidth: number): string {
+  const lines: string[] = doc.splitTextToSize(text, maxWidth);
+  return lines.length > 1 ? lines[0].slice(0, -3) + '...' : lines[0];
+}
+
+/** One-page PDF sized to the code */
+export function generateQRPDF(text: string, style: QRStyle, options: QRPDFOptions = {}): Blob {
+  const { sizeMm = 60, caption } = options;
+  const pageWidth = sizeMm + PAGE_MARGIN_MM * 2;
+  const pageHeight = pageWidth + (caption ? CAPTION_SPACE_MM : 0);
+  const doc = new jsPDF({ unit: 'mm', format: [pageWidth, pageHeight] });
+
+  const ox = PAGE_MARGIN_MM;
+  const oy = PAGE_MARGIN_MM;
+  drawQR(doc, text, style, ox, oy, sizeMm);
+
+  // Caption
+  if (caption) {
+    doc.setFontSize(8);
+    doc.setTextColor('#4B5563');
+    doc.text(fitLine(doc, caption, sizeMm), pageWidth / 2, oy + sizeMm + 6, { align: 'center' });
+  }
+
+  return doc.output('blob');
+}
+
+/**
+ * 85 × 55 mm business card: contact details on the left, the contact QR on the right.
+ * `payload` is the vCard/MeCard text encoded in the code.
+ */
+export function generateContactCardPDF(card: ContactCard, payload: string, style: QRStyle): Blob {
+  const doc = new jsPDF({ unit: 'mm', format: [CARD_WIDTH_MM, CARD_HEIGHT_MM], orientation: 'landscape' });
+
+  const qrSize = CARD_HEIGHT_MM - CARD_PADDING_MM * 2 - 5;
+  const qrX = CARD_WIDTH_MM - CARD_PADDING_MM - qrSize;
+  drawQR(doc, payload, style, qrX, CARD_PADDING_MM, qrSize);
+
+  doc.setFontSize(6);
+  doc.setTextColor('#6B7280');
+  doc.text('Scan to save & chat', qrX + qrSize / 2, CARD_PADDING_MM + qrSize + 3.5, { align: 'center' });
+
+  const textWidth = qrX - CARD_PADDING_MM * 2;
+  let y = CARD_PADDING_MM + 6;
+
+  doc.setFontSize(13);
+  doc.setTextColor('#111827');
+  doc.text(fitLine(doc, card.name.trim(), textWidth), CARD_PADDING_MM, y);
+  y += 5;
+
+  if (card.org.trim()) {
+    doc.setFontSize(9);
+    doc.setTextColor('#4B5563');
+    doc.text(fitLine(doc, card.org.trim(), textWidth), CARD_PADDING_MM, y);
+  }
+
+  const details = [card.phone, card.email.trim(), normalizeWebsite(card.website).replace(/^https?:\/\//, '')].filter(Boolean);
+  doc.setFontSize(8);
+  doc.setTextColor('#374151');
+  y = CARD_HEIGHT_MM - CARD_PADDING_MM - (details.length - 1) * 4.5;
+  for (const line of details) {
+    doc.text(fitLine(doc, line, textWidth), CARD_PADDING_MM, y);
+    y += 4.5;
+  }
+
+  // WhatsApp accent bar
+  doc.setFillColor(WHATSAPP_ICON.disc.fill);
+  doc.rect(0, 0, CARD_WIDTH_MM, 1.5, 'F');
+
+  return doc.output('blob');
+}
@@ -0,0 +1,152 @@
+// lib/utils/qr-verify.ts
+// Scannability check for Link Generator QR codes — decodes the rendered PNG with jsQR
+// No React imports. Canvas is only touched in verifyQRImage; everything else is pure.
+
+import jsQR from 'jsqr';
+import {
+  checkQRContrast,
+  createQRMatrix,
+  effectiveErrorLevel,
+  loadImage,
+  QR_MARGIN,
+  type QRStyle,
+} from './qr-export';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type QRVerifyStatus = 'pass' | 'warn' | 'fail';
+
+export type QRVerifyReason =
+  | 'ok'
+  | 'mismatch'
+  | 'low_contrast'
+  | 'inverted'
+  | 'too_dense'
+  | 'logo'
+  | 'unreadable';
+
+export interface QRVerification {
+  status: QRVerifyStatus;
+  reason: QRVerifyReason;
+  message: string;
+  /** Decoded payload, null when jsQR found nothing */
+  decoded: string | null;
+  /** QR version 1–40 */
+  version: number;
+  /** Rendered pixels per module */
+  modulePx: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Above this version (57×57 modules) small prints get hard for phone cameras */
+export const DENSE_VERSION = 10;
+
+/** Below this many pixels per module the PNG itself is too coarse to decode reliably */
+export const MIN_MODULE_PX = 3;
+
+// ============================================================
+// Density
+// ============================================================
+
+/** Version and module count for the code that would be rendered for this text */
+export function qrDensity(text: string, style: QRStyle): { version: number; size: number } {
+  const { size } = createQRMatrix(text, effectiveErrorLevel(style));
+  return { version: (size - 17) / 4, size };
+}
+
+// ============================================================
+// Decoding
+// ============================================================
+
+/** Decode raw RGBA pixels. Returns null when no code is found. */
+export function decodeQRPixels(data: Uint8ClampedArray, width: number, height: number): string | null {
+  const result = jsQR(data, width, height);
+  return result ? result.data : null;
+}
+
+// ============================================================
+// Diagnosis
+// ============================================================
+
+/**
+ * Turn a decode result into a pass/warn/fail verdict with the most likely reason.
+ * A code that decodes on screen can still be risky on a phone camera (low contrast,
+ * inverted, dense), so those come back as "warn".
+ */
+export function diagnoseQR(decoded: string | null, expected: string, style: QRStyle, width: number): QRVerification {
+  const contrast = checkQRContrast(style.color, style.background);
+  const { version, size } = qrDensity(expected, style);
+  const modulePx = Math.round((width / (size + QR_MARGIN * 2)) * 10) / 10;
+  const dense = version > DENSE_VERSION || modulePx < MIN_MODULE_PX;
+  const base = { decoded, version, modulePx };
+
+  if (decoded === null) {
+    if (contrast.level === 'fail') {
+      return { ...base, status: 'fail', reason: 'low_contrast', message: `Couldn't decode — contrast ${contrast.ratio}:1 is too low` };
+    }
+    if (contrast.inverted) {
+      return { ...base, status: 'fail', reason: 'inverted', message: `Couldn't decode — use a dark code on a light background` };
+    }
+    if (dense) {
+      return {
+        ...base,
+        status: 'fail',
+        reason: 'too_dense',
+        message: `Couldn't decode — ${size}×${size} modules is too dense at ${width}px. Shorten the message or pick a larger size`,
+      };
+    }
+    if (style.logo.type !== 'none') {
+      return { ...base, status: 'fail', reason: 'logo', message: `Couldn't decode — the logo covers too much of the code` };
+    }
+    return { ...base, status: 'fail', reason: 'unreadable', message: `Couldn't decode this code — try black on white` };
+  }
+
+  if (decoded !== expected) {
+    return { ...base, status: 'fail', reason: 'mismatch', message: `Decoded text doesn't match your link` };
+  }
+
+  if (contrast.level !== 'good') {
+    return contrast.inverted
+      ? { ...base, status: 'warn', reason: 'inverted', message: `Decodes, but some scanner apps can't read light-on-dark codes` }
+      : { ...base, status: 'warn', reason: 'low_contrast', message: `Decodes, but contrast ${contrast.ratio}:1 may fail on phone cameras` };
+  }
+  if (dense) {
+    return {
+      ...base,
+      status: 'warn',
+      reason: 'too_dense',
+      message: `Decodes, but it's dense (version ${version}) — shorten the message for small prints`,
+    };
+  }
+  return { ...base, status: 'pass', reason: 'ok', message: 'Decoded and matches your link' };
+}
+
+// ============================================================
+// Browser
+// ============================================================
+
+/**
+ * Decode a rendered QR data URL at its own pixel width and compare it to the link.
+ * Needs a DOM canvas — tests mock getContext.
+ */
+export async function verifyQRImage(
+  dataUrl: string,
+  expected: string,
+  style: QRStyle,
+  width: number
+): Promise<QRVerification> {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = width;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.drawImage(img, 0, 0, width, width);
+  const { data } = ctx.getImageData(0, 0, width, width);
+  return diagnoseQR(decodeQRPixels(data, width, width), expected, style, width);
+}
@@ -0,0 +1,98 @@
+// lib/utils/random.ts
+// Seeded randomness shared by the greeting remix and the Monte Carlo forecasts
+// No React imports — testable in isolation
+//
+// Everything here is reproducible from a seed string, so shared URLs, tests and
+// re-renders see the same draws on every engine.
+
+// ============================================================
+// Generators
+// ============================================================
+
+/** FNV-1a: a stable 32-bit hash of a string */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and the same on every engine. Returns numbers in [0, 1) */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================
+// Distributions
+// ============================================================
+
+/** Standard normal draw (Box–Muller) */
+export function sampleNormal(rng: () => number): number {
+  const u = 1 - rng(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Log-normal multiplier with median 1: exp(sigma · z) */
+export function sampleLogNormal(rng: () => number, sigma: number): number {
+  return Math.exp(sigma * sampleNormal(rng));
+}
+
+// ============================================================
+// Summaries
+// ============================================================
+
+/** Linear-interpolated percentile (0-100) of an ascending list */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/** P10 / P50 / P90 of a set of draws, rounded to whole followers. Sorts `values` in place */
+export function percentileBand(values: Float64Array): PercentileBand {
+  values.sort();
+  return {
+    p10: Math.round(percentile(values, 10)),
+    p50: Math.round(percentile(values, 50)),
+    p90: Math.round(percentile(values, 90)),
+  };
+}
+
+// ============================================================
+// Simulation Options
+// ============================================================
+
+export interface SimulationOptions {
+  runs?: number; // default SIMULATION_RUNS
+  seed?: string; // default DEFAULT_SIMULATION_SEED
+}
+
+export const SIMULATION_RUNS = 1000;
+export const MAX_SIMULATION_RUNS = 5000;
+export const DEFAULT_SIMULATION_SEED = 'whatsscale';
+
+/** Run count clamped to 1-5000, and a generator for the seed and model */
+export function resolveSimulation(model: string, { runs = SIMULATION_RUNS, seed = DEFAULT_SIMULATION_SEED }: SimulationOptions = {}) {
+  return {
+    runs: Math.min(Math.max(Math.round(runs), 1), MAX_SIMULATION_RUNS),
+    seed,
+    rng: createRng(hashSeed(`${model}:${seed}`)),
+  };
+}
@@ -0,0 +1,113 @@
+// lib/utils/text-stats.ts
+// Text measurement for CharacterCounter — graphemes, words, bytes and WhatsApp limits
+// No React imports — testable in isolation
+
+// ============================================================
+// Types
+// ============================================================
+
+export type WhatsAppLimitId = 'status' | 'channelPost' | 'businessAbout' | 'waLinkText';
+
+export interface WhatsAppLimit {
+  id: WhatsAppLimitId;
+  label: string;
+  max: number;
+  /** What is measured against `max` */
+  measure: 'graphemes' | 'encodedLength';
+}
+
+export interface TextStats {
+  graphemes: number;
+  words: number;
+  utf8Bytes: number;
+  utf16Units: number;
+  /** Length of the text after encodeURIComponent, as it appears in wa.me ?text= */
+  encodedLength: number;
+}
+
+export type LimitLevel = 'ok' | 'warning' | 'over';
+
+export interface LimitUsage {
+  limit: WhatsAppLimit;
+  used: number;
+  ratio: number;
+  level: LimitLevel;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const WHATSAPP_LIMITS: Record<WhatsAppLimitId, WhatsAppLimit> = {
+  status: { id: 'status', label: 'Status text', max: 700, measure: 'graphemes' },
+  channelPost: { id: 'channelPost', label: 'Channel post', max: 4096, measure: 'graphemes' },
+  businessAbout: { id: 'businessAbout', label: 'Business "About"', max: 139, measure: 'graphemes' },
+  // Long wa.me links get cut off by some phones and in-app browsers past ~2K URL chars
+  waLinkText: { id: 'waLinkText', label: 'wa.me link text', max: 2000, measure: 'encodedLength' },
+};
+
+/** Usage ratio at which a limit bar turns amber */
+export const WARNING_RATIO = 0.8;
+
+// ============================================================
+// Counting
+// ============================================================
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+
+/**
+ * Count user-perceived characters — 👨‍👩‍👧 and 🇮🇳 count as one.
+ * Falls back to code points where Intl.Segmenter is unavailable.
+ */
+export function countGraphemes(text: string): number {
+  if (!text) return 0;
+  if (hasSegmenter) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)).length;
+  }
+  return Array.from(text).length;
+}
+
+/**
+ * Count words. Uses word segmentation so scripts without spaces (Thai, CJK) count sensibly.
+ */
+export function countWords(text: string): number {
+  if (!text.trim()) return 0;
+  if (hasSegmenter) {
+    let count = 0;
+    for (const segment of new Intl.Segmenter(undefined, { granularity: 'word' }).segment(text)) {
+      if (segment.isWordLike) count++;
+    }
+    return count;
+  }
+  return text.trim().split(/\s+/).length;
+}
+
+export function countUtf8Bytes(text: string): number {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+}
+
+export function getTextStats(text: string): TextStats {
+  return {
+    graphemes: countGraphemes(text),
+    words: countWords(text),
+    utf8Bytes: countUtf8Bytes(text),
+    utf16Units: text.length,
+    encodedLength: encodeURIComponent(text).length,
+  };
+}
+
+// ============================================================
+// Limits
+// ============================================================
+
+export function getLimitUsage(stats: TextStats, limit: WhatsAppLimit): LimitUsage {
+  const used = limit.measure === 'encodedLength' ? stats.encodedLength : stats.graphemes;
+  const ratio = used / limit.max;
+  const level: LimitLevel = ratio > 1 ? 'over' : ratio >= WARNING_RATIO ? 'warning' : 'ok';
+  return { limit, used, ratio, level };
+}
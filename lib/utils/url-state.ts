@@ -0,0 +1,122 @@
+// lib/utils/url-state.ts
+// Typed query-string schemas for shareable tool state (used by the useUrlState hook)
+// No React imports — testable in isolation
+//
+// Each param parses its raw string or rejects it; numbers are clamped into range rather
+// than rejected, so a hand-edited "?posts=99" still opens with the maximum.
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface UrlParam<T> {
+  default: T;
+  /** Parsed value, or undefined if the raw string is unusable */
+  parse(raw: string): T | undefined;
+  serialize(value: T): string;
+  /** Values equal to the default are left out of the URL */
+  equals?(a: T, b: T): boolean;
+}
+
+/** Param name → param type */
+export type UrlSchema = Record<string, UrlParam<unknown>>;
+
+/** State shape described by a schema: { posts: numberParam(…) } → { posts: number } */
+export type UrlStateOf<T extends UrlSchema> = {
+  [K in keyof T]: T[K] extends UrlParam<infer V> ? V : never;
+};
+
+// ============================================================
+// Param Types
+// ============================================================
+
+export function numberParam(
+  defaultValue: number,
+  { min, max, integer = false }: { min: number; max: number; integer?: boolean }
+): UrlParam<number> {
+  return {
+    default: defaultValue,
+    parse: (raw) => {
+      const num = integer ? parseInt(raw, 10) : parseFloat(raw);
+      if (!Number.isFinite(num)) return undefined;
+      return Math.min(max, Math.max(min, num));
+    },
+    serialize: String,
+  };
+}
+
+export function stringParam(
+  defaultValue: string,
+  { maxLength = 500, pattern }: { maxLength?: number; pattern?: RegExp } = {}
+): UrlParam<string> {
+  return {
+    default: defaultValue,
+    parse: (raw) => {
+      const value = raw.slice(0, maxLength);
+      return pattern && !pattern.test(value) ? undefined : value;
+    },
+    serialize: (value) => value,
+  };
+}
+
+export function enumParam<T extends string>(defaultValue: T, values: readonly T[]): UrlParam<T> {
+  return {
+    default: defaultValue,
+    parse: (raw) => (values as readonly string[]).includes(raw) ? (raw as T) : undefined,
+    serialize: (value) => value,
+  };
+}
+
+/** "1"/"0" in the URL; "true"/"false" are accepted too */
+export function booleanParam(defaultValue: boolean): UrlParam<boolean> {
+  return {
+    default: defaultValue,
+    parse: (raw) => (raw === '1' || raw === 'true' ? true : raw === '0' || raw === 'false' ? false : undefined),
+    serialize: (value) => (value ? '1' : '0'),
+  };
+}
+
+/** Comma-separated list; invalid and repeated items are dropped */
+export function listParam<T>(item: UrlParam<T>, { maxItems = 100 }: { maxItems?: number } = {}): UrlParam<T[]> {
+  return {
+    default: [],
+    parse: (raw) => {
+      const items: T[] = [];
+      for (const part of raw.split(',')) {
+        const value = part.trim() ? item.parse(part.trim()) : undefined;
+        if (value !== undefined && !items.includes(value)) items.push(value);
+      }
+      return items.slice(0, maxItems);
+    },
+    serialize: (values) => values.map(item.serialize).join(','),
+    equals: (a, b) => a.length === b.length && a.every((v, i) => v === b[i]),
+  };
+}
+
+// ============================================================
+// Parse / Serialize
+// ============================================================
+
+/** Only the params present in the URL and valid — missing keys mean "leave as is" */
+export function parseUrlState<T extends UrlSchema>(schema: T, params: Pick<URLSearchParams, 'get'>): Partial<UrlStateOf<T>> {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(schema)) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+    const value = schema[key].parse(raw);
+    if (value !== undefined) values[key] = value;
+  }
+  return values as Partial<UrlStateOf<T>>;
+}
+
+/** Query string without the "?"; defaults are omitted so untouched tools keep a clean URL */
+export function serializeUrlState<T extends UrlSchema>(schema: T, state: UrlStateOf<T>): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(schema)) {
+    const param = schema[key];
+    const value = state[key];
+    const isDefault = param.equals ? param.equals(value, param.default) : value === param.default;
+    if (!isDefault) params.set(key, param.serialize(value));
+  }
+  return params.toString();
+}
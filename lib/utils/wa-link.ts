@@ -0,0 +1,65 @@
+// lib/utils/wa-link.ts
+// wa.me link building + phone cleanup for Link Generator (Tool #1)
+// No React imports — shared by single and bulk modes
+
+import countryCodes from '@/lib/data/country-codes.json';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface CountryCode {
+  code: string;
+  name: string;
+  dial: string;
+  flag: string;
+}
+
+export const COUNTRIES = countryCodes as CountryCode[];
+
+/** Preferred country when several share a dial code */
+export const SHARED_DIAL_DEFAULT: Record<string, string> = {
+  '1': 'US',
+  '7': 'RU',
+  '262': 'RE',
+};
+
+// ============================================================
+// Phone Helpers
+// ============================================================
+
+/** Strip everything but digits, plus leading zeros. Validation lives in phone.ts. */
+export function cleanPhone(raw: string): string {
+  return raw.replace(/[^0-9]/g, '').replace(/^0+/, '');
+}
+
+/**
+ * Resolve a country from an ISO code ("IN"), dial code ("91", "+91") or name ("India").
+ */
+export function findCountry(value: string): CountryCode | undefined {
+  const query = value.trim();
+  if (!query) return undefined;
+
+  const upper = query.toUpperCase();
+  const byCode = COUNTRIES.find((c) => c.code === upper);
+  if (byCode) return byCode;
+
+  const dial = query.replace(/^\+/, '');
+  if (/^\d+$/.test(dial)) {
+    const preferred = SHARED_DIAL_DEFAULT[dial];
+    return COUNTRIES.find((c) => c.dial === dial && (!preferred || c.code === preferred));
+  }
+
+  const lower = query.toLowerCase();
+  return COUNTRIES.find((c) => c.name.toLowerCase() === lower);
+}
+
+// ============================================================
+// Link Building
+// ============================================================
+
+export function buildWaLink(dial: string, cleaned: string, message = ''): string {
+  return message
+    ? `https://wa.me/${dial}${cleaned}?text=${encodeURIComponent(message)}`
+    : `https://wa.me/${dial}${cleaned}`;
+}
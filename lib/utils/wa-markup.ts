@@ -0,0 +1,428 @@
+// lib/utils/wa-markup.ts
+// WhatsApp markup parser/serializer for Message Formatter (Tool #2)
+// No React imports — testable in isolation
+//
+// Supported syntax (same rules as the WhatsApp apps):
+//   *bold*  _italic_  ~strike~  ```monospace```  `inline code`
+//   > quote   - bullet / * bullet   1. numbered
+
+// ============================================================
+// Types
+// ============================================================
+
+export type InlineMarker = 'bold' | 'italic' | 'strike';
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: InlineMarker; children: InlineNode[] }
+  | { type: 'mono'; value: string }
+  | { type: 'code'; value: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] } // one line (may be empty)
+  | { type: 'quote'; lines: InlineNode[][] }
+  | { type: 'bulletList'; marker: '-' | '*'; items: InlineNode[][] }
+  | { type: 'orderedList'; start: number; items: InlineNode[][] }
+  | { type: 'codeBlock'; value: string };
+
+export interface WaDocument {
+  blocks: BlockNode[];
+}
+
+export type FormatStyle = InlineMarker | 'mono' | 'code';
+export type LineStyle = 'quote' | 'bulletList' | 'orderedList';
+
+export interface TextSelection {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const INLINE_MARKERS: Record<FormatStyle, string> = {
+  bold: '*',
+  italic: '_',
+  strike: '~',
+  mono: '```',
+  code: '`',
+};
+
+const MARKER_TYPES: Record<string, InlineMarker> = {
+  '*': 'bold',
+  '_': 'italic',
+  '~': 'strike',
+};
+
+const QUOTE_RE = /^> ?(.*)$/;
+const BULLET_RE = /^([-*]) (.*)$/;
+const ORDERED_RE = /^(\d{1,3})\. (.*)$/;
+const FENCE = '```';
+
+// ============================================================
+// Inline Parsing
+// ============================================================
+
+function isBoundary(ch: string | undefined): boolean {
+  return ch === undefined || /[\s\p{P}\p{S}]/u.test(ch);
+}
+
+function isSpace(ch: string | undefined): boolean {
+  return ch !== undefined && /\s/.test(ch);
+}
+
+function pushText(nodes: InlineNode[], value: string) {
+  if (!value) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.value += value;
+  } else {
+    nodes.push({ type: 'text', value });
+  }
+}
+
+/**
+ * Find the closing position of a `*`, `_` or `~` span opened at `open`.
+ * Closing marker must follow a non-space and precede a boundary.
+ */
+function findClosing(line: string, open: number, marker: string): number {
+  for (let j = open + 2; j < line.length; j++) {
+    if (line[j] !== marker) continue;
+    if (isSpace(line[j - 1])) continue;
+    if (!isBoundary(line[j + 1])) continue;
+    return j;
+  }
+  return -1;
+}
+
+/**
+ * Parse a single line of WhatsApp inline markup.
+ */
+export function parseInline(line: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    pushText(nodes, buffer);
+    buffer = '';
+  };
+
+  while (i < line.length) {
+    const ch = line[i];
+
+    // ```monospace``` (inline)
+    if (line.startsWith(FENCE, i)) {
+      const close = line.indexOf(FENCE, i + 3);
+      if (close > i + 3) {
+        flush();
+        nodes.push({ type: 'mono', value: line.slice(i + 3, close) });
+        i = close + 3;
+        continue;
+      }
+      buffer += FENCE;
+      i += 3;
+      continue;
+    }
+
+    // `inline code`
+    if (ch === '`') {
+      const close = line.indexOf('`', i + 1);
+      if (close > i + 1) {
+        flush();
+        nodes.push({ type: 'code', value: line.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    // *bold* _italic_ ~strike~
+    const markerType = MARKER_TYPES[ch];
+    if (markerType && isBoundary(line[i - 1]) && line[i + 1] !== undefined && !isSpace(line[i + 1]) && line[i + 1] !== ch) {
+      const close = findClosing(line, i, ch);
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: markerType, children: parseInline(line.slice(i + 1, close)) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// ============================================================
+// Block Parsing
+// ============================================================
+
+/**
+ * Parse a full WhatsApp message into a block-level AST.
+ */
+export function parseWaMarkup(text: string): WaDocument {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Multi-line ``` fenced block: opening line is exactly ``` or starts with ``` and has no closing fence
+    if (line.startsWith(FENCE) && line.indexOf(FENCE, 3) === -1) {
+      const closeIndex = lines.findIndex((l, k) => k > i && l.includes(FENCE));
+      if (closeIndex !== -1 && lines[closeIndex].endsWith(FENCE)) {
+        const body = [line.slice(3), ...lines.slice(i + 1, closeIndex), lines[closeIndex].slice(0, -3)];
+        blocks.push({ type: 'codeBlock', value: body.join('\n') });
+        i = closeIndex;
+        continue;
+      }
+    }
+
+    const last = blocks[blocks.length - 1];
+
+    const quote = QUOTE_RE.exec(line);
+    if (quote) {
+      const content = parseInline(quote[1]);
+      if (last && last.type === 'quote') last.lines.push(content);
+      else blocks.push({ type: 'quote', lines: [content] });
+      continue;
+    }
+
+    const bullet = BULLET_RE.exec(line);
+    if (bullet) {
+      const marker = bullet[1] as '-' | '*';
+      const content = parseInline(bullet[2]);
+      if (last && last.type === 'bulletList' && last.marker === marker) last.items.push(content);
+      else blocks.push({ type: 'bulletList', marker, items: [content] });
+      continue;
+    }
+
+    const ordered = ORDERED_RE.exec(line);
+    if (ordered) {
+      const number = parseInt(ordered[1], 10);
+      const content = parseInline(ordered[2]);
+      if (last && last.type === 'orderedList' && number === last.start + last.items.length) {
+        last.items.push(content);
+      } else {
+        blocks.push({ type: 'orderedList', start: number, items: [content] });
+      }
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', children: parseInline(line) });
+  }
+
+  return { blocks };
+}
+
+// ============================================================
+// Serialization
+// ============================================================
+
+export function serializeInline(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'mono':
+          return FENCE + node.value + FENCE;
+        case 'code':
+          return '`' + node.value + '`';
+        default: {
+          const marker = INLINE_MARKERS[node.type];
+          return marker + serializeInline(node.children) + marker;
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Serialize an AST back to WhatsApp markup.
+ * serializeWaMarkup(parseWaMarkup(text)) === text for well-formed input.
+ */
+export function serializeWaMarkup(doc: WaDocument): string {
+  const lines: string[] = [];
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'paragraph':
+        lines.push(serializeInline(block.children));
+        break;
+      case 'quote':
+        for (const line of block.lines) lines.push('> ' + serializeInline(line));
+        break;
+      case 'bulletList':
+        for (const item of block.items) lines.push(block.marker + ' ' + serializeInline(item));
+        break;
+      case 'orderedList':
+        block.items.forEach((item, i) => lines.push(block.start + i + '. ' + serializeInline(item)));
+        break;
+      case 'codeBlock':
+        lines.push(FENCE + block.value + FENCE);
+        break;
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================================
+// Plain Text
+// ============================================================
+
+export function inlineToPlainText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => ('children' in node ? inlineToPlainText(node.children) : node.value))
+    .join('');
+}
+
+/**
+ * Strip all inline markers, keeping list/quote prefixes as written.
+ */
+export function stripWaMarkup(text: string): string {
+  const doc = parseWaMarkup(text);
+  const lines: string[] = [];
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'paragraph':
+        lines.push(inlineToPlainText(block.children));
+        break;
+      case 'quote':
+        for (const line of block.lines) lines.push(inlineToPlainText(line));
+        break;
+      case 'bulletList':
+        for (const item of block.items) lines.push(block.marker + ' ' + inlineToPlainText(item));
+        break;
+      case 'orderedList':
+        block.items.forEach((item, i) => lines.push(block.start + i + '. ' + inlineToPlainText(item)));
+        break;
+      case 'codeBlock':
+        lines.push(block.value);
+        break;
+    }
+  }
+  return lines.join('\n');
+}
+
+// ============================================================
+// Links
+// ============================================================
+
+export type TextSegment =
+  | { type: 'text'; value: string }
+  | { type: 'link'; value: string; href: string };
+
+// http(s)://…, www.… and bare wa.me/… — trailing punctuation stays outside the link
+const LINK_RE = /\b(?:https?:\/\/|www\.|wa\.me\/)[^\s<>]*[^\s<>.,:;!?'")\]]/gi;
+
+/**
+ * Split plain text into text and link segments, the way WhatsApp auto-links URLs.
+ */
+export function splitLinks(value: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of Array.from(value.matchAll(LINK_RE))) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ type: 'text', value: value.slice(last, start) });
+    const url = match[0];
+    segments.push({ type: 'link', value: url, href: /^https?:\/\//i.test(url) ? url : `https://${url}` });
+    last = start + url.length;
+  }
+  if (last < value.length) segments.push({ type: 'text', value: value.slice(last) });
+  return segments;
+}
+
+// ============================================================
+// Editing Helpers (toolbar)
+// ============================================================
+
+/**
+ * Wrap the selection in a style marker, or unwrap it if already wrapped.
+ * Leading/trailing spaces stay outside the markers (WhatsApp ignores `* bold*`).
+ */
+export function toggleInlineStyle(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  style: FormatStyle
+): TextSelection {
+  const marker = INLINE_MARKERS[style];
+  const len = marker.length;
+  const selected = text.slice(selectionStart, selectionEnd);
+
+  // Selection includes markers: *word*
+  if (selected.length >= len * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(len, -len);
+    return {
+      text: text.slice(0, selectionStart) + inner + text.slice(selectionEnd),
+      selectionStart,
+      selectionEnd: selectionStart + inner.length,
+    };
+  }
+
+  // Markers sit just outside the selection: *[word]*
+  if (
+    text.slice(selectionStart - len, selectionStart) === marker &&
+    text.slice(selectionEnd, selectionEnd + len) === marker
+  ) {
+    return {
+      text: text.slice(0, selectionStart - len) + selected + text.slice(selectionEnd + len),
+      selectionStart: selectionStart - len,
+      selectionEnd: selectionEnd - len,
+    };
+  }
+
+  const leading = selected.length - selected.trimStart().length;
+  const trailing = selected.length - selected.trimEnd().length;
+  const core = selected.trim();
+  const wrapped = core ? marker + core + marker : marker + marker;
+  const start = selectionStart + leading;
+
+  return {
+    text: text.slice(0, start) + wrapped + text.slice(selectionEnd - trailing),
+    selectionStart: start + len,
+    selectionEnd: start + len + core.length,
+  };
+}
+
+/**
+ * Toggle a line prefix (quote, bullet, numbered) on every line touched by the selection.
+ * If every selected line already has the prefix, it is removed instead.
+ */
+export function toggleLineStyle(
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  style: LineStyle
+): TextSelection {
+  const blockStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+  const nextBreak = text.indexOf('\n', selectionEnd);
+  const blockEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(blockStart, blockEnd).split('\n');
+
+  const pattern = style === 'quote' ? QUOTE_RE : style === 'bulletList' ? BULLET_RE : ORDERED_RE;
+  const allStyled = lines.every((l) => pattern.test(l));
+
+  const updated = lines.map((line, i) => {
+    if (allStyled) {
+      const match = pattern.exec(line)!;
+      return match[match.length - 1];
+    }
+    const bare = line.replace(QUOTE_RE, '$1').replace(BULLET_RE, '$2').replace(ORDERED_RE, '$2');
+    if (style === 'quote') return '> ' + bare;
+    if (style === 'bulletList') return '- ' + bare;
+    return i + 1 + '. ' + bare;
+  });
+
+  const replaced = updated.join('\n');
+  return {
+    text: text.slice(0, blockStart) + replaced + text.slice(blockEnd),
+    selectionStart: blockStart,
+    selectionEnd: blockStart + replaced.length,
+  };
+}
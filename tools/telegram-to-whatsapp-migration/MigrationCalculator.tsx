@@ -17,10 +17,13 @@ import {
   ReferenceDot,
 } from 'recharts';
 import { useAuth } from '@/lib/AuthContext';
+import { useUrlState } from '@/lib/useUrlState';
+import { numberParam, enumParam } from '@/lib/utils/url-state';
 import {
   getMode,
   calculateReachable,
   calculateTimeline,
+  simulateMigration,
   getStrategy,
   getRisks,
   formatCommaNumber,
@@ -41,8 +44,18 @@ const CHART_COLORS = {
   conservative: '#6B7280',
   expected: '#25D366',
   optimistic: '#2563EB',
+  band: '#86EFAC', // green-300
 };
 
+type ForecastMode = 'scenarios' | 'simulation';
+
+const FORECAST_OPTIONS: { value: ForecastMode; label: string }[] = [
+  { value: 'scenarios', label: 'Scenarios' },
+  { value: 'simulation', label: 'Simulation' },
+];
+
+const formatChance = (p: number) => `${Math.round(p * 100)}%`;
+
 const FREQUENCY_OPTIONS: { value: PostFrequency; label: string }[] = [
   { value: 'daily', label: 'Daily' },
   { value: '2-3x', label: '2-3x per week' },
@@ -50,6 +63,14 @@ const FREQUENCY_OPTIONS: { value: PostFrequency; label: string }[] = [
   { value: 'monthly', label: 'Monthly' },
 ];
 
+// Shareable inputs: ?subscribers=10000&overlap=70&frequency=daily&forecast=simulation
+const URL_SCHEMA = {
+  subscribers: numberParam(1000, { min: 0, max: 10_000_000, integer: true }),
+  overlap: numberParam(85, { min: 10, max: 100, integer: true }),
+  frequency: enumParam<PostFrequency>('2-3x', FREQUENCY_OPTIONS.map((opt) => opt.value)),
+  forecast: enumParam<ForecastMode>('scenarios', FORECAST_OPTIONS.map((opt) => opt.value)),
+};
+
 const RELATED_TOOLS = [
   {
     name: 'Channel Growth Calculator',
@@ -120,10 +141,24 @@ export default function MigrationCalculator() {
   const [tgSubscribers, setTgSubscribers] = useState(1000);
   const [overlapPercent, setOverlapPercent] = useState(85);
   const [postFrequency, setPostFrequency] = useState<PostFrequency>('2-3x');
+  const [forecast, setForecast] = useState<ForecastMode>('scenarios');
   const [hasCalculated, setHasCalculated] = useState(false);
   const [pdfLoading, setPdfLoading] = useState(false);
   const [autoDownloadPDF, setAutoDownloadPDF] = useState(false);
 
+  // ----- URL params: a shared link opens straight to the results -----
+  useUrlState(
+    URL_SCHEMA,
+    { subscribers: tgSubscribers, overlap: overlapPercent, frequency: postFrequency, forecast },
+    ({ subscribers, overlap, frequency, forecast: fc }) => {
+      if (subscribers !== undefined) setTgSubscribers(subscribers);
+      if (overlap !== undefined) setOverlapPercent(overlap);
+      if (frequency) setPostFrequency(frequency);
+      if (fc) setForecast(fc);
+      setHasCalculated(true);
+    }
+  );
+
   // ----- Restore from localStorage after signup redirect -----
   const authLoading = authLoadingInit;
   useEffect(() => {
@@ -167,6 +202,16 @@ export default function MigrationCalculator() {
     [hasCalculated, mode, inputs]
   );
 
+  // Seeded, so the same inputs always draw the same fan
+  const simulation = useMemo(
+    () => (timeline && forecast === 'simulation' ? simulateMigration(inputs) : null),
+    [timeline, forecast, inputs]
+  );
+  const simulationData = useMemo(
+    () => simulation?.weeks.map((w) => ({ week: w.week, band: [w.p10, w.p90], median: w.p50 })) ?? [],
+    [simulation]
+  );
+
   const strategy = useMemo(
     () => (hasCalculated && mode === 'full' ? getStrategy(inputs) : null),
     [hasCalculated, mode, inputs]
@@ -384,10 +429,65 @@ export default function MigrationCalculator() {
               <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
                 <h3 className="mb-1 text-lg font-semibold text-gray-900">Migration Timeline</h3>
                 <p className="mb-4 text-sm text-gray-500">
-                  Projected WhatsApp Channel followers over {timeline.totalWeeks} weeks ({formatCommaNumber(reachable)} reachable from {formatCommaNumber(tgSubscribers)} subscribers at {overlapPercent}% overlap)
+                  Projected WhatsApp Channel followers over {simulation ? simulation.weeks.length : timeline.totalWeeks} weeks ({formatCommaNumber(reachable)} reachable from {formatCommaNumber(tgSubscribers)} subscribers at {overlapPercent}% overlap)
                 </p>
+                <div className="mb-4 flex gap-2" role="radiogroup" aria-label="Forecast type">
+                  {FORECAST_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      role="radio"
+                      aria-checked={forecast === opt.value}
+                      onClick={() => setForecast(opt.value)}
+                      className={`rounded-full border px-3 py-1.5 text-sm transition ${
+                        forecast === opt.value
+                          ? 'border-green-600 bg-green-600 text-white'
+                          : 'border-gray-200 bg-white text-gray-600 hover:border-green-500'
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
                 <div ref={chartRef} className="h-[250px] w-full sm:h-[400px]">
                   <ResponsiveContainer width="100%" height="100%">
+                    {simulation ? (
+                    <AreaChart data={simulationData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis
+                        dataKey="week"
+                        tick={{ fontSize: 12 }}
+                        label={{ value: 'Week', position: 'insideBottom', offset: -2, fontSize: 12 }}
+                      />
+                      <YAxis
+                        tick={{ fontSize: 12 }}
+                        tickFormatter={(v: number) => v >= 1000 ? `${(v / 1000).toFixed(0)}K` : String(v)}
+                      />
+                      <Tooltip
+                        formatter={(value: any, name: any) => [
+                          Array.isArray(value) ? value.map(formatCommaNumber).join(' – ') : formatCommaNumber(value),
+                          name,
+                        ]}
+                        labelFormatter={(label: any) => `Week ${label}`}
+                      />
+                      <Legend />
+                      <Area
+                        type="monotone"
+                        dataKey="band"
+                        stroke="none"
+                        fill={CHART_COLORS.band}
+                        fillOpacity={0.5}
+                        name="P10–P90"
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="median"
+                        stroke={CHART_COLORS.expected}
+                        fill="none"
+                        strokeWidth={2}
+                        name="Median"
+                      />
+                    </AreaChart>
+                    ) : (
                     <AreaChart data={timeline.weeks} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
                       <XAxis
@@ -446,9 +546,23 @@ export default function MigrationCalculator() {
                         />
                       )}
                     </AreaChart>
+                    )}
                   </ResponsiveContainer>
                 </div>
                 {/* Milestone labels */}
+                {simulation ? (
+                <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-500">
+                  <span>🎲 {formatCommaNumber(simulation.runs)} simulated runs</span>
+                  <span>
+                    🎯 50% migrated: {formatChance(simulation.milestones.fiftyPercent.probability)} chance in{' '}
+                    {simulation.weeks.length} weeks
+                  </span>
+                  <span>
+                    ✅ 90% migrated: {formatChance(simulation.milestones.ninetyPercent.probability)} chance in{' '}
+                    {simulation.weeks.length} weeks
+                  </span>
+                </div>
+                ) : (
                 <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-500">
                   <span>📢 Week 1: Announcement bump</span>
                   {timeline.milestonesExpected.fiftyPercent && (
@@ -458,6 +572,7 @@ export default function MigrationCalculator() {
                     <span>✅ Week {timeline.milestonesExpected.ninetyPercent}: 90% migrated</span>
                   )}
                 </div>
+                )}
               </div>
 
               {/* Strategy Cards */}
@@ -3,6 +3,7 @@
 // URL: whatsscale.com/tools/telegram-to-whatsapp-migration
 
 import { Metadata } from 'next';
+import { Suspense } from 'react';
 import MigrationCalculator from './MigrationCalculator';
 
 export const metadata: Metadata = {
@@ -61,7 +62,13 @@ export default function TelegramToWhatsAppMigrationPage() {
         type="application/ld+json"
         dangerouslySetInnerHTML={{ __html: JSON.stringify(faqSchema) }}
       />
-      <MigrationCalculator />
+      <Suspense fallback={
+        <div className="flex items-center justify-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+        </div>
+      }>
+        <MigrationCalculator />
+      </Suspense>
     </>
   );
 }
@@ -0,0 +1,238 @@
+// app/tools/whatsapp-greeting-generator/BulkGreetings.tsx
+// Client component — bulk CSV mode: one personalized greeting + wa.me link per contact
+'use client';
+
+import { useState, useMemo } from 'react';
+import {
+  parseGreetingCSV,
+  generateBulkGreetings,
+  greetingRowsToCSV,
+  buildGreetingChecklist,
+  GREETING_BULK_EXAMPLE,
+  type BulkGreetingRow,
+} from '@/lib/utils/bulk-greetings';
+import { MAX_BULK_ROWS, slugify } from '@/lib/utils/bulk-links';
+import { COUNTRIES } from '@/lib/utils/wa-link';
+import type { GreetingTone, PlaceholderValues } from '@/lib/utils/greeting-templates';
+import type { GreetingLocale } from '@/lib/utils/greeting-locales';
+
+interface BulkGreetingsProps {
+  /** Templates for the selected occasion and language, per tone */
+  templates: Record<GreetingTone, string[]>;
+  /** Tone picked in the tool, for rows without a tone column */
+  defaultTone: GreetingTone;
+  /** Shared placeholder values (sender, company…); names come from the CSV */
+  values: PlaceholderValues;
+  includeEmojis: boolean;
+  /** Chosen language, for {date} formatting */
+  locale: GreetingLocale;
+  occasionLabel: string;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export default function BulkGreetings({
+  templates,
+  defaultTone,
+  values,
+  includeEmojis,
+  locale,
+  occasionLabel,
+}: BulkGreetingsProps) {
+  const [csvText, setCsvText] = useState('');
+  const [defaultDial, setDefaultDial] = useState('91');
+  const [contacts, setContacts] = useState<BulkGreetingRow[] | null>(null);
+
+  // Regenerated from the parsed contacts, so changing tone, language or emojis updates every row
+  const rows = useMemo(
+    () =>
+      contacts &&
+      generateBulkGreetings(contacts, { templates, defaultTone, values, includeEmojis, locale }),
+    [contacts, templates, defaultTone, values, includeEmojis, locale]
+  );
+
+  const readyRows = useMemo(() => (rows ?? []).filter((r) => r.link), [rows]);
+  const errorCount = (rows?.length ?? 0) - readyRows.length;
+  const fileBase = `whatsapp-greetings-${slugify(occasionLabel)}`;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    setContacts(parseGreetingCSV(text, defaultDial));
+  };
+
+  const handleGenerate = () => {
+    setContacts(parseGreetingCSV(csvText, defaultDial));
+  };
+
+  const handleDownloadCSV = () => {
+    if (!rows) return;
+    // BOM so Excel opens non-Latin names and greetings correctly
+    downloadBlob(new Blob(['\uFEFF' + greetingRowsToCSV(rows)], { type: 'text/csv;charset=utf-8' }), `${fileBase}.csv`);
+  };
+
+  const handlePrint = () => {
+    if (!rows) return;
+    const html = buildGreetingChecklist(rows, { title: `${occasionLabel} greetings`, subtitle: 'Tick each one off as you send it' });
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    // Popup blocked: save the checklist instead so it can be opened and printed
+    if (!window.open(url, '_blank')) {
+      downloadBlob(blob, `${fileBase}-checklist.html`);
+      return;
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div>
+      <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="greeting-bulk-csv" className="block text-sm font-medium text-gray-700">
+            Paste contacts <span className="text-gray-400 font-normal">(name, phone, tone, relation)</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => { setCsvText(GREETING_BULK_EXAMPLE); setContacts(null); }}
+            className="text-xs text-primary hover:underline"
+          >
+            Load example
+          </button>
+        </div>
+        <textarea
+          id="greeting-bulk-csv"
+          value={csvText}
+          onChange={(e) => setCsvText(e.target.value)}
+          placeholder={'name,phone,tone,relation\nPriya,9876543210,formal,client'}
+          rows={6}
+          className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:border-primary resize-y"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400 mt-1 mb-4">
+          <span>
+            Tone and relation are optional — blank tone uses {defaultTone}. Add a country column for local numbers
+            from several countries. Up to {MAX_BULK_ROWS} rows.
+          </span>
+          <label className="text-primary cursor-pointer hover:underline">
+            Upload .csv
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="sr-only"
+              aria-label="Upload CSV file"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="greeting-bulk-country" className="block text-sm font-medium text-gray-700 mb-1">
+            Country for numbers without +code
+          </label>
+          <select
+            id="greeting-bulk-country"
+            value={defaultDial}
+            onChange={(e) => setDefaultDial(e.target.value)}
+            className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+          >
+            {COUNTRIES.map((c) => (
+              <option key={c.code} value={c.dial}>
+                {c.flag} {c.name} (+{c.dial})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={!csvText.trim()}
+          className="w-full bg-primary text-white py-3 rounded-lg font-semibold hover:bg-primary-dark transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Create Greetings
+        </button>
+      </div>
+
+      {/* Results */}
+      {rows && (
+        <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{readyRows.length}</span> {readyRows.length === 1 ? 'greeting' : 'greetings'} ready
+              {errorCount > 0 && (
+                <span className="text-red-500">
+                  {' '}· {errorCount} {errorCount === 1 ? 'row has' : 'rows have'} errors
+                </span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDownloadCSV}
+                disabled={rows.length === 0}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Download CSV
+              </button>
+              <button
+                onClick={handlePrint}
+                disabled={readyRows.length === 0}
+                className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Print Checklist
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-2 pr-3 font-medium">Line</th>
+                  <th className="py-2 pr-3 font-medium">Name</th>
+                  <th className="py-2 pr-3 font-medium">Greeting</th>
+                  <th className="py-2 font-medium"><span className="sr-only">Send</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.line} className="border-t border-gray-200 align-top">
+                    <td className="py-2 pr-3 text-gray-400">{row.line}</td>
+                    <td className="py-2 pr-3 text-gray-900">{row.name || '—'}</td>
+                    {row.error ? (
+                      <td colSpan={2} className="py-2 text-red-500 text-xs">{row.error}</td>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-3 text-gray-700 whitespace-pre-wrap" dir="auto">
+                          {row.message}
+                        </td>
+                        <td className="py-2">
+                          <a
+                            href={row.link}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            aria-label={`Send to ${row.name || `line ${row.line}`}`}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-[#25D366] text-white hover:bg-[#1DA851] transition whitespace-nowrap"
+                          >
+                            Send
+                          </a>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,40 +2,67 @@
 // Client component — WhatsApp Greeting Generator tool
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import CopyButton from '@/components/tools/CopyButton';
+import CharacterCounter from '@/components/tools/CharacterCounter';
 import SEOContent from '@/components/tools/SEOContent';
 import ToolCTA from '@/components/tools/ToolCTA';
 import RelatedTools from '@/components/tools/RelatedTools';
 import PrivacyBadge from '@/components/tools/PrivacyBadge';
+import WhatsAppPreview from '@/components/tools/WhatsAppPreview';
+import { useUrlState } from '@/lib/useUrlState';
+import { enumParam, stringParam, booleanParam, serializeUrlState } from '@/lib/utils/url-state';
+import { stripEmojis } from '@/lib/utils/emoji';
+import {
+  personalize,
+  usedPlaceholders,
+  mergeTemplatePacks,
+  customTemplatesFor,
+  findOccasion,
+  loadTemplatePack,
+  saveTemplatePack,
+  EMPTY_TEMPLATE_PACK,
+  PLACEHOLDERS,
+  type GreetingPack,
+  type GreetingOccasion,
+  type GreetingTone as Tone,
+  type PlaceholderKey,
+  type PlaceholderValues,
+} from '@/lib/utils/greeting-templates';
+import {
+  attachTranslations,
+  localizedTemplates,
+  getLocaleInfo,
+  GREETING_LOCALES,
+  DEFAULT_LOCALE,
+  type GreetingLocale,
+  type LocalePack,
+} from '@/lib/utils/greeting-locales';
+import {
+  remixTemplates,
+  hasRemixFragments,
+  newRemixSeed,
+  GREETING_LENGTHS,
+  LENGTH_TARGETS,
+  type FragmentPack,
+  type GreetingLength,
+} from '@/lib/utils/greeting-remix';
 import greetingsData from './greetings.json';
-
-// ============================================================
-// Types
-// ============================================================
-type Tone = 'formal' | 'casual' | 'funny';
-
-interface Occasion {
-  id: string;
-  label: string;
-  emoji: string;
-  templates: Record<Tone, string[]>;
-}
-
-interface Category {
-  id: string;
-  label: string;
-  occasions: Occasion[];
-}
-
-interface GreetingsData {
-  categories: Category[];
-}
+import fragmentData from './fragments.json';
+import hiPack from './locales/hi.json';
+import ptPack from './locales/pt.json';
+import idPack from './locales/id.json';
+import esPack from './locales/es.json';
+import arPack from './locales/ar.json';
+import TemplateEditor from './TemplateEditor';
+import UpcomingOccasions from './UpcomingOccasions';
+import BulkGreetings from './BulkGreetings';
 
 // ============================================================
 // Constants
 // ============================================================
-const data = greetingsData as GreetingsData;
+const data = attachTranslations(greetingsData as GreetingPack, [hiPack, ptPack, idPack, esPack, arPack] as LocalePack[]);
+const fragments = fragmentData as FragmentPack;
 
 const TONES: { id: Tone; label: string; icon: string }[] = [
   { id: 'formal', label: 'Formal', icon: '👔' },
@@ -43,36 +70,66 @@ const TONES: { id: Tone; label: string; icon: string }[] = [
   { id: 'funny', label: 'Funny', icon: '😂' },
 ];
 
+type Mode = 'single' | 'bulk';
+
+const MODES: [Mode, string][] = [
+  ['single', 'Single Greeting'],
+  ['bulk', 'Bulk (CSV)'],
+];
+
+/** 'classic' shows the hand-written templates; the others are remixed from fragments */
+type LengthChoice = 'classic' | GreetingLength;
+
+const LENGTHS: { id: LengthChoice; label: string; hint: string }[] = [
+  { id: 'classic', label: 'Classic', hint: 'Hand-written messages' },
+  ...GREETING_LENGTHS.map((id) => ({ id, label: LENGTH_TARGETS[id].label, hint: LENGTH_TARGETS[id].hint })),
+];
+
 const MESSAGES_PER_PAGE = 3;
 const NAME_MAX_LENGTH = 50;
-const DEFAULT_NAME_FALLBACK = 'friend';
+const PLACEHOLDER_MAX_LENGTH = 80;
+
+// Shareable selection: ?category=festivals&occasion=diwali&tone=formal&lang=hi&name=Priya&emoji=0&len=long&seed=k3x9q1
+const URL_SCHEMA = {
+  category: enumParam(data.categories[0].id, data.categories.map((c) => c.id)),
+  occasion: enumParam(data.categories[0].occasions[0].id, data.categories.flatMap((c) => c.occasions.map((o) => o.id))),
+  tone: enumParam<Tone>('casual', TONES.map((t) => t.id)),
+  lang: enumParam<GreetingLocale>(DEFAULT_LOCALE, GREETING_LOCALES.map((l) => l.code)),
+  name: stringParam('', { maxLength: NAME_MAX_LENGTH }),
+  emoji: booleanParam(true),
+  len: enumParam<LengthChoice>('classic', LENGTHS.map((l) => l.id)),
+  seed: stringParam('', { maxLength: 12, pattern: /^[a-z0-9]*$/ }),
+};
 
 // ============================================================
 // Helpers
 // ============================================================
 
-/** Strip emojis from text */
-function stripEmojis(text: string): string {
-  return text
-    .replace(/[\u{1F600}-\u{1F64F}]/gu, '')
-    .replace(/[\u{1F300}-\u{1F5FF}]/gu, '')
-    .replace(/[\u{1F680}-\u{1F6FF}]/gu, '')
-    .replace(/[\u{1F1E0}-\u{1F1FF}]/gu, '')
-    .replace(/[\u{2600}-\u{26FF}]/gu, '')
-    .replace(/[\u{2700}-\u{27BF}]/gu, '')
-    .replace(/[\u{FE00}-\u{FE0F}]/gu, '')
-    .replace(/[\u{1F900}-\u{1F9FF}]/gu, '')
-    .replace(/[\u{1FA00}-\u{1FA6F}]/gu, '')
-    .replace(/[\u{1FA70}-\u{1FAFF}]/gu, '')
-    .replace(/[\u{200D}]/gu, '')
-    .replace(/\s{2,}/g, ' ')
-    .trim();
+/**
+ * Templates for an occasion and tone: the user's own first, then the bundled ones in the chosen
+ * language. English (and an English fallback) already has the custom templates merged in.
+ */
+function templatesFor(occasion: GreetingOccasion, customPack: GreetingPack, tone: Tone, locale: GreetingLocale): string[] {
+  const localized = localizedTemplates(occasion, tone, locale);
+  return localized.locale === DEFAULT_LOCALE
+    ? occasion.templates[tone] || []
+    : [...customTemplatesFor(customPack, occasion.id, tone), ...localized.templates];
 }
 
-/** Replace {name} placeholder with actual name or fallback */
-function personalize(template: string, name: string): string {
-  const displayName = name.trim() || DEFAULT_NAME_FALLBACK;
-  return template.replace(/\{name\}/g, displayName);
+/** Remixed templates at the chosen length; hand-written ones for 'classic' or occasions without fragments */
+function greetingsFor(
+  occasion: GreetingOccasion,
+  customPack: GreetingPack,
+  tone: Tone,
+  locale: GreetingLocale,
+  length: LengthChoice,
+  seed: string
+): string[] {
+  if (length !== 'classic') {
+    const remixed = remixTemplates(fragments, { occasionId: occasion.id, tone, length, seed });
+    if (remixed.length > 0) return remixed;
+  }
+  return templatesFor(occasion, customPack, tone, locale);
 }
 
 /** Generate WhatsApp deep link with pre-filled message */
@@ -131,9 +188,29 @@ const seoFaqs = [
     question: 'How does \"Send via WhatsApp\" work?',
     answer: 'Clicking \"Send via WhatsApp\" opens WhatsApp with the message pre-filled. You then choose the contact or group you want to send it to. Works on both mobile and desktop.',
   },
+  {
+    question: 'Can I write my own greeting templates?',
+    answer: 'Yes. Under \"My Templates\", write a message for the selected occasion and tone using placeholders like {name}, {sender}, {relation}, {date}, {years} and {company}. The form shows a field for each placeholder your templates use. Templates are saved in your browser, and you can export them as a JSON pack to share with your team or import a pack someone else made.',
+  },
+  {
+    question: 'Can I send greetings to my whole contact list?',
+    answer: 'Yes. Switch to \"Bulk (CSV)\" and paste or upload a CSV with name and phone, plus an optional tone and relation per contact. The tool writes a personalized greeting for each person, rotating through the templates so neighbours don\'t get the same text, and gives each row its own WhatsApp link. Download the results as a CSV or print a checklist to tick off as you send them one by one. Up to 500 contacts at a time.',
+  },
+  {
+    question: 'Can I get reminders before a festival?',
+    answer: 'Yes. Open the \"Upcoming\" tab to see the festivals in the next 90 days with their dates. Tap one to open its greetings, or download the reminders as an .ics file for Google Calendar, Apple Calendar or Outlook. Each reminder links back to that festival\'s greetings. Dates for Diwali, Holi, Eid, Ramadan, Chinese New Year and other lunar festivals come from published calendars and can differ by a day depending on your country.',
+  },
+  {
+    question: 'Are greetings available in other languages?',
+    answer: 'Yes. Use the Language switcher to pick Hindi, Portuguese, Bahasa Indonesia, Spanish or Arabic. Every occasion has formal, casual and funny messages in each language, and Arabic messages are shown right-to-left just as they appear in WhatsApp. If a language doesn\'t cover an occasion yet, the tool shows the English messages and tells you so. The language is saved in the share link too.',
+  },
   {
     question: 'Can I see more message options?',
-    answer: 'Yes. Click \"Show More\" to see the next set of messages. Each occasion has five messages per tone, giving you plenty of variety.',
+    answer: 'Yes. Click \"Show More\" to see the next set of messages. Each occasion has five hand-written messages per tone, and the Length options give you many more.',
+  },
+  {
+    question: 'What do the Short, Standard and Long options do?',
+    answer: 'They compose fresh messages from openings, wishes and closings written for each occasion and tone, up to 30 different messages at a time. Short messages are one or two SMS-style lines, Standard adds a closing, and Long is a heartfelt message of several paragraphs. Tap \"Remix\" for a new set. The remix is saved in the share link, so whoever opens it sees exactly the same messages. Remixed messages are in English only for now.',
   },
 ];
 
@@ -169,30 +246,105 @@ const relatedTools = [
 // ============================================================
 export default function GreetingGenerator() {
   // State
+  const [mode, setMode] = useState<Mode>('single');
   const [activeCategoryId, setActiveCategoryId] = useState(data.categories[0].id);
   const [activeOccasionId, setActiveOccasionId] = useState(data.categories[0].occasions[0].id);
+  const [showUpcoming, setShowUpcoming] = useState(false);
   const [tone, setTone] = useState<Tone>('casual');
+  const [locale, setLocale] = useState<GreetingLocale>(DEFAULT_LOCALE);
   const [name, setName] = useState('');
   const [includeEmojis, setIncludeEmojis] = useState(true);
+  const [messageLength, setMessageLength] = useState<LengthChoice>('classic');
+  const [seed, setSeed] = useState('');
   const [pageIndex, setPageIndex] = useState(0);
+  const [extraValues, setExtraValues] = useState<PlaceholderValues>({});
+  const [customPack, setCustomPack] = useState<GreetingPack>(EMPTY_TEMPLATE_PACK);
+
+  // Load saved custom templates
+  useEffect(() => {
+    setCustomPack(loadTemplatePack(localStorage));
+  }, []);
+
+  const updateCustomPack = (next: GreetingPack) => {
+    setCustomPack(next);
+    saveTemplatePack(localStorage, next);
+  };
+
+  // Bundled greetings with the user's own templates first
+  const templateData = useMemo(() => mergeTemplatePacks(data, customPack), [customPack]);
+
+  // URL params: an occasion must belong to its category, so a lone occasion picks its category
+  useUrlState(
+    URL_SCHEMA,
+    { category: activeCategoryId, occasion: activeOccasionId, tone, lang: locale, name, emoji: includeEmojis, len: messageLength, seed },
+    ({ category, occasion, tone: urlTone, lang, name: urlName, emoji, len, seed: urlSeed }) => {
+      const cat =
+        data.categories.find((c) => c.id === category) ??
+        data.categories.find((c) => c.occasions.some((o) => o.id === occasion));
+      if (cat) {
+        setActiveCategoryId(cat.id);
+        setActiveOccasionId(cat.occasions.find((o) => o.id === occasion)?.id ?? cat.occasions[0].id);
+      }
+      if (urlTone) setTone(urlTone);
+      if (lang) setLocale(lang);
+      if (urlName !== undefined) setName(urlName);
+      if (emoji !== undefined) setIncludeEmojis(emoji);
+      if (len) setMessageLength(len);
+      if (urlSeed !== undefined) setSeed(urlSeed);
+    }
+  );
 
   // Derived
   const activeCategory = useMemo(
-    () => data.categories.find((c) => c.id === activeCategoryId) || data.categories[0],
-    [activeCategoryId]
+    () => templateData.categories.find((c) => c.id === activeCategoryId) || templateData.categories[0],
+    [templateData, activeCategoryId]
   );
 
-  const activeOccasion = useMemo(() => {
-    for (const cat of data.categories) {
-      const found = cat.occasions.find((o) => o.id === activeOccasionId);
-      if (found) return found;
-    }
-    return data.categories[0].occasions[0];
-  }, [activeOccasionId]);
+  const allOccasions = useMemo(() => templateData.categories.flatMap((c) => c.occasions), [templateData]);
+
+  const activeOccasion = useMemo(
+    () => findOccasion(templateData, activeOccasionId) ?? templateData.categories[0].occasions[0],
+    [templateData, activeOccasionId]
+  );
+
+  // Remixed messages replace the hand-written ones, custom templates included
+  const isRemix = messageLength !== 'classic' && hasRemixFragments(fragments, activeOccasion.id, tone);
+
+  // Custom templates lead the list
+  const customTemplates = useMemo(
+    () => customTemplatesFor(customPack, activeOccasion.id, tone),
+    [customPack, activeOccasion, tone]
+  );
+  const customCount = isRemix ? 0 : customTemplates.length;
+
+  // Bundled templates in the chosen language, falling back to English per occasion
+  const localized = useMemo(
+    () => localizedTemplates(activeOccasion, tone, locale),
+    [activeOccasion, tone, locale]
+  );
+  // Fragments are English-only, so remixed messages are always English
+  const localeInfo = getLocaleInfo(isRemix ? DEFAULT_LOCALE : localized.locale);
 
   const allTemplates = useMemo(
-    () => activeOccasion.templates[tone] || [],
-    [activeOccasion, tone]
+    () => greetingsFor(activeOccasion, customPack, tone, locale, messageLength, seed),
+    [activeOccasion, customPack, tone, locale, messageLength, seed]
+  );
+
+  // Bulk rows can pick their own tone, so bulk mode needs every tone's templates
+  const bulkTemplates = useMemo(
+    () =>
+      Object.fromEntries(
+        TONES.map((t) => [t.id, greetingsFor(activeOccasion, customPack, t.id, locale, messageLength, seed)])
+      ) as Record<Tone, string[]>,
+    [activeOccasion, customPack, locale, messageLength, seed]
+  );
+
+  const placeholderValues: PlaceholderValues = useMemo(() => ({ ...extraValues, name }), [extraValues, name]);
+
+  // Fields beyond the name, for the placeholders this occasion's templates use
+  const extraFields = useMemo(
+    () => usedPlaceholders(mode === 'bulk' ? Object.values(bulkTemplates).flat() : allTemplates).filter((key) => key !== 'name'),
+    [mode, bulkTemplates, allTemplates]
   );
 
   const totalPages = Math.ceil(allTemplates.length / MESSAGES_PER_PAGE);
@@ -200,35 +352,75 @@ export default function GreetingGenerator() {
   const visibleMessages = useMemo(() => {
     const start = pageIndex * MESSAGES_PER_PAGE;
     return allTemplates.slice(start, start + MESSAGES_PER_PAGE).map((template) => {
-      let msg = personalize(template, name);
+      let msg = personalize(template, placeholderValues);
       if (!includeEmojis) msg = stripEmojis(msg);
       return msg;
     });
-  }, [allTemplates, pageIndex, name, includeEmojis]);
+  }, [allTemplates, pageIndex, placeholderValues, includeEmojis]);
 
   const hasMore = pageIndex < totalPages - 1;
   const showingAll = totalPages <= 1;
 
   // Handlers
   const handleCategoryChange = useCallback((categoryId: string) => {
+    setShowUpcoming(false);
     setActiveCategoryId(categoryId);
-    const cat = data.categories.find((c) => c.id === categoryId);
+    const cat = templateData.categories.find((c) => c.id === categoryId);
     if (cat && cat.occasions.length > 0) {
       setActiveOccasionId(cat.occasions[0].id);
     }
     setPageIndex(0);
-  }, []);
+  }, [templateData]);
 
   const handleOccasionChange = useCallback((occasionId: string) => {
     setActiveOccasionId(occasionId);
     setPageIndex(0);
   }, []);
 
+  // Picking from "Upcoming" also moves the category, so the URL and the category tab stay in step
+  const handleUpcomingSelect = useCallback((occasionId: string) => {
+    const cat = templateData.categories.find((c) => c.occasions.some((o) => o.id === occasionId));
+    if (cat) setActiveCategoryId(cat.id);
+    setActiveOccasionId(occasionId);
+    setPageIndex(0);
+  }, [templateData]);
+
+  // Reminder links open the generator on the occasion, in the current tone, language and length
+  const linkForOccasion = useCallback((occasionId: string) => {
+    const cat = templateData.categories.find((c) => c.occasions.some((o) => o.id === occasionId));
+    const query = serializeUrlState(URL_SCHEMA, {
+      category: cat?.id ?? URL_SCHEMA.category.default,
+      occasion: occasionId,
+      tone,
+      lang: locale,
+      name: '',
+      emoji: true,
+      len: messageLength,
+      seed,
+    });
+    return `${window.location.origin}${window.location.pathname}?${query}`;
+  }, [templateData, tone, locale, messageLength, seed]);
+
   const handleToneChange = useCallback((newTone: Tone) => {
     setTone(newTone);
     setPageIndex(0);
   }, []);
 
+  const handleLocaleChange = useCallback((code: GreetingLocale) => {
+    setLocale(code);
+    setPageIndex(0);
+  }, []);
+
+  const handleLengthChange = useCallback((length: LengthChoice) => {
+    setMessageLength(length);
+    setPageIndex(0);
+  }, []);
+
+  const handleRemix = useCallback(() => {
+    setSeed(newRemixSeed());
+    setPageIndex(0);
+  }, []);
+
   const handleShowMore = useCallback(() => {
     if (hasMore) {
       setPageIndex((prev) => prev + 1);
@@ -241,6 +433,10 @@ export default function GreetingGenerator() {
     }
   }, []);
 
+  const handlePlaceholderChange = useCallback((key: PlaceholderKey, value: string) => {
+    setExtraValues((prev) => ({ ...prev, [key]: value.slice(0, PLACEHOLDER_MAX_LENGTH) }));
+  }, []);
+
   return (
     <div className="bg-white">
       {/* Hero */}
@@ -258,18 +454,48 @@ export default function GreetingGenerator() {
 
       {/* Tool */}
       <section className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Mode Toggle */}
+        <div className="flex gap-1 mb-4" role="tablist" aria-label="Mode">
+          {MODES.map(([value, label]) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={mode === value}
+              onClick={() => setMode(value)}
+              className={`px-4 py-2 text-sm rounded-lg border transition ${
+                mode === value
+                  ? 'bg-primary text-white border-primary'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
 
           {/* Category Tabs */}
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
             <div className="flex flex-wrap gap-2">
-              {data.categories.map((cat) => (
+              <button
+                onClick={() => setShowUpcoming(true)}
+                className={`px-4 py-2 text-sm rounded-lg border transition ${
+                  showUpcoming
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                }`}
+                aria-label="Upcoming"
+              >
+                📅 Upcoming
+              </button>
+              {templateData.categories.map((cat) => (
                 <button
                   key={cat.id}
                   onClick={() => handleCategoryChange(cat.id)}
                   className={`px-4 py-2 text-sm rounded-lg border transition ${
-                    activeCategoryId === cat.id
+                    activeCategoryId === cat.id && !showUpcoming
                       ? 'bg-primary text-white border-primary'
                       : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
                   }`}
@@ -283,24 +509,35 @@ export default function GreetingGenerator() {
 
           {/* Occasion Pills */}
           <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-2">Occasion</label>
-            <div className="flex flex-wrap gap-2">
-              {activeCategory.occasions.map((occ) => (
-                <button
-                  key={occ.id}
-                  onClick={() => handleOccasionChange(occ.id)}
-                  className={`px-3 py-1.5 text-sm rounded-full border transition flex items-center gap-1.5 ${
-                    activeOccasionId === occ.id
-                      ? 'bg-primary text-white border-primary'
-                      : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
-                  }`}
-                  aria-label={occ.label}
-                >
-                  <span>{occ.emoji}</span>
-                  <span>{occ.label}</span>
-                </button>
-              ))}
-            </div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {showUpcoming ? 'Coming up' : 'Occasion'}
+            </label>
+            {showUpcoming ? (
+              <UpcomingOccasions
+                occasions={allOccasions}
+                activeOccasionId={activeOccasionId}
+                onSelect={handleUpcomingSelect}
+                linkFor={linkForOccasion}
+              />
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {activeCategory.occasions.map((occ) => (
+                  <button
+                    key={occ.id}
+                    onClick={() => handleOccasionChange(occ.id)}
+                    className={`px-3 py-1.5 text-sm rounded-full border transition flex items-center gap-1.5 ${
+                      activeOccasionId === occ.id
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                    }`}
+                    aria-label={occ.label}
+                  >
+                    <span>{occ.emoji}</span>
+                    <span>{occ.label}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Tone Selector */}
@@ -325,24 +562,121 @@ export default function GreetingGenerator() {
             </div>
           </div>
 
-          {/* Name Input */}
+          {/* Language Switcher */}
           <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Recipient Name <span className="text-gray-400 font-normal">(optional)</span>
-            </label>
-            <input
-              type="text"
-              value={name}
-              onChange={(e) => handleNameChange(e.target.value)}
-              placeholder="e.g. Rahul, Sarah, Mom..."
-              maxLength={NAME_MAX_LENGTH}
-              className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
-            />
-            <div className="flex justify-between text-xs text-gray-400 mt-1">
-              <span>{name.length}/{NAME_MAX_LENGTH} characters</span>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Language">
+              {GREETING_LOCALES.map((l) => (
+                <button
+                  key={l.code}
+                  role="radio"
+                  aria-checked={locale === l.code}
+                  onClick={() => handleLocaleChange(l.code)}
+                  lang={l.code}
+                  title={l.englishName}
+                  className={`px-3 py-1.5 text-sm rounded-full border transition ${
+                    locale === l.code
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                  }`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
+            {isRemix && locale !== DEFAULT_LOCALE ? (
+              <p className="text-xs text-gray-500 mt-2" role="status">
+                Remixed greetings are English-only for now — pick Classic for {getLocaleInfo(locale).englishName}.
+              </p>
+            ) : localized.fallback && !isRemix ? (
+              <p className="text-xs text-gray-500 mt-2" role="status">
+                No {getLocaleInfo(locale).englishName} greetings for {activeOccasion.label} yet — showing English.
+              </p>
+            ) : null}
+          </div>
+
+          {/* Length Selector */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Length</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Length">
+                {LENGTHS.map((l) => (
+                  <button
+                    key={l.id}
+                    role="radio"
+                    aria-checked={messageLength === l.id}
+                    onClick={() => handleLengthChange(l.id)}
+                    title={l.hint}
+                    className={`px-3 py-1.5 text-sm rounded-full border transition ${
+                      messageLength === l.id
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-primary'
+                    }`}
+                  >
+                    {l.label}
+                  </button>
+                ))}
+              </div>
+              {isRemix && (
+                <button
+                  onClick={handleRemix}
+                  className="px-3 py-1.5 text-sm text-primary hover:underline"
+                  aria-label="Remix messages"
+                >
+                  🔀 Remix
+                </button>
+              )}
             </div>
+            {messageLength !== 'classic' && !isRemix && (
+              <p className="text-xs text-gray-500 mt-2" role="status">
+                No remix fragments for {activeOccasion.label} — showing the classic messages.
+              </p>
+            )}
           </div>
 
+          {/* Name Input — bulk mode takes names from the CSV */}
+          {mode === 'single' && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Recipient Name <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                placeholder="e.g. Rahul, Sarah, Mom..."
+                maxLength={NAME_MAX_LENGTH}
+                className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+              />
+              <CharacterCounter text={name} max={NAME_MAX_LENGTH} className="mt-1" />
+            </div>
+          )}
+
+          {/* Placeholder Fields */}
+          {extraFields.length > 0 && (
+            <div className="mb-4 grid sm:grid-cols-2 gap-3">
+              {extraFields.map((key) => {
+                const field = PLACEHOLDERS.find((p) => p.key === key)!;
+                return (
+                  <div key={key}>
+                    <label htmlFor={`placeholder-${key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label} <span className="text-gray-400 font-normal font-mono">{`{${key}}`}</span>
+                    </label>
+                    <input
+                      id={`placeholder-${key}`}
+                      type={field.input}
+                      value={extraValues[key] ?? ''}
+                      onChange={(e) => handlePlaceholderChange(key, e.target.value)}
+                      placeholder={field.hint}
+                      min={field.input === 'number' ? 1 : undefined}
+                      className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Emoji Toggle */}
           <div className="mb-6 flex items-center gap-3">
             <label className="relative inline-flex items-center cursor-pointer">
@@ -359,51 +693,86 @@ export default function GreetingGenerator() {
           </div>
         </div>
 
-        {/* Message Cards */}
-        <div className="mt-6 space-y-4">
-          {visibleMessages.map((msg, i) => (
-            <div
-              key={`${activeOccasionId}-${tone}-${pageIndex}-${i}`}
-              className="bg-gray-50 border border-gray-200 rounded-xl p-5"
-            >
-              {/* Message text in WhatsApp-style bubble */}
-              <div className="bg-[#E7FFDB] rounded-2xl rounded-tr-sm p-4 mb-4 shadow-sm">
-                <p className="text-sm text-gray-900 leading-relaxed whitespace-pre-wrap">
-                  {msg}
-                </p>
-              </div>
+        {mode === 'bulk' ? (
+          <div className="mt-6">
+            <BulkGreetings
+              templates={bulkTemplates}
+              defaultTone={tone}
+              values={extraValues}
+              includeEmojis={includeEmojis}
+              locale={locale}
+              occasionLabel={activeOccasion.label}
+            />
+          </div>
+        ) : (
+          <>
+            {/* Message Cards */}
+            <div className="mt-6 space-y-4">
+              {visibleMessages.map((msg, i) => {
+                const isCustom = pageIndex * MESSAGES_PER_PAGE + i < customCount;
+                return (
+                  <div
+                    key={`${activeOccasionId}-${tone}-${messageLength}-${seed}-${pageIndex}-${i}`}
+                    className="bg-gray-50 border border-gray-200 rounded-xl p-5"
+                  >
+                    {isCustom && (
+                      <span className="inline-block mb-2 px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary">
+                        Your template
+                      </span>
+                    )}
+                    {/* Message text in WhatsApp-style bubble; custom templates may be in any language */}
+                    <WhatsAppPreview
+                      text={msg}
+                      dir={isCustom ? 'auto' : localeInfo.dir}
+                      lang={isCustom ? undefined : localeInfo.code}
+                      className="mb-2"
+                    />
+                    <CharacterCounter text={msg} limits={['status', 'waLinkText']} className="mb-4" />
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-3">
+                      <CopyButton text={msg} label="Copy" />
+                      <a
+                        href={getWhatsAppLink(msg)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-4 py-2 rounded-lg font-medium text-sm bg-[#25D366] text-white hover:bg-[#1DA851] transition"
+                      >
+                        Send via WhatsApp
+                      </a>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
 
-              {/* Actions */}
-              <div className="flex items-center gap-3">
-                <CopyButton text={msg} label="Copy" />
-                <a
-                  href={getWhatsAppLink(msg)}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="px-4 py-2 rounded-lg font-medium text-sm bg-[#25D366] text-white hover:bg-[#1DA851] transition"
+            {/* Show More / Status */}
+            <div className="mt-4 text-center">
+              {hasMore ? (
+                <button
+                  onClick={handleShowMore}
+                  className="px-6 py-2.5 text-sm font-medium text-primary border border-primary rounded-lg hover:bg-primary hover:text-white transition"
                 >
-                  Send via WhatsApp
-                </a>
-              </div>
+                  Show More Messages
+                </button>
+              ) : !showingAll ? (
+                <p className="text-sm text-gray-400">
+                  Showing all {allTemplates.length} messages
+                </p>
+              ) : null}
             </div>
-          ))}
-        </div>
-
-        {/* Show More / Status */}
-        <div className="mt-4 text-center">
-          {hasMore ? (
-            <button
-              onClick={handleShowMore}
-              className="px-6 py-2.5 text-sm font-medium text-primary border border-primary rounded-lg hover:bg-primary hover:text-white transition"
-            >
-              Show More Messages
-            </button>
-          ) : !showingAll ? (
-            <p className="text-sm text-gray-400">
-              Showing all {allTemplates.length} messages
-            </p>
-          ) : null}
-        </div>
+          </>
+        )}
+
+        {/* Custom Templates */}
+        <TemplateEditor
+          pack={customPack}
+          onChange={updateCustomPack}
+          base={data}
+          target={{ categoryId: activeCategory.id, occasionId: activeOccasion.id, tone }}
+          targetLabel={`${activeOccasion.label} · ${TONES.find((t) => t.id === tone)?.label}`}
+          values={placeholderValues}
+        />
       </section>
 
       {/* CTA */}
@@ -0,0 +1,228 @@
+// app/tools/whatsapp-greeting-generator/TemplateEditor.tsx
+// Client component — user-authored greeting templates with placeholders, JSON pack import/export
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import {
+  addCustomTemplate,
+  updateCustomTemplate,
+  removeCustomTemplate,
+  customTemplatesFor,
+  countTemplates,
+  exportTemplatePack,
+  importTemplatePack,
+  personalize,
+  validateTemplate,
+  PLACEHOLDERS,
+  TEMPLATE_MAX_LENGTH,
+  type GreetingPack,
+  type PlaceholderValues,
+  type TemplateTarget,
+} from '@/lib/utils/greeting-templates';
+
+interface TemplateEditorProps {
+  /** Custom templates only */
+  pack: GreetingPack;
+  onChange: (pack: GreetingPack) => void;
+  /** Bundled data — supplies category/occasion labels for new entries */
+  base: GreetingPack;
+  target: TemplateTarget;
+  /** e.g. "Birthday · Casual" */
+  targetLabel: string;
+  /** Current form values, for the live preview */
+  values: PlaceholderValues;
+}
+
+export default function TemplateEditor({ pack, onChange, base, target, targetLabel, values }: TemplateEditorProps) {
+  const [draft, setDraft] = useState('');
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // An edit index only means something for the occasion + tone it came from
+  useEffect(() => setEditingIndex(null), [target.occasionId, target.tone]);
+
+  const templates = customTemplatesFor(pack, target.occasionId, target.tone);
+  const total = countTemplates(pack);
+
+  const resetDraft = () => {
+    setDraft('');
+    setEditingIndex(null);
+    setError('');
+  };
+
+  // Insert at the cursor, or at the end if the field hasn't been focused
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? draft.length;
+    const end = el?.selectionEnd ?? draft.length;
+    setDraft(draft.slice(0, start) + token + draft.slice(end));
+    setError('');
+  };
+
+  const handleSave = () => {
+    const problem = validateTemplate(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange(
+      editingIndex === null
+        ? addCustomTemplate(pack, base, target, draft)
+        : updateCustomTemplate(pack, base, target, editingIndex, draft)
+    );
+    resetDraft();
+  };
+
+  const handleEdit = (index: number) => {
+    setDraft(templates[index]);
+    setEditingIndex(index);
+    setError('');
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(removeCustomTemplate(pack, base, target, index));
+    if (editingIndex === index) resetDraft();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplatePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'whatsapp-greeting-templates.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const result = importTemplatePack(await file.text(), pack);
+    if (!result.ok) {
+      setImportStatus({ ok: false, text: result.error });
+      return;
+    }
+    onChange(result.pack);
+    const skipped = result.skipped > 0 ? `, skipped ${result.skipped}` : '';
+    setImportStatus({ ok: true, text: `Imported ${result.added} template${result.added === 1 ? '' : 's'}${skipped}` });
+  };
+
+  return (
+    <div className="mt-8 bg-gray-50 border border-gray-200 rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-1">
+        <h2 className="text-lg font-semibold text-gray-900">My Templates</h2>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExport}
+            disabled={total === 0}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export JSON
+          </button>
+          <label className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition cursor-pointer">
+            Import JSON
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="sr-only"
+              aria-label="Import template pack"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Saved in this browser only. Your templates for {targetLabel} are shown first. Packs use the same
+        category / occasion / tone layout as the built-in greetings.
+      </p>
+
+      {importStatus && (
+        <p role="status" className={`text-sm mb-3 ${importStatus.ok ? 'text-primary' : 'text-red-500'}`}>
+          {importStatus.text}
+        </p>
+      )}
+
+      {templates.length > 0 && (
+        <ul className="divide-y divide-gray-200 mb-4">
+          {templates.map((template, i) => (
+            <li key={`${i}-${template}`} className="py-2 flex items-start gap-3">
+              <p className="flex-1 text-sm text-gray-700 whitespace-pre-wrap break-words">{template}</p>
+              <div className="flex gap-1 text-xs shrink-0">
+                <button
+                  onClick={() => handleEdit(i)}
+                  aria-label={`Edit template ${i + 1}`}
+                  className="px-2 py-1 text-gray-500 hover:text-primary"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(i)}
+                  aria-label={`Delete template ${i + 1}`}
+                  className="px-2 text-gray-400 hover:text-red-500"
+                >
+                  &times;
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label htmlFor="template-draft" className="block text-sm font-medium text-gray-700 mb-1">
+        {editingIndex === null ? `New template for ${targetLabel}` : `Edit template ${editingIndex + 1}`}
+      </label>
+      <div className="flex flex-wrap gap-1 mb-2" aria-label="Insert placeholder">
+        {PLACEHOLDERS.map((p) => (
+          <button
+            key={p.key}
+            type="button"
+            onClick={() => insertPlaceholder(p.key)}
+            title={p.label}
+            className="px-2 py-1 text-xs font-mono bg-white border border-gray-200 rounded hover:border-primary transition"
+          >
+            {`{${p.key}}`}
+          </button>
+        ))}
+      </div>
+      <textarea
+        id="template-draft"
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => { setDraft(e.target.value); setError(''); }}
+        placeholder="Happy {years}th work anniversary, {name}! Everyone at {company} is lucky to have you. — {sender}"
+        rows={3}
+        maxLength={TEMPLATE_MAX_LENGTH}
+        className={`w-full px-3 py-2.5 border rounded-lg text-sm focus:outline-none focus:border-primary resize-none ${
+          error ? 'border-red-400' : 'border-gray-300'
+        }`}
+      />
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+      {draft.trim() && !error && (
+        <p className="text-xs text-gray-500 mt-1" data-testid="template-preview">
+          Preview: {personalize(draft, values)}
+        </p>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary-dark transition"
+        >
+          {editingIndex === null ? 'Save Template' : 'Update Template'}
+        </button>
+        {(editingIndex !== null || draft) && (
+          <button onClick={resetDraft} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
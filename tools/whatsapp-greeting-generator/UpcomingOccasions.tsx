@@ -0,0 +1,123 @@
+// app/tools/whatsapp-greeting-generator/UpcomingOccasions.tsx
+// Client component — "Upcoming" tab: festivals in the next 90 days and .ics reminder export
+'use client';
+
+import { useState, useMemo } from 'react';
+import {
+  upcomingOccasions,
+  localIsoDate,
+  formatDaysAway,
+  buildIcs,
+  OCCASION_DATES,
+  REMINDER_OPTIONS,
+  REMINDER_WINDOW_DAYS,
+  UPCOMING_WINDOW_DAYS,
+  type ReminderEvent,
+} from '@/lib/utils/greeting-calendar';
+import type { GreetingOccasion } from '@/lib/utils/greeting-templates';
+
+interface UpcomingOccasionsProps {
+  occasions: GreetingOccasion[];
+  activeOccasionId: string;
+  onSelect: (occasionId: string) => void;
+  /** Generator link for an occasion, written into each reminder */
+  linkFor: (occasionId: string) => string;
+}
+
+/** "Sun, Nov 8" — the date is a calendar day, so format it in UTC to avoid shifting it */
+function formatDay(iso: string): string {
+  return new Date(`${iso}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export default function UpcomingOccasions({ occasions, activeOccasionId, onSelect, linkFor }: UpcomingOccasionsProps) {
+  // Only mounted once the tab is opened, so reading the clock here can't cause a hydration mismatch
+  const [today] = useState(() => localIsoDate(new Date()));
+  const [remindDaysBefore, setRemindDaysBefore] = useState<number>(1);
+
+  const ids = useMemo(() => occasions.map((o) => o.id), [occasions]);
+  const upcoming = useMemo(() => upcomingOccasions(ids, today), [ids, today]);
+
+  const handleDownload = () => {
+    const events: ReminderEvent[] = upcomingOccasions(ids, today, REMINDER_WINDOW_DAYS).map(({ occasionId, date }) => {
+      const occasion = occasions.find((o) => o.id === occasionId)!;
+      return { occasionId, title: `${occasion.emoji} ${occasion.label}`, date, url: linkFor(occasionId) };
+    });
+    const blob = new Blob([buildIcs(events, { remindDaysBefore, now: new Date() })], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'whatsapp-greeting-reminders.ics';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500">No festivals in the next {UPCOMING_WINDOW_DAYS} days.</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Upcoming occasions">
+          {upcoming.map(({ occasionId, date, daysAway }) => {
+            const occasion = occasions.find((o) => o.id === occasionId)!;
+            const note = OCCASION_DATES[occasionId]?.note;
+            return (
+              <li key={occasionId}>
+                <button
+                  onClick={() => onSelect(occasionId)}
+                  aria-label={occasion.label}
+                  aria-pressed={activeOccasionId === occasionId}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm rounded-lg border transition ${
+                    activeOccasionId === occasionId
+                      ? 'bg-primary/10 border-primary'
+                      : 'bg-white border-gray-200 hover:border-primary'
+                  }`}
+                >
+                  <span className="text-lg">{occasion.emoji}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium text-gray-900">{occasion.label}</span>
+                    {note && <span className="block text-xs text-gray-400 truncate">{note}</span>}
+                  </span>
+                  <span className="text-right shrink-0">
+                    <span className="block text-gray-700">{formatDay(date)}</span>
+                    <span className="block text-xs text-primary">{formatDaysAway(daysAway)}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <label htmlFor="reminder-offset" className="text-sm text-gray-600">Remind me</label>
+        <select
+          id="reminder-offset"
+          value={remindDaysBefore}
+          onChange={(e) => setRemindDaysBefore(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-primary"
+        >
+          {REMINDER_OPTIONS.map((o) => (
+            <option key={o.days} value={o.days}>{o.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDownload}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:border-primary transition"
+        >
+          Download reminders (.ics)
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Adds every festival in the next 12 months to Google Calendar, Apple Calendar or Outlook. Lunar festival
+        dates follow published calendars and can move by a day depending on where you are.
+      </p>
+    </div>
+  );
+}
@@ -3,11 +3,12 @@
 // URL: whatsscale.com/tools/whatsapp-greeting-generator
 
 import { Metadata } from 'next';
+import { Suspense } from 'react';
 import GreetingGenerator from './GreetingGenerator';
 
 export const metadata: Metadata = {
   title: 'Free WhatsApp Greeting Generator — Birthday, Diwali, Eid & More | WhatsScale',
-  description: 'Generate ready-to-send WhatsApp greetings for birthdays, festivals, weddings, and professional occasions. 30 occasions, 3 tones, personalized with names. Free, no signup.',
+  description: 'Generate ready-to-send WhatsApp greetings for birthdays, festivals, weddings, and professional occasions. 30 occasions, 3 tones, 6 languages including Hindi, Spanish and Arabic, personalized with names. Free, no signup.',
   keywords: 'whatsapp greeting generator, whatsapp birthday wishes, happy diwali whatsapp message, whatsapp festival greetings, whatsapp wishes generator, eid mubarak whatsapp, christmas whatsapp message',
   openGraph: {
     title: 'Free WhatsApp Greeting Generator — Birthday, Diwali, Eid & More | WhatsScale',
@@ -17,5 +18,13 @@ export const metadata: Metadata = {
 };
 
 export default function WhatsAppGreetingGeneratorPage() {
-  return <GreetingGenerator />;
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <GreetingGenerator />
+    </Suspense>
+  );
 }